@@ -0,0 +1,76 @@
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../lib/base-command.js'
+import {getClient} from '../lib/client.js'
+import {handleError} from '../lib/errors.js'
+import {applyCacheFlags, cacheFlags} from '../lib/cache.js'
+import {bulkFlags, createProgressReporter} from '../lib/bulk.js'
+import {isDryRun, printDryRun} from '../lib/dry-run.js'
+import {readInputFile} from '../lib/input-file.js'
+import {executePlan, getOperationLabel, orderPlan, parsePlan} from '../lib/plan.js'
+import {startUndoOperation} from '../lib/undo.js'
+
+export default class Apply extends BaseCommand {
+  static override description = 'Apply a plan of issue, comment and relation operations from a JSON or YAML file'
+
+  static override examples = [
+    '<%= config.bin %> apply -f plan.yaml',
+    '<%= config.bin %> apply -f plan.json --dry-run',
+    'cat plan.yaml | <%= config.bin %> apply -f -',
+  ]
+
+  static override flags = {
+    file: Flags.string({
+      char: 'f',
+      description: 'Plan file (.json, .yaml or .yml), or - to read from stdin',
+      required: true,
+    }),
+    stream: bulkFlags.stream,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(Apply)
+      applyCacheFlags(flags)
+
+      const operations = parsePlan(readInputFile(flags.file))
+      // Validates refs before anything is sent
+      orderPlan(operations)
+
+      const client = getClient()
+
+      if (isDryRun()) {
+        const {prepared, errors} = await executePlan(client, operations, {dryRun: true})
+        printDryRun(prepared, errors)
+        return
+      }
+
+      const undo = startUndoOperation(this.id ?? 'apply')
+      const progress = createProgressReporter(operations.length, {stream: flags.stream})
+      const {results} = await executePlan(client, operations, {
+        dryRun: false,
+        undo,
+        onResult: (result) =>
+          progress.item(result.index, {
+            identifier: getOperationLabel(operations[result.index], result.index),
+            success: result.success,
+            ...(result.error && {error: result.error}),
+          }),
+      })
+
+      const failed = results.filter((result) => !result.success)
+      const updated = results.some((result) => result.success && result.type === 'issue.update')
+
+      progress.summary({
+        totalRequested: results.length,
+        successCount: results.length - failed.length,
+        failedCount: failed.length,
+        results,
+        undoId: updated ? undo.id : undefined,
+      })
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print, printItem} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {attachmentFlags, createAttachment, parseAttachmentMetadata} from '../../lib/attachments.js'
+import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import type {LinearDocument} from '@linear/sdk'
+
+export default class AttachmentsAdd extends BaseCommand {
+  static override description = 'Link a URL (PR, build log, dashboard) to an issue as an attachment'
+
+  static override examples = [
+    '<%= config.bin %> attachments add ENG-123 --url https://github.com/org/repo/pull/42 --title "PR #42"',
+    '<%= config.bin %> attachments add ENG-123 --url "$BUILD_URL" --title "Build 1234" --subtitle "Failed" --metadata \'{"status":"failed","duration":312}\'',
+  ]
+
+  static override args = {
+    issue: Args.string({
+      description: 'Issue ID or identifier (e.g., ENG-123)',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: ['json', 'table', 'plain'],
+      default: 'json',
+    }),
+    url: Flags.string({
+      char: 'u',
+      description: 'URL to attach (an existing attachment with the same URL is updated)',
+      required: true,
+    }),
+    title: Flags.string({
+      char: 't',
+      description: 'Attachment title',
+      required: true,
+    }),
+    ...attachmentFlags,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(AttachmentsAdd)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const metadata = flags.metadata ? parseAttachmentMetadata(flags.metadata) : undefined
+
+      const input: LinearDocument.AttachmentCreateInput = {
+        issueId: await resolveIssueId(client, args.issue),
+        url: flags.url,
+        title: flags.title,
+      }
+      if (flags.subtitle) input.subtitle = flags.subtitle
+      if (metadata) input.metadata = metadata
+      if (flags['icon-url']) input.iconUrl = flags['icon-url']
+
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: 'attachmentCreate',
+            variables: {input},
+            target: {entity: 'issue', id: input.issueId, identifier: args.issue},
+          },
+        ])
+        return
+      }
+
+      const attachment = await createAttachment(client, input)
+
+      if (format === 'json') {
+        print(success({...attachment, issueId: input.issueId}))
+      } else if (format === 'table') {
+        printItem(
+          {
+            id: attachment.id,
+            issue: args.issue,
+            title: attachment.title,
+            url: attachment.url,
+            createdAt: attachment.createdAt,
+          } as Record<string, unknown>,
+          format,
+        )
+      } else {
+        console.log(attachment.id)
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print} from '../../lib/output.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+
+export default class AttachmentsDelete extends BaseCommand {
+  static override description = 'Delete an attachment'
+
+  static override examples = ['<%= config.bin %> attachments delete ATTACHMENT_ID']
+
+  static override args = {
+    id: Args.string({
+      description: 'Attachment ID',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: ['json', 'table', 'plain'],
+      default: 'json',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(AttachmentsDelete)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      if (isDryRun()) {
+        const attachment = await client.attachment(args.id)
+        printDryRun([
+          {
+            mutation: 'attachmentDelete',
+            variables: {id: attachment.id},
+            target: {entity: 'attachment', id: attachment.id, name: attachment.title},
+          },
+        ])
+        return
+      }
+
+      const payload = await client.deleteAttachment(args.id)
+
+      if (!payload.success) {
+        throw new CliError(ErrorCodes.API_ERROR, 'Failed to delete attachment')
+      }
+
+      const data = {
+        id: args.id,
+        deleted: true,
+      }
+
+      if (format === 'json') {
+        print(success(data))
+      } else if (format === 'table') {
+        console.log(`Attachment ${args.id} deleted successfully`)
+      } else {
+        console.log(args.id)
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
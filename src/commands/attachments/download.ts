@@ -0,0 +1,141 @@
+import {Args, Flags} from '@oclif/core'
+import {mkdirSync, writeFileSync} from 'node:fs'
+import {join, resolve} from 'node:path'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getAuthorizationHeader, getClient} from '../../lib/client.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {paginate} from '../../lib/pagination.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {bulkFlags, createProgressReporter, DEFAULT_CONCURRENCY, mapWithConcurrency} from '../../lib/bulk.js'
+import {
+  claimFileName,
+  collectIssueAssets,
+  downloadAsset,
+  getTakenFileNames,
+  needsAuthorization,
+  toAttachmentData,
+  type AssetSource,
+  type DownloadedAsset,
+} from '../../lib/attachments.js'
+
+const MANIFEST_FILE = 'manifest.json'
+
+export default class AttachmentsDownload extends BaseCommand {
+  static override description =
+    'Download the files uploaded to an issue (attachments and assets linked from the description and comments) and write a manifest.json mapping each file to its source (existing files are kept; new ones get a -2, -3... suffix)'
+
+  static override examples = [
+    '<%= config.bin %> attachments download ENG-123',
+    '<%= config.bin %> attachments download ENG-123 --dir ./out',
+  ]
+
+  static override args = {
+    issue: Args.string({
+      description: 'Issue ID or identifier (e.g., ENG-123)',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    dir: Flags.string({
+      char: 'd',
+      description: 'Directory to download into (created if missing)',
+      default: '.',
+    }),
+    concurrency: Flags.integer({
+      description: 'Number of files downloaded in parallel',
+      default: DEFAULT_CONCURRENCY,
+      min: 1,
+    }),
+    stream: bulkFlags.stream,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(AttachmentsDownload)
+      applyCacheFlags(flags)
+      const client = getClient()
+
+      const issueId = await resolveIssueId(client, args.issue)
+      const issue = await client.issue(issueId)
+
+      if (!issue) {
+        throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${args.issue} not found`)
+      }
+
+      const [comments, attachments] = await Promise.all([
+        paginate(
+          (page) => issue.comments(page),
+          {first: 250, all: true},
+          (nodes) => nodes.map((comment) => ({id: comment.id, body: comment.body})),
+        ),
+        paginate(
+          (page) => issue.attachments(page),
+          {first: 250, all: true},
+          (nodes) => nodes.map((attachment) => toAttachmentData(attachment)),
+        ),
+      ])
+
+      const assets = collectIssueAssets({
+        description: issue.description,
+        comments: comments.data,
+        attachments: attachments.data,
+      })
+
+      const dir = resolve(flags.dir)
+      mkdirSync(dir, {recursive: true})
+
+      const authorization = assets.some((asset) => needsAuthorization(asset.url))
+        ? await getAuthorizationHeader()
+        : undefined
+      // Files already in the directory are never overwritten, the manifest included
+      const used = getTakenFileNames(dir)
+      const manifestFile = claimFileName(MANIFEST_FILE, used)
+      const progress = createProgressReporter(assets.length, {stream: flags.stream})
+
+      const results = await mapWithConcurrency(
+        assets,
+        flags.concurrency,
+        async (asset): Promise<DownloadedAsset | {url: string; sources: AssetSource[]; error: string}> => {
+          try {
+            return await downloadAsset(asset, {dir, authorization, used})
+          } catch (err) {
+            return {url: asset.url, sources: asset.sources, error: err instanceof Error ? err.message : 'Unknown error'}
+          }
+        },
+        (result, index) =>
+          progress.item(index, {
+            identifier: 'file' in result ? result.file : result.url,
+            success: !('error' in result),
+            error: 'error' in result ? result.error : undefined,
+          }),
+      )
+
+      const files = results.filter((result): result is DownloadedAsset => 'file' in result)
+      const failed = results.filter((result) => 'error' in result)
+
+      const manifest = {
+        issue: {id: issue.id, identifier: issue.identifier, title: issue.title, url: issue.url},
+        downloadedAt: new Date().toISOString(),
+        files,
+        ...(failed.length > 0 && {failed}),
+      }
+      const manifestPath = join(dir, manifestFile)
+      writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', {flag: 'wx'})
+
+      progress.summary({
+        ...manifest,
+        dir,
+        manifest: manifestPath,
+        totalRequested: assets.length,
+        successCount: files.length,
+        failedCount: failed.length,
+      })
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {toAttachmentData, type AttachmentData} from '../../lib/attachments.js'
+import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
+import type {OutputFormat} from '../../lib/types.js'
+
+const COLUMNS: ColumnDef<AttachmentData>[] = [
+  {
+    key: 'title',
+    header: 'TITLE',
+    format: (value) => colors.cyan(truncate(String(value), 40)),
+  },
+  {
+    key: 'url',
+    header: 'URL',
+    format: (value) => truncate(String(value), 60),
+  },
+  {
+    key: 'sourceType',
+    header: 'SOURCE',
+    format: (value) => colors.dim(String(value ?? '')),
+  },
+  {
+    key: 'createdAt',
+    header: 'DATE',
+    format: (value) => {
+      const date = new Date(value as string)
+      return colors.dim(date.toLocaleDateString())
+    },
+  },
+]
+
+export default class AttachmentsList extends BaseCommand {
+  static override description = 'List attachments (links, PRs, uploaded files) on an issue'
+
+  static override examples = [
+    '<%= config.bin %> attachments list ENG-123',
+    '<%= config.bin %> attachments list ENG-123 --format table',
+  ]
+
+  static override args = {
+    issue: Args.string({
+      description: 'Issue ID or identifier (e.g., ENG-123)',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: OUTPUT_FORMATS,
+      default: 'json',
+    }),
+    first: Flags.integer({
+      description: 'Number of attachments to fetch (default: 50)',
+      default: 50,
+    }),
+    after: Flags.string({
+      description: 'Cursor for pagination',
+    }),
+    ...paginationFlags,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(AttachmentsList)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const issueId = await resolveIssueId(client, args.issue)
+      const issue = await client.issue(issueId)
+
+      if (!issue) {
+        throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${args.issue} not found`)
+      }
+
+      const printer = createListPrinter<AttachmentData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'id',
+        secondaryKey: 'url',
+      })
+
+      const pageInfo = await streamPages(
+        (page) => issue.attachments(page),
+        flags,
+        (nodes) => nodes.map((attachment) => toAttachmentData(attachment)),
+        printer.write,
+      )
+
+      printer.end(pageInfo)
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print, printItem} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {attachmentFlags, createAttachment, parseAttachmentMetadata} from '../../lib/attachments.js'
+import {getUploadFileInfo, toUploadOperation, uploadFile} from '../../lib/upload.js'
+import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+
+export default class AttachmentsUpload extends BaseCommand {
+  static override description = 'Upload a file (build log, report, screenshot) and attach it to an issue'
+
+  static override examples = [
+    '<%= config.bin %> attachments upload ENG-123 ./build.log',
+    '<%= config.bin %> attachments upload ENG-123 ./report.pdf --title "Test report" --subtitle "nightly"',
+  ]
+
+  static override args = {
+    issue: Args.string({
+      description: 'Issue ID or identifier (e.g., ENG-123)',
+      required: true,
+    }),
+    file: Args.string({
+      description: 'Path to the file to upload',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: ['json', 'table', 'plain'],
+      default: 'json',
+    }),
+    title: Flags.string({
+      char: 't',
+      description: 'Attachment title (default: the file name)',
+    }),
+    'content-type': Flags.string({
+      description: 'Override the content type (MIME type)',
+    }),
+    ...attachmentFlags,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(AttachmentsUpload)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const file = getUploadFileInfo(args.file, flags['content-type'])
+      // File details are kept in the metadata so downloads can restore the name
+      const metadata = {
+        fileName: file.fileName,
+        contentType: file.contentType,
+        size: file.size,
+        ...(flags.metadata && parseAttachmentMetadata(flags.metadata)),
+      }
+      const issueId = await resolveIssueId(client, args.issue)
+
+      const input = {
+        issueId,
+        title: flags.title ?? file.fileName,
+        metadata,
+        ...(flags.subtitle && {subtitle: flags.subtitle}),
+        ...(flags['icon-url'] && {iconUrl: flags['icon-url']}),
+      }
+
+      if (isDryRun()) {
+        printDryRun([
+          toUploadOperation(file),
+          {
+            mutation: 'attachmentCreate',
+            variables: {input: {...input, url: '<uploaded file URL>'}},
+            target: {entity: 'issue', id: issueId, identifier: args.issue},
+          },
+        ])
+        return
+      }
+
+      const {assetUrl} = await uploadFile(client, file)
+      const attachment = await createAttachment(client, {...input, url: assetUrl})
+
+      if (format === 'json') {
+        print(success({...attachment, issueId}))
+      } else if (format === 'table') {
+        printItem(
+          {
+            id: attachment.id,
+            issue: args.issue,
+            title: attachment.title,
+            url: attachment.url,
+            size: file.size,
+            createdAt: attachment.createdAt,
+          } as Record<string, unknown>,
+          format,
+        )
+      } else {
+        console.log(attachment.id)
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -1,19 +1,29 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
 import open from 'open'
-import {createClient} from '../../lib/client.js'
-import {saveApiKey, getConfigPath} from '../../lib/config.js'
+import {BaseCommand} from '../../lib/base-command.js'
+import {createClient, createOAuthClient} from '../../lib/client.js'
+import {saveApiKey, saveOAuthTokens, getConfigPath, getProfileName} from '../../lib/config.js'
+import {
+  authorizeWithPkce,
+  DEFAULT_AUTHORIZE_URL,
+  DEFAULT_CALLBACK_PORT,
+  DEFAULT_OAUTH_SCOPE,
+  DEFAULT_TOKEN_URL,
+} from '../../lib/oauth.js'
 import {success, error, print} from '../../lib/output.js'
-import {handleError} from '../../lib/errors.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {colors} from '../../lib/formatter.js'
 
 const LINEAR_API_SETTINGS_URL = 'https://linear.app/settings/api'
 
-export default class AuthLogin extends Command {
+export default class AuthLogin extends BaseCommand {
   static override description = 'Authenticate with Linear using an API key'
 
   static override examples = [
     '<%= config.bin %> auth login --key lin_api_xxxxx',
     '<%= config.bin %> auth login --browser',
+    '<%= config.bin %> auth login --profile work --key lin_api_xxxxx',
+    '<%= config.bin %> auth login --oauth --client-id YOUR_CLIENT_ID',
     'LINEAR_API_KEY=lin_api_xxxxx <%= config.bin %> auth login',
   ]
 
@@ -28,6 +38,38 @@ export default class AuthLogin extends Command {
       description: 'Open Linear API settings in browser to create a key',
       default: false,
     }),
+    oauth: Flags.boolean({
+      description: 'Log in through a Linear OAuth app (authorization code + PKCE) instead of an API key',
+      default: false,
+      exclusive: ['key', 'browser'],
+    }),
+    'client-id': Flags.string({
+      description: 'OAuth app client ID (or set LINEAR_OAUTH_CLIENT_ID)',
+      env: 'LINEAR_OAUTH_CLIENT_ID',
+      dependsOn: ['oauth'],
+    }),
+    scope: Flags.string({
+      description: 'OAuth scopes, comma-separated',
+      default: DEFAULT_OAUTH_SCOPE,
+      dependsOn: ['oauth'],
+    }),
+    port: Flags.integer({
+      description: 'Local port for the OAuth callback (must match the app redirect URI)',
+      default: DEFAULT_CALLBACK_PORT,
+      dependsOn: ['oauth'],
+    }),
+    'authorize-url': Flags.string({
+      description: 'OAuth authorization endpoint',
+      env: 'LINEAR_OAUTH_AUTHORIZE_URL',
+      default: DEFAULT_AUTHORIZE_URL,
+      dependsOn: ['oauth'],
+    }),
+    'token-url': Flags.string({
+      description: 'OAuth token endpoint (or set LINEAR_OAUTH_TOKEN_URL)',
+      env: 'LINEAR_OAUTH_TOKEN_URL',
+      default: DEFAULT_TOKEN_URL,
+      dependsOn: ['oauth'],
+    }),
   }
 
   static override args = {
@@ -40,6 +82,11 @@ export default class AuthLogin extends Command {
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(AuthLogin)
+      if (flags.oauth) {
+        await this.loginWithOAuth(flags)
+        return
+      }
+
       const apiKey = flags.key || args.key
 
       // If --browser flag, open Linear API settings
@@ -87,12 +134,14 @@ export default class AuthLogin extends Command {
       const client = createClient(apiKey)
       const viewer = await client.viewer
 
-      // Save the API key
-      saveApiKey(apiKey)
+      // Save the API key to the selected profile
+      const credentialBackend = saveApiKey(apiKey)
 
       print(
         success({
           message: 'Successfully authenticated',
+          profile: getProfileName(),
+          credentialBackend,
           user: {
             id: viewer.id,
             name: viewer.name,
@@ -106,4 +155,56 @@ export default class AuthLogin extends Command {
       this.exit(1)
     }
   }
+
+  private async loginWithOAuth(flags: {
+    'client-id'?: string
+    scope: string
+    port: number
+    'authorize-url': string
+    'token-url': string
+  }): Promise<void> {
+    if (!flags['client-id']) {
+      throw new CliError(
+        ErrorCodes.MISSING_REQUIRED_FIELD,
+        'OAuth login needs the client ID of a Linear OAuth app. Use --client-id or set LINEAR_OAUTH_CLIENT_ID.',
+      )
+    }
+
+    const tokens = await authorizeWithPkce(
+      {
+        clientId: flags['client-id'],
+        authorizeUrl: flags['authorize-url'],
+        tokenUrl: flags['token-url'],
+        scope: flags.scope,
+        port: flags.port,
+      },
+      async (url) => {
+        // stdout is reserved for the JSON result
+        process.stderr.write(`Open this URL to authorize the CLI:\n${url}\n`)
+        await open(url).catch(() => {})
+      },
+    )
+
+    // Validate the tokens before storing them
+    const client = createOAuthClient(tokens.accessToken)
+    const viewer = await client.viewer
+    const credentialBackend = saveOAuthTokens(tokens)
+
+    print(
+      success({
+        message: 'Successfully authenticated with OAuth',
+        profile: getProfileName(),
+        authMethod: 'oauth',
+        credentialBackend,
+        scope: tokens.scope ?? flags.scope,
+        expiresAt: tokens.expiresAt ? new Date(tokens.expiresAt).toISOString() : null,
+        user: {
+          id: viewer.id,
+          name: viewer.name,
+          email: viewer.email,
+        },
+        configPath: getConfigPath(),
+      }),
+    )
+  }
 }
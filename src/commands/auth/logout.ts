@@ -1,12 +1,12 @@
-import {Command} from '@oclif/core'
-import {removeApiKey, getConfigPath, getApiKey} from '../../lib/config.js'
+import {BaseCommand} from '../../lib/base-command.js'
+import {removeApiKey, getConfigPath, getApiKey, getProfileName} from '../../lib/config.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 
-export default class AuthLogout extends Command {
+export default class AuthLogout extends BaseCommand {
   static override description = 'Remove stored Linear API key'
 
-  static override examples = ['<%= config.bin %> auth logout']
+  static override examples = ['<%= config.bin %> auth logout', '<%= config.bin %> auth logout --profile work']
 
   public async run(): Promise<void> {
     await this.parse(AuthLogout)
@@ -18,11 +18,13 @@ export default class AuthLogout extends Command {
         throw new CliError(ErrorCodes.NOT_AUTHENTICATED, 'Not currently authenticated')
       }
 
-      removeApiKey()
+      const removedFrom = removeApiKey()
 
       print(
         success({
           message: 'Successfully logged out',
+          profile: getProfileName(),
+          removedFrom,
           configPath: getConfigPath(),
         }),
       )
@@ -1,10 +1,10 @@
-import {Command} from '@oclif/core'
-import {getApiKey, getConfigPath} from '../../lib/config.js'
-import {createClient} from '../../lib/client.js'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getActiveProfile, getConfigPath, getCredential, getCredentialBackend, listProfiles} from '../../lib/config.js'
+import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
 
-export default class AuthStatus extends Command {
+export default class AuthStatus extends BaseCommand {
   static override description = 'Check authentication status'
 
   static override examples = ['<%= config.bin %> auth status']
@@ -13,21 +13,27 @@ export default class AuthStatus extends Command {
     await this.parse(AuthStatus)
 
     try {
-      const apiKey = getApiKey()
+      const credential = getCredential()
+      const activeProfile = getActiveProfile()
+      const profiles = listProfiles()
 
-      if (!apiKey) {
+      if (!credential) {
         print(
           success({
             authenticated: false,
             message: 'Not authenticated',
+            profile: activeProfile.name,
+            profileSource: activeProfile.source,
+            profiles,
+            credentialBackend: getCredentialBackend(),
             configPath: getConfigPath(),
           }),
         )
         return
       }
 
-      // Verify the API key is still valid
-      const client = createClient(apiKey)
+      // Verify the credential is still valid (refreshes expiring OAuth tokens)
+      const client = getClient()
       const viewer = await client.viewer
 
       print(
@@ -38,7 +44,19 @@ export default class AuthStatus extends Command {
             name: viewer.name,
             email: viewer.email,
           },
-          source: process.env.LINEAR_API_KEY ? 'environment' : 'config',
+          source: credential.source,
+          authMethod: credential.type,
+          ...(credential.type === 'oauth' && {
+            oauth: {
+              scope: credential.tokens.scope ?? null,
+              expiresAt: credential.tokens.expiresAt ? new Date(credential.tokens.expiresAt).toISOString() : null,
+              canRefresh: Boolean(credential.tokens.refreshToken),
+            },
+          }),
+          profile: activeProfile.name,
+          profileSource: activeProfile.source,
+          profiles,
+          credentialBackend: getCredentialBackend(),
           configPath: getConfigPath(),
         }),
       )
@@ -0,0 +1,42 @@
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getActiveProfile, getConfigPath, switchProfile} from '../../lib/config.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+
+export default class AuthSwitch extends BaseCommand {
+  static override description = 'Switch the active auth profile'
+
+  static override examples = ['<%= config.bin %> auth switch work', '<%= config.bin %> auth switch default']
+
+  static override args = {
+    profile: Args.string({
+      description: 'Profile name',
+      required: true,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args} = await this.parse(AuthSwitch)
+      const previous = getActiveProfile().name
+
+      switchProfile(args.profile)
+
+      print(
+        success({
+          message: `Switched to profile "${args.profile}"`,
+          profile: args.profile,
+          previous,
+          // LINEAR_PROFILE still wins over the switched-to profile
+          overriddenBy:
+            process.env.LINEAR_PROFILE && process.env.LINEAR_PROFILE !== args.profile ? 'LINEAR_PROFILE' : null,
+          configPath: getConfigPath(),
+        }),
+      )
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
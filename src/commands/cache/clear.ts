@@ -0,0 +1,36 @@
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {CACHE_NAMESPACES, clearCache, type CacheNamespace} from '../../lib/cache.js'
+
+export default class CacheClear extends BaseCommand {
+  static override description = 'Clear the local metadata cache'
+
+  static override examples = ['<%= config.bin %> cache clear', '<%= config.bin %> cache clear --namespace labels']
+
+  static override flags = {
+    namespace: Flags.string({
+      char: 'n',
+      description: 'Only clear this namespace',
+      options: CACHE_NAMESPACES,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(CacheClear)
+      const cleared = clearCache(flags.namespace as CacheNamespace | undefined)
+
+      print(
+        success({
+          cleared,
+          message: cleared.length > 0 ? `Cleared ${cleared.join(', ')}` : 'Cache is already empty',
+        }),
+      )
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
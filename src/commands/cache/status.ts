@@ -0,0 +1,26 @@
+import {BaseCommand} from '../../lib/base-command.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {CACHE_TTLS, getCacheStatus} from '../../lib/cache.js'
+
+export default class CacheStatus extends BaseCommand {
+  static override description = 'Show cached metadata and expiry times'
+
+  static override examples = ['<%= config.bin %> cache status']
+
+  public async run(): Promise<void> {
+    try {
+      await this.parse(CacheStatus)
+
+      print(
+        success({
+          ...getCacheStatus(),
+          ttlSeconds: Object.fromEntries(Object.entries(CACHE_TTLS).map(([name, ttl]) => [name, ttl / 1000])),
+        }),
+      )
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
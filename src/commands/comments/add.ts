@@ -1,16 +1,23 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
+import {uploadImagesFlag, uploadMarkdownImages} from '../../lib/upload.js'
 
-export default class CommentsAdd extends Command {
+export default class CommentsAdd extends BaseCommand {
   static override description = 'Add a comment to an issue'
 
   static override examples = [
     '<%= config.bin %> comments add ENG-123 --body "This is a comment"',
     '<%= config.bin %> comments add ENG-123 --body "Looks good!" --format table',
+    '<%= config.bin %> comments add ENG-123 --body-file review.md',
+    'git log --oneline -5 | <%= config.bin %> comments add ENG-123 --body-file -',
   ]
 
   static override args = {
@@ -30,16 +37,24 @@ export default class CommentsAdd extends Command {
     body: Flags.string({
       char: 'b',
       description: 'Comment body (supports markdown)',
-      required: true,
     }),
+    'body-file': markdownFileFlag('body', 'comment body'),
+    'upload-images': uploadImagesFlag,
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(CommentsAdd)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      const body = readMarkdown(flags.body, flags['body-file'])
+      if (!body) {
+        throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, 'Comment body is required. Use --body or --body-file')
+      }
+
       const issueId = await resolveIssueId(client, args.issue)
       const issue = await client.issue(issueId)
 
@@ -47,11 +62,30 @@ export default class CommentsAdd extends Command {
         throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${args.issue} not found`)
       }
 
-      const payload = await client.createComment({
-        issueId,
-        body: flags.body,
+      const images = await uploadMarkdownImages(client, body, {
+        enabled: flags['upload-images'],
+        file: flags['body-file'],
       })
 
+      const input = {
+        issueId,
+        body: images.markdown,
+      }
+
+      if (isDryRun()) {
+        printDryRun([
+          ...images.operations,
+          {
+            mutation: 'commentCreate',
+            variables: {input},
+            target: {entity: 'issue', id: issueId, identifier: issue.identifier, name: issue.title},
+          },
+        ])
+        return
+      }
+
+      const payload = await client.createComment(input)
+
       if (!payload.success || !payload.comment) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to create comment')
       }
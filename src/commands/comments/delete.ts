@@ -1,10 +1,12 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class CommentsDelete extends Command {
+export default class CommentsDelete extends BaseCommand {
   static override description = 'Delete a comment'
 
   static override examples = ['<%= config.bin %> comments delete COMMENT_ID']
@@ -31,6 +33,14 @@ export default class CommentsDelete extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      if (isDryRun()) {
+        const comment = await client.comment({id: args.id})
+        printDryRun([
+          {mutation: 'commentDelete', variables: {id: comment.id}, target: {entity: 'comment', id: comment.id}},
+        ])
+        return
+      }
+
       const payload = await client.deleteComment(args.id)
 
       if (!payload.success) {
@@ -1,8 +1,11 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -37,7 +40,7 @@ const COLUMNS: ColumnDef<CommentData>[] = [
   },
 ]
 
-export default class CommentsList extends Command {
+export default class CommentsList extends BaseCommand {
   static override description = 'List comments on an issue'
 
   static override examples = [
@@ -56,7 +59,7 @@ export default class CommentsList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     first: Flags.integer({
@@ -66,11 +69,14 @@ export default class CommentsList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(CommentsList)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
@@ -81,43 +87,34 @@ export default class CommentsList extends Command {
         throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${args.issue} not found`)
       }
 
-      const comments = await issue.comments({
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<CommentData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'userName',
+        secondaryKey: 'body',
       })
 
-      const data: CommentData[] = await Promise.all(
-        comments.nodes.map(async (comment) => {
-          const user = await comment.user
-          return {
-            id: comment.id,
-            body: comment.body,
-            createdAt: comment.createdAt,
-            updatedAt: comment.updatedAt,
-            userId: user?.id ?? '',
-            userName: user?.name ?? 'Unknown',
-            userEmail: user?.email ?? '',
-          }
-        }),
+      const pageInfo = await streamPages(
+        (page) => issue.comments(page),
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (comment) => {
+              const user = await comment.user
+              return {
+                id: comment.id,
+                body: comment.body,
+                createdAt: comment.createdAt,
+                updatedAt: comment.updatedAt,
+                userId: user?.id ?? '',
+                userName: user?.name ?? 'Unknown',
+                userEmail: user?.email ?? '',
+              }
+            }),
+          ),
+        printer.write,
       )
 
-      const pageInfo = {
-        hasNextPage: comments.pageInfo.hasNextPage,
-        hasPreviousPage: comments.pageInfo.hasPreviousPage,
-        startCursor: comments.pageInfo.startCursor,
-        endCursor: comments.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'userName',
-          secondaryKey: 'body',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
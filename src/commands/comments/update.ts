@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
 
-export default class CommentsUpdate extends Command {
+export default class CommentsUpdate extends BaseCommand {
   static override description = 'Update a comment'
 
   static override examples = ['<%= config.bin %> comments update COMMENT_ID --body "Updated comment text"']
@@ -26,8 +29,8 @@ export default class CommentsUpdate extends Command {
     body: Flags.string({
       char: 'b',
       description: 'Comment body (supports markdown)',
-      required: true,
     }),
+    'body-file': markdownFileFlag('body', 'comment body'),
   }
 
   public async run(): Promise<void> {
@@ -36,9 +39,21 @@ export default class CommentsUpdate extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      const payload = await client.updateComment(args.id, {
-        body: flags.body,
-      })
+      const body = readMarkdown(flags.body, flags['body-file'])
+      if (!body) {
+        throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, 'Comment body is required. Use --body or --body-file')
+      }
+
+      const input = {body}
+
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'commentUpdate', variables: {id: args.id, input}, target: {entity: 'comment', id: args.id}},
+        ])
+        return
+      }
+
+      const payload = await client.updateComment(args.id, input)
 
       if (!payload.success || !payload.comment) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to update comment')
@@ -1,9 +1,10 @@
-import {Args, Command} from '@oclif/core'
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
-import {getDefaults, isValidConfigKey, configKeyToDefaultsKey, CONFIG_KEYS} from '../../lib/config.js'
+import {getConfigValue, getProfileName, isValidConfigKey, CONFIG_KEYS} from '../../lib/config.js'
 
-export default class ConfigGet extends Command {
+export default class ConfigGet extends BaseCommand {
   static override description = 'Get a configuration value'
 
   static override examples = [
@@ -29,14 +30,13 @@ export default class ConfigGet extends Command {
         )
       }
 
-      const defaults = getDefaults()
-      const defaultsKey = configKeyToDefaultsKey(args.key)
-      const value = defaults[defaultsKey]
+      const value = getConfigValue(args.key)
 
       print(
         success({
           key: args.key,
           value: value ?? null,
+          profile: getProfileName(),
           isSet: value !== undefined,
         }),
       )
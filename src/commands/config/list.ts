@@ -1,31 +1,39 @@
-import {Command} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {success, print} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
-import {getDefaults, getApiKey, getConfigPath, CONFIG_KEYS, configKeyToDefaultsKey} from '../../lib/config.js'
+import {
+  getApiKeyWithSource,
+  getConfigPath,
+  getConfigValue,
+  getCredentialBackend,
+  getProfileName,
+  CONFIG_KEYS,
+} from '../../lib/config.js'
 
-export default class ConfigList extends Command {
+export default class ConfigList extends BaseCommand {
   static override description = 'List all configuration values'
 
-  static override examples = ['<%= config.bin %> config list']
+  static override examples = ['<%= config.bin %> config list', '<%= config.bin %> config list --profile work']
 
   public async run(): Promise<void> {
     try {
-      const defaults = getDefaults()
-      const apiKey = getApiKey()
+      await this.parse(ConfigList)
+      const apiKey = getApiKeyWithSource()
 
       const config: Record<string, string | null> = {}
 
       // Add all config keys with their values
       for (const key of CONFIG_KEYS) {
-        const defaultsKey = configKeyToDefaultsKey(key)
-        config[key] = defaults[defaultsKey] ?? null
+        config[key] = getConfigValue(key) ?? null
       }
 
       print(
         success({
           configPath: getConfigPath(),
+          profile: getProfileName(),
           authenticated: apiKey !== undefined,
-          apiKeySource: apiKey ? (process.env.LINEAR_API_KEY ? 'environment' : 'config') : null,
+          apiKeySource: apiKey?.source ?? null,
+          credentialBackend: getCredentialBackend(),
           defaults: config,
         }),
       )
@@ -1,14 +1,18 @@
-import {Args, Command} from '@oclif/core'
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
-import {setDefault, isValidConfigKey, configKeyToDefaultsKey, CONFIG_KEYS} from '../../lib/config.js'
+import {setConfigValue, getProfileName, isValidConfigKey, CONFIG_KEYS} from '../../lib/config.js'
 
-export default class ConfigSet extends Command {
+export default class ConfigSet extends BaseCommand {
   static override description = 'Set a configuration value'
 
   static override examples = [
     '<%= config.bin %> config set default-team-id d1ad1a80-9267-4ebc-979a-eaf885898a2c',
     '<%= config.bin %> config set default-team-key MITO',
+    '<%= config.bin %> config set default-team-key ACME --profile work',
+    '<%= config.bin %> config set credential-helper encrypted-file',
+    '<%= config.bin %> config set credential-helper "pass-linear-helper"',
   ]
 
   static override args = {
@@ -33,13 +37,13 @@ export default class ConfigSet extends Command {
         )
       }
 
-      const defaultsKey = configKeyToDefaultsKey(args.key)
-      setDefault(defaultsKey, args.value)
+      setConfigValue(args.key, args.value)
 
       print(
         success({
           key: args.key,
           value: args.value,
+          profile: getProfileName(),
           message: `Configuration "${args.key}" set successfully`,
         }),
       )
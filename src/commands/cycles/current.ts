@@ -1,10 +1,11 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {success, print, printItem} from '../../lib/output.js'
+import {success, print, printItem, isExportFormat, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
 
-export default class CyclesCurrent extends Command {
+export default class CyclesCurrent extends BaseCommand {
   static override description = 'Get the current active cycle for a team'
 
   static override examples = [
@@ -17,7 +18,7 @@ export default class CyclesCurrent extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     'team-id': Flags.string({
@@ -91,6 +92,8 @@ export default class CyclesCurrent extends Command {
 
       if (format === 'json') {
         print(success(data))
+      } else if (isExportFormat(format)) {
+        printItem(data, format)
       } else if (format === 'table') {
         printItem(
           {
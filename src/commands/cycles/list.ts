@@ -1,7 +1,9 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, truncate, formatProgress, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -51,7 +53,7 @@ const COLUMNS: ColumnDef<CycleData>[] = [
   },
 ]
 
-export default class CyclesList extends Command {
+export default class CyclesList extends BaseCommand {
   static override description = 'List cycles (sprints)'
 
   static override examples = [
@@ -66,7 +68,7 @@ export default class CyclesList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     'team-id': Flags.string({
@@ -94,6 +96,7 @@ export default class CyclesList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -121,47 +124,41 @@ export default class CyclesList extends Command {
         filter.completedAt = {neq: null}
       }
 
-      const cycles = await client.cycles({
-        first: flags.first,
-        after: flags.after,
-        filter: Object.keys(filter).length > 0 ? filter : undefined,
+      const printer = createListPrinter<CycleData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'number',
       })
 
-      const data: CycleData[] = await Promise.all(
-        cycles.nodes.map(async (cycle) => {
-          const team = await cycle.team
-          return {
-            id: cycle.id,
-            number: cycle.number,
-            name: cycle.name ?? null,
-            startsAt: cycle.startsAt,
-            endsAt: cycle.endsAt,
-            completedAt: cycle.completedAt ?? null,
-            progress: cycle.progress,
-            teamId: team?.id ?? '',
-            teamKey: team?.key ?? '',
-            teamName: team?.name ?? '',
-          }
-        }),
+      const pageInfo = await streamPages(
+        (page) =>
+          client.cycles({
+            ...page,
+            filter: Object.keys(filter).length > 0 ? filter : undefined,
+          }),
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (cycle) => {
+              const team = await cycle.team
+              return {
+                id: cycle.id,
+                number: cycle.number,
+                name: cycle.name ?? null,
+                startsAt: cycle.startsAt,
+                endsAt: cycle.endsAt,
+                completedAt: cycle.completedAt ?? null,
+                progress: cycle.progress,
+                teamId: team?.id ?? '',
+                teamKey: team?.key ?? '',
+                teamName: team?.name ?? '',
+              }
+            }),
+          ),
+        printer.write,
       )
 
-      const pageInfo = {
-        hasNextPage: cycles.pageInfo.hasNextPage,
-        hasPreviousPage: cycles.pageInfo.hasPreviousPage,
-        startCursor: cycles.pageInfo.startCursor,
-        endCursor: cycles.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'number',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,18 +1,23 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
+import {uploadImagesFlag, uploadMarkdownImages} from '../../lib/upload.js'
 import type {LinearDocument} from '@linear/sdk'
 
 type DocumentCreateInput = LinearDocument.DocumentCreateInput
 
-export default class DocumentsCreate extends Command {
+export default class DocumentsCreate extends BaseCommand {
   static override description = 'Create a new document'
 
   static override examples = [
     '<%= config.bin %> documents create --title "My Document"',
     '<%= config.bin %> documents create --title "Project Doc" --project-id PROJECT_ID',
     '<%= config.bin %> documents create --title "Notes" --content "# Heading\\n\\nContent here"',
+    '<%= config.bin %> documents create --title "RFC" --content-file rfc.md',
   ]
 
   static override flags = {
@@ -25,6 +30,8 @@ export default class DocumentsCreate extends Command {
       char: 'c',
       description: 'Document content (markdown)',
     }),
+    'content-file': markdownFileFlag('content', 'document content'),
+    'upload-images': uploadImagesFlag,
     'project-id': Flags.string({
       description: 'Project ID to associate with',
     }),
@@ -45,11 +52,20 @@ export default class DocumentsCreate extends Command {
         title: flags.title,
       }
 
-      if (flags.content) input.content = flags.content
+      const images = await uploadMarkdownImages(client, readMarkdown(flags.content, flags['content-file']), {
+        enabled: flags['upload-images'],
+        file: flags['content-file'],
+      })
+      if (images.markdown) input.content = images.markdown
       if (flags['project-id']) input.projectId = flags['project-id']
       if (flags.icon) input.icon = flags.icon
       if (flags.color) input.color = flags.color
 
+      if (isDryRun()) {
+        printDryRun([...images.operations, {mutation: 'documentCreate', variables: {input}}])
+        return
+      }
+
       const payload = await client.createDocument(input)
 
       if (!payload.success) {
@@ -1,9 +1,11 @@
-import {Args, Command} from '@oclif/core'
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class DocumentsDelete extends Command {
+export default class DocumentsDelete extends BaseCommand {
   static override description = 'Delete a document (moves to trash)'
 
   static override examples = ['<%= config.bin %> documents delete DOCUMENT_ID']
@@ -20,6 +22,18 @@ export default class DocumentsDelete extends Command {
       const {args} = await this.parse(DocumentsDelete)
       const client = getClient()
 
+      if (isDryRun()) {
+        const document = await client.document(args.id)
+        printDryRun([
+          {
+            mutation: 'documentDelete',
+            variables: {id: document.id},
+            target: {entity: 'document', id: document.id, name: document.title},
+          },
+        ])
+        return
+      }
+
       const payload = await client.deleteDocument(args.id)
 
       if (!payload.success) {
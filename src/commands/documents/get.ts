@@ -1,10 +1,11 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {success, print, printItem} from '../../lib/output.js'
+import {success, print, printItem, isExportFormat, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
 
-export default class DocumentsGet extends Command {
+export default class DocumentsGet extends BaseCommand {
   static override description = 'Get document details'
 
   static override examples = [
@@ -23,7 +24,7 @@ export default class DocumentsGet extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
   }
@@ -66,6 +67,8 @@ export default class DocumentsGet extends Command {
 
       if (format === 'json') {
         print(success(data))
+      } else if (isExportFormat(format)) {
+        printItem(data, format)
       } else if (format === 'table') {
         printItem(
           {
@@ -1,7 +1,9 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -41,7 +43,7 @@ const COLUMNS: ColumnDef<DocumentData>[] = [
   },
 ]
 
-export default class DocumentsList extends Command {
+export default class DocumentsList extends BaseCommand {
   static override description = 'List documents'
 
   static override examples = [
@@ -54,7 +56,7 @@ export default class DocumentsList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     'project-id': Flags.string({
@@ -67,6 +69,7 @@ export default class DocumentsList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -80,47 +83,41 @@ export default class DocumentsList extends Command {
         filter.project = {id: {eq: flags['project-id']}}
       }
 
-      const documents = await client.documents({
-        first: flags.first,
-        after: flags.after,
-        filter: Object.keys(filter).length > 0 ? filter : undefined,
+      const printer = createListPrinter<DocumentData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'title',
+        secondaryKey: 'id',
       })
 
-      const data: DocumentData[] = await Promise.all(
-        documents.nodes.map(async (doc) => {
-          const [project, creator] = await Promise.all([doc.project, doc.creator])
-          return {
-            id: doc.id,
-            title: doc.title,
-            icon: doc.icon ?? null,
-            color: doc.color ?? null,
-            projectId: project?.id ?? null,
-            projectName: project?.name ?? null,
-            creatorId: creator?.id ?? null,
-            creatorName: creator?.name ?? null,
-            createdAt: doc.createdAt,
-            updatedAt: doc.updatedAt,
-          }
-        }),
+      const pageInfo = await streamPages(
+        (page) =>
+          client.documents({
+            ...page,
+            filter: Object.keys(filter).length > 0 ? filter : undefined,
+          }),
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (doc) => {
+              const [project, creator] = await Promise.all([doc.project, doc.creator])
+              return {
+                id: doc.id,
+                title: doc.title,
+                icon: doc.icon ?? null,
+                color: doc.color ?? null,
+                projectId: project?.id ?? null,
+                projectName: project?.name ?? null,
+                creatorId: creator?.id ?? null,
+                creatorName: creator?.name ?? null,
+                createdAt: doc.createdAt,
+                updatedAt: doc.updatedAt,
+              }
+            }),
+          ),
+        printer.write,
       )
 
-      const pageInfo = {
-        hasNextPage: documents.pageInfo.hasNextPage,
-        hasPreviousPage: documents.pageInfo.hasPreviousPage,
-        startCursor: documents.pageInfo.startCursor,
-        endCursor: documents.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'title',
-          secondaryKey: 'id',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
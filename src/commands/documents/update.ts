@@ -1,12 +1,16 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
+import {uploadImagesFlag, uploadMarkdownImages} from '../../lib/upload.js'
 import type {LinearDocument} from '@linear/sdk'
 
 type DocumentUpdateInput = LinearDocument.DocumentUpdateInput
 
-export default class DocumentsUpdate extends Command {
+export default class DocumentsUpdate extends BaseCommand {
   static override description = 'Update a document'
 
   static override examples = [
@@ -31,6 +35,8 @@ export default class DocumentsUpdate extends Command {
       char: 'c',
       description: 'New document content (markdown)',
     }),
+    'content-file': markdownFileFlag('content', 'document content'),
+    'upload-images': uploadImagesFlag,
     'project-id': Flags.string({
       description: 'New project ID (empty string to remove)',
     }),
@@ -50,7 +56,11 @@ export default class DocumentsUpdate extends Command {
       const input: DocumentUpdateInput = {}
 
       if (flags.title) input.title = flags.title
-      if (flags.content) input.content = flags.content
+      const images = await uploadMarkdownImages(client, readMarkdown(flags.content, flags['content-file']), {
+        enabled: flags['upload-images'],
+        file: flags['content-file'],
+      })
+      if (images.markdown) input.content = images.markdown
       if (flags['project-id'] !== undefined) {
         input.projectId = flags['project-id'] || null
       }
@@ -61,6 +71,14 @@ export default class DocumentsUpdate extends Command {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'No update fields provided')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          ...images.operations,
+          {mutation: 'documentUpdate', variables: {id: args.id, input}, target: {entity: 'document', id: args.id}},
+        ])
+        return
+      }
+
       const payload = await client.updateDocument(args.id, input)
 
       if (!payload.success) {
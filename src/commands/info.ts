@@ -1,5 +1,6 @@
-import {Command, Flags} from '@oclif/core'
-import {success, print} from '../lib/output.js'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../lib/base-command.js'
+import {success, print, OUTPUT_FORMATS} from '../lib/output.js'
 
 /**
  * Comprehensive CLI documentation for LLM agents.
@@ -27,53 +28,189 @@ interface CommandDef {
   examples: string[]
 }
 
+/** Flags shared by the state transition commands (issues start, done, ..., move) */
+const TRANSITION_FLAGS: Record<string, FlagDef> = {
+  concurrency: {type: 'number', description: 'Issues processed in parallel (default: 5)'},
+  stream: {type: 'boolean', description: 'Write progress events and the summary as NDJSON to stdout'},
+}
+
 const COMMANDS: Record<string, CommandDef> = {
   // Authentication
   'auth login': {
     description: 'Authenticate with Linear',
     flags: {
       token: {type: 'string', description: 'API token (or enter interactively)'},
+      oauth: {type: 'boolean', description: 'Log in through a Linear OAuth app (PKCE, loopback callback)'},
+      'client-id': {type: 'string', description: 'OAuth app client ID (or LINEAR_OAUTH_CLIENT_ID)'},
+      'token-url': {type: 'string', description: 'OAuth token endpoint (or LINEAR_OAUTH_TOKEN_URL)'},
     },
-    examples: ['linear auth login', 'linear auth login --token lin_api_xxx'],
+    examples: [
+      'linear auth login',
+      'linear auth login --token lin_api_xxx',
+      'linear auth login --profile work --key lin_api_xxx',
+      'linear auth login --oauth --client-id CLIENT_ID',
+    ],
   },
   'auth logout': {
     description: 'Remove stored credentials',
     flags: {},
-    examples: ['linear auth logout'],
+    examples: ['linear auth logout', 'linear auth logout --profile work'],
   },
   'auth status': {
-    description: 'Check authentication status',
+    description: 'Check authentication status and list profiles',
     flags: {},
     examples: ['linear auth status'],
   },
+  'auth switch': {
+    description: 'Switch the active auth profile',
+    args: {profile: {description: 'Profile name', required: true}},
+    flags: {},
+    examples: ['linear auth switch work', 'linear auth switch default'],
+  },
 
   // Issues
   'issues list': {
     description: 'List issues with optional filters',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       first: {type: 'number', description: 'Number of results (default: 50)'},
       after: {type: 'string', description: 'Pagination cursor'},
+      all: {type: 'boolean', description: 'Fetch all pages (capped at 10000 items)'},
+      limit: {type: 'number', description: 'Maximum items to fetch across pages'},
       filter: {type: 'string', description: 'JSON filter object'},
       team: {type: 'string', description: 'Team key (e.g., ENG)'},
       state: {type: 'string', description: 'State name filter'},
       assignee: {type: 'string', description: 'Assignee name filter'},
+      fields: {type: 'string', description: 'Comma-separated fields to return (e.g., identifier,state.name)'},
     },
     examples: [
       'linear issues list',
       'linear issues list --team MITO',
       'linear issues list --state "In Progress"',
       'linear issues list --filter \'{"priority":{"lte":2}}\'',
+      'linear issues list --team ENG --all',
+      'linear issues list --fields identifier,title,state.name,assignee.email',
     ],
   },
   'issues get': {
     description: 'Get issue details',
     args: {id: {description: 'Issue ID or identifier (e.g., ENG-123)', required: true}},
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       'with-attachments': {type: 'boolean', description: 'Include attachments (linked PRs, commits, etc.)'},
+      'include-children': {type: 'boolean', description: 'Include direct sub-issues in data.children'},
+      fields: {type: 'string', description: 'Comma-separated fields to return (e.g., identifier,labels.name)'},
+    },
+    examples: [
+      'linear issues get ENG-123',
+      'linear issues get ENG-123 --with-attachments',
+      'linear issues get ENG-123 --fields identifier,title,state.name',
+    ],
+  },
+  'issues children': {
+    description: 'List the direct sub-issues of an issue',
+    args: {id: {description: 'Parent issue ID or identifier', required: true}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
+    examples: ['linear issues children ENG-1'],
+  },
+  'issues tree': {
+    description: 'Show the full sub-issue hierarchy (nested JSON with descendant counts, or an ASCII tree)',
+    args: {id: {description: 'Issue ID or identifier', required: true}},
+    flags: {
+      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      depth: {type: 'number', description: 'Levels of sub-issues to include (default: all)'},
+    },
+    examples: ['linear issues tree ENG-1', 'linear issues tree ENG-1 --format table'],
+  },
+  'issues ready': {
+    description: 'List unstarted issues whose blockers are all completed or canceled, most urgent first',
+    flags: {
+      team: {type: 'string', description: 'Team key, name or ID'},
+      assignee: {type: 'string', description: 'Assignee name, email, ID or "me"'},
+      cycle: {type: 'string', description: 'Cycle: current, next, previous, number or name (needs --team)'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
+    },
+    examples: ['linear issues ready --team ENG --cycle current --assignee me'],
+  },
+  'issues blocked': {
+    description: 'List open issues with unfinished blockers; data[].blockers nests the chain of open blockers',
+    flags: {
+      team: {type: 'string', description: 'Team key, name or ID'},
+      assignee: {type: 'string', description: 'Assignee name, email, ID or "me"'},
+      cycle: {type: 'string', description: 'Cycle: current, next, previous, number or name (needs --team)'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
+    },
+    examples: ['linear issues blocked --team ENG', 'linear issues blocked --team ENG --format table'],
+  },
+  'issues start': {
+    description: 'Move issues to the first "started" state of their team (e.g., In Progress)',
+    args: {ids: {description: 'One or more issue IDs or identifiers', required: true}},
+    flags: TRANSITION_FLAGS,
+    examples: ['linear issues start ENG-123', 'linear issues start ENG-1 ENG-2 OPS-7'],
+  },
+  'issues done': {
+    description: 'Move issues to the first "completed" state of their team (e.g., Done)',
+    args: {ids: {description: 'One or more issue IDs or identifiers', required: true}},
+    flags: TRANSITION_FLAGS,
+    examples: ['linear issues done ENG-123', 'linear issues done ENG-1 ENG-2 OPS-7'],
+  },
+  'issues cancel': {
+    description: 'Move issues to the first "canceled" state of their team (e.g., Canceled)',
+    args: {ids: {description: 'One or more issue IDs or identifiers', required: true}},
+    flags: TRANSITION_FLAGS,
+    examples: ['linear issues cancel ENG-123', 'linear issues cancel ENG-1 ENG-2 OPS-7'],
+  },
+  'issues backlog': {
+    description: 'Move issues to the first "backlog" state of their team',
+    args: {ids: {description: 'One or more issue IDs or identifiers', required: true}},
+    flags: TRANSITION_FLAGS,
+    examples: ['linear issues backlog ENG-123', 'linear issues backlog ENG-1 ENG-2 OPS-7'],
+  },
+  'issues triage': {
+    description: 'Move issues to the first "triage" state of their team',
+    args: {ids: {description: 'One or more issue IDs or identifiers', required: true}},
+    flags: TRANSITION_FLAGS,
+    examples: ['linear issues triage ENG-123', 'linear issues triage ENG-1 ENG-2 OPS-7'],
+  },
+  'issues move': {
+    description: 'Move issues to a state by name or workflow type, resolved in each issue team',
+    args: {ids: {description: 'One or more issue IDs or identifiers', required: true}},
+    flags: {
+      to: {
+        type: 'string',
+        description:
+          'State name (e.g., "In Review") or type (triage, backlog, unstarted, started, completed, canceled)',
+        required: true,
+      },
+      ...TRANSITION_FLAGS,
+    },
+    examples: ['linear issues move ENG-123 --to "In Review"', 'linear issues move ENG-1 OPS-7 --to started'],
+  },
+  'issues find-duplicates': {
+    description: 'Find issues that may duplicate an issue or a title, ranked by similarity (data[].score from 0 to 1)',
+    args: {issue: {description: 'Issue ID or identifier (or use --title)', required: false}},
+    flags: {
+      title: {type: 'string', description: 'Check a title instead of an existing issue'},
+      description: {type: 'string', description: 'Description to compare along with --title'},
+      team: {type: 'string', description: 'Only search issues of this team'},
+      'min-score': {type: 'string', description: 'Minimum similarity from 0 to 1', default: '0.3'},
+      limit: {type: 'number', description: 'Maximum number of candidates (default: 10)'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
+    },
+    examples: [
+      'linear issues find-duplicates ENG-123',
+      'linear issues find-duplicates --title "Login fails with SSO" --team ENG',
+    ],
+  },
+  'issues merge': {
+    description:
+      'Merge a duplicate into a canonical issue: labels of the canonical team copied, duplicate canceled, duplicate relation, comments quoted on the canonical issue (undo reverts all four)',
+    args: {duplicate: {description: 'Duplicate issue ID or identifier', required: true}},
+    flags: {
+      into: {type: 'string', description: 'Canonical issue to keep', required: true},
+      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
     },
-    examples: ['linear issues get ENG-123', 'linear issues get ENG-123 --with-attachments'],
+    examples: ['linear issues merge ENG-124 --into ENG-123', 'linear issues merge ENG-124 --into ENG-123 --dry-run'],
   },
   'issues create': {
     description: 'Create a new issue',
@@ -81,18 +218,36 @@ const COMMANDS: Record<string, CommandDef> = {
       input: {type: 'string', description: 'JSON input (IssueCreateInput)'},
       title: {type: 'string', description: 'Issue title', required: true},
       'team-id': {type: 'string', description: 'Team ID (uses default if configured)'},
+      team: {type: 'string', char: 't', description: 'Team key or name (e.g., ENG)'},
       description: {type: 'string', char: 'd', description: 'Description (markdown)'},
+      'description-file': {
+        type: 'string',
+        description:
+          'Read the description from a markdown file (- for stdin); YAML front-matter sets title, team, labels, etc.',
+      },
+      'upload-images': {
+        type: 'boolean',
+        description: 'Upload local images referenced in the markdown (default: true; --no-upload-images to skip)',
+      },
       priority: {type: 'number', description: '0=none, 1=urgent, 2=high, 3=medium, 4=low'},
       'assignee-id': {type: 'string', description: 'Assignee user ID'},
+      assignee: {type: 'string', char: 'a', description: 'Assignee email, name or "me"'},
       'state-id': {type: 'string', description: 'Workflow state ID'},
+      state: {type: 'string', char: 's', description: 'Workflow state name (e.g., "In Progress")'},
       'project-id': {type: 'string', description: 'Project ID'},
+      project: {type: 'string', description: 'Project name'},
       estimate: {type: 'number', description: 'Story points'},
       'label-ids': {type: 'string', description: 'Comma-separated label IDs'},
+      label: {type: 'string', char: 'l', description: 'Label name (repeatable or comma-separated)'},
+      cycle: {type: 'string', description: 'Cycle number, name, or current/next/previous'},
+      parent: {type: 'string', description: 'Parent issue ID or identifier (creates a sub-issue)'},
     },
     examples: [
       'linear issues create --title "Fix bug" --team-id xxx',
       'linear issues create --title "Task" --team-id xxx --priority 2',
+      'linear issues create --title "Fix login" --team ENG --state "In Progress" --assignee me --label bug',
       'linear issues create --input \'{"title":"Bug","teamId":"xxx"}\'',
+      'linear issues create --description-file issue.md',
     ],
   },
   'issues update': {
@@ -102,16 +257,28 @@ const COMMANDS: Record<string, CommandDef> = {
       input: {type: 'string', description: 'JSON input (IssueUpdateInput)'},
       title: {type: 'string', description: 'New title'},
       description: {type: 'string', char: 'd', description: 'New description'},
+      'description-file': {type: 'string', description: 'Read the new description from a markdown file (- for stdin)'},
+      'upload-images': {
+        type: 'boolean',
+        description: 'Upload local images referenced in the markdown (default: true; --no-upload-images to skip)',
+      },
       priority: {type: 'number', description: 'New priority'},
       'assignee-id': {type: 'string', description: 'New assignee (empty to unassign)'},
+      assignee: {type: 'string', char: 'a', description: 'New assignee email, name or "me" (empty to unassign)'},
       'state-id': {type: 'string', description: 'New state ID'},
+      state: {type: 'string', char: 's', description: 'New state name'},
       'project-id': {type: 'string', description: 'New project ID'},
+      project: {type: 'string', description: 'New project name'},
       estimate: {type: 'number', description: 'New estimate'},
       'label-ids': {type: 'string', description: 'Replace labels (comma-separated)'},
+      label: {type: 'string', char: 'l', description: 'Replace labels by name (repeatable or comma-separated)'},
+      cycle: {type: 'string', description: 'Cycle number, name, or current/next/previous'},
+      parent: {type: 'string', description: 'New parent issue ID or identifier (empty to remove the parent)'},
     },
     examples: [
       'linear issues update ENG-123 --title "Updated title"',
       'linear issues update ENG-123 --state-id xxx --priority 1',
+      'linear issues update ENG-123 --state "In Review" --assignee alice@example.com',
     ],
   },
   'issues delete': {
@@ -145,27 +312,51 @@ const COMMANDS: Record<string, CommandDef> = {
   'issues bulk-update': {
     description: 'Update multiple issues at once',
     flags: {
-      ids: {type: 'string', description: 'Comma-separated issue IDs or identifiers', required: true},
+      ids: {type: 'string', description: 'Comma-separated issue IDs or identifiers'},
       'state-id': {type: 'string', description: 'New state ID'},
+      state: {type: 'string', char: 's', description: 'New state name (resolved per issue team)'},
       priority: {type: 'number', description: 'New priority'},
       'assignee-id': {type: 'string', description: 'New assignee'},
+      assignee: {type: 'string', char: 'a', description: 'New assignee email, name or "me"'},
       'project-id': {type: 'string', description: 'New project ID'},
+      project: {type: 'string', description: 'New project name'},
+      label: {type: 'string', char: 'l', description: 'Replace labels by name'},
+      cycle: {type: 'string', description: 'Cycle number, name, or current/next/previous'},
+      where: {type: 'string', description: 'Select issues by IssueFilter JSON instead of --ids'},
+      'where-team': {type: 'string', description: 'Select issues of a team key'},
+      'where-state': {type: 'string', description: 'Select issues in a state'},
+      'where-assignee': {type: 'string', description: 'Select issues assigned to a user ID or "me"'},
+      confirm: {type: 'number', description: 'Exact number of issues the filter must match'},
+      max: {type: 'number', description: 'Maximum number of issues the filter may match'},
+      concurrency: {type: 'number', description: 'Issues processed in parallel (default: 5)'},
+      stream: {type: 'boolean', description: 'Write progress events and the summary as NDJSON to stdout'},
     },
     examples: [
       'linear issues bulk-update --ids ENG-1,ENG-2,ENG-3 --state-id xxx',
       'linear issues bulk-update --ids ENG-1,ENG-2 --priority 2',
+      'linear issues bulk-update --ids ENG-1,OPS-2 --state Done --assignee me',
+      'linear issues bulk-update --where-team ENG --where-state "In Review" --state Done --confirm 12',
     ],
   },
   'issues bulk-label': {
     description: 'Add or remove labels from multiple issues',
     flags: {
-      ids: {type: 'string', description: 'Comma-separated issue IDs', required: true},
+      ids: {type: 'string', description: 'Comma-separated issue IDs'},
       'add-labels': {type: 'string', description: 'Label IDs to add'},
       'remove-labels': {type: 'string', description: 'Label IDs to remove'},
+      where: {type: 'string', description: 'Select issues by IssueFilter JSON instead of --ids'},
+      'where-team': {type: 'string', description: 'Select issues of a team key'},
+      'where-state': {type: 'string', description: 'Select issues in a state'},
+      'where-assignee': {type: 'string', description: 'Select issues assigned to a user ID or "me"'},
+      confirm: {type: 'number', description: 'Exact number of issues the filter must match'},
+      max: {type: 'number', description: 'Maximum number of issues the filter may match'},
+      concurrency: {type: 'number', description: 'Issues processed in parallel (default: 5)'},
+      stream: {type: 'boolean', description: 'Write progress events and the summary as NDJSON to stdout'},
     },
     examples: [
       'linear issues bulk-label --ids ENG-1,ENG-2 --add-labels LABEL1,LABEL2',
       'linear issues bulk-label --ids ENG-1,ENG-2 --remove-labels LABEL1',
+      'linear issues bulk-label --where-team ENG --where-state Triage --add-labels LABEL1 --max 50',
     ],
   },
 
@@ -173,17 +364,21 @@ const COMMANDS: Record<string, CommandDef> = {
   'projects list': {
     description: 'List projects',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       first: {type: 'number', description: 'Number of results'},
       after: {type: 'string', description: 'Pagination cursor'},
+      fields: {type: 'string', description: 'Comma-separated fields to return (e.g., name,state,lead.name)'},
     },
-    examples: ['linear projects list'],
+    examples: ['linear projects list', 'linear projects list --fields name,state,lead.name,targetDate'],
   },
   'projects get': {
     description: 'Get project details',
     args: {id: {description: 'Project ID', required: true}},
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
-    examples: ['linear projects get PROJECT_ID'],
+    flags: {
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
+      fields: {type: 'string', description: 'Comma-separated fields to return (e.g., name,progress,teams.key)'},
+    },
+    examples: ['linear projects get PROJECT_ID', 'linear projects get PROJECT_ID --fields name,state,progress'],
   },
   'projects create': {
     description: 'Create a project',
@@ -191,6 +386,7 @@ const COMMANDS: Record<string, CommandDef> = {
       name: {type: 'string', char: 'n', description: 'Project name', required: true},
       description: {type: 'string', char: 'd', description: 'Project description (short subtitle)'},
       content: {type: 'string', char: 'c', description: 'Project content (markdown, long-form description body)'},
+      'content-file': {type: 'string', description: 'Read the content from a markdown file (- for stdin)'},
       state: {type: 'string', options: ['planned', 'started', 'paused', 'completed', 'canceled']},
       'team-ids': {type: 'string', description: 'Team IDs (uses default if configured)'},
       'lead-id': {type: 'string', description: 'Lead user ID'},
@@ -209,6 +405,7 @@ const COMMANDS: Record<string, CommandDef> = {
       name: {type: 'string', description: 'New name'},
       description: {type: 'string', description: 'New description (short subtitle)'},
       content: {type: 'string', char: 'c', description: 'New content (markdown, long-form description body)'},
+      'content-file': {type: 'string', description: 'Read the new content from a markdown file (- for stdin)'},
       state: {type: 'string', options: ['planned', 'started', 'paused', 'completed', 'canceled']},
       'lead-id': {type: 'string', description: 'Lead user ID'},
       'start-date': {type: 'string', description: 'Start date (YYYY-MM-DD)'},
@@ -235,20 +432,20 @@ const COMMANDS: Record<string, CommandDef> = {
   // Teams
   'teams list': {
     description: 'List teams',
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear teams list'],
   },
 
   // Users
   'users list': {
     description: 'List users',
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear users list'],
   },
   'users get': {
     description: 'Get user details',
     args: {id: {description: 'User ID', required: true}},
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear users get USER_ID'],
   },
 
@@ -256,7 +453,7 @@ const COMMANDS: Record<string, CommandDef> = {
   'labels list': {
     description: 'List labels',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       'team-id': {type: 'string', description: 'Filter by team'},
     },
     examples: ['linear labels list', 'linear labels list --team-id TEAM_ID'],
@@ -291,7 +488,7 @@ const COMMANDS: Record<string, CommandDef> = {
   'states list': {
     description: 'List workflow states',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       'team-id': {type: 'string', description: 'Filter by team'},
     },
     examples: ['linear states list', 'linear states list --team-id TEAM_ID'],
@@ -302,7 +499,7 @@ const COMMANDS: Record<string, CommandDef> = {
     description: 'List comments on an issue',
     flags: {
       'issue-id': {type: 'string', description: 'Issue ID', required: true},
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
     },
     examples: ['linear comments list --issue-id ISSUE_ID'],
   },
@@ -310,14 +507,25 @@ const COMMANDS: Record<string, CommandDef> = {
     description: 'Add a comment to an issue',
     flags: {
       'issue-id': {type: 'string', description: 'Issue ID', required: true},
-      body: {type: 'string', description: 'Comment body (markdown)', required: true},
+      body: {type: 'string', description: 'Comment body (markdown)'},
+      'body-file': {type: 'string', description: 'Read the body from a markdown file (- for stdin)'},
+      'upload-images': {
+        type: 'boolean',
+        description: 'Upload local images referenced in the markdown (default: true; --no-upload-images to skip)',
+      },
     },
-    examples: ['linear comments add --issue-id ISSUE_ID --body "Comment text"'],
+    examples: [
+      'linear comments add --issue-id ISSUE_ID --body "Comment text"',
+      'linear comments add --issue-id ISSUE_ID --body-file review.md',
+    ],
   },
   'comments update': {
     description: 'Update a comment',
     args: {id: {description: 'Comment ID', required: true}},
-    flags: {body: {type: 'string', description: 'New body', required: true}},
+    flags: {
+      body: {type: 'string', description: 'New body'},
+      'body-file': {type: 'string', description: 'Read the new body from a markdown file (- for stdin)'},
+    },
     examples: ['linear comments update COMMENT_ID --body "Updated text"'],
   },
   'comments delete': {
@@ -327,11 +535,65 @@ const COMMANDS: Record<string, CommandDef> = {
     examples: ['linear comments delete COMMENT_ID'],
   },
 
+  // Attachments
+  'attachments list': {
+    description: 'List attachments (links, PRs, uploaded files) on an issue',
+    args: {issue: {description: 'Issue ID or identifier', required: true}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
+    examples: ['linear attachments list ENG-123'],
+  },
+  'attachments add': {
+    description: 'Link a URL to an issue as an attachment (same URL updates the existing attachment)',
+    args: {issue: {description: 'Issue ID or identifier', required: true}},
+    flags: {
+      url: {type: 'string', char: 'u', description: 'URL to attach', required: true},
+      title: {type: 'string', char: 't', description: 'Attachment title', required: true},
+      subtitle: {type: 'string', description: 'Attachment subtitle'},
+      metadata: {type: 'string', description: 'JSON object with string or number values'},
+      'icon-url': {type: 'string', description: 'Icon URL (jpg or png, 20x20px)'},
+    },
+    examples: [
+      'linear attachments add ENG-123 --url https://github.com/org/repo/pull/42 --title "PR #42"',
+      'linear attachments add ENG-123 --url "$BUILD_URL" --title "Build 1234" --metadata \'{"status":"failed"}\'',
+    ],
+  },
+  'attachments upload': {
+    description: 'Upload a file and attach it to an issue',
+    args: {
+      issue: {description: 'Issue ID or identifier', required: true},
+      file: {description: 'Path to the file', required: true},
+    },
+    flags: {
+      title: {type: 'string', char: 't', description: 'Attachment title (default: file name)'},
+      subtitle: {type: 'string', description: 'Attachment subtitle'},
+      metadata: {type: 'string', description: 'JSON object, merged with fileName, contentType and size'},
+      'content-type': {type: 'string', description: 'Override the MIME type'},
+    },
+    examples: ['linear attachments upload ENG-123 ./build.log --subtitle "CI run 1234"'],
+  },
+  'attachments download': {
+    description:
+      'Download files uploaded to an issue (attachments, description and comment assets) and write manifest.json mapping each file to its source (existing files are never overwritten)',
+    args: {issue: {description: 'Issue ID or identifier', required: true}},
+    flags: {
+      dir: {type: 'string', char: 'd', description: 'Target directory (default: current directory)'},
+      concurrency: {type: 'number', description: 'Parallel downloads (default: 5)'},
+      stream: {type: 'boolean', description: 'NDJSON progress events on stdout'},
+    },
+    examples: ['linear attachments download ENG-123 --dir ./out'],
+  },
+  'attachments delete': {
+    description: 'Delete an attachment',
+    args: {id: {description: 'Attachment ID', required: true}},
+    flags: {},
+    examples: ['linear attachments delete ATTACHMENT_ID'],
+  },
+
   // Relations
   'relations list': {
     description: 'List issue relations',
     args: {id: {description: 'Issue ID', required: true}},
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear relations list ENG-123'],
   },
   'relations create': {
@@ -349,13 +611,33 @@ const COMMANDS: Record<string, CommandDef> = {
     flags: {},
     examples: ['linear relations delete RELATION_ID'],
   },
+  'relations graph': {
+    description: 'Export the relation graph of a project, team or issue with blocking cycles and the critical path',
+    flags: {
+      project: {type: 'string', description: 'Start from the open issues of a project'},
+      team: {type: 'string', description: 'Start from the open issues of a team'},
+      root: {type: 'string', description: 'Start from a single issue'},
+      depth: {type: 'number', description: 'Relation hops beyond the starting issues (default: 1)'},
+      type: {
+        type: 'string',
+        options: ['blocks', 'duplicate', 'related'],
+        description: 'Relation types to follow (repeatable)',
+      },
+      'include-closed': {type: 'boolean', description: 'Also start from closed issues'},
+      format: {type: 'string', options: ['json', 'dot', 'mermaid'], default: 'json'},
+    },
+    examples: [
+      'linear relations graph --root ENG-1 --depth 2',
+      'linear relations graph --project "Q3 Launch" --format mermaid',
+    ],
+  },
 
   // Milestones
   'milestones list': {
     description: 'List project milestones',
     flags: {
       'project-id': {type: 'string', description: 'Project ID', required: true},
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
     },
     examples: ['linear milestones list --project-id PROJECT_ID'],
   },
@@ -371,6 +653,7 @@ const COMMANDS: Record<string, CommandDef> = {
       'project-id': {type: 'string', description: 'Project ID', required: true},
       name: {type: 'string', description: 'Milestone name', required: true},
       description: {type: 'string', description: 'Description'},
+      'description-file': {type: 'string', description: 'Read the description from a markdown file (- for stdin)'},
       'target-date': {type: 'string', description: 'Target date (YYYY-MM-DD)'},
     },
     examples: ['linear milestones create --project-id xxx --name "Alpha"'],
@@ -381,6 +664,7 @@ const COMMANDS: Record<string, CommandDef> = {
     flags: {
       name: {type: 'string', description: 'New name'},
       description: {type: 'string', description: 'New description'},
+      'description-file': {type: 'string', description: 'Read the new description from a markdown file (- for stdin)'},
     },
     examples: ['linear milestones update MILESTONE_ID --name "Beta"'],
   },
@@ -390,7 +674,7 @@ const COMMANDS: Record<string, CommandDef> = {
     description: 'List project status updates',
     flags: {
       'project-id': {type: 'string', description: 'Project ID', required: true},
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
     },
     examples: ['linear project-updates list --project-id PROJECT_ID'],
   },
@@ -404,7 +688,12 @@ const COMMANDS: Record<string, CommandDef> = {
     description: 'Create a project status update',
     flags: {
       'project-id': {type: 'string', description: 'Project ID', required: true},
-      body: {type: 'string', description: 'Update body (markdown)', required: true},
+      body: {type: 'string', description: 'Update body (markdown)'},
+      'body-file': {type: 'string', description: 'Read the body from a markdown file (- for stdin)'},
+      'upload-images': {
+        type: 'boolean',
+        description: 'Upload local images referenced in the markdown (default: true; --no-upload-images to skip)',
+      },
       health: {type: 'string', options: ['onTrack', 'atRisk', 'offTrack']},
     },
     examples: ['linear project-updates create --project-id xxx --body "Progress update"'],
@@ -414,6 +703,7 @@ const COMMANDS: Record<string, CommandDef> = {
     args: {id: {description: 'Update ID', required: true}},
     flags: {
       body: {type: 'string', description: 'New body'},
+      'body-file': {type: 'string', description: 'Read the new body from a markdown file (- for stdin)'},
       health: {type: 'string', options: ['onTrack', 'atRisk', 'offTrack']},
     },
     examples: ['linear project-updates update UPDATE_ID --health atRisk'],
@@ -424,7 +714,7 @@ const COMMANDS: Record<string, CommandDef> = {
     description: 'List issue templates',
     flags: {
       'team-id': {type: 'string', description: 'Team ID'},
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
     },
     examples: ['linear templates list'],
   },
@@ -457,7 +747,7 @@ const COMMANDS: Record<string, CommandDef> = {
   'documents list': {
     description: 'List documents',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       first: {type: 'number', description: 'Number of results'},
     },
     examples: ['linear documents list'],
@@ -465,7 +755,7 @@ const COMMANDS: Record<string, CommandDef> = {
   'documents get': {
     description: 'Get document details',
     args: {id: {description: 'Document ID', required: true}},
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear documents get DOCUMENT_ID'],
   },
   'documents create': {
@@ -473,6 +763,11 @@ const COMMANDS: Record<string, CommandDef> = {
     flags: {
       title: {type: 'string', char: 't', description: 'Document title', required: true},
       content: {type: 'string', char: 'c', description: 'Document content (markdown)'},
+      'content-file': {type: 'string', description: 'Read the content from a markdown file (- for stdin)'},
+      'upload-images': {
+        type: 'boolean',
+        description: 'Upload local images referenced in the markdown (default: true; --no-upload-images to skip)',
+      },
       'project-id': {type: 'string', description: 'Project ID to associate with'},
       icon: {type: 'string', description: 'Document icon (emoji)'},
       color: {type: 'string', description: 'Document color (hex)'},
@@ -488,6 +783,11 @@ const COMMANDS: Record<string, CommandDef> = {
     flags: {
       title: {type: 'string', char: 't', description: 'New title'},
       content: {type: 'string', char: 'c', description: 'New content (markdown)'},
+      'content-file': {type: 'string', description: 'Read the new content from a markdown file (- for stdin)'},
+      'upload-images': {
+        type: 'boolean',
+        description: 'Upload local images referenced in the markdown (default: true; --no-upload-images to skip)',
+      },
       'project-id': {type: 'string', description: 'New project ID (empty to remove)'},
       icon: {type: 'string', description: 'New icon (emoji)'},
       color: {type: 'string', description: 'New color (hex)'},
@@ -505,7 +805,7 @@ const COMMANDS: Record<string, CommandDef> = {
   'initiatives list': {
     description: 'List initiatives',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       status: {type: 'string', options: ['Planned', 'Active', 'Completed'], description: 'Filter by status'},
       first: {type: 'number', description: 'Number of results'},
     },
@@ -514,7 +814,7 @@ const COMMANDS: Record<string, CommandDef> = {
   'initiatives get': {
     description: 'Get initiative details',
     args: {id: {description: 'Initiative ID', required: true}},
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear initiatives get INITIATIVE_ID'],
   },
   'initiatives create': {
@@ -573,7 +873,11 @@ const COMMANDS: Record<string, CommandDef> = {
       value: {description: 'Config value', required: true},
     },
     flags: {},
-    examples: ['linear config set default-team-id TEAM_UUID', 'linear config set default-team-key MITO'],
+    examples: [
+      'linear config set default-team-id TEAM_UUID',
+      'linear config set default-team-key MITO',
+      'linear config set credential-helper encrypted-file',
+    ],
   },
   'config get': {
     description: 'Get a configuration value',
@@ -587,17 +891,114 @@ const COMMANDS: Record<string, CommandDef> = {
     examples: ['linear config list'],
   },
 
+  // Cache
+  'cache status': {
+    description: 'Show cached metadata (teams, states, labels, users) and expiry times',
+    flags: {},
+    examples: ['linear cache status'],
+  },
+  'cache clear': {
+    description: 'Clear the local metadata cache',
+    flags: {
+      namespace: {
+        type: 'string',
+        char: 'n',
+        description: 'Only clear this namespace',
+        options: ['teams', 'states', 'labels', 'users'],
+      },
+    },
+    examples: ['linear cache clear', 'linear cache clear --namespace labels'],
+  },
+
+  // Jobs
+  'jobs list': {
+    description: 'List bulk jobs recorded in the local journal',
+    flags: {},
+    examples: ['linear jobs list'],
+  },
+  'jobs show': {
+    description: 'Show a bulk job with the status of every issue',
+    args: {id: {description: 'Job ID', required: true}},
+    flags: {},
+    examples: ['linear jobs show 20250301T101500-a1b2c3'],
+  },
+  'jobs resume': {
+    description: 'Resume a bulk job with the profile it was started with, retrying every issue that has not succeeded',
+    args: {id: {description: 'Job ID', required: true}},
+    flags: {},
+    examples: ['linear jobs resume 20250301T101500-a1b2c3', 'linear jobs resume 20250301T101500-a1b2c3 --dry-run'],
+  },
+
+  // Undo
+  undo: {
+    description:
+      'Revert issue updates recorded in the local undo log (newest first); relations and comments created by issues merge are deleted',
+    args: {operation: {description: 'Undo operation ID (data.undoId of the updating command)', required: false}},
+    flags: {
+      last: {type: 'number', description: 'Undo the N most recent operations not undone yet (default: 1)'},
+      list: {type: 'boolean', description: 'List recorded operations instead of undoing them'},
+      concurrency: {type: 'number', description: 'Issues restored in parallel (default: 5)'},
+      stream: {type: 'boolean', description: 'Write progress and the summary to stdout as NDJSON'},
+    },
+    examples: ['linear undo', 'linear undo --last 3', 'linear undo 20250301T101500-a1b2c3', 'linear undo --list'],
+  },
+
+  // Plans
+  apply: {
+    description:
+      'Run issue.create, issue.update, comment.create and relation.create operations from a JSON or YAML plan. Operations with a ref can be referenced as $ref:name (ID) or $ref:name.identifier',
+    flags: {
+      file: {type: 'string', char: 'f', description: 'Plan file, or - for stdin', required: true},
+      stream: {type: 'boolean', description: 'Write progress and the summary to stdout as NDJSON'},
+    },
+    examples: ['linear apply -f plan.yaml', 'linear apply -f plan.json --dry-run', 'cat plan.yaml | linear apply -f -'],
+  },
+
+  // Workspace
+  'workspace export': {
+    description:
+      'Print workflow states, labels, label groups, templates and project milestones as a workspace spec (no success/data envelope)',
+    flags: {
+      team: {type: 'string', char: 't', description: 'Team key (repeatable; default: all teams)'},
+      format: {type: 'string', char: 'F', options: ['json', 'yaml'], default: 'json'},
+    },
+    examples: ['linear workspace export > ws.json', 'linear workspace export --team ENG --format yaml > ws.yaml'],
+  },
+  'workspace plan': {
+    description: 'Show the create/update/delete changes that would make the workspace match a spec',
+    flags: {
+      file: {type: 'string', char: 'f', description: 'Spec file, or - for stdin', required: true},
+      prune: {
+        type: 'boolean',
+        description: 'Delete labels, templates and milestones, and archive states, missing from the spec',
+      },
+    },
+    examples: ['linear workspace plan -f ws.json', 'linear workspace plan -f ws.yaml --prune'],
+  },
+  'workspace apply': {
+    description: 'Apply only the changes that make the workspace match a spec',
+    flags: {
+      file: {type: 'string', char: 'f', description: 'Spec file, or - for stdin', required: true},
+      prune: {
+        type: 'boolean',
+        description: 'Delete labels, templates and milestones, and archive states, missing from the spec',
+      },
+      stream: {type: 'boolean', description: 'Write progress and the summary to stdout as NDJSON'},
+    },
+    examples: ['linear workspace apply -f ws.json', 'linear workspace apply -f ws.yaml --prune --dry-run'],
+  },
+
   // Other
   me: {
     description: 'Get current user info',
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear me'],
   },
   // Cycles
   'cycles list': {
     description: 'List cycles (sprints)',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       'team-id': {type: 'string', description: 'Filter by team ID'},
       team: {type: 'string', description: 'Filter by team key (e.g., ENG)'},
       active: {type: 'boolean', description: 'Show only active cycles'},
@@ -610,13 +1011,13 @@ const COMMANDS: Record<string, CommandDef> = {
   'cycles get': {
     description: 'Get cycle (sprint) details',
     args: {id: {description: 'Cycle ID', required: true}},
-    flags: {format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'}},
+    flags: {format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'}},
     examples: ['linear cycles get CYCLE_ID'],
   },
   'cycles current': {
     description: 'Get the current active cycle for a team',
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       'team-id': {type: 'string', description: 'Team ID'},
       team: {type: 'string', description: 'Team key (e.g., ENG)'},
     },
@@ -628,7 +1029,7 @@ const COMMANDS: Record<string, CommandDef> = {
     description: 'Search for issues',
     args: {query: {description: 'Search query', required: true}},
     flags: {
-      format: {type: 'string', options: ['json', 'table', 'plain'], default: 'json'},
+      format: {type: 'string', options: OUTPUT_FORMATS, default: 'json'},
       first: {type: 'number', description: 'Number of results'},
     },
     examples: ['linear search "bug fix"'],
@@ -842,6 +1243,7 @@ const WORKFLOWS = {
     steps: [
       '1. Get state ID: linear states list --team-id TEAM_ID',
       '2. Update issue: linear issues update ENG-123 --state-id STATE_ID',
+      'Or by workflow type or name in the issue team: linear issues start ENG-123, issues done ENG-123, issues move ENG-123 --to "In Review"',
     ],
   },
   bulkUpdateIssues: {
@@ -849,6 +1251,7 @@ const WORKFLOWS = {
     steps: [
       '1. Get state ID (if needed): linear states list --team-id TEAM_ID',
       '2. Bulk update: linear issues bulk-update --ids ENG-1,ENG-2,ENG-3 --state-id STATE_ID',
+      'Or select by filter: linear issues bulk-update --where-team ENG --where-state "In Review" --state Done (the error reports the match count; re-run with --confirm N)',
     ],
   },
   assignLabels: {
@@ -865,6 +1268,30 @@ const WORKFLOWS = {
       '2. Create project: linear projects create --name "Project" --team-ids TEAM_ID',
     ],
   },
+  applyPlan: {
+    description: 'Lay out a project breakdown in one call',
+    steps: [
+      '1. Write plan.yaml with issue.create operations (give each a ref), relation.create and comment.create operations using $ref:name',
+      '2. Preview: linear apply -f plan.yaml --dry-run',
+      '3. Apply: linear apply -f plan.yaml (results follow plan order; operations referencing a failed one are skipped)',
+    ],
+  },
+  mergeDuplicates: {
+    description: 'Clean up duplicate issues',
+    steps: [
+      '1. Find candidates: linear issues find-duplicates ENG-123 (higher data[].score means more alike)',
+      '2. Preview: linear issues merge ENG-124 --into ENG-123 --dry-run',
+      '3. Merge: linear issues merge ENG-124 --into ENG-123 (data.undoId reverts the labels, state, relation and comment)',
+    ],
+  },
+  pickNextIssue: {
+    description: 'Choose what to work on next without picking up blocked work',
+    steps: [
+      '1. List ready work: linear issues ready --team ENG --cycle current --assignee me (most urgent first)',
+      '2. If nothing is ready, see what is waiting: linear issues blocked --team ENG (data[].blockers nests open blockers)',
+      '3. Help unblock: work on the deepest open blocker in the chain, or ask its assignee',
+    ],
+  },
 }
 
 const CONFIG_KEYS = {
@@ -876,9 +1303,14 @@ const CONFIG_KEYS = {
     description: 'Default team key for reference',
     example: 'MITO',
   },
+  'credential-helper': {
+    description:
+      'Where API keys are stored: "config" (plaintext, default), "encrypted-file" (needs LINEAR_CREDENTIALS_PASSPHRASE) or a git-credential style command',
+    example: 'encrypted-file',
+  },
 }
 
-export default class Info extends Command {
+export default class Info extends BaseCommand {
   static override description = 'Show comprehensive CLI documentation for LLM agents'
 
   static override examples = [
@@ -928,9 +1360,13 @@ export default class Info extends Command {
         version: '0.7.0',
         overview: {
           description: 'CLI for interacting with Linear, designed for LLMs and agents',
-          authentication: 'Run "linear auth login" or set LINEAR_API_KEY environment variable',
-          outputFormat: 'All commands output JSON by default. Use --format for table/plain.',
+          authentication:
+            'Run "linear auth login" or set LINEAR_API_KEY environment variable. "linear auth login --oauth --client-id ID" logs in through an OAuth app.',
+          outputFormat:
+            'All commands output JSON by default. Use --format for table/plain; list and get commands also support ndjson/csv/tsv.',
           defaults: 'Configure default team with "linear config set default-team-id TEAM_ID"',
+          profiles:
+            'Keep several workspaces with "linear auth login --profile NAME"; select one per command with --profile or LINEAR_PROFILE, or persistently with "linear auth switch NAME". Defaults are stored per profile.',
         },
         commands: COMMANDS,
         schemas: ENTITY_SCHEMAS,
@@ -938,9 +1374,29 @@ export default class Info extends Command {
         configKeys: CONFIG_KEYS,
         tips: [
           'Use issue identifiers (ENG-123) instead of UUIDs when possible',
+          'Use --team/--state/--assignee/--label/--project/--cycle names instead of IDs; AMBIGUOUS_MATCH errors list candidates',
           'Set default-team-id to skip --team-id on every create command',
           'Use --format plain for scripting (outputs only IDs)',
-          'Use bulk-update and bulk-label for batch operations',
+          'Use --format ndjson or csv to stream records into jq, spreadsheets and data tools',
+          'Use bulk-update and bulk-label for batch operations; --where selects issues by filter and needs --confirm N or --max N. Add --stream for NDJSON progress',
+          'Bulk commands journal every issue; if one is interrupted, run linear jobs resume JOB_ID (the ID is in data.jobId and on stderr)',
+          'Issue updates are recorded in a local undo log; run linear undo to revert the last one (data.undoId identifies it)',
+          'Use linear apply -f plan.yaml to create a whole breakdown (issues, sub-issues, relations, comments) in one call; link new issues with $ref:name',
+          'Keep workflow states, labels, templates and milestones in a spec: linear workspace export > ws.json, edit, then workspace plan and workspace apply',
+          'Pass long markdown with --description-file, --body-file or --content-file (- reads stdin) instead of escaping it into a flag',
+          'Reference local screenshots in markdown as ![](./shot.png); create/update commands upload them and rewrite the links',
+          'Attach CI logs and PR links with attachments upload ENG-123 ./build.log and attachments add ENG-123 --url URL --title T',
+          'To read screenshots or logs on an issue, run attachments download ENG-123 --dir ./out and read out/manifest.json',
+          'Break work down with issues create --parent ENG-1; review progress with issues tree ENG-1 (data.descendants counts closed sub-issues)',
+          'Before planning a project, run relations graph --project NAME: data.criticalPath is the blocking chain to start on and data.cycles must be broken',
+          'To pick the next task, run issues ready --team ENG --assignee me; issues blocked shows what is waiting and on whom',
+          'Before filing a bug, run issues find-duplicates --title "..." and comment on a match instead; fold real duplicates in with issues merge DUP --into CANONICAL',
+          'Move issues without looking up state IDs: issues start|done|cancel ENG-1 OPS-2 picks the right state in each team',
+          'Use --all or --limit N on list commands to follow pagination cursors automatically',
+          'Use --fields on issues/projects list and get to fetch only the fields you need',
+          'Rate-limited requests are retried automatically; on RATE_LIMITED wait error.details.retryAfter seconds. Use --verbose to see the remaining budget',
+          'Add --dry-run to any mutating command to preview the exact mutations and targets without changing anything',
+          'Team lookups are cached locally; pass --refresh after renaming teams or run linear cache clear',
           'Pipe to jq for JSON processing: linear issues list | jq ".data[].identifier"',
         ],
       }),
@@ -1,9 +1,11 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class InitiativesArchive extends Command {
+export default class InitiativesArchive extends BaseCommand {
   static override description = 'Archive or unarchive an initiative'
 
   static override examples = [
@@ -31,6 +33,18 @@ export default class InitiativesArchive extends Command {
       const {args, flags} = await this.parse(InitiativesArchive)
       const client = getClient()
 
+      if (isDryRun()) {
+        const initiative = await client.initiative(args.id)
+        printDryRun([
+          {
+            mutation: flags.unarchive ? 'initiativeUnarchive' : 'initiativeArchive',
+            variables: {id: initiative.id},
+            target: {entity: 'initiative', id: initiative.id, name: initiative.name},
+          },
+        ])
+        return
+      }
+
       const payload = flags.unarchive
         ? await client.unarchiveInitiative(args.id)
         : await client.archiveInitiative(args.id)
@@ -1,13 +1,15 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 import {LinearDocument} from '@linear/sdk'
 
 type InitiativeCreateInput = LinearDocument.InitiativeCreateInput
 const InitiativeStatus = LinearDocument.InitiativeStatus
 
-export default class InitiativesCreate extends Command {
+export default class InitiativesCreate extends BaseCommand {
   static override description = 'Create a new initiative'
 
   static override examples = [
@@ -63,6 +65,11 @@ export default class InitiativesCreate extends Command {
       if (flags.icon) input.icon = flags.icon
       if (flags.color) input.color = flags.color
 
+      if (isDryRun()) {
+        printDryRun([{mutation: 'initiativeCreate', variables: {input}}])
+        return
+      }
+
       const payload = await client.createInitiative(input)
 
       if (!payload.success) {
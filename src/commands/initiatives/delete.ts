@@ -1,9 +1,11 @@
-import {Args, Command} from '@oclif/core'
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class InitiativesDelete extends Command {
+export default class InitiativesDelete extends BaseCommand {
   static override description = 'Delete an initiative (moves to trash)'
 
   static override examples = ['<%= config.bin %> initiatives delete INITIATIVE_ID']
@@ -20,6 +22,18 @@ export default class InitiativesDelete extends Command {
       const {args} = await this.parse(InitiativesDelete)
       const client = getClient()
 
+      if (isDryRun()) {
+        const initiative = await client.initiative(args.id)
+        printDryRun([
+          {
+            mutation: 'initiativeDelete',
+            variables: {id: initiative.id},
+            target: {entity: 'initiative', id: initiative.id, name: initiative.name},
+          },
+        ])
+        return
+      }
+
       const payload = await client.deleteInitiative(args.id)
 
       if (!payload.success) {
@@ -1,7 +1,9 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, truncate, formatProgress, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -62,7 +64,7 @@ const COLUMNS: ColumnDef<InitiativeData>[] = [
   },
 ]
 
-export default class InitiativesList extends Command {
+export default class InitiativesList extends BaseCommand {
   static override description = 'List initiatives'
 
   static override examples = [
@@ -75,7 +77,7 @@ export default class InitiativesList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     status: Flags.string({
@@ -87,6 +89,10 @@ export default class InitiativesList extends Command {
       description: 'Number of initiatives to fetch',
       default: 50,
     }),
+    after: Flags.string({
+      description: 'Cursor for pagination',
+    }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -95,60 +101,50 @@ export default class InitiativesList extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      const initiatives = await client.initiatives({
-        first: flags.first,
+      const printer = createListPrinter<InitiativeData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'id',
       })
 
-      // Client-side filtering since the API doesn't support filter
-      let filtered = initiatives.nodes
-      if (flags.status) {
-        filtered = filtered.filter((i) => i.status === flags.status)
-      }
+      const pageInfo = await streamPages(
+        (page) => client.initiatives(page),
+        flags,
+        (nodes) => {
+          // Client-side filtering since the API doesn't support filter
+          const filtered = flags.status ? nodes.filter((i) => i.status === flags.status) : nodes
 
-      const data: InitiativeData[] = await Promise.all(
-        filtered.map(async (initiative) => {
-          const owner = await initiative.owner
-          const projects = await initiative.projects()
+          return Promise.all(
+            filtered.map(async (initiative) => {
+              const owner = await initiative.owner
+              const projects = await initiative.projects()
 
-          // Calculate progress from projects
-          let totalProgress = 0
-          if (projects.nodes.length > 0) {
-            for (const project of projects.nodes) {
-              totalProgress += project.progress
-            }
-            totalProgress = totalProgress / projects.nodes.length
-          }
+              // Calculate progress from projects
+              let totalProgress = 0
+              if (projects.nodes.length > 0) {
+                for (const project of projects.nodes) {
+                  totalProgress += project.progress
+                }
+                totalProgress = totalProgress / projects.nodes.length
+              }
 
-          return {
-            id: initiative.id,
-            name: initiative.name,
-            status: initiative.status,
-            owner: owner ? {id: owner.id, name: owner.name} : null,
-            targetDate: initiative.targetDate ?? null,
-            projectCount: projects.nodes.length,
-            progress: formatProgress(totalProgress),
-            createdAt: initiative.createdAt,
-          }
-        }),
+              return {
+                id: initiative.id,
+                name: initiative.name,
+                status: initiative.status,
+                owner: owner ? {id: owner.id, name: owner.name} : null,
+                targetDate: initiative.targetDate ?? null,
+                projectCount: projects.nodes.length,
+                progress: formatProgress(totalProgress),
+                createdAt: initiative.createdAt,
+              }
+            }),
+          )
+        },
+        printer.write,
       )
 
-      const pageInfo = {
-        hasNextPage: initiatives.pageInfo.hasNextPage,
-        hasPreviousPage: initiatives.pageInfo.hasPreviousPage,
-        startCursor: initiatives.pageInfo.startCursor,
-        endCursor: initiatives.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'id',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,13 +1,15 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 import {LinearDocument} from '@linear/sdk'
 
 type InitiativeUpdateInput = LinearDocument.InitiativeUpdateInput
 const InitiativeStatus = LinearDocument.InitiativeStatus
 
-export default class InitiativesUpdate extends Command {
+export default class InitiativesUpdate extends BaseCommand {
   static override description = 'Update an initiative'
 
   static override examples = [
@@ -72,6 +74,13 @@ export default class InitiativesUpdate extends Command {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'No update fields provided')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'initiativeUpdate', variables: {id: args.id, input}, target: {entity: 'initiative', id: args.id}},
+        ])
+        return
+      }
+
       const payload = await client.updateInitiative(args.id, input)
 
       if (!payload.success) {
@@ -1,11 +1,14 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class IssuesArchive extends Command {
+export default class IssuesArchive extends BaseCommand {
   static override description = 'Archive an issue'
 
   static override examples = [
@@ -32,16 +35,29 @@ export default class IssuesArchive extends Command {
       description: 'Unarchive instead of archive',
       default: false,
     }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(IssuesArchive)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
       const issueId = await resolveIssueId(client, args.id)
 
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: flags.unarchive ? 'issueUnarchive' : 'issueArchive',
+            variables: {id: issueId},
+            target: {entity: 'issue', id: issueId, identifier: args.id},
+          },
+        ])
+        return
+      }
+
       let payload
       if (flags.unarchive) {
         payload = await client.unarchiveIssue(issueId)
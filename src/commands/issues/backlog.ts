@@ -0,0 +1,12 @@
+import {TransitionCommand} from '../../lib/transition-command.js'
+
+export default class IssuesBacklog extends TransitionCommand {
+  static override description = 'Move issues to the first "backlog" state of their team'
+
+  static override examples = [
+    '<%= config.bin %> issues backlog ENG-123',
+    '<%= config.bin %> issues backlog ENG-1 ENG-2 OPS-7',
+  ]
+
+  protected readonly type = 'backlog'
+}
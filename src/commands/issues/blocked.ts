@@ -0,0 +1,86 @@
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {printList, OUTPUT_FORMATS} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {
+  blockerFilterFlags,
+  buildBlockerFilter,
+  fetchBlockerChains,
+  fetchIssuesWithBlockers,
+  flattenBlockers,
+  isUnblocked,
+  sortByPriority,
+  type BlockerChain,
+} from '../../lib/blockers.js'
+import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
+import type {OutputFormat} from '../../lib/types.js'
+
+const COLUMNS: ColumnDef<BlockerChain>[] = [
+  {
+    key: 'identifier',
+    header: 'ID',
+    format: (value) => colors.cyan(String(value)),
+  },
+  {
+    key: 'state',
+    header: 'STATE',
+    format: (value) => (value as BlockerChain['state'])?.name ?? '',
+  },
+  {
+    key: 'title',
+    header: 'TITLE',
+    format: (value) => truncate(String(value), 40),
+  },
+  {
+    key: 'blockers',
+    header: 'BLOCKED BY',
+    format: (_value, row) => colors.red(flattenBlockers(row).join(', ')),
+  },
+]
+
+export default class IssuesBlocked extends BaseCommand {
+  static override description = 'List open issues waiting on unfinished blockers, with the chain of open blockers'
+
+  static override examples = [
+    '<%= config.bin %> issues blocked --team ENG',
+    '<%= config.bin %> issues blocked --team ENG --cycle current --format table',
+    '<%= config.bin %> issues blocked --assignee me',
+  ]
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: OUTPUT_FORMATS,
+      default: 'json',
+    }),
+    ...blockerFilterFlags,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(IssuesBlocked)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const filter = await buildBlockerFilter(client, flags)
+      const issues = await fetchIssuesWithBlockers(client, {
+        ...filter,
+        state: {type: {nin: ['completed', 'canceled']}},
+        // A blocker may be stored as a "blocked" relation on the issue itself; candidates
+        // without an open blocker are dropped below
+        or: [{hasBlockedByRelations: {eq: true}}, {hasBlockingRelations: {eq: true}}],
+      })
+      const blocked = await fetchBlockerChains(client, sortByPriority(issues.filter((issue) => !isUnblocked(issue))))
+
+      printList(blocked, format, {columns: COLUMNS, primaryKey: 'identifier', secondaryKey: 'title'})
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
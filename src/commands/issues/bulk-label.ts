@@ -1,8 +1,13 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
-import {resolveIssueId} from '../../lib/issue-utils.js'
+import {issueSelectionFlags, ISSUE_SELECTION_FILTER_FLAGS} from '../../lib/issue-filter.js'
+import {jobFlags, startBulkJob} from '../../lib/jobs.js'
+import {startUndoOperation} from '../../lib/undo.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {bulkFlags, createProgressReporter, mapWithConcurrency} from '../../lib/bulk.js'
+import {isDryRun, printDryRun, type DryRunOperation} from '../../lib/dry-run.js'
 
 interface LabelResult {
   identifier: string
@@ -13,19 +18,20 @@ interface LabelResult {
   error?: string
 }
 
-export default class IssuesBulkLabel extends Command {
+export default class IssuesBulkLabel extends BaseCommand {
   static override description = 'Add or remove labels from multiple issues'
 
   static override examples = [
     '<%= config.bin %> issues bulk-label --ids ENG-1,ENG-2,ENG-3 --add-labels LABEL_ID1,LABEL_ID2',
     '<%= config.bin %> issues bulk-label --ids ENG-1,ENG-2 --remove-labels LABEL_ID1',
     '<%= config.bin %> issues bulk-label --ids ENG-1,ENG-2,ENG-3 --add-labels LABEL_ID1 --remove-labels LABEL_ID2',
+    '<%= config.bin %> issues bulk-label --where-team ENG --where-state Triage --add-labels LABEL_ID --max 50',
   ]
 
   static override flags = {
     ids: Flags.string({
       description: 'Comma-separated issue IDs or identifiers (e.g., ENG-1,ENG-2,ENG-3)',
-      required: true,
+      exclusive: ISSUE_SELECTION_FILTER_FLAGS,
     }),
     'add-labels': Flags.string({
       description: 'Comma-separated label IDs to add',
@@ -33,11 +39,16 @@ export default class IssuesBulkLabel extends Command {
     'remove-labels': Flags.string({
       description: 'Comma-separated label IDs to remove',
     }),
+    ...issueSelectionFlags,
+    ...bulkFlags,
+    ...jobFlags,
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {flags} = await this.parse(IssuesBulkLabel)
+      applyCacheFlags(flags)
       const client = getClient()
 
       const addLabelIds = flags['add-labels']?.split(',').map((id) => id.trim()) ?? []
@@ -50,31 +61,30 @@ export default class IssuesBulkLabel extends Command {
         )
       }
 
-      // Parse issue identifiers
-      const identifiers = flags.ids.split(',').map((id) => id.trim())
-
-      if (identifiers.length === 0) {
-        throw new CliError(ErrorCodes.INVALID_INPUT, 'No issue IDs provided')
-      }
+      const {targets, journal} = await startBulkJob(
+        client,
+        {id: this.id ?? 'issues:bulk-label', argv: this.argv},
+        flags,
+      )
 
-      // Process all label operations
-      const results: LabelResult[] = []
+      const operations: DryRunOperation[] = []
+      const undo = startUndoOperation(this.id ?? 'issues:bulk-label')
+      const progress = createProgressReporter(targets.length, {stream: flags.stream})
+
+      // Process issues a few at a time; results keep the input order
+      const results = await mapWithConcurrency(
+        targets,
+        flags.concurrency,
+        async ({identifier, id: issueId, error}, index): Promise<LabelResult> => {
+          if (error || !issueId) {
+            return {identifier, id: issueId ?? '', success: false, error: error ?? 'Failed to resolve issue ID'}
+          }
 
-      // Process each issue
-      await Promise.all(
-        identifiers.map(async (identifier) => {
           try {
-            const issueId = await resolveIssueId(client, identifier)
             const issue = await client.issue(issueId)
 
             if (!issue) {
-              results.push({
-                identifier,
-                id: issueId,
-                success: false,
-                error: 'Issue not found',
-              })
-              return
+              return {identifier, id: issueId, success: false, error: 'Issue not found'}
             }
 
             // Get existing labels
@@ -88,53 +98,78 @@ export default class IssuesBulkLabel extends Command {
             // Build new label array
             const newLabelIds = [...existingLabelIds.filter((id) => !removeLabelIds.includes(id)), ...labelsToAdd]
 
+            if (isDryRun()) {
+              operations[index] = {
+                mutation: 'issueUpdate',
+                variables: {id: issueId, input: {labelIds: newLabelIds}},
+                target: {entity: 'issue', id: issueId, identifier: issue.identifier},
+              }
+              return {identifier, id: issueId, success: true}
+            }
+
             // Update the issue
             const payload = await client.updateIssue(issueId, {
               labelIds: newLabelIds,
             })
 
             if (!payload.success) {
-              results.push({
-                identifier,
-                id: issueId,
-                success: false,
-                error: 'Failed to update labels',
-              })
-              return
+              return {identifier, id: issueId, success: false, error: 'Failed to update labels'}
             }
 
             const updatedIssue = await payload.issue
-            results.push({
+            undo.record({
+              issueId,
+              identifier: updatedIssue?.identifier ?? identifier,
+              before: {labelIds: existingLabelIds},
+              after: {labelIds: newLabelIds},
+            })
+
+            return {
               identifier: updatedIssue?.identifier ?? identifier,
               id: issueId,
               success: true,
               labelsAdded: labelsToAdd.length > 0 ? labelsToAdd : undefined,
               labelsRemoved: labelsToRemove.length > 0 ? labelsToRemove : undefined,
-            })
+            }
           } catch (err) {
-            results.push({
+            return {
               identifier,
-              id: '',
+              id: issueId,
               success: false,
               error: err instanceof Error ? err.message : 'Unknown error',
-            })
+            }
           }
-        }),
+        },
+        // Dry runs print the plan only
+        isDryRun()
+          ? undefined
+          : (result, index) => {
+              journal?.record(targets[index].index, result)
+              progress.item(targets[index].index, result)
+            },
       )
+      journal?.end()
 
-      const successCount = results.filter((r) => r.success).length
-      const failedCount = results.filter((r) => !r.success).length
-
-      print(
-        success({
-          totalRequested: identifiers.length,
-          successCount,
-          failedCount,
-          labelsToAdd: addLabelIds.length > 0 ? addLabelIds : undefined,
-          labelsToRemove: removeLabelIds.length > 0 ? removeLabelIds : undefined,
-          results,
-        }),
-      )
+      const failed = results.filter((r) => !r.success)
+
+      if (isDryRun()) {
+        printDryRun(
+          operations.filter(Boolean),
+          failed.map(({identifier, error}) => ({identifier, error: error ?? 'Unknown error'})),
+        )
+        return
+      }
+
+      progress.summary({
+        jobId: journal?.id,
+        undoId: failed.length < results.length ? undo.id : undefined,
+        totalRequested: targets.length,
+        successCount: results.length - failed.length,
+        failedCount: failed.length,
+        labelsToAdd: addLabelIds.length > 0 ? addLabelIds : undefined,
+        labelsToRemove: removeLabelIds.length > 0 ? removeLabelIds : undefined,
+        results,
+      })
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,8 +1,19 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
-import {resolveIssueId} from '../../lib/issue-utils.js'
+import {issueSelectionFlags, ISSUE_SELECTION_FILTER_FLAGS} from '../../lib/issue-filter.js'
+import {jobFlags, startBulkJob} from '../../lib/jobs.js'
+import {captureIssueState, startUndoOperation} from '../../lib/undo.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {bulkFlags, createProgressReporter, mapWithConcurrency} from '../../lib/bulk.js'
+import {isDryRun, printDryRun, type DryRunOperation} from '../../lib/dry-run.js'
+import {
+  hasTeamScopedReferences,
+  resolveIssueReferences,
+  resolveIssueTeamId,
+  type ResolvedIssueReferences,
+} from '../../lib/resolvers.js'
 import type {LinearDocument} from '@linear/sdk'
 
 type IssueUpdateInput = LinearDocument.IssueUpdateInput
@@ -14,7 +25,7 @@ interface UpdateResult {
   error?: string
 }
 
-export default class IssuesBulkUpdate extends Command {
+export default class IssuesBulkUpdate extends BaseCommand {
   static override description = 'Update multiple issues at once'
 
   static override examples = [
@@ -22,15 +33,23 @@ export default class IssuesBulkUpdate extends Command {
     '<%= config.bin %> issues bulk-update --ids ENG-1,ENG-2 --priority 2',
     '<%= config.bin %> issues bulk-update --ids ENG-1,ENG-2,ENG-3 --assignee-id USER_ID',
     '<%= config.bin %> issues bulk-update --ids ENG-1,ENG-2 --state-id STATE_ID --priority 1',
+    '<%= config.bin %> issues bulk-update --ids ENG-1,OPS-2 --state Done --assignee me',
+    '<%= config.bin %> issues bulk-update --where-team ENG --where-state "In Review" --state Done --confirm 12',
+    '<%= config.bin %> issues bulk-update --where \'{"priority":{"eq":1}}\' --assignee me --max 20',
   ]
 
   static override flags = {
     ids: Flags.string({
       description: 'Comma-separated issue IDs or identifiers (e.g., ENG-1,ENG-2,ENG-3)',
-      required: true,
+      exclusive: ISSUE_SELECTION_FILTER_FLAGS,
     }),
     'state-id': Flags.string({
       description: 'New state ID for all issues',
+      exclusive: ['state'],
+    }),
+    state: Flags.string({
+      char: 's',
+      description: 'New state name, resolved per issue team (e.g., "In Progress")',
     }),
     priority: Flags.integer({
       char: 'p',
@@ -38,27 +57,51 @@ export default class IssuesBulkUpdate extends Command {
     }),
     'assignee-id': Flags.string({
       description: 'New assignee user ID (use empty string to unassign)',
+      exclusive: ['assignee'],
+    }),
+    assignee: Flags.string({
+      char: 'a',
+      description: 'New assignee email, name or "me" (use empty string to unassign)',
     }),
     'project-id': Flags.string({
       description: 'New project ID',
+      exclusive: ['project'],
+    }),
+    project: Flags.string({
+      description: 'New project name',
     }),
     estimate: Flags.integer({
       description: 'New estimate points',
     }),
     'label-ids': Flags.string({
       description: 'Comma-separated label IDs (replaces existing labels)',
+      exclusive: ['label'],
+    }),
+    label: Flags.string({
+      char: 'l',
+      description: 'Label name, repeatable or comma-separated (replaces existing labels)',
+      multiple: true,
     }),
     'due-date': Flags.string({
       description: 'Due date (YYYY-MM-DD)',
     }),
     'cycle-id': Flags.string({
       description: 'Cycle (sprint) ID',
+      exclusive: ['cycle'],
     }),
+    cycle: Flags.string({
+      description: 'Cycle number, name, or current/next/previous (resolved per issue team)',
+    }),
+    ...issueSelectionFlags,
+    ...bulkFlags,
+    ...jobFlags,
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {flags} = await this.parse(IssuesBulkUpdate)
+      applyCacheFlags(flags)
       const client = getClient()
 
       // Build the update input from flags
@@ -75,90 +118,112 @@ export default class IssuesBulkUpdate extends Command {
       if (flags['due-date']) input.dueDate = flags['due-date']
       if (flags['cycle-id']) input.cycleId = flags['cycle-id']
 
-      if (Object.keys(input).length === 0) {
+      // Assignees are workspace-wide and resolve once; the rest resolve per issue team below
+      Object.assign(input, await resolveIssueReferences(client, {assignee: flags.assignee}))
+      const teamRefs = {state: flags.state, labels: flags.label, project: flags.project, cycle: flags.cycle}
+      const referencesByTeam = new Map<string, Promise<ResolvedIssueReferences>>()
+
+      if (Object.keys(input).length === 0 && !hasTeamScopedReferences(teamRefs)) {
         throw new CliError(
           ErrorCodes.INVALID_INPUT,
-          'No update fields provided. Use at least one of: --state-id, --priority, --assignee-id, --project-id, --estimate, --label-ids',
+          'No update fields provided. Use at least one of: --state, --priority, --assignee, --project, --estimate, --label, --cycle (or their -id variants)',
         )
       }
 
-      // Parse issue identifiers
-      const identifiers = flags.ids.split(',').map((id) => id.trim())
-
-      if (identifiers.length === 0) {
-        throw new CliError(ErrorCodes.INVALID_INPUT, 'No issue IDs provided')
-      }
-
-      // Process all updates
-      const results: UpdateResult[] = []
-
-      // Resolve all issue IDs first
-      const resolvedIds = await Promise.all(
-        identifiers.map(async (identifier) => {
-          try {
-            const id = await resolveIssueId(client, identifier)
-            return {identifier, id, error: null}
-          } catch (err) {
-            return {identifier, id: null, error: err instanceof Error ? err.message : 'Unknown error'}
-          }
-        }),
+      const {targets, journal} = await startBulkJob(
+        client,
+        {id: this.id ?? 'issues:bulk-update', argv: this.argv},
+        flags,
       )
 
-      // Update all resolved issues
-      await Promise.all(
-        resolvedIds.map(async ({identifier, id, error}) => {
+      const operations: DryRunOperation[] = []
+      const undo = startUndoOperation(this.id ?? 'issues:bulk-update')
+      const progress = createProgressReporter(targets.length, {stream: flags.stream})
+
+      // Update resolved issues a few at a time; results keep the input order
+      const results = await mapWithConcurrency(
+        targets,
+        flags.concurrency,
+        async ({identifier, id, error}, index): Promise<UpdateResult> => {
           if (error || !id) {
-            results.push({
-              identifier,
-              id: id ?? '',
-              success: false,
-              error: error ?? 'Failed to resolve issue ID',
-            })
-            return
+            return {identifier, id: id ?? '', success: false, error: error ?? 'Failed to resolve issue ID'}
           }
 
           try {
-            const payload = await client.updateIssue(id, input)
+            let issueInput = input
+            if (hasTeamScopedReferences(teamRefs)) {
+              const teamId = await resolveIssueTeamId(client, identifier)
+              if (!referencesByTeam.has(teamId)) {
+                referencesByTeam.set(teamId, resolveIssueReferences(client, teamRefs, teamId))
+              }
+              issueInput = {...input, ...(await referencesByTeam.get(teamId))}
+            }
+
+            if (isDryRun()) {
+              operations[index] = {
+                mutation: 'issueUpdate',
+                variables: {id, input: issueInput},
+                target: {entity: 'issue', id, identifier},
+              }
+              return {identifier, id, success: true}
+            }
+
+            const {before, unrestorable} = await captureIssueState(client, id, issueInput)
+            const payload = await client.updateIssue(id, issueInput)
             const issue = await payload.issue
 
             if (!issue) {
-              results.push({
-                identifier,
-                id,
-                success: false,
-                error: 'Failed to update issue',
-              })
-              return
+              return {identifier, id, success: false, error: 'Failed to update issue'}
             }
 
-            results.push({
+            undo.record({
+              issueId: id,
               identifier: issue.identifier,
-              id: issue.id,
-              success: true,
+              before,
+              after: issueInput,
+              ...(unrestorable.length > 0 && {unrestorable}),
             })
+
+            return {identifier: issue.identifier, id: issue.id, success: true}
           } catch (err) {
-            results.push({
-              identifier,
-              id,
-              success: false,
-              error: err instanceof Error ? err.message : 'Unknown error',
-            })
+            return {identifier, id, success: false, error: err instanceof Error ? err.message : 'Unknown error'}
           }
-        }),
+        },
+        // Dry runs print the plan only
+        isDryRun()
+          ? undefined
+          : (result, index) => {
+              journal?.record(targets[index].index, result)
+              progress.item(targets[index].index, result)
+            },
       )
+      journal?.end()
 
-      const successCount = results.filter((r) => r.success).length
-      const failedCount = results.filter((r) => !r.success).length
-
-      print(
-        success({
-          totalRequested: identifiers.length,
-          successCount,
-          failedCount,
-          results,
-          updatedFields: Object.keys(input),
-        }),
-      )
+      const failed = results.filter((r) => !r.success)
+
+      if (isDryRun()) {
+        printDryRun(
+          operations.filter(Boolean),
+          failed.map(({identifier, error}) => ({identifier, error: error ?? 'Unknown error'})),
+        )
+        return
+      }
+
+      progress.summary({
+        jobId: journal?.id,
+        undoId: failed.length < results.length ? undo.id : undefined,
+        totalRequested: targets.length,
+        successCount: results.length - failed.length,
+        failedCount: failed.length,
+        results,
+        updatedFields: [
+          ...Object.keys(input),
+          ...(flags.state ? ['stateId'] : []),
+          ...(flags.label?.length ? ['labelIds'] : []),
+          ...(flags.project ? ['projectId'] : []),
+          ...(flags.cycle ? ['cycleId'] : []),
+        ],
+      })
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -0,0 +1,12 @@
+import {TransitionCommand} from '../../lib/transition-command.js'
+
+export default class IssuesCancel extends TransitionCommand {
+  static override description = 'Move issues to the first "canceled" state of their team (e.g., Canceled)'
+
+  static override examples = [
+    '<%= config.bin %> issues cancel ENG-123',
+    '<%= config.bin %> issues cancel ENG-1 ENG-2 OPS-7',
+  ]
+
+  protected readonly type = 'canceled'
+}
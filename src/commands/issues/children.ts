@@ -0,0 +1,73 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {printList, OUTPUT_FORMATS} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {fetchChildIssues, type IssueSummary} from '../../lib/issue-tree.js'
+import {colors, truncate, formatPriority, type ColumnDef} from '../../lib/formatter.js'
+import type {OutputFormat} from '../../lib/types.js'
+
+const COLUMNS: ColumnDef<IssueSummary>[] = [
+  {
+    key: 'identifier',
+    header: 'ID',
+    format: (value) => colors.cyan(String(value)),
+  },
+  {
+    key: 'state',
+    header: 'STATE',
+    format: (value) => (value as IssueSummary['state'])?.name ?? '',
+  },
+  {
+    key: 'priority',
+    header: 'PRI',
+    format: (value) => formatPriority(Number(value)),
+  },
+  {
+    key: 'title',
+    header: 'TITLE',
+    format: (value) => truncate(String(value), 50),
+  },
+]
+
+export default class IssuesChildren extends BaseCommand {
+  static override description = 'List the direct sub-issues of an issue'
+
+  static override examples = [
+    '<%= config.bin %> issues children ENG-1',
+    '<%= config.bin %> issues children ENG-1 --format table',
+  ]
+
+  static override args = {
+    id: Args.string({
+      description: 'Parent issue ID or identifier (e.g., ENG-1)',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: OUTPUT_FORMATS,
+      default: 'json',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(IssuesChildren)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const issueId = await resolveIssueId(client, args.id)
+      const children = await fetchChildIssues(client, [issueId])
+
+      printList(children, format, {columns: COLUMNS, primaryKey: 'identifier', secondaryKey: 'title'})
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -1,19 +1,30 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {getDefaultTeamId} from '../../lib/config.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {resolveIssueReferences, resolveTeamId} from '../../lib/resolvers.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {parseFrontMatter, readInputFile} from '../../lib/input-file.js'
+import {parseIssueFrontMatter, resolveIssueId, type IssueFrontMatter} from '../../lib/issue-utils.js'
+import {uploadImagesFlag, uploadMarkdownImages} from '../../lib/upload.js'
 import type {LinearDocument} from '@linear/sdk'
 
 type IssueCreateInput = LinearDocument.IssueCreateInput
 
-export default class IssuesCreate extends Command {
+export default class IssuesCreate extends BaseCommand {
   static override description = 'Create a new issue'
 
   static override examples = [
     '<%= config.bin %> issues create --input \'{"title":"Bug fix","teamId":"xxx"}\'',
     '<%= config.bin %> issues create --title "New feature" --team-id xxx',
     '<%= config.bin %> issues create --title "Task" --team-id xxx --description "Details here" --priority 2',
+    '<%= config.bin %> issues create --title "Fix login" --team ENG --state "In Progress" --assignee me --label bug',
+    '<%= config.bin %> issues create --description-file issue.md',
+    '<%= config.bin %> issues create --title "Write tests" --team ENG --parent ENG-1',
+    'cat notes.md | <%= config.bin %> issues create --title "Investigate" --team ENG --description-file -',
   ]
 
   static override flags = {
@@ -28,41 +39,81 @@ export default class IssuesCreate extends Command {
     }),
     'team-id': Flags.string({
       description: 'Team ID',
+      exclusive: ['team'],
+    }),
+    team: Flags.string({
+      char: 't',
+      description: 'Team key, name or ID (e.g., ENG)',
     }),
     description: Flags.string({
       char: 'd',
       description: 'Issue description (markdown supported)',
     }),
+    'description-file': Flags.string({
+      description:
+        'Read the description from a markdown file (- for stdin). YAML front-matter can set title, team, state, assignee, labels, project, cycle, priority, estimate and dueDate',
+      exclusive: ['description', 'input'],
+    }),
+    'upload-images': uploadImagesFlag,
     priority: Flags.integer({
       char: 'p',
       description: 'Priority (0=none, 1=urgent, 2=high, 3=medium, 4=low)',
     }),
     'assignee-id': Flags.string({
       description: 'Assignee user ID',
+      exclusive: ['assignee'],
+    }),
+    assignee: Flags.string({
+      char: 'a',
+      description: 'Assignee email, name or "me"',
     }),
     'state-id': Flags.string({
       description: 'State ID',
+      exclusive: ['state'],
+    }),
+    state: Flags.string({
+      char: 's',
+      description: 'State name (e.g., "In Progress")',
     }),
     'project-id': Flags.string({
       description: 'Project ID',
+      exclusive: ['project'],
+    }),
+    project: Flags.string({
+      description: 'Project name',
     }),
     estimate: Flags.integer({
       description: 'Estimate points',
     }),
     'label-ids': Flags.string({
       description: 'Comma-separated label IDs',
+      exclusive: ['label'],
+    }),
+    label: Flags.string({
+      char: 'l',
+      description: 'Label name (repeatable or comma-separated)',
+      multiple: true,
     }),
     'due-date': Flags.string({
       description: 'Due date (YYYY-MM-DD)',
     }),
+    parent: Flags.string({
+      description: 'Parent issue ID or identifier (creates a sub-issue)',
+    }),
     'cycle-id': Flags.string({
       description: 'Cycle (sprint) ID',
+      exclusive: ['cycle'],
     }),
+    cycle: Flags.string({
+      description: 'Cycle number, name, or current/next/previous',
+    }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {flags} = await this.parse(IssuesCreate)
+      applyCacheFlags(flags)
       const client = getClient()
 
       let input: IssueCreateInput
@@ -75,34 +126,79 @@ export default class IssuesCreate extends Command {
           throw new CliError(ErrorCodes.INVALID_INPUT, 'Invalid JSON in --input flag')
         }
       } else {
-        // Build input from individual flags
-        if (!flags.title) {
-          throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, 'Title is required. Use --title or --input')
+        // Build input from individual flags; front-matter fills in anything not given as a flag
+        let description = flags.description
+        let frontMatter: IssueFrontMatter = {}
+        if (flags['description-file'] !== undefined) {
+          const {data, body} = parseFrontMatter(readInputFile(flags['description-file']))
+          frontMatter = parseIssueFrontMatter(data)
+          description = body
+        }
+
+        const title = flags.title ?? frontMatter.title
+        if (!title) {
+          throw new CliError(
+            ErrorCodes.MISSING_REQUIRED_FIELD,
+            'Title is required. Use --title, --input or a title in the --description-file front-matter',
+          )
         }
 
-        // Use provided team-id or fall back to default
-        const teamId = flags['team-id'] ?? getDefaultTeamId()
+        // Use provided team or fall back to default
+        const team = flags.team ?? (flags['team-id'] ? undefined : frontMatter.team)
+        const teamId = team ? await resolveTeamId(client, team) : (flags['team-id'] ?? getDefaultTeamId())
         if (!teamId) {
           throw new CliError(
             ErrorCodes.MISSING_REQUIRED_FIELD,
-            'Team ID is required. Use --team-id, --input, or configure default with "linear config set default-team-id TEAM_ID"',
+            'Team ID is required. Use --team, --team-id, --input, or configure default with "linear config set default-team-id TEAM_ID"',
           )
         }
 
         input = {
-          title: flags.title,
+          title,
           teamId,
         }
 
-        if (flags.description) input.description = flags.description
-        if (flags.priority !== undefined) input.priority = flags.priority
+        const priority = flags.priority ?? frontMatter.priority
+        const estimate = flags.estimate ?? frontMatter.estimate
+        const dueDate = flags['due-date'] ?? frontMatter.dueDate
+
+        if (description) input.description = description
+        if (priority !== undefined) input.priority = priority
         if (flags['assignee-id']) input.assigneeId = flags['assignee-id']
         if (flags['state-id']) input.stateId = flags['state-id']
         if (flags['project-id']) input.projectId = flags['project-id']
-        if (flags.estimate !== undefined) input.estimate = flags.estimate
+        if (estimate !== undefined) input.estimate = estimate
         if (flags['label-ids']) input.labelIds = flags['label-ids'].split(',')
-        if (flags['due-date']) input.dueDate = flags['due-date']
+        if (dueDate) input.dueDate = dueDate
         if (flags['cycle-id']) input.cycleId = flags['cycle-id']
+        if (flags.parent) input.parentId = await resolveIssueId(client, flags.parent)
+
+        // Resolve names (--state, --assignee, --label, --project, --cycle) to IDs
+        Object.assign(
+          input,
+          await resolveIssueReferences(
+            client,
+            {
+              state: flags.state ?? (flags['state-id'] ? undefined : frontMatter.state),
+              assignee: flags.assignee ?? (flags['assignee-id'] ? undefined : frontMatter.assignee),
+              labels: flags.label ?? (flags['label-ids'] ? undefined : frontMatter.labels),
+              project: flags.project ?? (flags['project-id'] ? undefined : frontMatter.project),
+              cycle: flags.cycle ?? (flags['cycle-id'] ? undefined : frontMatter.cycle),
+            },
+            teamId,
+          ),
+        )
+      }
+
+      const images = await uploadMarkdownImages(client, input.description, {
+        enabled: flags['upload-images'],
+        file: flags['description-file'],
+      })
+      if (images.markdown) input.description = images.markdown
+
+      if (isDryRun()) {
+        printDryRun([...images.operations, {mutation: 'issueCreate', variables: {input}}])
+        return
       }
 
       // Create the issue
@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class IssuesDelete extends Command {
+export default class IssuesDelete extends BaseCommand {
   static override description = 'Delete an issue (moves to trash)'
 
   static override examples = [
@@ -25,11 +28,13 @@ export default class IssuesDelete extends Command {
       description: 'Permanently delete (cannot be undone)',
       default: false,
     }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(IssuesDelete)
+      applyCacheFlags(flags)
       const client = getClient()
 
       const issueId = await resolveIssueId(client, args.id)
@@ -42,6 +47,15 @@ export default class IssuesDelete extends Command {
 
       const identifier = issue.identifier
 
+      if (isDryRun()) {
+        const target = {entity: 'issue', id: issueId, identifier, name: issue.title}
+        printDryRun([
+          {mutation: 'issueArchive', variables: {id: issueId}, target},
+          ...(flags.permanent ? [{mutation: 'issueDelete', variables: {id: issueId}, target}] : []),
+        ])
+        return
+      }
+
       // Delete the issue
       if (flags.permanent) {
         // Archive first, then delete permanently
@@ -0,0 +1,12 @@
+import {TransitionCommand} from '../../lib/transition-command.js'
+
+export default class IssuesDone extends TransitionCommand {
+  static override description = 'Move issues to the first "completed" state of their team (e.g., Done)'
+
+  static override examples = [
+    '<%= config.bin %> issues done ENG-123',
+    '<%= config.bin %> issues done ENG-1 ENG-2 OPS-7',
+  ]
+
+  protected readonly type = 'completed'
+}
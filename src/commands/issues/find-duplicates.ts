@@ -0,0 +1,123 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {printList, OUTPUT_FORMATS} from '../../lib/output.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {resolveTeamId} from '../../lib/resolvers.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {findDuplicateCandidates, type DuplicateCandidate} from '../../lib/duplicates.js'
+import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
+import type {OutputFormat} from '../../lib/types.js'
+
+const COLUMNS: ColumnDef<DuplicateCandidate>[] = [
+  {
+    key: 'identifier',
+    header: 'ID',
+    format: (value) => colors.cyan(String(value)),
+  },
+  {
+    key: 'score',
+    header: 'SCORE',
+    format: (value) => Number(value).toFixed(2),
+  },
+  {
+    key: 'state',
+    header: 'STATE',
+    format: (value) => (value as DuplicateCandidate['state'])?.name ?? '',
+  },
+  {
+    key: 'title',
+    header: 'TITLE',
+    format: (value) => truncate(String(value), 50),
+  },
+]
+
+export default class IssuesFindDuplicates extends BaseCommand {
+  static override description = 'Find issues that may duplicate an issue or a title, ranked by text similarity'
+
+  static override examples = [
+    '<%= config.bin %> issues find-duplicates ENG-123',
+    '<%= config.bin %> issues find-duplicates --title "Login fails with SSO" --team ENG',
+    '<%= config.bin %> issues find-duplicates ENG-123 --min-score 0.5 --format table',
+  ]
+
+  static override args = {
+    issue: Args.string({
+      description: 'Issue ID or identifier to check (e.g., ENG-123)',
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: OUTPUT_FORMATS,
+      default: 'json',
+    }),
+    title: Flags.string({
+      description: 'Check a title instead of an existing issue (e.g., before creating one)',
+    }),
+    description: Flags.string({
+      description: 'Description to compare along with --title',
+      dependsOn: ['title'],
+    }),
+    team: Flags.string({
+      char: 't',
+      description: 'Only search issues of this team (key, name or ID)',
+    }),
+    'min-score': Flags.string({
+      description: 'Minimum similarity from 0 to 1',
+      default: '0.3',
+    }),
+    limit: Flags.integer({
+      description: 'Maximum number of candidates',
+      default: 10,
+      min: 1,
+    }),
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(IssuesFindDuplicates)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+
+      if (Boolean(args.issue) === Boolean(flags.title)) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, 'Pass either an issue or --title')
+      }
+
+      const minScore = Number(flags['min-score'])
+      if (Number.isNaN(minScore) || minScore < 0 || minScore > 1) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, '--min-score must be a number from 0 to 1')
+      }
+
+      const client = getClient()
+      const filter = flags.team ? {team: {id: {eq: await resolveTeamId(client, flags.team)}}} : undefined
+
+      let issue: {id?: string; title: string; description?: string | null}
+      if (args.issue) {
+        const found = await client.issue(await resolveIssueId(client, args.issue))
+        if (!found) {
+          throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${args.issue} not found`)
+        }
+        issue = {id: found.id, title: found.title, description: found.description}
+      } else {
+        issue = {title: flags.title!, description: flags.description}
+      }
+
+      const candidates = await findDuplicateCandidates(client, issue, {
+        excludeId: issue.id,
+        filter,
+        minScore,
+        limit: flags.limit,
+      })
+
+      printList(candidates, format, {columns: COLUMNS, primaryKey: 'identifier', secondaryKey: 'title'})
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
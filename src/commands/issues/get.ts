@@ -1,18 +1,24 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {success, print, printItem} from '../../lib/output.js'
+import {success, print, printItem, isExportFormat, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {fetchChildIssues} from '../../lib/issue-tree.js'
+import {ISSUE_FIELDS, fetchProjectedItem, parseFields, printProjectedItem} from '../../lib/fields.js'
 import type {OutputFormat} from '../../lib/types.js'
 
-export default class IssuesGet extends Command {
+export default class IssuesGet extends BaseCommand {
   static override description = 'Get a single issue by ID or identifier'
 
   static override examples = [
     '<%= config.bin %> issues get ENG-123',
     '<%= config.bin %> issues get ENG-123 --format table',
     '<%= config.bin %> issues get ENG-123 --with-attachments',
+    '<%= config.bin %> issues get ENG-1 --include-children',
     '<%= config.bin %> issues get abc123',
+    '<%= config.bin %> issues get ENG-123 --fields identifier,title,state.name,assignee.email',
   ]
 
   static override args = {
@@ -26,22 +32,43 @@ export default class IssuesGet extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     'with-attachments': Flags.boolean({
       description: 'Include attachments (linked PRs, commits, etc.)',
       default: false,
     }),
+    'include-children': Flags.boolean({
+      description: 'Include direct sub-issues (use issues tree for the full hierarchy)',
+      default: false,
+    }),
+    fields: Flags.string({
+      description: 'Comma-separated fields to return (e.g., identifier,title,state.name,labels.name)',
+      exclusive: ['with-attachments', 'include-children'],
+    }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(IssuesGet)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
       const issueId = await resolveIssueId(client, args.id)
+
+      if (flags.fields) {
+        const paths = parseFields(flags.fields, ISSUE_FIELDS)
+        const data = await fetchProjectedItem(client, {entity: 'issue', id: issueId, paths, schema: ISSUE_FIELDS})
+        if (!data) {
+          throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${args.id} not found`)
+        }
+        printProjectedItem(data, format, paths)
+        return
+      }
+
       const issue = await client.issue(issueId)
 
       if (!issue) {
@@ -49,13 +76,14 @@ export default class IssuesGet extends Command {
       }
 
       // Fetch related data
-      const [state, assignee, team, labels, comments, attachments] = await Promise.all([
+      const [state, assignee, team, labels, comments, attachments, children] = await Promise.all([
         issue.state,
         issue.assignee,
         issue.team,
         issue.labels(),
         issue.comments(),
         flags['with-attachments'] ? issue.attachments() : Promise.resolve(null),
+        flags['include-children'] ? fetchChildIssues(client, [issue.id]) : Promise.resolve(null),
       ])
 
       const data = {
@@ -108,10 +136,13 @@ export default class IssuesGet extends Command {
             createdAt: attachment.createdAt,
           })),
         }),
+        ...(children && {children}),
       }
 
       if (format === 'json') {
         print(success(data))
+      } else if (isExportFormat(format)) {
+        printItem(data, format)
       } else if (format === 'table') {
         printItem(
           {
@@ -125,6 +156,9 @@ export default class IssuesGet extends Command {
             estimate: data.estimate ?? 'None',
             comments: data.commentsCount,
             ...('attachments' in data && {attachments: data.attachments?.length ?? 0}),
+            ...('children' in data && {
+              children: data.children?.map((child) => child.identifier).join(', ') || 'None',
+            }),
             url: data.url,
             createdAt: data.createdAt,
             updatedAt: data.updatedAt,
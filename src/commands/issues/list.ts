@@ -1,13 +1,14 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
+import {ISSUE_FIELDS, printProjectedList} from '../../lib/fields.js'
 import {colors, truncate, formatPriority, type ColumnDef} from '../../lib/formatter.js'
-import type {LinearDocument} from '@linear/sdk'
+import {buildIssueFilter} from '../../lib/issue-filter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
-type IssueFilter = LinearDocument.IssueFilter
-
 interface IssueData {
   id: string
   identifier: string
@@ -39,7 +40,7 @@ const COLUMNS: ColumnDef<IssueData>[] = [
   },
 ]
 
-export default class IssuesList extends Command {
+export default class IssuesList extends BaseCommand {
   static override description = 'List issues with optional filtering'
 
   static override examples = [
@@ -49,13 +50,16 @@ export default class IssuesList extends Command {
     '<%= config.bin %> issues list --assignee me',
     '<%= config.bin %> issues list --filter \'{"state":{"name":{"eq":"In Progress"}}}\'',
     '<%= config.bin %> issues list --first 50 --after cursor123',
+    '<%= config.bin %> issues list --team ENG --all --format plain',
+    '<%= config.bin %> issues list --limit 500 --first 250',
+    '<%= config.bin %> issues list --fields identifier,title,state.name,assignee.email',
   ]
 
   static override flags = {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     team: Flags.string({
@@ -81,6 +85,10 @@ export default class IssuesList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
+    fields: Flags.string({
+      description: 'Comma-separated fields to return (e.g., identifier,title,state.name,assignee.email)',
+    }),
   }
 
   public async run(): Promise<void> {
@@ -89,74 +97,47 @@ export default class IssuesList extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      // Build filter
-      let filter: IssueFilter = {}
-
-      // Parse JSON filter if provided
-      if (flags.filter) {
-        try {
-          filter = JSON.parse(flags.filter) as IssueFilter
-        } catch {
-          throw new Error('Invalid JSON in --filter flag')
-        }
-      }
-
-      // Apply shorthand filters
-      if (flags.team) {
-        filter.team = {key: {eq: flags.team}}
-      }
-
-      if (flags.assignee) {
-        if (flags.assignee === 'me') {
-          const viewer = await client.viewer
-          filter.assignee = {id: {eq: viewer.id}}
-        } else {
-          filter.assignee = {id: {eq: flags.assignee}}
-        }
-      }
+      const filter = await buildIssueFilter(client, flags)
 
-      if (flags.state) {
-        filter.state = {name: {eq: flags.state}}
+      if (flags.fields) {
+        // Fetch only the requested fields with a single projected query per page
+        await printProjectedList(client, format, flags, {
+          connection: 'issues',
+          filterType: 'IssueFilter',
+          filter,
+          fields: flags.fields,
+          schema: ISSUE_FIELDS,
+        })
+        return
       }
 
-      // Fetch issues
-      const issues = await client.issues({
-        filter,
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<IssueData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'identifier',
+        secondaryKey: 'title',
       })
 
-      // Map to clean objects
-      const data: IssueData[] = issues.nodes.map((issue) => ({
-        id: issue.id,
-        identifier: issue.identifier,
-        title: issue.title,
-        description: issue.description ?? undefined,
-        priority: issue.priority,
-        priorityLabel: issue.priorityLabel,
-        estimate: issue.estimate ?? undefined,
-        url: issue.url,
-        createdAt: issue.createdAt,
-        updatedAt: issue.updatedAt,
-      }))
-
-      const pageInfo = {
-        hasNextPage: issues.pageInfo.hasNextPage,
-        hasPreviousPage: issues.pageInfo.hasPreviousPage,
-        startCursor: issues.pageInfo.startCursor,
-        endCursor: issues.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'identifier',
-          secondaryKey: 'title',
-          pageInfo,
-        })
-      }
+      // Fetch issues, following cursors when --all or --limit is set
+      const pageInfo = await streamPages(
+        (page) => client.issues({filter, ...page}),
+        flags,
+        (nodes) =>
+          nodes.map((issue) => ({
+            id: issue.id,
+            identifier: issue.identifier,
+            title: issue.title,
+            description: issue.description ?? undefined,
+            priority: issue.priority,
+            priorityLabel: issue.priorityLabel,
+            estimate: issue.estimate ?? undefined,
+            url: issue.url,
+            createdAt: issue.createdAt,
+            updatedAt: issue.updatedAt,
+          })),
+        printer.write,
+      )
+
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
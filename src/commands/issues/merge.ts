@@ -0,0 +1,237 @@
+import {Args, Flags} from '@oclif/core'
+import type {LinearDocument} from '@linear/sdk'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print, printItem} from '../../lib/output.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {findStatesByType} from '../../lib/resolvers.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {fetchIssueComments, formatMergedComments, selectMergedLabels} from '../../lib/duplicates.js'
+import {isDryRun, printDryRun, type DryRunOperation} from '../../lib/dry-run.js'
+import {startUndoOperation} from '../../lib/undo.js'
+import type {OutputFormat} from '../../lib/types.js'
+
+interface MergeIssue {
+  id: string
+  identifier: string
+  title: string
+  url: string
+  team: {id: string}
+  state: {id: string; name: string} | null
+  labels: {nodes: Array<{id: string; team: {id: string} | null}>}
+}
+
+const MERGE_ISSUE_QUERY = `query MergeIssue($id: String!) {
+  issue(id: $id) {
+    id identifier title url team { id } state { id name } labels { nodes { id team { id } } }
+  }
+}`
+
+export default class IssuesMerge extends BaseCommand {
+  static override description =
+    'Merge a duplicate into a canonical issue: link it as a duplicate, copy its comments and labels, and cancel it'
+
+  static override examples = [
+    '<%= config.bin %> issues merge ENG-124 --into ENG-123',
+    '<%= config.bin %> issues merge ENG-124 --into ENG-123 --dry-run',
+  ]
+
+  static override args = {
+    duplicate: Args.string({
+      description: 'Duplicate issue ID or identifier (e.g., ENG-124)',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: ['json', 'table', 'plain'],
+      default: 'json',
+    }),
+    into: Flags.string({
+      description: 'Canonical issue ID or identifier to keep (e.g., ENG-123)',
+      required: true,
+    }),
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(IssuesMerge)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const [duplicateId, canonicalId] = await Promise.all([
+        resolveIssueId(client, args.duplicate),
+        resolveIssueId(client, flags.into),
+      ])
+      if (duplicateId === canonicalId) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, 'Cannot merge an issue into itself')
+      }
+
+      const [duplicate, canonical] = await Promise.all(
+        [duplicateId, canonicalId].map(async (id, i) => {
+          const data = await client.client.request<{issue: MergeIssue | null}, Record<string, unknown>>(
+            MERGE_ISSUE_QUERY,
+            {id},
+          )
+          if (!data.issue) {
+            throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${i === 0 ? args.duplicate : flags.into} not found`)
+          }
+          return data.issue
+        }),
+      )
+
+      // Prefer a canceled state named "Duplicate" (part of Linear's default workflow)
+      const canceledStates = await findStatesByType(client, duplicate.team.id, 'canceled')
+      const canceledState =
+        canceledStates.find((state) => state.name.toLowerCase() === 'duplicate') ?? canceledStates[0]
+
+      const comments = await fetchIssueComments(client, duplicate.id)
+      const canonicalLabelIds = canonical.labels.nodes.map((label) => label.id)
+      const {added: labelsAdded, skipped: labelsSkipped} = selectMergedLabels(duplicate.labels.nodes, {
+        teamId: canonical.team.id,
+        labelIds: canonicalLabelIds,
+      })
+
+      const relationInput: LinearDocument.IssueRelationCreateInput = {
+        issueId: duplicate.id,
+        relatedIssueId: canonical.id,
+        type: 'duplicate' as LinearDocument.IssueRelationType,
+      }
+      const commentInput =
+        comments.length > 0 ? {issueId: canonical.id, body: formatMergedComments(duplicate, comments)} : null
+      const labelIds = [...canonicalLabelIds, ...labelsAdded]
+
+      const duplicateTarget = {
+        entity: 'issue',
+        id: duplicate.id,
+        identifier: duplicate.identifier,
+        name: duplicate.title,
+      }
+      const canonicalTarget = {
+        entity: 'issue',
+        id: canonical.id,
+        identifier: canonical.identifier,
+        name: canonical.title,
+      }
+
+      // The comment is posted last, so a rejected label, state or relation change never leaves
+      // a copy of the comments behind; every step is logged for `linear undo` as it succeeds
+      if (isDryRun()) {
+        const operations: DryRunOperation[] = []
+        if (labelsAdded.length > 0) {
+          operations.push({
+            mutation: 'issueUpdate',
+            variables: {id: canonical.id, input: {labelIds}},
+            target: canonicalTarget,
+          })
+        }
+        operations.push(
+          {
+            mutation: 'issueUpdate',
+            variables: {id: duplicate.id, input: {stateId: canceledState.id}},
+            target: duplicateTarget,
+          },
+          {mutation: 'issueRelationCreate', variables: {input: relationInput}, target: duplicateTarget},
+        )
+        if (commentInput) {
+          operations.push({mutation: 'commentCreate', variables: {input: commentInput}, target: canonicalTarget})
+        }
+        printDryRun(operations)
+        return
+      }
+
+      const undo = startUndoOperation(this.id ?? 'issues:merge')
+
+      if (labelsAdded.length > 0) {
+        const labelPayload = await client.updateIssue(canonical.id, {labelIds})
+        if (!labelPayload.success) {
+          throw new CliError(ErrorCodes.API_ERROR, 'Failed to copy labels to the canonical issue')
+        }
+        undo.record({
+          issueId: canonical.id,
+          identifier: canonical.identifier,
+          before: {labelIds: canonicalLabelIds},
+          after: {labelIds},
+        })
+      }
+
+      const statePayload = await client.updateIssue(duplicate.id, {stateId: canceledState.id})
+      if (!statePayload.success) {
+        throw new CliError(ErrorCodes.API_ERROR, 'Failed to cancel the duplicate')
+      }
+      undo.record({
+        issueId: duplicate.id,
+        identifier: duplicate.identifier,
+        before: {stateId: duplicate.state?.id ?? null},
+        after: {stateId: canceledState.id},
+      })
+
+      const relationPayload = await client.createIssueRelation(relationInput)
+      if (!relationPayload.success || !relationPayload.issueRelation) {
+        throw new CliError(ErrorCodes.API_ERROR, 'Failed to create duplicate relation')
+      }
+      const relation = await relationPayload.issueRelation
+      undo.record({
+        issueId: duplicate.id,
+        identifier: duplicate.identifier,
+        before: {},
+        after: {},
+        created: {entity: 'issueRelation', id: relation.id},
+      })
+
+      let commentId: string | null = null
+      if (commentInput) {
+        const commentPayload = await client.createComment(commentInput)
+        if (!commentPayload.success || !commentPayload.comment) {
+          throw new CliError(ErrorCodes.API_ERROR, 'Failed to copy comments to the canonical issue')
+        }
+        commentId = (await commentPayload.comment).id
+        undo.record({
+          issueId: canonical.id,
+          identifier: canonical.identifier,
+          before: {},
+          after: {},
+          created: {entity: 'comment', id: commentId},
+        })
+      }
+
+      const data = {
+        duplicate: {id: duplicate.id, identifier: duplicate.identifier, url: duplicate.url},
+        canonical: {id: canonical.id, identifier: canonical.identifier, url: canonical.url},
+        relationId: relation.id,
+        commentId,
+        commentsCopied: comments.length,
+        labelsAdded,
+        labelsSkipped,
+        state: {id: canceledState.id, name: canceledState.name},
+        undoId: undo.id,
+      }
+
+      if (format === 'json') {
+        print(success(data))
+      } else if (format === 'table') {
+        printItem(
+          {
+            duplicate: data.duplicate.identifier,
+            canonical: data.canonical.identifier,
+            commentsCopied: data.commentsCopied,
+            labelsAdded: data.labelsAdded.length,
+            state: data.state.name,
+          } as Record<string, unknown>,
+          format,
+        )
+      } else {
+        console.log(data.duplicate.identifier)
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {bulkFlags} from '../../lib/bulk.js'
+import {transitionArgs} from '../../lib/transition-command.js'
+import {WORKFLOW_STATE_TYPES, parseTransitionTarget, runTransitions} from '../../lib/transitions.js'
+
+export default class IssuesMove extends BaseCommand {
+  static override description = 'Move issues to a state by name or workflow type, resolved in each issue team'
+
+  static override examples = [
+    '<%= config.bin %> issues move ENG-123 --to "In Review"',
+    '<%= config.bin %> issues move ENG-1 OPS-7 --to started',
+  ]
+
+  static override strict = false
+
+  static override args = transitionArgs
+
+  static override flags = {
+    to: Flags.string({
+      description: `Target state name (e.g., "In Review") or workflow type (${WORKFLOW_STATE_TYPES.join(', ')})`,
+      required: true,
+    }),
+    ...bulkFlags,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {argv, flags} = await this.parse(IssuesMove)
+      applyCacheFlags(flags)
+      const client = getClient()
+
+      await runTransitions(client, argv as string[], parseTransitionTarget(flags.to), {
+        command: this.id ?? 'issues:move',
+        concurrency: flags.concurrency,
+        stream: flags.stream,
+      })
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
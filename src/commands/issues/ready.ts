@@ -0,0 +1,78 @@
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {printList, OUTPUT_FORMATS} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {
+  blockerFilterFlags,
+  buildBlockerFilter,
+  fetchIssuesWithBlockers,
+  isUnblocked,
+  sortByPriority,
+  type IssueWithBlockers,
+} from '../../lib/blockers.js'
+import {colors, truncate, formatPriority, type ColumnDef} from '../../lib/formatter.js'
+import type {OutputFormat} from '../../lib/types.js'
+
+const COLUMNS: ColumnDef<IssueWithBlockers>[] = [
+  {
+    key: 'identifier',
+    header: 'ID',
+    format: (value) => colors.cyan(String(value)),
+  },
+  {
+    key: 'priority',
+    header: 'PRI',
+    format: (value) => formatPriority(Number(value)),
+  },
+  {
+    key: 'assignee',
+    header: 'ASSIGNEE',
+    format: (value) => (value as IssueWithBlockers['assignee'])?.name ?? colors.dim('-'),
+  },
+  {
+    key: 'title',
+    header: 'TITLE',
+    format: (value) => truncate(String(value), 50),
+  },
+]
+
+export default class IssuesReady extends BaseCommand {
+  static override description = 'List unstarted issues whose blockers are all completed or canceled'
+
+  static override examples = [
+    '<%= config.bin %> issues ready --team ENG',
+    '<%= config.bin %> issues ready --team ENG --cycle current --assignee me',
+    '<%= config.bin %> issues ready --assignee me --format table',
+  ]
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: OUTPUT_FORMATS,
+      default: 'json',
+    }),
+    ...blockerFilterFlags,
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(IssuesReady)
+      applyCacheFlags(flags)
+      const format = flags.format as OutputFormat
+      const client = getClient()
+
+      const filter = await buildBlockerFilter(client, flags)
+      const issues = await fetchIssuesWithBlockers(client, {...filter, state: {type: {eq: 'unstarted'}}})
+      const ready = sortByPriority(issues.filter((issue) => isUnblocked(issue)))
+
+      printList(ready, format, {columns: COLUMNS, primaryKey: 'identifier', secondaryKey: 'title'})
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -1,11 +1,15 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {startUndoOperation} from '../../lib/undo.js'
 
-export default class IssuesRemoveLabels extends Command {
+export default class IssuesRemoveLabels extends BaseCommand {
   static override description = 'Remove labels from an issue'
 
   static override examples = ['<%= config.bin %> issues remove-labels ENG-123 --label-ids LABEL_ID1,LABEL_ID2']
@@ -28,11 +32,13 @@ export default class IssuesRemoveLabels extends Command {
       description: 'Comma-separated label IDs to remove',
       required: true,
     }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(IssuesRemoveLabels)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
@@ -54,6 +60,17 @@ export default class IssuesRemoveLabels extends Command {
       const remainingLabelIds = existingLabelIds.filter((id) => !labelIdsToRemove.includes(id))
 
       // Update the issue with remaining labels
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: 'issueUpdate',
+            variables: {id: issueId, input: {labelIds: remainingLabelIds}},
+            target: {entity: 'issue', id: issueId, identifier: issue.identifier, name: issue.title},
+          },
+        ])
+        return
+      }
+
       const payload = await client.updateIssue(issueId, {
         labelIds: remainingLabelIds,
       })
@@ -67,6 +84,14 @@ export default class IssuesRemoveLabels extends Command {
         throw new CliError(ErrorCodes.API_ERROR, 'Issue not found in response')
       }
 
+      const undo = startUndoOperation(this.id ?? 'issues:remove-labels')
+      undo.record({
+        issueId,
+        identifier: updatedIssue.identifier,
+        before: {labelIds: existingLabelIds},
+        after: {labelIds: remainingLabelIds},
+      })
+
       const labels = await updatedIssue.labels()
 
       const data = {
@@ -80,6 +105,7 @@ export default class IssuesRemoveLabels extends Command {
         })),
         labelsRemoved: labelIdsToRemove.filter((id) => existingLabelIds.includes(id)),
         url: updatedIssue.url,
+        undoId: undo.id,
       }
 
       if (format === 'json') {
@@ -0,0 +1,12 @@
+import {TransitionCommand} from '../../lib/transition-command.js'
+
+export default class IssuesStart extends TransitionCommand {
+  static override description = 'Move issues to the first "started" state of their team (e.g., In Progress)'
+
+  static override examples = [
+    '<%= config.bin %> issues start ENG-123',
+    '<%= config.bin %> issues start ENG-1 ENG-2 OPS-7',
+  ]
+
+  protected readonly type = 'started'
+}
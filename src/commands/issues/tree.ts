@@ -0,0 +1,63 @@
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {countDescendants, fetchIssueTree, formatIssueTree, type IssueTreeNode} from '../../lib/issue-tree.js'
+
+export default class IssuesTree extends BaseCommand {
+  static override description = 'Show the full sub-issue hierarchy of an issue'
+
+  static override examples = [
+    '<%= config.bin %> issues tree ENG-1',
+    '<%= config.bin %> issues tree ENG-1 --format table',
+    '<%= config.bin %> issues tree ENG-1 --depth 1',
+  ]
+
+  static override args = {
+    id: Args.string({
+      description: 'Issue ID or identifier (e.g., ENG-1)',
+      required: true,
+    }),
+  }
+
+  static override flags = {
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format (table renders an ASCII tree)',
+      options: ['json', 'table', 'plain'],
+      default: 'json',
+    }),
+    depth: Flags.integer({
+      description: 'Levels of sub-issues to include (default: all)',
+      min: 1,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(IssuesTree)
+      const client = getClient()
+
+      const issueId = await resolveIssueId(client, args.id)
+      const tree = await fetchIssueTree(client, issueId, flags.depth)
+
+      if (flags.format === 'json') {
+        print(success({...tree, descendants: countDescendants(tree)}))
+      } else if (flags.format === 'table') {
+        console.log(formatIssueTree(tree))
+      } else {
+        // plain: identifiers, indented two spaces per level
+        const walk = (node: IssueTreeNode, depth: number): void => {
+          console.log(`${'  '.repeat(depth)}${node.identifier}`)
+          for (const child of node.children) walk(child, depth + 1)
+        }
+        walk(tree, 0)
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
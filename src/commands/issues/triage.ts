@@ -0,0 +1,12 @@
+import {TransitionCommand} from '../../lib/transition-command.js'
+
+export default class IssuesTriage extends TransitionCommand {
+  static override description = 'Move issues to the triage state of their team'
+
+  static override examples = [
+    '<%= config.bin %> issues triage ENG-123',
+    '<%= config.bin %> issues triage ENG-1 ENG-2 OPS-7',
+  ]
+
+  protected readonly type = 'triage'
+}
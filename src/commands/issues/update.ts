@@ -1,19 +1,29 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {hasTeamScopedReferences, resolveIssueReferences, resolveIssueTeamId} from '../../lib/resolvers.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
+import {captureIssueState, startUndoOperation} from '../../lib/undo.js'
+import {uploadImagesFlag, uploadMarkdownImages} from '../../lib/upload.js'
 import type {LinearDocument} from '@linear/sdk'
 
 type IssueUpdateInput = LinearDocument.IssueUpdateInput
 
-export default class IssuesUpdate extends Command {
+export default class IssuesUpdate extends BaseCommand {
   static override description = 'Update an existing issue'
 
   static override examples = [
     '<%= config.bin %> issues update abc123 --input \'{"title":"Updated title"}\'',
     '<%= config.bin %> issues update ENG-123 --title "New title"',
     '<%= config.bin %> issues update ENG-123 --state-id xxx --assignee-id yyy',
+    '<%= config.bin %> issues update ENG-123 --state "In Review" --assignee alice@example.com',
+    '<%= config.bin %> issues update ENG-123 --description-file description.md',
+    '<%= config.bin %> issues update ENG-123 --parent ENG-1',
   ]
 
   static override args = {
@@ -27,7 +37,19 @@ export default class IssuesUpdate extends Command {
     input: Flags.string({
       char: 'i',
       description: 'JSON input object (IssueUpdateInput)',
-      exclusive: ['title', 'description', 'priority', 'assignee-id', 'state-id'],
+      exclusive: [
+        'title',
+        'description',
+        'priority',
+        'assignee-id',
+        'state-id',
+        'assignee',
+        'state',
+        'label',
+        'project',
+        'cycle',
+        'parent',
+      ],
     }),
     title: Flags.string({
       description: 'Issue title',
@@ -36,36 +58,67 @@ export default class IssuesUpdate extends Command {
       char: 'd',
       description: 'Issue description (markdown supported)',
     }),
+    'description-file': markdownFileFlag('description', 'issue description'),
+    'upload-images': uploadImagesFlag,
     priority: Flags.integer({
       char: 'p',
       description: 'Priority (0=none, 1=urgent, 2=high, 3=medium, 4=low)',
     }),
     'assignee-id': Flags.string({
       description: 'Assignee user ID (use empty string to unassign)',
+      exclusive: ['assignee'],
+    }),
+    assignee: Flags.string({
+      char: 'a',
+      description: 'Assignee email, name or "me" (use empty string to unassign)',
     }),
     'state-id': Flags.string({
       description: 'State ID',
+      exclusive: ['state'],
+    }),
+    state: Flags.string({
+      char: 's',
+      description: 'State name (e.g., "In Progress")',
     }),
     'project-id': Flags.string({
       description: 'Project ID',
+      exclusive: ['project'],
+    }),
+    project: Flags.string({
+      description: 'Project name',
     }),
     estimate: Flags.integer({
       description: 'Estimate points',
     }),
     'label-ids': Flags.string({
       description: 'Comma-separated label IDs (replaces existing labels)',
+      exclusive: ['label'],
+    }),
+    label: Flags.string({
+      char: 'l',
+      description: 'Label name, repeatable or comma-separated (replaces existing labels)',
+      multiple: true,
     }),
     'due-date': Flags.string({
       description: 'Due date (YYYY-MM-DD, use empty string to clear)',
     }),
     'cycle-id': Flags.string({
       description: 'Cycle (sprint) ID (use empty string to remove from cycle)',
+      exclusive: ['cycle'],
     }),
+    cycle: Flags.string({
+      description: 'Cycle number, name, or current/next/previous',
+    }),
+    parent: Flags.string({
+      description: 'Parent issue ID or identifier (use empty string to remove the parent)',
+    }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(IssuesUpdate)
+      applyCacheFlags(flags)
       const client = getClient()
 
       const issueId = await resolveIssueId(client, args.id)
@@ -84,7 +137,8 @@ export default class IssuesUpdate extends Command {
         input = {}
 
         if (flags.title) input.title = flags.title
-        if (flags.description) input.description = flags.description
+        const description = readMarkdown(flags.description, flags['description-file'])
+        if (description) input.description = description
         if (flags.priority !== undefined) input.priority = flags.priority
         if (flags['assignee-id'] !== undefined) {
           input.assigneeId = flags['assignee-id'] || null
@@ -99,13 +153,46 @@ export default class IssuesUpdate extends Command {
         if (flags['cycle-id'] !== undefined) {
           input.cycleId = flags['cycle-id'] || null
         }
+        if (flags.parent !== undefined) {
+          input.parentId = flags.parent ? await resolveIssueId(client, flags.parent) : null
+        }
+
+        // Resolve names to IDs; states, labels, projects and cycles are scoped to the issue's team
+        const refs = {
+          state: flags.state,
+          assignee: flags.assignee,
+          labels: flags.label,
+          project: flags.project,
+          cycle: flags.cycle,
+        }
+        const teamId = hasTeamScopedReferences(refs) ? await resolveIssueTeamId(client, issueId) : undefined
+        Object.assign(input, await resolveIssueReferences(client, refs, teamId))
 
         if (Object.keys(input).length === 0) {
           throw new CliError(ErrorCodes.INVALID_INPUT, 'No update fields provided. Use --input or individual flags.')
         }
       }
 
-      // Update the issue
+      const images = await uploadMarkdownImages(client, input.description, {
+        enabled: flags['upload-images'],
+        file: flags['description-file'],
+      })
+      if (images.markdown) input.description = images.markdown
+
+      if (isDryRun()) {
+        printDryRun([
+          ...images.operations,
+          {
+            mutation: 'issueUpdate',
+            variables: {id: issueId, input},
+            target: {entity: 'issue', id: issueId, identifier: args.id},
+          },
+        ])
+        return
+      }
+
+      // Capture the previous values for linear undo, then update the issue
+      const {before, unrestorable} = await captureIssueState(client, issueId, input)
       const payload = await client.updateIssue(issueId, input)
       const issue = await payload.issue
 
@@ -113,6 +200,15 @@ export default class IssuesUpdate extends Command {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to update issue')
       }
 
+      const undo = startUndoOperation(this.id ?? 'issues:update')
+      undo.record({
+        issueId: issue.id,
+        identifier: issue.identifier,
+        before,
+        after: input,
+        ...(unrestorable.length > 0 && {unrestorable}),
+      })
+
       print(
         success({
           id: issue.id,
@@ -120,6 +216,7 @@ export default class IssuesUpdate extends Command {
           title: issue.title,
           url: issue.url,
           updatedAt: issue.updatedAt,
+          undoId: undo.id,
         }),
       )
     } catch (err) {
@@ -0,0 +1,20 @@
+import {BaseCommand} from '../../lib/base-command.js'
+import {successList, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {listJobs} from '../../lib/jobs.js'
+
+export default class JobsList extends BaseCommand {
+  static override description = 'List bulk jobs recorded in the local journal'
+
+  static override examples = ['<%= config.bin %> jobs list']
+
+  public async run(): Promise<void> {
+    try {
+      await this.parse(JobsList)
+      print(successList(listJobs()))
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {isDryRun} from '../../lib/dry-run.js'
+import {readJob, resumeProfileArgs, type JobState} from '../../lib/jobs.js'
+
+export default class JobsResume extends BaseCommand {
+  static override description =
+    'Resume a bulk job with the profile it was started with, retrying every issue that has not succeeded'
+
+  static override examples = [
+    '<%= config.bin %> jobs resume 20250301T101500-a1b2c3',
+    '<%= config.bin %> jobs resume 20250301T101500-a1b2c3 --dry-run',
+  ]
+
+  static override args = {
+    id: Args.string({
+      description: 'Job ID',
+      required: true,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    let job: JobState
+    let argv: string[]
+
+    try {
+      const {args, flags} = await this.parse(JobsResume)
+      job = readJob(args.id)
+      const profileArgs = resumeProfileArgs(job, flags.profile)
+      const remaining = job.items.filter((item) => item.status !== 'succeeded' && item.id).length
+
+      if (remaining === 0) {
+        print(
+          success({
+            id: job.id,
+            status: job.status,
+            message: 'Nothing to resume: every issue has succeeded or could not be resolved',
+          }),
+        )
+        return
+      }
+
+      // The command parses the global flags again, so pass on the ones given here
+      argv = [...job.argv, ...profileArgs, '--job', job.id]
+      if (isDryRun()) argv.push('--dry-run')
+      if (flags.verbose && !argv.includes('--verbose')) argv.push('--verbose')
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+
+    // Outside the try block: the bulk command reports its own errors and exit code
+    await this.config.runCommand(job.command, argv)
+  }
+}
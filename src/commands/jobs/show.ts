@@ -0,0 +1,28 @@
+import {Args} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {readJob} from '../../lib/jobs.js'
+
+export default class JobsShow extends BaseCommand {
+  static override description = 'Show a bulk job with the status of every issue'
+
+  static override examples = ['<%= config.bin %> jobs show 20250301T101500-a1b2c3']
+
+  static override args = {
+    id: Args.string({
+      description: 'Job ID',
+      required: true,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args} = await this.parse(JobsShow)
+      print(success(readJob(args.id)))
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
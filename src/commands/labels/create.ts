@@ -1,10 +1,13 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {clearCache} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class LabelsCreate extends Command {
+export default class LabelsCreate extends BaseCommand {
   static override description = 'Create a label'
 
   static override examples = [
@@ -49,18 +52,28 @@ export default class LabelsCreate extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      const payload = await client.createIssueLabel({
+      const input = {
         name: flags.name,
         color: flags.color,
         description: flags.description,
         teamId: flags['team-id'],
         parentId: flags['parent-id'],
-      })
+      }
+
+      if (isDryRun()) {
+        printDryRun([{mutation: 'issueLabelCreate', variables: {input}}])
+        return
+      }
+
+      const payload = await client.createIssueLabel(input)
 
       if (!payload.success || !payload.issueLabel) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to create label')
       }
 
+      // Cached label lists are stale now
+      clearCache('labels')
+
       const label = await payload.issueLabel
       const [team, parent] = await Promise.all([label.team, label.parent])
 
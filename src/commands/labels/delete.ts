@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {clearCache} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class LabelsDelete extends Command {
+export default class LabelsDelete extends BaseCommand {
   static override description = 'Delete a label'
 
   static override examples = ['<%= config.bin %> labels delete LABEL_ID']
@@ -31,12 +34,26 @@ export default class LabelsDelete extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      if (isDryRun()) {
+        const issueLabel = await client.issueLabel(args.id)
+        printDryRun([
+          {
+            mutation: 'issueLabelDelete',
+            variables: {id: issueLabel.id},
+            target: {entity: 'issueLabel', id: issueLabel.id, name: issueLabel.name},
+          },
+        ])
+        return
+      }
+
       const payload = await client.deleteIssueLabel(args.id)
 
       if (!payload.success) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to delete label')
       }
 
+      clearCache('labels')
+
       const data = {
         id: args.id,
         deleted: true,
@@ -1,8 +1,12 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags, cacheFlags, findCachedTeamByKey} from '../../lib/cache.js'
+import {paginationFlags, streamPages, type PageRequest} from '../../lib/pagination.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
+import type {IssueLabelConnection} from '@linear/sdk'
 import type {OutputFormat} from '../../lib/types.js'
 
 interface LabelData {
@@ -39,7 +43,7 @@ const COLUMNS: ColumnDef<LabelData>[] = [
   },
 ]
 
-export default class LabelsList extends Command {
+export default class LabelsList extends BaseCommand {
   static override description = 'List labels in the workspace'
 
   static override examples = [
@@ -52,7 +56,7 @@ export default class LabelsList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     team: Flags.string({
@@ -66,69 +70,57 @@ export default class LabelsList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {flags} = await this.parse(LabelsList)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      let labels
-
+      // Fetch labels for a specific team, or all workspace labels
+      let fetchPage: (page: PageRequest) => Promise<IssueLabelConnection>
       if (flags.team) {
-        // Fetch labels for a specific team
-        const teams = await client.teams({
-          filter: {key: {eq: flags.team}},
-        })
-        const team = teams.nodes[0]
+        const team = await findCachedTeamByKey(client, flags.team)
         if (!team) {
           throw new Error(`Team ${flags.team} not found`)
         }
-        labels = await team.labels({
-          first: flags.first,
-          after: flags.after,
-        })
+        fetchPage = (page) => client.issueLabels({filter: {team: {id: {eq: team.id}}}, ...page})
       } else {
-        // Fetch all workspace labels (issueLabels returns workspace labels)
-        labels = await client.issueLabels({
-          first: flags.first,
-          after: flags.after,
-        })
+        fetchPage = (page) => client.issueLabels(page)
       }
 
-      const data: LabelData[] = await Promise.all(
-        labels.nodes.map(async (label) => {
-          const parent = await label.parent
-          return {
-            id: label.id,
-            name: label.name,
-            color: label.color,
-            description: label.description ?? undefined,
-            isGroup: label.isGroup,
-            parentId: parent?.id,
-            createdAt: label.createdAt,
-          }
-        }),
-      )
+      const printer = createListPrinter<LabelData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'description',
+      })
 
-      const pageInfo = {
-        hasNextPage: labels.pageInfo.hasNextPage,
-        hasPreviousPage: labels.pageInfo.hasPreviousPage,
-        startCursor: labels.pageInfo.startCursor,
-        endCursor: labels.pageInfo.endCursor,
-      }
+      const pageInfo = await streamPages(
+        fetchPage,
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (label) => {
+              const parent = await label.parent
+              return {
+                id: label.id,
+                name: label.name,
+                color: label.color,
+                description: label.description ?? undefined,
+                isGroup: label.isGroup,
+                parentId: parent?.id,
+                createdAt: label.createdAt,
+              }
+            }),
+          ),
+        printer.write,
+      )
 
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'description',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {clearCache} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class LabelsUpdate extends Command {
+export default class LabelsUpdate extends BaseCommand {
   static override description = 'Update a label'
 
   static override examples = [
@@ -60,12 +63,21 @@ export default class LabelsUpdate extends Command {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'At least one field to update is required')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'issueLabelUpdate', variables: {id: args.id, input}, target: {entity: 'issueLabel', id: args.id}},
+        ])
+        return
+      }
+
       const payload = await client.updateIssueLabel(args.id, input)
 
       if (!payload.success || !payload.issueLabel) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to update label')
       }
 
+      clearCache('labels')
+
       const label = await payload.issueLabel
       const [team, parent] = await Promise.all([label.team, label.parent])
 
@@ -1,10 +1,11 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../lib/base-command.js'
 import {getClient} from '../lib/client.js'
-import {success, print, printItem} from '../lib/output.js'
+import {success, print, printItem, isExportFormat, OUTPUT_FORMATS} from '../lib/output.js'
 import {handleError} from '../lib/errors.js'
 import type {OutputFormat} from '../lib/types.js'
 
-export default class Me extends Command {
+export default class Me extends BaseCommand {
   static override description = 'Show current user information'
 
   static override aliases = ['whoami']
@@ -15,7 +16,7 @@ export default class Me extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
   }
@@ -54,6 +55,8 @@ export default class Me extends Command {
 
       if (format === 'json') {
         print(success(data))
+      } else if (isExportFormat(format)) {
+        printItem(data, format)
       } else if (format === 'table') {
         printItem(
           {
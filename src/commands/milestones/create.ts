@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
 
-export default class MilestonesCreate extends Command {
+export default class MilestonesCreate extends BaseCommand {
   static override description = 'Create a project milestone'
 
   static override examples = [
@@ -35,6 +38,7 @@ export default class MilestonesCreate extends Command {
       char: 'd',
       description: 'Milestone description',
     }),
+    'description-file': markdownFileFlag('description', 'milestone description'),
     'target-date': Flags.string({
       description: 'Target date (YYYY-MM-DD)',
     }),
@@ -51,12 +55,25 @@ export default class MilestonesCreate extends Command {
         throw new CliError(ErrorCodes.NOT_FOUND, `Project ${args.projectId} not found`)
       }
 
-      const payload = await client.createProjectMilestone({
+      const input = {
         projectId: args.projectId,
         name: flags.name,
-        description: flags.description,
+        description: readMarkdown(flags.description, flags['description-file']),
         targetDate: flags['target-date'],
-      })
+      }
+
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: 'projectMilestoneCreate',
+            variables: {input},
+            target: {entity: 'project', id: project.id, name: project.name},
+          },
+        ])
+        return
+      }
+
+      const payload = await client.createProjectMilestone(input)
 
       if (!payload.success || !payload.projectMilestone) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to create milestone')
@@ -1,7 +1,9 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -35,7 +37,7 @@ const COLUMNS: ColumnDef<MilestoneData>[] = [
   },
 ]
 
-export default class MilestonesList extends Command {
+export default class MilestonesList extends BaseCommand {
   static override description = 'List project milestones'
 
   static override examples = [
@@ -54,7 +56,7 @@ export default class MilestonesList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     first: Flags.integer({
@@ -64,6 +66,7 @@ export default class MilestonesList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -77,40 +80,31 @@ export default class MilestonesList extends Command {
         throw new CliError(ErrorCodes.NOT_FOUND, `Project ${args.projectId} not found`)
       }
 
-      const milestones = await project.projectMilestones({
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<MilestoneData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'targetDate',
       })
 
-      const data: MilestoneData[] = milestones.nodes.map((milestone) => ({
-        id: milestone.id,
-        name: milestone.name,
-        description: milestone.description ?? undefined,
-        targetDate: milestone.targetDate ?? undefined,
-        sortOrder: milestone.sortOrder,
-        projectId: project.id,
-        projectName: project.name,
-        createdAt: milestone.createdAt,
-        updatedAt: milestone.updatedAt,
-      }))
+      const pageInfo = await streamPages(
+        (page) => project.projectMilestones(page),
+        flags,
+        (nodes) =>
+          nodes.map((milestone) => ({
+            id: milestone.id,
+            name: milestone.name,
+            description: milestone.description ?? undefined,
+            targetDate: milestone.targetDate ?? undefined,
+            sortOrder: milestone.sortOrder,
+            projectId: project.id,
+            projectName: project.name,
+            createdAt: milestone.createdAt,
+            updatedAt: milestone.updatedAt,
+          })),
+        printer.write,
+      )
 
-      const pageInfo = {
-        hasNextPage: milestones.pageInfo.hasNextPage,
-        hasPreviousPage: milestones.pageInfo.hasPreviousPage,
-        startCursor: milestones.pageInfo.startCursor,
-        endCursor: milestones.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'targetDate',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
 
-export default class MilestonesUpdate extends Command {
+export default class MilestonesUpdate extends BaseCommand {
   static override description = 'Update a project milestone'
 
   static override examples = [
@@ -34,6 +37,7 @@ export default class MilestonesUpdate extends Command {
       char: 'd',
       description: 'Milestone description',
     }),
+    'description-file': markdownFileFlag('description', 'milestone description'),
     'target-date': Flags.string({
       description: 'Target date (YYYY-MM-DD)',
     }),
@@ -47,13 +51,25 @@ export default class MilestonesUpdate extends Command {
 
       const input: Record<string, unknown> = {}
       if (flags.name) input.name = flags.name
-      if (flags.description) input.description = flags.description
+      const description = readMarkdown(flags.description, flags['description-file'])
+      if (description) input.description = description
       if (flags['target-date']) input.targetDate = flags['target-date']
 
       if (Object.keys(input).length === 0) {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'At least one field to update is required')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: 'projectMilestoneUpdate',
+            variables: {id: args.id, input},
+            target: {entity: 'projectMilestone', id: args.id},
+          },
+        ])
+        return
+      }
+
       const payload = await client.updateProjectMilestone(args.id, input)
 
       if (!payload.success || !payload.projectMilestone) {
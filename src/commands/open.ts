@@ -1,11 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
 import open from 'open'
+import {BaseCommand} from '../lib/base-command.js'
 import {getClient} from '../lib/client.js'
 import {success, print} from '../lib/output.js'
 import {handleError} from '../lib/errors.js'
 import {parseIdentifier, isUUID, resolveIssueId} from '../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../lib/cache.js'
 
-export default class Open extends Command {
+export default class Open extends BaseCommand {
   static override description = 'Open Linear resources in browser'
 
   static override examples = [
@@ -41,11 +43,13 @@ export default class Open extends Command {
       description: 'Open my issues view',
       exclusive: ['team', 'inbox', 'settings'],
     }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(Open)
+      applyCacheFlags(flags)
       const client = getClient()
 
       // Get organization for URL building
@@ -1,18 +1,23 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
+import {uploadImagesFlag, uploadMarkdownImages} from '../../lib/upload.js'
 import type {LinearDocument} from '@linear/sdk'
 
 const HEALTH_OPTIONS = ['onTrack', 'atRisk', 'offTrack'] as const
 
-export default class ProjectUpdatesCreate extends Command {
+export default class ProjectUpdatesCreate extends BaseCommand {
   static override description = 'Create a project update'
 
   static override examples = [
     '<%= config.bin %> project-updates create PROJECT_ID --body "Sprint completed successfully"',
     '<%= config.bin %> project-updates create PROJECT_ID --body "Delayed due to dependencies" --health atRisk',
+    '<%= config.bin %> project-updates create PROJECT_ID --body-file update.md',
   ]
 
   static override args = {
@@ -32,8 +37,9 @@ export default class ProjectUpdatesCreate extends Command {
     body: Flags.string({
       char: 'b',
       description: 'Update body (supports markdown)',
-      required: true,
     }),
+    'body-file': markdownFileFlag('body', 'update body'),
+    'upload-images': uploadImagesFlag,
     health: Flags.string({
       char: 'h',
       description: 'Project health status',
@@ -49,14 +55,36 @@ export default class ProjectUpdatesCreate extends Command {
       const health = flags.health as LinearDocument.ProjectUpdateHealthType
       const client = getClient()
 
+      const body = readMarkdown(flags.body, flags['body-file'])
+      if (!body) {
+        throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, 'Update body is required. Use --body or --body-file')
+      }
+
       const project = await client.project(args.projectId)
       if (!project) {
         throw new CliError(ErrorCodes.NOT_FOUND, `Project ${args.projectId} not found`)
       }
 
+      const images = await uploadMarkdownImages(client, body, {
+        enabled: flags['upload-images'],
+        file: flags['body-file'],
+      })
+
+      if (isDryRun()) {
+        printDryRun([
+          ...images.operations,
+          {
+            mutation: 'projectUpdateCreate',
+            variables: {input: {projectId: args.projectId, body: images.markdown, health}},
+            target: {entity: 'project', id: project.id, name: project.name},
+          },
+        ])
+        return
+      }
+
       const payload = await client.createProjectUpdate({
         projectId: args.projectId,
-        body: flags.body,
+        body: images.markdown,
         health,
       })
 
@@ -1,7 +1,9 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -56,7 +58,7 @@ const COLUMNS: ColumnDef<ProjectUpdateData>[] = [
   },
 ]
 
-export default class ProjectUpdatesList extends Command {
+export default class ProjectUpdatesList extends BaseCommand {
   static override description = 'List project updates'
 
   static override examples = [
@@ -75,7 +77,7 @@ export default class ProjectUpdatesList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     first: Flags.integer({
@@ -85,6 +87,7 @@ export default class ProjectUpdatesList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -98,45 +101,36 @@ export default class ProjectUpdatesList extends Command {
         throw new CliError(ErrorCodes.NOT_FOUND, `Project ${args.projectId} not found`)
       }
 
-      const updates = await project.projectUpdates({
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<ProjectUpdateData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'id',
+        secondaryKey: 'body',
       })
 
-      const data: ProjectUpdateData[] = await Promise.all(
-        updates.nodes.map(async (update) => {
-          const user = await update.user
-          return {
-            id: update.id,
-            body: update.body,
-            health: update.health,
-            projectId: project.id,
-            projectName: project.name,
-            userId: user?.id ?? '',
-            userName: user?.name ?? 'Unknown',
-            createdAt: update.createdAt,
-            updatedAt: update.updatedAt,
-          }
-        }),
+      const pageInfo = await streamPages(
+        (page) => project.projectUpdates(page),
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (update) => {
+              const user = await update.user
+              return {
+                id: update.id,
+                body: update.body,
+                health: update.health,
+                projectId: project.id,
+                projectName: project.name,
+                userId: user?.id ?? '',
+                userName: user?.name ?? 'Unknown',
+                createdAt: update.createdAt,
+                updatedAt: update.updatedAt,
+              }
+            }),
+          ),
+        printer.write,
       )
 
-      const pageInfo = {
-        hasNextPage: updates.pageInfo.hasNextPage,
-        hasPreviousPage: updates.pageInfo.hasPreviousPage,
-        startCursor: updates.pageInfo.startCursor,
-        endCursor: updates.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'id',
-          secondaryKey: 'body',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,13 +1,16 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
 
 const HEALTH_OPTIONS = ['onTrack', 'atRisk', 'offTrack'] as const
 type HealthOption = (typeof HEALTH_OPTIONS)[number]
 
-export default class ProjectUpdatesUpdate extends Command {
+export default class ProjectUpdatesUpdate extends BaseCommand {
   static override description = 'Update a project update'
 
   static override examples = [
@@ -33,6 +36,7 @@ export default class ProjectUpdatesUpdate extends Command {
       char: 'b',
       description: 'Update body (supports markdown)',
     }),
+    'body-file': markdownFileFlag('body', 'update body'),
     health: Flags.string({
       char: 'h',
       description: 'Project health status',
@@ -47,13 +51,25 @@ export default class ProjectUpdatesUpdate extends Command {
       const client = getClient()
 
       const input: Record<string, unknown> = {}
-      if (flags.body) input.body = flags.body
+      const body = readMarkdown(flags.body, flags['body-file'])
+      if (body) input.body = body
       if (flags.health) input.health = flags.health as HealthOption
 
       if (Object.keys(input).length === 0) {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'At least one field to update is required')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: 'projectUpdateUpdate',
+            variables: {id: args.id, input},
+            target: {entity: 'projectUpdate', id: args.id},
+          },
+        ])
+        return
+      }
+
       const payload = await client.updateProjectUpdate(args.id, input)
 
       if (!payload.success || !payload.projectUpdate) {
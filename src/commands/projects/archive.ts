@@ -1,10 +1,12 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class ProjectsArchive extends Command {
+export default class ProjectsArchive extends BaseCommand {
   static override description = 'Archive a project'
 
   static override examples = [
@@ -39,6 +41,18 @@ export default class ProjectsArchive extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      if (isDryRun()) {
+        const project = await client.project(args.id)
+        printDryRun([
+          {
+            mutation: flags.unarchive ? 'projectUnarchive' : 'projectArchive',
+            variables: {id: project.id},
+            target: {entity: 'project', id: project.id, name: project.name},
+          },
+        ])
+        return
+      }
+
       let payload
       if (flags.unarchive) {
         payload = await client.unarchiveProject(args.id)
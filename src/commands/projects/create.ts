@@ -1,11 +1,14 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {getDefaultTeamId} from '../../lib/config.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
 
-export default class ProjectsCreate extends Command {
+export default class ProjectsCreate extends BaseCommand {
   static override description = 'Create a project'
 
   static override examples = [
@@ -51,6 +54,7 @@ export default class ProjectsCreate extends Command {
       char: 'c',
       description: 'Project content (markdown, for longer descriptions)',
     }),
+    'content-file': markdownFileFlag('content', 'project content'),
   }
 
   public async run(): Promise<void> {
@@ -74,7 +78,8 @@ export default class ProjectsCreate extends Command {
         teamIds = [defaultTeamId]
       }
 
-      const payload = await client.createProject({
+      const content = readMarkdown(flags.content, flags['content-file'])
+      const createInput = {
         name: flags.name,
         description: flags.description,
         state: flags.state,
@@ -82,12 +87,23 @@ export default class ProjectsCreate extends Command {
         leadId: flags['lead-id'],
         startDate: flags['start-date'],
         targetDate: flags['target-date'],
-      })
+      }
+
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'projectCreate', variables: {input: createInput}},
+          // Content is set with a follow-up update once the project exists
+          ...(content ? [{mutation: 'projectUpdate', variables: {id: '<created project>', input: {content}}}] : []),
+        ])
+        return
+      }
+
+      const payload = await client.createProject(createInput)
 
       // Content is not in ProjectCreateInput, so we set it via update after creation
-      if (flags.content && payload.success && payload.project) {
+      if (content && payload.success && payload.project) {
         const created = await payload.project
-        const contentInput: Record<string, unknown> = {content: flags.content}
+        const contentInput: Record<string, unknown> = {content}
         await client.updateProject(created.id, contentInput)
       }
 
@@ -1,10 +1,12 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class ProjectsDelete extends Command {
+export default class ProjectsDelete extends BaseCommand {
   static override description = 'Delete a project'
 
   static override examples = ['<%= config.bin %> projects delete PROJECT_ID']
@@ -31,6 +33,18 @@ export default class ProjectsDelete extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      if (isDryRun()) {
+        const project = await client.project(args.id)
+        printDryRun([
+          {
+            mutation: 'projectDelete',
+            variables: {id: project.id},
+            target: {entity: 'project', id: project.id, name: project.name},
+          },
+        ])
+        return
+      }
+
       const payload = await client.deleteProject(args.id)
 
       if (!payload.success) {
@@ -1,15 +1,18 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {success, print, printItem} from '../../lib/output.js'
+import {success, print, printItem, isExportFormat, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {PROJECT_FIELDS, fetchProjectedItem, parseFields, printProjectedItem} from '../../lib/fields.js'
 import type {OutputFormat} from '../../lib/types.js'
 
-export default class ProjectsGet extends Command {
+export default class ProjectsGet extends BaseCommand {
   static override description = 'Get a single project by ID'
 
   static override examples = [
     '<%= config.bin %> projects get PROJECT_ID',
     '<%= config.bin %> projects get PROJECT_ID --format table',
+    '<%= config.bin %> projects get PROJECT_ID --fields name,state,progress,lead.email',
   ]
 
   static override args = {
@@ -23,9 +26,12 @@ export default class ProjectsGet extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
+    fields: Flags.string({
+      description: 'Comma-separated fields to return (e.g., name,state,progress,teams.key)',
+    }),
   }
 
   public async run(): Promise<void> {
@@ -34,6 +40,16 @@ export default class ProjectsGet extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      if (flags.fields) {
+        const paths = parseFields(flags.fields, PROJECT_FIELDS)
+        const data = await fetchProjectedItem(client, {entity: 'project', id: args.id, paths, schema: PROJECT_FIELDS})
+        if (!data) {
+          throw new CliError(ErrorCodes.NOT_FOUND, `Project ${args.id} not found`)
+        }
+        printProjectedItem(data, format, paths)
+        return
+      }
+
       const project = await client.project(args.id)
 
       if (!project) {
@@ -81,6 +97,8 @@ export default class ProjectsGet extends Command {
 
       if (format === 'json') {
         print(success(data))
+      } else if (isExportFormat(format)) {
+        printItem(data, format)
       } else if (format === 'table') {
         printItem(
           {
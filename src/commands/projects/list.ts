@@ -1,7 +1,10 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
+import {PROJECT_FIELDS, printProjectedList} from '../../lib/fields.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -71,7 +74,7 @@ const COLUMNS: ColumnDef<ProjectData>[] = [
   },
 ]
 
-export default class ProjectsList extends Command {
+export default class ProjectsList extends BaseCommand {
   static override description = 'List projects in the workspace'
 
   static override examples = [
@@ -79,13 +82,14 @@ export default class ProjectsList extends Command {
     '<%= config.bin %> projects list --format table',
     '<%= config.bin %> projects list --team ENG',
     '<%= config.bin %> projects list --state started',
+    '<%= config.bin %> projects list --fields name,state,lead.name,targetDate',
   ]
 
   static override flags = {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     team: Flags.string({
@@ -103,6 +107,10 @@ export default class ProjectsList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
+    fields: Flags.string({
+      description: 'Comma-separated fields to return (e.g., name,state,lead.name,teams.key)',
+    }),
   }
 
   public async run(): Promise<void> {
@@ -123,41 +131,46 @@ export default class ProjectsList extends Command {
         filter.accessibleTeams = {key: {eq: flags.team}}
       }
 
-      const projects = await client.projects({
-        filter: Object.keys(filter).length > 0 ? filter : undefined,
-        first: flags.first,
-        after: flags.after,
-      })
+      if (flags.fields) {
+        await printProjectedList(client, format, flags, {
+          connection: 'projects',
+          filterType: 'ProjectFilter',
+          filter: Object.keys(filter).length > 0 ? filter : undefined,
+          fields: flags.fields,
+          schema: PROJECT_FIELDS,
+        })
+        return
+      }
 
-      const data: ProjectData[] = projects.nodes.map((project) => ({
-        id: project.id,
-        name: project.name,
-        description: project.description ?? undefined,
-        state: project.state,
-        progress: project.progress,
-        targetDate: project.targetDate ?? undefined,
-        url: project.url,
-        createdAt: project.createdAt,
-        updatedAt: project.updatedAt,
-      }))
+      const printer = createListPrinter<ProjectData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'state',
+      })
 
-      const pageInfo = {
-        hasNextPage: projects.pageInfo.hasNextPage,
-        hasPreviousPage: projects.pageInfo.hasPreviousPage,
-        startCursor: projects.pageInfo.startCursor,
-        endCursor: projects.pageInfo.endCursor,
-      }
+      const pageInfo = await streamPages(
+        (page) =>
+          client.projects({
+            filter: Object.keys(filter).length > 0 ? filter : undefined,
+            ...page,
+          }),
+        flags,
+        (nodes) =>
+          nodes.map((project) => ({
+            id: project.id,
+            name: project.name,
+            description: project.description ?? undefined,
+            state: project.state,
+            progress: project.progress,
+            targetDate: project.targetDate ?? undefined,
+            url: project.url,
+            createdAt: project.createdAt,
+            updatedAt: project.updatedAt,
+          })),
+        printer.write,
+      )
 
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'state',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,10 +1,13 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {markdownFileFlag, readMarkdown} from '../../lib/input-file.js'
 
-export default class ProjectsUpdate extends Command {
+export default class ProjectsUpdate extends BaseCommand {
   static override description = 'Update a project'
 
   static override examples = [
@@ -53,6 +56,7 @@ export default class ProjectsUpdate extends Command {
       char: 'c',
       description: 'Project content (markdown, for longer descriptions)',
     }),
+    'content-file': markdownFileFlag('content', 'project content'),
   }
 
   public async run(): Promise<void> {
@@ -64,7 +68,8 @@ export default class ProjectsUpdate extends Command {
       const input: Record<string, unknown> = {}
       if (flags.name) input.name = flags.name
       if (flags.description) input.description = flags.description
-      if (flags.content) input.content = flags.content
+      const content = readMarkdown(flags.content, flags['content-file'])
+      if (content) input.content = content
       if (flags.state) input.state = flags.state
       if (flags['lead-id']) input.leadId = flags['lead-id']
       if (flags['start-date']) input.startDate = flags['start-date']
@@ -74,6 +79,13 @@ export default class ProjectsUpdate extends Command {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'At least one field to update is required')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'projectUpdate', variables: {id: args.id, input}, target: {entity: 'project', id: args.id}},
+        ])
+        return
+      }
+
       const payload = await client.updateProject(args.id, input)
 
       if (!payload.success || !payload.project) {
@@ -1,7 +1,10 @@
-import {Command, Flags} from '@oclif/core'
-import {requireApiKey} from '../lib/config.js'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../lib/base-command.js'
+import {getAuthorizationHeader} from '../lib/client.js'
 import {success, error, print} from '../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../lib/errors.js'
+import {getRateLimitWaitMs, parseRateLimitHeaders} from '../lib/retry.js'
+import {getMutationField, isDryRun, isMutation, printDryRun} from '../lib/dry-run.js'
 
 const LINEAR_API_URL = 'https://api.linear.app/graphql'
 
@@ -10,7 +13,7 @@ interface GraphQLResponse {
   errors?: Array<{message: string; locations?: unknown; path?: unknown}>
 }
 
-export default class Query extends Command {
+export default class Query extends BaseCommand {
   static override description = 'Execute a raw GraphQL query against the Linear API'
 
   static override examples = [
@@ -43,7 +46,7 @@ export default class Query extends Command {
     const timeoutSeconds = flags.timeout ?? 30
 
     try {
-      const apiKey = requireApiKey()
+      const authorization = await getAuthorizationHeader()
 
       let variables: Record<string, unknown> | undefined
       if (flags.variables) {
@@ -56,13 +59,18 @@ export default class Query extends Command {
         }
       }
 
+      if (isDryRun() && isMutation(flags.gql)) {
+        printDryRun([{mutation: getMutationField(flags.gql), variables: variables ?? {}, document: flags.gql}])
+        return
+      }
+
       timeoutHandle = setTimeout(() => controller.abort(), timeoutSeconds * 1000)
 
       const response = await fetch(LINEAR_API_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: apiKey,
+          Authorization: authorization,
         },
         body: JSON.stringify({
           query: flags.gql,
@@ -73,6 +81,12 @@ export default class Query extends Command {
 
       clearTimeout(timeoutHandle)
 
+      if (response.status === 429) {
+        const waitMs = getRateLimitWaitMs(parseRateLimitHeaders(response.headers)) ?? 0
+        const retryAfter = Math.ceil(waitMs / 1000)
+        throw new CliError(ErrorCodes.RATE_LIMITED, `Rate limit exceeded. Retry after ${retryAfter}s.`, {retryAfter})
+      }
+
       if (!response.ok) {
         print(error('API_ERROR', `Linear API returned ${response.status}: ${response.statusText}`))
         this.exit(1)
@@ -1,14 +1,17 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 import type {LinearDocument} from '@linear/sdk'
 
 const RELATION_TYPES = ['blocks', 'duplicate', 'related'] as const
 
-export default class RelationsCreate extends Command {
+export default class RelationsCreate extends BaseCommand {
   static override description = 'Create a relation between two issues'
 
   static override examples = [
@@ -41,11 +44,13 @@ export default class RelationsCreate extends Command {
       required: true,
       options: [...RELATION_TYPES],
     }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(RelationsCreate)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const relationType = flags.type as LinearDocument.IssueRelationType
       const client = getClient()
@@ -55,6 +60,17 @@ export default class RelationsCreate extends Command {
         resolveIssueId(client, args.relatedIssue),
       ])
 
+      if (isDryRun()) {
+        printDryRun([
+          {
+            mutation: 'issueRelationCreate',
+            variables: {input: {issueId, relatedIssueId, type: relationType}},
+            target: {entity: 'issue', id: issueId, identifier: args.issue},
+          },
+        ])
+        return
+      }
+
       const payload = await client.createIssueRelation({
         issueId,
         relatedIssueId,
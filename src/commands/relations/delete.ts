@@ -1,10 +1,12 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class RelationsDelete extends Command {
+export default class RelationsDelete extends BaseCommand {
   static override description = 'Delete an issue relation'
 
   static override examples = ['<%= config.bin %> relations delete RELATION_ID']
@@ -31,6 +33,13 @@ export default class RelationsDelete extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'issueRelationDelete', variables: {id: args.id}, target: {entity: 'issueRelation', id: args.id}},
+        ])
+        return
+      }
+
       const payload = await client.deleteIssueRelation(args.id)
 
       if (!payload.success) {
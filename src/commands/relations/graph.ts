@@ -0,0 +1,110 @@
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print} from '../../lib/output.js'
+import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
+import {resolveIssueId} from '../../lib/issue-utils.js'
+import {resolveProjectId, resolveTeamId} from '../../lib/resolvers.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {
+  GRAPH_RELATION_TYPES,
+  crawlRelationGraph,
+  findCriticalPath,
+  findCycles,
+  toDot,
+  toMermaid,
+} from '../../lib/relation-graph.js'
+
+const SEED_FLAGS = ['project', 'team', 'root']
+
+export default class RelationsGraph extends BaseCommand {
+  static override description = 'Export the relation graph of a project, team or issue with cycles and critical path'
+
+  static override examples = [
+    '<%= config.bin %> relations graph --root ENG-1 --depth 2',
+    '<%= config.bin %> relations graph --project "Q3 Launch" --format dot | dot -Tsvg > graph.svg',
+    '<%= config.bin %> relations graph --team ENG --type blocks --format mermaid',
+  ]
+
+  static override flags = {
+    project: Flags.string({
+      description: 'Start from the open issues of a project (name or ID)',
+      exclusive: ['team', 'root'],
+    }),
+    team: Flags.string({
+      description: 'Start from the open issues of a team (key, name or ID)',
+      exclusive: ['project', 'root'],
+    }),
+    root: Flags.string({
+      description: 'Start from a single issue (ID or identifier)',
+      exclusive: ['project', 'team'],
+    }),
+    depth: Flags.integer({
+      description: 'Relation hops to follow beyond the starting issues',
+      default: 1,
+      min: 0,
+    }),
+    type: Flags.string({
+      description: 'Relation types to follow (repeatable; default: all)',
+      options: [...GRAPH_RELATION_TYPES],
+      multiple: true,
+    }),
+    'include-closed': Flags.boolean({
+      description: 'Also start from completed and canceled issues (--project/--team)',
+      default: false,
+    }),
+    format: Flags.string({
+      char: 'F',
+      description: 'Output format',
+      options: ['json', 'dot', 'mermaid'],
+      default: 'json',
+    }),
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(RelationsGraph)
+      applyCacheFlags(flags)
+
+      if (!flags.project && !flags.team && !flags.root) {
+        throw new CliError(
+          ErrorCodes.MISSING_REQUIRED_FIELD,
+          `One of ${SEED_FLAGS.map((flag) => `--${flag}`).join(', ')} is required`,
+        )
+      }
+
+      const client = getClient()
+
+      let seedFilter: Record<string, unknown>
+      if (flags.root) {
+        seedFilter = {id: {eq: await resolveIssueId(client, flags.root)}}
+      } else {
+        seedFilter = flags.project
+          ? {project: {id: {eq: await resolveProjectId(client, flags.project)}}}
+          : {team: {id: {eq: await resolveTeamId(client, flags.team!)}}}
+        if (!flags['include-closed']) {
+          seedFilter.state = {type: {nin: ['completed', 'canceled']}}
+        }
+      }
+
+      const graph = await crawlRelationGraph(client, seedFilter, {
+        depth: flags.depth,
+        types: flags.type ?? GRAPH_RELATION_TYPES,
+      })
+      const cycles = findCycles(graph)
+      const criticalPath = findCriticalPath(graph, cycles)
+
+      if (flags.format === 'dot') {
+        console.log(toDot(graph, criticalPath))
+      } else if (flags.format === 'mermaid') {
+        console.log(toMermaid(graph, criticalPath))
+      } else {
+        print(success({...graph, cycles, criticalPath}))
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -1,8 +1,10 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {successList, print, printList, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import {resolveIssueId} from '../../lib/issue-utils.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
 import {colors, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -56,7 +58,7 @@ const COLUMNS: ColumnDef<RelationData>[] = [
   },
 ]
 
-export default class RelationsList extends Command {
+export default class RelationsList extends BaseCommand {
   static override description = 'List relations for an issue'
 
   static override examples = [
@@ -75,14 +77,16 @@ export default class RelationsList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {args, flags} = await this.parse(RelationsList)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
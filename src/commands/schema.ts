@@ -1,4 +1,5 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../lib/base-command.js'
 import {success, print} from '../lib/output.js'
 
 /**
@@ -134,7 +135,7 @@ const ENTITY_SCHEMAS = {
 
 type EntityName = keyof typeof ENTITY_SCHEMAS
 
-export default class Schema extends Command {
+export default class Schema extends BaseCommand {
   static override description =
     'Show schema information for entities (useful for LLMs to discover available operations)'
 
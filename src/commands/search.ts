@@ -1,7 +1,9 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../lib/base-command.js'
 import {getClient} from '../lib/client.js'
-import {successList, print, printList} from '../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../lib/output.js'
 import {handleError} from '../lib/errors.js'
+import {paginationFlags, streamPages} from '../lib/pagination.js'
 import {colors, truncate, formatPriority, type ColumnDef} from '../lib/formatter.js'
 import type {OutputFormat} from '../lib/types.js'
 
@@ -35,7 +37,7 @@ const COLUMNS: ColumnDef<SearchResultData>[] = [
   },
 ]
 
-export default class Search extends Command {
+export default class Search extends BaseCommand {
   static override description = 'Search issues by text query'
 
   static override examples = [
@@ -55,7 +57,7 @@ export default class Search extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     team: Flags.string({
@@ -69,6 +71,7 @@ export default class Search extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -80,42 +83,32 @@ export default class Search extends Command {
       // Build filter for team if specified
       const filter = flags.team ? {team: {key: {eq: flags.team}}} : undefined
 
-      // Use the searchIssues method for text search
-      const searchResults = await client.searchIssues(args.query, {
-        filter,
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<SearchResultData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'identifier',
+        secondaryKey: 'title',
       })
 
-      const data: SearchResultData[] = searchResults.nodes.map((issue) => ({
-        id: issue.id,
-        identifier: issue.identifier,
-        title: issue.title,
-        description: issue.description ?? undefined,
-        priority: issue.priority,
-        priorityLabel: issue.priorityLabel,
-        url: issue.url,
-        createdAt: issue.createdAt,
-        updatedAt: issue.updatedAt,
-      }))
-
-      const pageInfo = {
-        hasNextPage: searchResults.pageInfo.hasNextPage,
-        hasPreviousPage: searchResults.pageInfo.hasPreviousPage,
-        startCursor: searchResults.pageInfo.startCursor,
-        endCursor: searchResults.pageInfo.endCursor,
-      }
+      // Use the searchIssues method for text search
+      const pageInfo = await streamPages(
+        (page) => client.searchIssues(args.query, {filter, ...page}),
+        flags,
+        (nodes) =>
+          nodes.map((issue) => ({
+            id: issue.id,
+            identifier: issue.identifier,
+            title: issue.title,
+            description: issue.description ?? undefined,
+            priority: issue.priority,
+            priorityLabel: issue.priorityLabel,
+            url: issue.url,
+            createdAt: issue.createdAt,
+            updatedAt: issue.updatedAt,
+          })),
+        printer.write,
+      )
 
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'identifier',
-          secondaryKey: 'title',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
@@ -1,7 +1,8 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
 import {existsSync, readFileSync, writeFileSync, mkdirSync} from 'node:fs'
 import {homedir} from 'node:os'
 import {join, dirname} from 'node:path'
+import {BaseCommand} from '../lib/base-command.js'
 import {success, print} from '../lib/output.js'
 import {handleError} from '../lib/errors.js'
 
@@ -22,7 +23,7 @@ linear issues bulk-update --ids A,B,C --state-id ID
 \`\`\`
 ${LINEAR_CLI_SECTION_END}`
 
-export default class Setup extends Command {
+export default class Setup extends BaseCommand {
   static override description = 'Add Linear CLI instructions to your CLAUDE.md'
 
   static override examples = ['<%= config.bin %> setup', '<%= config.bin %> setup --remove']
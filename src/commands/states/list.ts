@@ -1,8 +1,12 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {successList, print, printList, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginate, paginationFlags, type PageRequest} from '../../lib/pagination.js'
+import {applyCacheFlags, cacheFlags, findCachedTeamByKey} from '../../lib/cache.js'
 import {colors, type ColumnDef} from '../../lib/formatter.js'
+import type {WorkflowStateConnection} from '@linear/sdk'
 import type {OutputFormat} from '../../lib/types.js'
 
 interface StateData {
@@ -63,7 +67,7 @@ const COLUMNS: ColumnDef<StateData>[] = [
   },
 ]
 
-export default class StatesList extends Command {
+export default class StatesList extends BaseCommand {
   static override description = 'List workflow states in the workspace'
 
   static override examples = [
@@ -76,7 +80,7 @@ export default class StatesList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     team: Flags.string({
@@ -90,50 +94,47 @@ export default class StatesList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
+    ...cacheFlags,
   }
 
   public async run(): Promise<void> {
     try {
       const {flags} = await this.parse(StatesList)
+      applyCacheFlags(flags)
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      let states
+      let fetchPage: (page: PageRequest) => Promise<WorkflowStateConnection>
 
       if (flags.team) {
         // Fetch states for a specific team
-        const teams = await client.teams({
-          filter: {key: {eq: flags.team}},
-        })
-        const team = teams.nodes[0]
+        const team = await findCachedTeamByKey(client, flags.team)
         if (!team) {
           throw new Error(`Team ${flags.team} not found`)
         }
-        states = await team.states({
-          first: flags.first,
-          after: flags.after,
-        })
+        fetchPage = (page) => client.workflowStates({filter: {team: {id: {eq: team.id}}}, ...page})
       } else {
         // Fetch all workflow states
-        states = await client.workflowStates({
-          first: flags.first,
-          after: flags.after,
-        })
+        fetchPage = (page) => client.workflowStates(page)
       }
 
-      const data: StateData[] = await Promise.all(
-        states.nodes.map(async (state) => {
-          const team = await state.team
-          return {
-            id: state.id,
-            name: state.name,
-            color: state.color,
-            type: state.type,
-            position: state.position,
-            teamId: team?.id ?? '',
-            teamKey: team?.key ?? '',
-          }
-        }),
+      // Collect all pages before sorting
+      const {data, pageInfo} = await paginate(fetchPage, flags, (nodes) =>
+        Promise.all(
+          nodes.map(async (state) => {
+            const team = await state.team
+            return {
+              id: state.id,
+              name: state.name,
+              color: state.color,
+              type: state.type,
+              position: state.position,
+              teamId: team?.id ?? '',
+              teamKey: team?.key ?? '',
+            }
+          }),
+        ),
       )
 
       // Sort by team, then by type order, then by position
@@ -149,13 +150,6 @@ export default class StatesList extends Command {
         return a.position - b.position
       })
 
-      const pageInfo = {
-        hasNextPage: states.pageInfo.hasNextPage,
-        hasPreviousPage: states.pageInfo.hasPreviousPage,
-        startCursor: states.pageInfo.startCursor,
-        endCursor: states.pageInfo.endCursor,
-      }
-
       if (format === 'json') {
         print(successList(data, pageInfo))
       } else {
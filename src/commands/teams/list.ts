@@ -1,7 +1,9 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -43,7 +45,7 @@ const COLUMNS: ColumnDef<TeamData>[] = [
   },
 ]
 
-export default class TeamsList extends Command {
+export default class TeamsList extends BaseCommand {
   static override description = 'List teams in the workspace'
 
   static override examples = [
@@ -56,7 +58,7 @@ export default class TeamsList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     first: Flags.integer({
@@ -66,6 +68,7 @@ export default class TeamsList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -74,43 +77,34 @@ export default class TeamsList extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      const teams = await client.teams({
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<TeamData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'key',
+        secondaryKey: 'name',
       })
 
-      const data: TeamData[] = await Promise.all(
-        teams.nodes.map(async (team) => {
-          const issues = await team.issues({first: 1})
-          return {
-            id: team.id,
-            key: team.key,
-            name: team.name,
-            description: team.description ?? undefined,
-            private: team.private,
-            issueCount: issues.pageInfo.hasNextPage ? 50 : issues.nodes.length,
-            createdAt: team.createdAt,
-          }
-        }),
+      const pageInfo = await streamPages(
+        (page) => client.teams(page),
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (team) => {
+              const issues = await team.issues({first: 1})
+              return {
+                id: team.id,
+                key: team.key,
+                name: team.name,
+                description: team.description ?? undefined,
+                private: team.private,
+                issueCount: issues.pageInfo.hasNextPage ? 50 : issues.nodes.length,
+                createdAt: team.createdAt,
+              }
+            }),
+          ),
+        printer.write,
       )
 
-      const pageInfo = {
-        hasNextPage: teams.pageInfo.hasNextPage,
-        hasPreviousPage: teams.pageInfo.hasPreviousPage,
-        startCursor: teams.pageInfo.startCursor,
-        endCursor: teams.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'key',
-          secondaryKey: 'name',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
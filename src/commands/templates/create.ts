@@ -1,10 +1,12 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class TemplatesCreate extends Command {
+export default class TemplatesCreate extends BaseCommand {
   static override description = 'Create a template'
 
   static override examples = [
@@ -56,13 +58,20 @@ export default class TemplatesCreate extends Command {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'Invalid JSON in --template-data')
       }
 
-      const payload = await client.createTemplate({
+      const input = {
         name: flags.name,
         type: flags.type,
         description: flags.description,
         teamId: flags['team-id'],
         templateData,
-      })
+      }
+
+      if (isDryRun()) {
+        printDryRun([{mutation: 'templateCreate', variables: {input}}])
+        return
+      }
+
+      const payload = await client.createTemplate(input)
 
       if (!payload.success || !payload.template) {
         throw new CliError(ErrorCodes.API_ERROR, 'Failed to create template')
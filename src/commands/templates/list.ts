@@ -1,8 +1,11 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages, type PageRequest} from '../../lib/pagination.js'
 import {colors, truncate, type ColumnDef} from '../../lib/formatter.js'
+import type {TemplateConnection} from '@linear/sdk'
 import type {OutputFormat} from '../../lib/types.js'
 
 interface TemplateData {
@@ -34,7 +37,7 @@ const COLUMNS: ColumnDef<TemplateData>[] = [
   },
 ]
 
-export default class TemplatesList extends Command {
+export default class TemplatesList extends BaseCommand {
   static override description = 'List templates in the workspace'
 
   static override examples = [
@@ -47,7 +50,7 @@ export default class TemplatesList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     team: Flags.string({
@@ -61,6 +64,7 @@ export default class TemplatesList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -69,60 +73,49 @@ export default class TemplatesList extends Command {
       const format = flags.format as OutputFormat
       const client = getClient()
 
-      // Get organization to fetch templates
-      const org = await client.organization
-
-      let templates
+      // Fetch templates for a specific team, or all organization templates
+      let fetchPage: (page: PageRequest) => Promise<TemplateConnection>
       if (flags.team) {
         const teams = await client.teams({filter: {key: {eq: flags.team}}})
         const team = teams.nodes[0]
         if (!team) {
           throw new Error(`Team ${flags.team} not found`)
         }
-        templates = await team.templates({
-          first: flags.first,
-          after: flags.after,
-        })
+        fetchPage = (page) => team.templates(page)
       } else {
-        templates = await org.templates({
-          first: flags.first,
-          after: flags.after,
-        })
+        const org = await client.organization
+        fetchPage = (page) => org.templates(page)
       }
 
-      const data: TemplateData[] = await Promise.all(
-        templates.nodes.map(async (template) => {
-          const team = await template.team
-          return {
-            id: template.id,
-            name: template.name,
-            type: template.type,
-            description: template.description ?? undefined,
-            teamId: team?.id,
-            teamKey: team?.key,
-            createdAt: template.createdAt,
-            updatedAt: template.updatedAt,
-          }
-        }),
-      )
+      const printer = createListPrinter<TemplateData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'type',
+      })
 
-      const pageInfo = {
-        hasNextPage: templates.pageInfo.hasNextPage,
-        hasPreviousPage: templates.pageInfo.hasPreviousPage,
-        startCursor: templates.pageInfo.startCursor,
-        endCursor: templates.pageInfo.endCursor,
-      }
+      const pageInfo = await streamPages(
+        fetchPage,
+        flags,
+        (nodes) =>
+          Promise.all(
+            nodes.map(async (template) => {
+              const team = await template.team
+              return {
+                id: template.id,
+                name: template.name,
+                type: template.type,
+                description: template.description ?? undefined,
+                teamId: team?.id,
+                teamKey: team?.key,
+                createdAt: template.createdAt,
+                updatedAt: template.updatedAt,
+              }
+            }),
+          ),
+        printer.write,
+      )
 
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'type',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
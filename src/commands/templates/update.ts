@@ -1,10 +1,12 @@
-import {Args, Command, Flags} from '@oclif/core'
+import {Args, Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
 import {success, print, printItem} from '../../lib/output.js'
 import {handleError, CliError, ErrorCodes} from '../../lib/errors.js'
 import type {OutputFormat} from '../../lib/types.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
 
-export default class TemplatesUpdate extends Command {
+export default class TemplatesUpdate extends BaseCommand {
   static override description = 'Update a template'
 
   static override examples = [
@@ -60,6 +62,13 @@ export default class TemplatesUpdate extends Command {
         throw new CliError(ErrorCodes.INVALID_INPUT, 'At least one field to update is required')
       }
 
+      if (isDryRun()) {
+        printDryRun([
+          {mutation: 'templateUpdate', variables: {id: args.id, input}, target: {entity: 'template', id: args.id}},
+        ])
+        return
+      }
+
       const payload = await client.updateTemplate(args.id, input)
 
       if (!payload.success || !payload.template) {
@@ -0,0 +1,188 @@
+import {Args, Flags} from '@oclif/core'
+import type {LinearClient, LinearDocument} from '@linear/sdk'
+import {BaseCommand} from '../lib/base-command.js'
+import {getClient} from '../lib/client.js'
+import {successList, print} from '../lib/output.js'
+import {handleError, CliError, ErrorCodes} from '../lib/errors.js'
+import {bulkFlags, createProgressReporter, mapWithConcurrency} from '../lib/bulk.js'
+import {isDryRun, printDryRun} from '../lib/dry-run.js'
+import {
+  listUndoOperations,
+  markChangeReverted,
+  markUndone,
+  planRevert,
+  selectUndoOperations,
+  type UndoChange,
+  type UndoCreatedEntity,
+} from '../lib/undo.js'
+
+const DELETE_MUTATIONS: Record<UndoCreatedEntity['entity'], string> = {
+  issueRelation: 'issueRelationDelete',
+  comment: 'commentDelete',
+}
+
+interface UndoResult {
+  operationId: string
+  identifier: string
+  id: string
+  success: boolean
+  restoredFields?: string[]
+  /** Entity deleted because the command had created it */
+  deleted?: UndoCreatedEntity
+  error?: string
+}
+
+const revertChange = async (client: LinearClient, operationId: string, change: UndoChange): Promise<UndoResult> => {
+  const result = {operationId, identifier: change.identifier, id: change.issueId}
+  const restoredFields = Object.keys(change.before)
+
+  if (!change.created && restoredFields.length === 0) {
+    return {...result, success: false, error: `Cannot restore ${change.unrestorable?.join(', ')}`}
+  }
+
+  try {
+    if (change.created) {
+      const {entity, id} = change.created
+      const payload = entity === 'comment' ? await client.deleteComment(id) : await client.deleteIssueRelation(id)
+      if (!payload.success) {
+        return {...result, success: false, error: `Failed to delete ${entity} ${id}`}
+      }
+      return {...result, success: true, deleted: change.created}
+    }
+
+    const payload = await client.updateIssue(change.issueId, change.before as LinearDocument.IssueUpdateInput)
+    if (!payload.success) {
+      return {...result, success: false, error: 'Failed to update issue'}
+    }
+    return {...result, success: true, restoredFields}
+  } catch (err) {
+    return {...result, success: false, error: err instanceof Error ? err.message : 'Unknown error'}
+  }
+}
+
+export default class Undo extends BaseCommand {
+  static override description =
+    'Revert issue updates recorded in the local undo log (relations and comments created by issues merge are deleted)'
+
+  static override examples = [
+    '<%= config.bin %> undo',
+    '<%= config.bin %> undo --last 3',
+    '<%= config.bin %> undo 20250301T101500-a1b2c3',
+    '<%= config.bin %> undo --list',
+    '<%= config.bin %> undo --dry-run',
+  ]
+
+  static override args = {
+    operation: Args.string({
+      description: 'Undo operation ID (undoId in the output of the updating command)',
+    }),
+  }
+
+  static override flags = {
+    last: Flags.integer({
+      description: 'Undo the N most recent operations that were not undone yet (default: 1)',
+      min: 1,
+    }),
+    list: Flags.boolean({
+      description: 'List recorded operations instead of undoing them (newest first, limited by --last)',
+      default: false,
+    }),
+    ...bulkFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {args, flags} = await this.parse(Undo)
+
+      if (args.operation && flags.last !== undefined) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, 'Use either an operation ID or --last, not both')
+      }
+
+      if (flags.list) {
+        print(successList(listUndoOperations().slice(0, flags.last ?? 20)))
+        return
+      }
+
+      // Newest operation first, and within one operation each issue's changes newest first,
+      // so several updates of the same issue unwind in reverse order
+      const operations = selectUndoOperations({id: args.operation, last: flags.last})
+      const plans = operations.map((operation) => ({operation, groups: planRevert(operation)}))
+
+      if (isDryRun()) {
+        printDryRun(
+          plans.flatMap(({groups}) =>
+            groups.flat().map(({change}) => ({
+              mutation: change.created ? DELETE_MUTATIONS[change.created.entity] : 'issueUpdate',
+              variables: change.created ? {id: change.created.id} : {id: change.issueId, input: change.before},
+              target: {entity: 'issue', id: change.issueId, identifier: change.identifier},
+            })),
+          ),
+        )
+        return
+      }
+
+      const client = getClient()
+      const total = plans.reduce((sum, {groups}) => sum + groups.flat().length, 0)
+      const progress = createProgressReporter(total, {stream: flags.stream})
+      const results: UndoResult[] = []
+      const undone: string[] = []
+
+      for (const {operation, groups} of plans) {
+        const operationResults: UndoResult[] = []
+        const report = (result: UndoResult): void => {
+          progress.item(results.length + operationResults.length, result)
+          operationResults.push(result)
+        }
+
+        // Issues are reverted in parallel, the changes of one issue one after another
+        await mapWithConcurrency(groups, flags.concurrency, async (group) => {
+          for (const [position, {index, change}] of group.entries()) {
+            const result = await revertChange(client, operation.id, change)
+            report(result)
+            if (result.success) {
+              markChangeReverted(operation.id, index)
+              continue
+            }
+
+            // Older changes of the issue would be overwritten by the newer one left in place
+            for (const skipped of group.slice(position + 1)) {
+              report({
+                operationId: operation.id,
+                identifier: skipped.change.identifier,
+                id: skipped.change.issueId,
+                success: false,
+                error: 'Skipped: a newer change of this issue could not be reverted',
+              })
+            }
+            return
+          }
+        })
+
+        results.push(...operationResults)
+
+        // Partly reverted operations stay in the log; a retry only reverts the changes left
+        if (operationResults.every((result) => result.success)) {
+          markUndone(operation.id)
+          undone.push(operation.id)
+        }
+      }
+
+      const failed = results.filter((result) => !result.success)
+
+      progress.summary({
+        operations: operations.map((operation) => ({
+          id: operation.id,
+          command: operation.command,
+          undone: undone.includes(operation.id),
+        })),
+        totalRequested: results.length,
+        successCount: results.length - failed.length,
+        failedCount: failed.length,
+        results,
+      })
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -1,7 +1,9 @@
-import {Command, Flags} from '@oclif/core'
+import {Flags} from '@oclif/core'
+import {BaseCommand} from '../../lib/base-command.js'
 import {getClient} from '../../lib/client.js'
-import {successList, print, printList} from '../../lib/output.js'
+import {createListPrinter, OUTPUT_FORMATS} from '../../lib/output.js'
 import {handleError} from '../../lib/errors.js'
+import {paginationFlags, streamPages} from '../../lib/pagination.js'
 import {colors, type ColumnDef} from '../../lib/formatter.js'
 import type {OutputFormat} from '../../lib/types.js'
 
@@ -40,7 +42,7 @@ const COLUMNS: ColumnDef<UserData>[] = [
   },
 ]
 
-export default class UsersList extends Command {
+export default class UsersList extends BaseCommand {
   static override description = 'List users in the workspace'
 
   static override examples = [
@@ -53,7 +55,7 @@ export default class UsersList extends Command {
     format: Flags.string({
       char: 'F',
       description: 'Output format',
-      options: ['json', 'table', 'plain'],
+      options: OUTPUT_FORMATS,
       default: 'json',
     }),
     active: Flags.boolean({
@@ -67,6 +69,7 @@ export default class UsersList extends Command {
     after: Flags.string({
       description: 'Cursor for pagination',
     }),
+    ...paginationFlags,
   }
 
   public async run(): Promise<void> {
@@ -77,41 +80,31 @@ export default class UsersList extends Command {
 
       const filter = flags.active ? {active: {eq: true}} : undefined
 
-      const users = await client.users({
-        filter,
-        first: flags.first,
-        after: flags.after,
+      const printer = createListPrinter<UserData>(format, {
+        columns: COLUMNS,
+        primaryKey: 'name',
+        secondaryKey: 'email',
       })
 
-      const data: UserData[] = users.nodes.map((user) => ({
-        id: user.id,
-        name: user.name,
-        displayName: user.displayName,
-        email: user.email,
-        active: user.active,
-        admin: user.admin,
-        guest: user.guest,
-        avatarUrl: user.avatarUrl ?? undefined,
-        createdAt: user.createdAt,
-      }))
+      const pageInfo = await streamPages(
+        (page) => client.users({filter, ...page}),
+        flags,
+        (nodes) =>
+          nodes.map((user) => ({
+            id: user.id,
+            name: user.name,
+            displayName: user.displayName,
+            email: user.email,
+            active: user.active,
+            admin: user.admin,
+            guest: user.guest,
+            avatarUrl: user.avatarUrl ?? undefined,
+            createdAt: user.createdAt,
+          })),
+        printer.write,
+      )
 
-      const pageInfo = {
-        hasNextPage: users.pageInfo.hasNextPage,
-        hasPreviousPage: users.pageInfo.hasPreviousPage,
-        startCursor: users.pageInfo.startCursor,
-        endCursor: users.pageInfo.endCursor,
-      }
-
-      if (format === 'json') {
-        print(successList(data, pageInfo))
-      } else {
-        printList(data, format, {
-          columns: COLUMNS,
-          primaryKey: 'name',
-          secondaryKey: 'email',
-          pageInfo,
-        })
-      }
+      printer.end(pageInfo)
     } catch (err) {
       handleError(err)
       this.exit(1)
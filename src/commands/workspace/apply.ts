@@ -0,0 +1,89 @@
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags, clearCache} from '../../lib/cache.js'
+import {bulkFlags, createProgressReporter} from '../../lib/bulk.js'
+import {isDryRun, printDryRun} from '../../lib/dry-run.js'
+import {readInputFile} from '../../lib/input-file.js'
+import {
+  applyWorkspaceChange,
+  diffWorkspace,
+  fetchWorkspaceState,
+  getChangeLabel,
+  parseWorkspaceSpec,
+  summarizeChanges,
+  toDryRunOperation,
+  workspaceSpecFlags,
+} from '../../lib/workspace.js'
+
+export default class WorkspaceApply extends BaseCommand {
+  static override description = 'Make the workspace match a spec, applying only the changes'
+
+  static override examples = [
+    '<%= config.bin %> workspace apply -f ws.json',
+    '<%= config.bin %> workspace apply -f ws.yaml --prune --dry-run',
+  ]
+
+  static override flags = {
+    ...workspaceSpecFlags,
+    stream: bulkFlags.stream,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(WorkspaceApply)
+      applyCacheFlags(flags)
+      const spec = parseWorkspaceSpec(readInputFile(flags.file))
+      const client = getClient()
+      const state = await fetchWorkspaceState(
+        client,
+        (spec.teams ?? []).map((team) => team.key),
+      )
+      const changes = diffWorkspace(spec, state, {prune: flags.prune})
+
+      if (isDryRun()) {
+        printDryRun(changes.map(toDryRunOperation))
+        return
+      }
+
+      // Changes run one at a time: labels need the groups created before them
+      const progress = createProgressReporter(changes.length, {stream: flags.stream})
+      const createdGroups = new Map<string, string>()
+      const results = []
+
+      for (const [index, change] of changes.entries()) {
+        const {action, kind, scope, name} = change
+        let result
+        try {
+          const id = await applyWorkspaceChange(client, change, createdGroups)
+          result = {action, kind, scope, name, id, success: true}
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Unknown error'
+          result = {action, kind, scope, name, ...(change.id && {id: change.id}), success: false, error}
+        }
+
+        results.push(result)
+        progress.item(index, {identifier: getChangeLabel(change), success: result.success, error: result.error})
+      }
+
+      // Cached states and labels no longer match the workspace
+      if (changes.length > 0) {
+        clearCache('states')
+        clearCache('labels')
+      }
+
+      const failed = results.filter((result) => !result.success)
+
+      progress.summary({
+        summary: summarizeChanges(changes),
+        totalRequested: results.length,
+        successCount: results.length - failed.length,
+        failedCount: failed.length,
+        results,
+      })
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
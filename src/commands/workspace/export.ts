@@ -0,0 +1,52 @@
+import {Flags} from '@oclif/core'
+import {dump} from 'js-yaml'
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {printRaw} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags, cacheFlags} from '../../lib/cache.js'
+import {fetchWorkspaceState, toWorkspaceSpec} from '../../lib/workspace.js'
+
+export default class WorkspaceExport extends BaseCommand {
+  static override description =
+    'Export workflow states, labels, label groups, templates and project milestones as a workspace spec (printed without the success/data envelope)'
+
+  static override examples = [
+    '<%= config.bin %> workspace export > ws.json',
+    '<%= config.bin %> workspace export --team ENG --format yaml > ws.yaml',
+  ]
+
+  static override flags = {
+    team: Flags.string({
+      char: 't',
+      description: 'Team key to export (repeatable; default: all teams)',
+      multiple: true,
+    }),
+    format: Flags.string({
+      char: 'F',
+      description: 'Spec format',
+      options: ['json', 'yaml'],
+      default: 'json',
+    }),
+    ...cacheFlags,
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(WorkspaceExport)
+      applyCacheFlags(flags)
+      const client = getClient()
+
+      const spec = toWorkspaceSpec(await fetchWorkspaceState(client, flags.team))
+
+      if (flags.format === 'yaml') {
+        process.stdout.write(dump(spec, {lineWidth: -1, noRefs: true}))
+      } else {
+        printRaw(spec)
+      }
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import {BaseCommand} from '../../lib/base-command.js'
+import {getClient} from '../../lib/client.js'
+import {success, print} from '../../lib/output.js'
+import {handleError} from '../../lib/errors.js'
+import {applyCacheFlags} from '../../lib/cache.js'
+import {readInputFile} from '../../lib/input-file.js'
+import {
+  diffWorkspace,
+  fetchWorkspaceState,
+  parseWorkspaceSpec,
+  summarizeChanges,
+  workspaceSpecFlags,
+} from '../../lib/workspace.js'
+
+export default class WorkspacePlan extends BaseCommand {
+  static override description = 'Show the changes that would make the workspace match a spec'
+
+  static override examples = [
+    '<%= config.bin %> workspace plan -f ws.json',
+    '<%= config.bin %> workspace plan -f ws.yaml --prune',
+  ]
+
+  static override flags = workspaceSpecFlags
+
+  public async run(): Promise<void> {
+    try {
+      const {flags} = await this.parse(WorkspacePlan)
+      applyCacheFlags(flags)
+      const spec = parseWorkspaceSpec(readInputFile(flags.file))
+      const client = getClient()
+      const state = await fetchWorkspaceState(
+        client,
+        (spec.teams ?? []).map((team) => team.key),
+      )
+      const changes = diffWorkspace(spec, state, {prune: flags.prune})
+
+      print(success({summary: summarizeChanges(changes), changes}))
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
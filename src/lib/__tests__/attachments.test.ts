@@ -0,0 +1,178 @@
+import {describe, it, expect, vi, afterEach} from 'vitest'
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type {LinearClient} from '@linear/sdk'
+import {
+  collectIssueAssets,
+  createAttachment,
+  downloadAsset,
+  getTakenFileNames,
+  parseAttachmentMetadata,
+  toAssetFileName,
+  type AttachmentData,
+} from '../attachments.js'
+
+const ASSET = 'https://uploads.linear.app/org/aaa/bbb'
+
+const attachment = (overrides: Partial<AttachmentData>): AttachmentData => ({
+  id: 'a1',
+  title: 'Attachment',
+  subtitle: null,
+  url: ASSET,
+  sourceType: null,
+  metadata: {},
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+})
+
+describe('attachments', () => {
+  describe('parseAttachmentMetadata', () => {
+    it('accepts flat objects of strings and numbers', () => {
+      expect(parseAttachmentMetadata('{"status":"failed","duration":312}')).toEqual({status: 'failed', duration: 312})
+    })
+
+    it('rejects malformed or nested metadata', () => {
+      expect(() => parseAttachmentMetadata('{status')).toThrow('Invalid JSON in --metadata flag')
+      expect(() => parseAttachmentMetadata('[1]')).toThrow('--metadata must be a JSON object')
+      expect(() => parseAttachmentMetadata('{"tags":["a"]}')).toThrow('value for "tags" must be a string or number')
+    })
+  })
+
+  describe('createAttachment', () => {
+    const input = {issueId: 'i1', title: 'Build 1234', url: 'https://ci/1234'}
+
+    it('returns the created attachment', async () => {
+      const createdAt = new Date('2025-03-01T00:00:00Z')
+      const client = {
+        createAttachment: vi.fn(async () => ({
+          success: true,
+          attachment: Promise.resolve({
+            id: 'a1',
+            ...input,
+            metadata: {},
+            createdAt,
+            updatedAt: createdAt,
+          }),
+        })),
+      }
+
+      expect(await createAttachment(client as unknown as LinearClient, input)).toEqual({
+        id: 'a1',
+        title: 'Build 1234',
+        subtitle: null,
+        url: 'https://ci/1234',
+        sourceType: null,
+        metadata: {},
+        createdAt,
+        updatedAt: createdAt,
+      })
+      expect(client.createAttachment).toHaveBeenCalledWith(input)
+    })
+
+    it('fails when the API does not return an attachment', async () => {
+      const client = {createAttachment: vi.fn(async () => ({success: false}))}
+
+      await expect(createAttachment(client as unknown as LinearClient, input)).rejects.toThrow(
+        'Failed to create attachment',
+      )
+    })
+  })
+
+  describe('collectIssueAssets', () => {
+    it('lists each Linear-hosted file once with every source', () => {
+      const assets = collectIssueAssets({
+        description: `![shot.png](${ASSET}/2) and [PR](https://github.com/org/repo/pull/1)`,
+        comments: [
+          {id: 'c1', body: `Log: ${ASSET}/3\n![again](${ASSET}/2)`},
+          {id: 'c2', body: 'No files'},
+        ],
+        attachments: [
+          attachment({id: 'a1', title: 'Build log', metadata: {fileName: 'build.log'}}),
+          attachment({id: 'a2', title: 'PR #1', url: 'https://github.com/org/repo/pull/1'}),
+        ],
+      })
+
+      expect(assets).toEqual([
+        {url: ASSET, name: 'build.log', sources: [{type: 'attachment', id: 'a1', title: 'Build log'}]},
+        {
+          url: `${ASSET}/2`,
+          name: 'shot.png',
+          sources: [{type: 'description'}, {type: 'comment', id: 'c1'}],
+        },
+        {url: `${ASSET}/3`, sources: [{type: 'comment', id: 'c1'}]},
+      ])
+    })
+  })
+
+  it('picks safe, unique file names', () => {
+    const used = new Set(['manifest.json'])
+
+    expect(toAssetFileName({url: ASSET, name: 'shot.png', sources: []}, 'image/png', used)).toBe('shot.png')
+    expect(toAssetFileName({url: ASSET, name: 'Shot.png', sources: []}, 'image/png', used)).toBe('Shot-2.png')
+    expect(toAssetFileName({url: ASSET, sources: []}, 'image/jpeg; charset=binary', used)).toBe('bbb.jpg')
+    expect(toAssetFileName({url: ASSET, name: '../etc/passwd.txt', sources: []}, null, used)).toBe('_etc_passwd.txt')
+    expect(toAssetFileName({url: ASSET, name: 'manifest.json', sources: []}, null, used)).toBe('manifest-2.json')
+  })
+
+  describe('downloadAsset', () => {
+    let dir: string | undefined
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      if (dir) rmSync(dir, {recursive: true, force: true})
+    })
+
+    it('sends the Authorization header only to Linear storage', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'linear-download-test-'))
+      const fetch = vi.fn(async () => new Response('log line', {headers: {'content-type': 'text/plain'}}))
+      vi.stubGlobal('fetch', fetch)
+      const used = new Set<string>()
+
+      const result = await downloadAsset(
+        {url: ASSET, sources: [{type: 'description'}]},
+        {dir, authorization: 'key', used},
+      )
+      await downloadAsset(
+        {url: 'https://linear-uploads.s3.us-west-2.amazonaws.com/x/y.txt', sources: []},
+        {dir, authorization: 'key', used},
+      )
+
+      expect(result).toEqual({
+        file: 'bbb.txt',
+        url: ASSET,
+        contentType: 'text/plain',
+        size: 8,
+        sources: [{type: 'description'}],
+      })
+      expect(readFileSync(join(dir, 'bbb.txt'), 'utf-8')).toBe('log line')
+      expect(fetch.mock.calls.map((call) => (call as unknown[])[1])).toEqual([
+        {headers: {Authorization: 'key'}},
+        {headers: {}},
+      ])
+    })
+
+    it('keeps files already in the directory', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'linear-download-test-'))
+      writeFileSync(join(dir, 'package.json'), 'mine')
+      writeFileSync(join(dir, 'README.md'), 'mine too')
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response('downloaded')),
+      )
+      const used = getTakenFileNames(dir)
+
+      const result = await downloadAsset({url: ASSET, name: 'package.json', sources: []}, {dir, used})
+      // Created after the directory was listed
+      writeFileSync(join(dir, 'notes.txt'), 'late')
+      const late = await downloadAsset({url: ASSET, name: 'notes.txt', sources: []}, {dir, used})
+
+      expect(result.file).toBe('package-2.json')
+      expect(late.file).toBe('notes-2.txt')
+      expect(readFileSync(join(dir, 'package.json'), 'utf-8')).toBe('mine')
+      expect(readFileSync(join(dir, 'notes.txt'), 'utf-8')).toBe('late')
+      expect(readFileSync(join(dir, 'package-2.json'), 'utf-8')).toBe('downloaded')
+    })
+  })
+})
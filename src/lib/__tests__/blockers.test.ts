@@ -0,0 +1,81 @@
+import {describe, it, expect, vi} from 'vitest'
+import type {LinearClient} from '@linear/sdk'
+import {fetchBlockerChains, fetchIssuesWithBlockers, flattenBlockers, isUnblocked, sortByPriority} from '../blockers.js'
+
+const issue = (n: number, type = 'unstarted', priority = 0) => ({
+  id: String(n),
+  identifier: `ENG-${n}`,
+  title: `Issue ${n}`,
+  priority,
+  url: `https://linear.app/issue/ENG-${n}`,
+  state: {name: type, type},
+  assignee: null,
+})
+
+// 2 (done) blocks 1; 3 blocks 4; 5 blocks 3; 4 blocks 5 (cycle); 6 relates to 1; 7 is blocked by 8 (own relation)
+const RELATIONS: Record<string, Array<{type: string; issue: ReturnType<typeof issue>}>> = {
+  1: [
+    {type: 'blocks', issue: issue(2, 'completed')},
+    {type: 'related', issue: issue(6)},
+  ],
+  3: [{type: 'blocks', issue: issue(5, 'started')}],
+  4: [{type: 'blocks', issue: issue(3)}],
+  5: [{type: 'blocks', issue: issue(4)}],
+}
+
+const OWN_RELATIONS: Record<string, Array<{type: string; relatedIssue: ReturnType<typeof issue>}>> = {
+  1: [{type: 'blocks', relatedIssue: issue(9)}],
+  7: [{type: 'blocked', relatedIssue: issue(8)}],
+}
+
+const mockClient = () => {
+  const request = vi.fn(async (_query: string, variables: Record<string, unknown>) => {
+    const ids = (variables.filter as {id?: {in: string[]}}).id?.in ?? ['1', '4', '7']
+    return {
+      issues: {
+        nodes: ids.map((id) => ({
+          ...issue(Number(id), id === '5' ? 'started' : 'unstarted'),
+          inverseRelations: {nodes: RELATIONS[id] ?? []},
+          relations: {nodes: OWN_RELATIONS[id] ?? []},
+        })),
+        pageInfo: {hasNextPage: false, hasPreviousPage: false},
+      },
+    }
+  })
+  return {client: {client: {request}} as unknown as LinearClient, request}
+}
+
+describe('blockers', () => {
+  it('keeps only blocking relations and treats closed blockers as done', async () => {
+    const {client} = mockClient()
+
+    const [one, four, seven] = await fetchIssuesWithBlockers(client, {})
+
+    expect(one.blockers.map((blocker) => blocker.identifier)).toEqual(['ENG-2'])
+    expect(isUnblocked(one)).toBe(true)
+    expect(isUnblocked(four)).toBe(false)
+    expect(seven.blockers.map((blocker) => blocker.identifier)).toEqual(['ENG-8'])
+    expect(isUnblocked(seven)).toBe(false)
+  })
+
+  it('follows open blockers upstream and stops at cycles', async () => {
+    const {client, request} = mockClient()
+    const [, four] = await fetchIssuesWithBlockers(client, {})
+
+    const [chain] = await fetchBlockerChains(client, [four])
+
+    expect(chain.blockers[0].identifier).toBe('ENG-3')
+    expect(chain.blockers[0].blockers[0].identifier).toBe('ENG-5')
+    expect(chain.blockers[0].blockers[0].blockers).toEqual([])
+    expect(chain.blockers[0].blockers[0].state?.name).toBe('started')
+    expect(flattenBlockers(chain)).toEqual(['ENG-3', 'ENG-5'])
+    // Candidates, then ENG-3, then ENG-5
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  it('sorts by priority with unprioritized issues last', () => {
+    const issues = [issue(1, 'unstarted', 0), issue(2, 'unstarted', 3), issue(3, 'unstarted', 1)]
+
+    expect(sortByPriority(issues).map((i) => i.identifier)).toEqual(['ENG-3', 'ENG-2', 'ENG-1'])
+  })
+})
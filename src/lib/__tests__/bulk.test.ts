@@ -0,0 +1,76 @@
+import {describe, it, expect, vi, afterEach} from 'vitest'
+import {createProgressReporter, mapWithConcurrency} from '../bulk.js'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('bulk', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('mapWithConcurrency', () => {
+    it('limits the number of calls in flight', async () => {
+      let inFlight = 0
+      let peak = 0
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        inFlight++
+        peak = Math.max(peak, inFlight)
+        await sleep(5)
+        inFlight--
+      })
+
+      expect(peak).toBe(3)
+    })
+
+    it('returns results in input order', async () => {
+      const finished: number[] = []
+
+      const results = await mapWithConcurrency(
+        [30, 10, 20],
+        3,
+        async (ms) => {
+          await sleep(ms)
+          return ms * 2
+        },
+        (result) => finished.push(result),
+      )
+
+      expect(results).toEqual([60, 20, 40])
+      expect(finished).toEqual([20, 40, 60])
+    })
+
+    it('handles empty input', async () => {
+      expect(await mapWithConcurrency([], 5, async () => 1)).toEqual([])
+    })
+  })
+
+  describe('createProgressReporter', () => {
+    it('writes progress lines to stderr', () => {
+      const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const reporter = createProgressReporter(2, {stream: false})
+
+      reporter.item(1, {identifier: 'ENG-2', success: true})
+      reporter.item(0, {identifier: 'ENG-1', success: false, error: 'Issue not found'})
+
+      expect(stderr.mock.calls.map(([line]) => line)).toEqual([
+        '[1/2] ENG-2 ok\n',
+        '[2/2] ENG-1 failed: Issue not found\n',
+      ])
+    })
+
+    it('streams NDJSON events and the summary to stdout', () => {
+      const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+      const reporter = createProgressReporter(1, {stream: true})
+
+      reporter.item(0, {identifier: 'ENG-1', success: true})
+      reporter.summary({successCount: 1})
+
+      const lines = stdout.mock.calls.map(([line]) => JSON.parse(line as string))
+      expect(lines).toEqual([
+        {type: 'progress', index: 0, completed: 1, total: 1, identifier: 'ENG-1', success: true},
+        {type: 'summary', success: true, data: {successCount: 1}},
+      ])
+    })
+  })
+})
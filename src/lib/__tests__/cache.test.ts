@@ -0,0 +1,97 @@
+import {describe, it, expect, vi, beforeEach, afterAll} from 'vitest'
+import {mkdtempSync, rmSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type * as os from 'node:os'
+
+const home = vi.hoisted(() => ({dir: ''}))
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof os>()
+  return {...actual, homedir: () => home.dir}
+})
+
+home.dir = mkdtempSync(join(tmpdir(), 'linear-cache-test-'))
+
+const {applyCacheFlags, cached, clearCache, findCached, getCacheStatus} = await import('../cache.js')
+
+describe('cache utilities', () => {
+  beforeEach(() => {
+    vi.stubEnv('LINEAR_API_KEY', 'lin_api_test')
+    applyCacheFlags({})
+    clearCache()
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    rmSync(home.dir, {recursive: true, force: true})
+  })
+
+  it('serves fresh entries from disk', async () => {
+    const fetch = vi.fn(async () => ['ENG'])
+
+    expect(await cached('teams', 'all', fetch)).toEqual(['ENG'])
+    expect(await cached('teams', 'all', fetch)).toEqual(['ENG'])
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('refetches expired entries', async () => {
+    const now = Date.now()
+    const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now)
+    const fetch = vi.fn(async () => ['bug'])
+
+    await cached('labels', 'all', fetch)
+    dateSpy.mockReturnValue(now + 2 * 60 * 60 * 1000)
+    await cached('labels', 'all', fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    dateSpy.mockRestore()
+  })
+
+  it('honors --refresh and --no-cache', async () => {
+    const fetch = vi.fn(async () => ['ENG'])
+    await cached('teams', 'all', fetch)
+
+    applyCacheFlags({refresh: true})
+    await cached('teams', 'all', fetch)
+    applyCacheFlags({'no-cache': true})
+    await cached('teams', 'all', fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('scopes entries by API key', async () => {
+    const fetch = vi.fn(async () => ['ENG'])
+    await cached('teams', 'all', fetch)
+
+    vi.stubEnv('LINEAR_API_KEY', 'lin_api_other')
+    await cached('teams', 'all', fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('refetches once when a cached list misses', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce([{key: 'ENG'}])
+      .mockResolvedValueOnce([{key: 'ENG'}, {key: 'OPS'}])
+    await cached('teams', 'all', fetch)
+
+    const team = await findCached('teams', 'all', fetch, (item: {key: string}) => item.key === 'OPS')
+
+    expect(team).toEqual({key: 'OPS'})
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports and clears entries', async () => {
+    await cached('users', 'all', async () => [{id: '1'}, {id: '2'}])
+
+    const status = getCacheStatus()
+    expect(status.entries).toEqual([
+      expect.objectContaining({namespace: 'users', key: 'all', items: 2, expired: false}),
+    ])
+
+    expect(clearCache('users')).toEqual(['users'])
+    expect(getCacheStatus().entries).toEqual([])
+  })
+})
@@ -0,0 +1,101 @@
+import {describe, it, expect, vi, beforeEach, afterAll} from 'vitest'
+import {mkdtempSync, rmSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type * as os from 'node:os'
+
+const home = vi.hoisted(() => ({dir: ''}))
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof os>()
+  return {...actual, homedir: () => home.dir}
+})
+
+home.dir = mkdtempSync(join(tmpdir(), 'linear-config-test-'))
+
+const {
+  getActiveProfile,
+  getApiKey,
+  getDefaults,
+  listProfiles,
+  readConfig,
+  requireApiKey,
+  saveApiKey,
+  setDefault,
+  setProfile,
+  switchProfile,
+  writeConfig,
+} = await import('../config.js')
+
+describe('config profiles', () => {
+  beforeEach(() => {
+    vi.stubEnv('LINEAR_API_KEY', '')
+    vi.stubEnv('LINEAR_PROFILE', '')
+    setProfile(undefined)
+    writeConfig({})
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    rmSync(home.dir, {recursive: true, force: true})
+  })
+
+  it('stores the default profile at the top level', () => {
+    saveApiKey('lin_api_personal')
+    setDefault('teamKey', 'ENG')
+
+    expect(readConfig()).toEqual({apiKey: 'lin_api_personal', defaults: {teamKey: 'ENG'}})
+    expect(getActiveProfile()).toEqual({name: 'default', source: 'default'})
+  })
+
+  it('keeps keys and defaults separate per profile', () => {
+    saveApiKey('lin_api_personal')
+    setProfile('work')
+    saveApiKey('lin_api_work')
+    setDefault('teamKey', 'ACME')
+
+    expect(getApiKey()).toBe('lin_api_work')
+    expect(getDefaults()).toEqual({teamKey: 'ACME'})
+
+    setProfile(undefined)
+    expect(getApiKey()).toBe('lin_api_personal')
+    expect(getDefaults()).toEqual({})
+  })
+
+  it('selects profiles by flag, then LINEAR_PROFILE, then the switched-to profile', () => {
+    writeConfig({profiles: {work: {apiKey: 'lin_api_work'}, ci: {apiKey: 'lin_api_ci'}}})
+
+    switchProfile('work')
+    expect(getActiveProfile()).toEqual({name: 'work', source: 'config'})
+
+    vi.stubEnv('LINEAR_PROFILE', 'ci')
+    expect(getActiveProfile()).toEqual({name: 'ci', source: 'environment'})
+
+    setProfile('default')
+    expect(getActiveProfile()).toEqual({name: 'default', source: 'flag'})
+  })
+
+  it('lists profiles with the active one marked', () => {
+    writeConfig({apiKey: 'lin_api_personal', profiles: {work: {defaults: {teamKey: 'ACME'}}}, activeProfile: 'work'})
+
+    expect(listProfiles()).toEqual([
+      {name: 'default', active: false, hasApiKey: true, credentialBackend: 'config', defaults: {}},
+      {name: 'work', active: true, hasApiKey: false, credentialBackend: null, defaults: {teamKey: 'ACME'}},
+    ])
+  })
+
+  it('rejects switching to unknown profiles', () => {
+    expect(() => switchProfile('missing')).toThrow('Profile "missing" not found')
+  })
+
+  it('names the profile when it has no key', () => {
+    setProfile('work')
+    expect(() => requireApiKey()).toThrow('Not authenticated for profile "work"')
+  })
+
+  it('prefers LINEAR_API_KEY over stored keys', () => {
+    saveApiKey('lin_api_personal')
+    vi.stubEnv('LINEAR_API_KEY', 'lin_api_env')
+    expect(getApiKey()).toBe('lin_api_env')
+  })
+})
@@ -0,0 +1,174 @@
+import {describe, it, expect, vi, beforeEach, afterAll} from 'vitest'
+import {existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type * as os from 'node:os'
+
+const home = vi.hoisted(() => ({dir: ''}))
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof os>()
+  return {...actual, homedir: () => home.dir}
+})
+
+home.dir = mkdtempSync(join(tmpdir(), 'linear-credentials-test-'))
+
+const {decryptSecret, encryptSecret, formatCredentialAttributes, parseCredentialAttributes} =
+  await import('../credentials.js')
+const {
+  getApiKeyWithSource,
+  listProfiles,
+  readConfig,
+  removeApiKey,
+  saveApiKey,
+  setConfigValue,
+  setProfile,
+  writeConfig,
+} = await import('../config.js')
+
+/**
+ * Fake git-credential helper keeping secrets in a JSON file next to it.
+ */
+const HELPER_SOURCE = `
+import {existsSync, readFileSync, writeFileSync} from 'node:fs'
+const file = new URL('./secrets.json', import.meta.url)
+const secrets = existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : {}
+const input = Object.fromEntries(
+  readFileSync(0, 'utf-8').split('\\n').filter(Boolean).map((line) => line.split(/=(.*)/s).slice(0, 2)),
+)
+const action = process.argv[2]
+if (action === 'get' && secrets[input.username]) process.stdout.write('password=' + secrets[input.username] + '\\n')
+if (action === 'store') secrets[input.username] = input.password
+if (action === 'erase') delete secrets[input.username]
+writeFileSync(file, JSON.stringify(secrets))
+`
+
+const helperPath = join(home.dir, 'helper.mjs')
+const secretsPath = join(home.dir, 'secrets.json')
+writeFileSync(helperPath, HELPER_SOURCE)
+
+describe('credentials', () => {
+  beforeEach(() => {
+    vi.stubEnv('LINEAR_API_KEY', '')
+    vi.stubEnv('LINEAR_PROFILE', '')
+    vi.stubEnv('LINEAR_CREDENTIALS_PASSPHRASE', 'correct horse')
+    setProfile(undefined)
+    writeConfig({})
+    rmSync(secretsPath, {force: true})
+    rmSync(join(home.dir, '.linear-cli-agents', 'credentials.enc'), {force: true})
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    rmSync(home.dir, {recursive: true, force: true})
+  })
+
+  describe('git-credential attributes', () => {
+    it('round-trips attributes', () => {
+      const text = formatCredentialAttributes({protocol: 'https', host: 'api.linear.app', password: 'a=b'})
+
+      expect(text).toBe('protocol=https\nhost=api.linear.app\npassword=a=b\n\n')
+      expect(parseCredentialAttributes(text)).toEqual({protocol: 'https', host: 'api.linear.app', password: 'a=b'})
+    })
+  })
+
+  describe('encryption', () => {
+    it('decrypts with the right passphrase only', () => {
+      const entry = encryptSecret('lin_api_secret', 'pass')
+
+      expect(entry.data).not.toContain('lin_api_secret')
+      expect(decryptSecret(entry, 'pass')).toBe('lin_api_secret')
+      expect(() => decryptSecret(entry, 'wrong')).toThrow('Failed to decrypt stored credentials')
+    })
+  })
+
+  describe('credential helper backend', () => {
+    beforeEach(() => {
+      setConfigValue('credential-helper', `node "${helperPath}"`)
+    })
+
+    it('stores keys outside config.json', () => {
+      expect(saveApiKey('lin_api_helper')).toBe('helper')
+
+      expect(readConfig().apiKey).toBeUndefined()
+      expect(JSON.parse(readFileSync(secretsPath, 'utf-8'))).toEqual({default: 'lin_api_helper'})
+      expect(getApiKeyWithSource()).toEqual({apiKey: 'lin_api_helper', source: 'helper'})
+    })
+
+    it('passes the profile as the username', () => {
+      setProfile('work')
+      saveApiKey('lin_api_work')
+
+      expect(JSON.parse(readFileSync(secretsPath, 'utf-8'))).toEqual({work: 'lin_api_work'})
+      expect(listProfiles().find((profile) => profile.name === 'work')?.credentialBackend).toBe('helper')
+    })
+
+    it('erases keys', () => {
+      saveApiKey('lin_api_helper')
+
+      expect(removeApiKey()).toEqual(['helper'])
+      expect(getApiKeyWithSource()).toBeUndefined()
+    })
+
+    it('runs the helper once per profile and process', () => {
+      writeFileSync(secretsPath, JSON.stringify({default: 'lin_api_first'}))
+      expect(getApiKeyWithSource()?.apiKey).toBe('lin_api_first')
+
+      writeFileSync(secretsPath, JSON.stringify({default: 'lin_api_second'}))
+      expect(getApiKeyWithSource()?.apiKey).toBe('lin_api_first')
+      expect(listProfiles()[0].credentialBackend).toBe('helper')
+
+      // Config changes may switch helpers, so they drop what was read
+      writeConfig(readConfig())
+      expect(getApiKeyWithSource()?.apiKey).toBe('lin_api_second')
+    })
+
+    it('falls back to a key still in config.json', () => {
+      writeConfig({...readConfig(), apiKey: 'lin_api_plain'})
+
+      expect(getApiKeyWithSource()).toEqual({apiKey: 'lin_api_plain', source: 'config'})
+    })
+
+    it('reports failing helpers', () => {
+      setConfigValue('credential-helper', 'false')
+
+      expect(() => saveApiKey('lin_api_helper')).toThrow('Credential helper "false store" failed')
+    })
+  })
+
+  describe('encrypted-file backend', () => {
+    beforeEach(() => {
+      setConfigValue('credential-helper', 'encrypted-file')
+    })
+
+    it('stores encrypted keys', () => {
+      expect(saveApiKey('lin_api_encrypted')).toBe('encrypted-file')
+
+      const file = readFileSync(join(home.dir, '.linear-cli-agents', 'credentials.enc'), 'utf-8')
+      expect(file).not.toContain('lin_api_encrypted')
+      expect(readConfig().apiKey).toBeUndefined()
+      expect(getApiKeyWithSource()).toEqual({apiKey: 'lin_api_encrypted', source: 'encrypted-file'})
+    })
+
+    it('requires the passphrase', () => {
+      vi.stubEnv('LINEAR_CREDENTIALS_PASSPHRASE', '')
+
+      expect(() => saveApiKey('lin_api_encrypted')).toThrow('LINEAR_CREDENTIALS_PASSPHRASE')
+    })
+
+    it('lists stored profiles without the passphrase', () => {
+      saveApiKey('lin_api_encrypted')
+      vi.stubEnv('LINEAR_CREDENTIALS_PASSPHRASE', '')
+
+      expect(listProfiles()[0]).toMatchObject({name: 'default', hasApiKey: true, credentialBackend: 'encrypted-file'})
+    })
+
+    it('switches back to config.json', () => {
+      setConfigValue('credential-helper', 'config')
+      saveApiKey('lin_api_plain')
+
+      expect(readConfig()).toEqual({apiKey: 'lin_api_plain'})
+      expect(existsSync(join(home.dir, '.linear-cli-agents', 'credentials.enc'))).toBe(false)
+    })
+  })
+})
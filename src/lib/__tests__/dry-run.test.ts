@@ -0,0 +1,77 @@
+import {describe, it, expect, vi, afterEach} from 'vitest'
+import {createClient} from '../client.js'
+import {getMutationField, isMutation, printDryRun, setDryRun} from '../dry-run.js'
+
+describe('dry-run', () => {
+  afterEach(() => {
+    setDryRun(false)
+    vi.restoreAllMocks()
+  })
+
+  it('detects mutation documents', () => {
+    expect(isMutation('mutation { issueUpdate(id: "1", input: {}) { success } }')).toBe(true)
+    expect(isMutation('  mutation Rename($id: String!) { issueUpdate(id: $id) { success } }')).toBe(true)
+    expect(isMutation('query { viewer { id } }')).toBe(false)
+    expect(isMutation('{ viewer { id } }')).toBe(false)
+  })
+
+  it('finds mutations after comments and other operations', () => {
+    const commented = '# rename it\nmutation { issueUpdate(id: "1", input: {}) { success } }'
+    const second = 'query Me { viewer { id } }\nmutation Delete { issueDelete(id: "1") { success } }'
+
+    expect(isMutation(commented)).toBe(true)
+    expect(isMutation(second)).toBe(true)
+    expect(isMutation('# no mutation here\nquery { viewer { id } }')).toBe(false)
+    expect(getMutationField(commented)).toBe('issueUpdate')
+    expect(getMutationField(second)).toBe('issueDelete')
+  })
+
+  it('reads the mutation field', () => {
+    expect(getMutationField('mutation Rename($id: String!) { issueUpdate(id: $id) { success } }')).toBe('issueUpdate')
+    expect(getMutationField('mutation { renamed: issueUpdate(id: "1") { success } }')).toBe('issueUpdate')
+  })
+
+  it('prints the planned operations', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    printDryRun(
+      [{mutation: 'issueUpdate', variables: {id: 'abc', input: {priority: 1}}, target: {entity: 'issue', id: 'abc'}}],
+      [{identifier: 'ENG-404', error: 'Issue not found'}],
+    )
+
+    expect(JSON.parse(log.mock.calls[0][0] as string)).toEqual({
+      success: true,
+      data: {
+        dryRun: true,
+        operations: [
+          {mutation: 'issueUpdate', variables: {id: 'abc', input: {priority: 1}}, target: {entity: 'issue', id: 'abc'}},
+        ],
+        errors: [{identifier: 'ENG-404', error: 'Issue not found'}],
+      },
+    })
+  })
+
+  it('refuses to send mutations through the client', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    setDryRun(true)
+
+    await expect(createClient('lin_api_test').deleteIssue('abc')).rejects.toThrow(
+      'Refusing to send issueDelete in --dry-run mode',
+    )
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('refuses raw documents hiding a mutation', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    setDryRun(true)
+    const client = createClient('lin_api_test')
+
+    await expect(
+      client.client.request('query Me { viewer { id } }\nmutation { issueDelete(id: "1") { success } }'),
+    ).rejects.toThrow('Refusing to send issueDelete in --dry-run mode')
+    await expect(client.client.request('# note\nmutation { issueArchive(id: "1") { success } }')).rejects.toThrow(
+      'Refusing to send issueArchive',
+    )
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,116 @@
+import {describe, it, expect, vi} from 'vitest'
+import type {LinearClient} from '@linear/sdk'
+import {
+  fetchIssueComments,
+  findDuplicateCandidates,
+  formatMergedComments,
+  scoreDuplicate,
+  selectMergedLabels,
+  textSimilarity,
+  tokenize,
+} from '../duplicates.js'
+
+describe('duplicates', () => {
+  it('tokenizes without stop words, links and plurals', () => {
+    expect(tokenize('The app crashes when uploading files, see https://example.com/x')).toEqual([
+      'app',
+      'crashe',
+      'uploading',
+      'file',
+      'see',
+    ])
+  })
+
+  it('scores similar titles above unrelated ones', () => {
+    expect(textSimilarity('Login fails with SSO', 'SSO login fails')).toBeCloseTo(1)
+    expect(textSimilarity('Login fails with SSO', 'Add dark mode')).toBe(0)
+
+    const withDescriptions = scoreDuplicate(
+      {title: 'Login fails with SSO', description: 'Okta redirect loops'},
+      {title: 'SSO login broken', description: 'Redirect loops with Okta'},
+    )
+    expect(withDescriptions.descriptionScore).toBeCloseTo(1)
+    expect(withDescriptions.score).toBeGreaterThan(withDescriptions.titleScore)
+    expect(scoreDuplicate({title: 'Login fails'}, {title: 'Login fails', description: 'x'}).descriptionScore).toBeNull()
+  })
+
+  it('searches by title and keywords, then ranks and filters candidates', async () => {
+    const result = (id: string, title: string) => ({
+      id,
+      identifier: `ENG-${id}`,
+      title,
+      description: null,
+      url: `https://linear.app/issue/ENG-${id}`,
+      state: null,
+    })
+    const request = vi.fn(async (_query: string, variables: Record<string, unknown>) => ({
+      searchIssues: {
+        nodes:
+          variables.term === 'Login fails with SSO'
+            ? [result('1', 'Login fails with SSO')]
+            : [result('1', 'Login fails with SSO'), result('2', 'SSO login fails on Safari'), result('3', 'SSO docs')],
+      },
+    }))
+    const client = {client: {request}} as unknown as LinearClient
+
+    const candidates = await findDuplicateCandidates(
+      client,
+      {title: 'Login fails with SSO'},
+      {excludeId: '1', minScore: 0.6, limit: 5},
+    )
+
+    expect(request.mock.calls.map(([, variables]) => variables.term)).toEqual([
+      'Login fails with SSO',
+      'Login fails SSO',
+    ])
+    expect(candidates.map((candidate) => candidate.identifier)).toEqual(['ENG-2'])
+  })
+
+  it('quotes merged comments with author and date', () => {
+    const body = formatMergedComments({identifier: 'ENG-2', title: 'Dup', url: 'https://linear.app/issue/ENG-2'}, [
+      {body: 'Seen on Safari\n\nToo', createdAt: '2026-03-01T10:00:00.000Z', user: {name: 'Sam'}},
+    ])
+
+    expect(body).toBe(
+      [
+        'Merged duplicate [ENG-2](https://linear.app/issue/ENG-2): Dup',
+        '1 comment:',
+        '> **Sam** (2026-03-01):\n> Seen on Safari\n>\n> Too',
+      ].join('\n\n'),
+    )
+  })
+
+  it('fetches every page of comments, oldest first', async () => {
+    const comment = (day: string) => ({body: day, createdAt: `2026-03-${day}T10:00:00.000Z`, user: null})
+    const request = vi.fn(async (_query: string, variables: Record<string, unknown>) => ({
+      issue: {
+        comments: variables.after
+          ? {nodes: [comment('01')], pageInfo: {hasNextPage: false, hasPreviousPage: true}}
+          : {
+              nodes: [comment('03'), comment('02')],
+              pageInfo: {hasNextPage: true, hasPreviousPage: false, endCursor: 'c'},
+            },
+      },
+    }))
+    const client = {client: {request}} as unknown as LinearClient
+
+    const comments = await fetchIssueComments(client, 'i1')
+
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(comments.map((c) => c.body)).toEqual(['01', '02', '03'])
+  })
+
+  it('only copies labels the canonical issue lacks and its team can use', () => {
+    const labels = [
+      {id: 'workspace', team: null},
+      {id: 'eng', team: {id: 'eng-team'}},
+      {id: 'ops', team: {id: 'ops-team'}},
+      {id: 'present', team: null},
+    ]
+
+    expect(selectMergedLabels(labels, {teamId: 'eng-team', labelIds: ['present']})).toEqual({
+      added: ['workspace', 'eng'],
+      skipped: ['ops'],
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import {describe, it, expect} from 'vitest'
+import {CliError} from '../errors.js'
+import {ISSUE_FIELDS, buildSelection, fieldColumns, parseFields, projectNode} from '../fields.js'
+
+describe('fields utilities', () => {
+  describe('parseFields', () => {
+    it('keeps scalars and dot paths in the requested order', () => {
+      expect(parseFields('identifier, title,state.name', ISSUE_FIELDS)).toEqual(['identifier', 'title', 'state.name'])
+    })
+
+    it('expands bare relations to their default fields', () => {
+      expect(parseFields('identifier,assignee', ISSUE_FIELDS)).toEqual(['identifier', 'assignee.id', 'assignee.name'])
+    })
+
+    it('removes duplicates', () => {
+      expect(parseFields('title,state,state.name', ISSUE_FIELDS)).toEqual(['title', 'state.id', 'state.name'])
+    })
+
+    it('rejects unknown fields with the available fields', () => {
+      try {
+        parseFields('identifier,state.foo', ISSUE_FIELDS)
+        expect.unreachable()
+      } catch (err) {
+        expect(err).toBeInstanceOf(CliError)
+        const cliError = err as CliError
+        expect(cliError.code).toBe('INVALID_INPUT')
+        expect(cliError.message).toBe('Unknown field: state.foo')
+        expect(cliError.details?.availableFields).toContain('state.name')
+      }
+    })
+
+    it('rejects sub-fields on scalars and empty input', () => {
+      expect(() => parseFields('title.length', ISSUE_FIELDS)).toThrow(CliError)
+      expect(() => parseFields(' , ', ISSUE_FIELDS)).toThrow(CliError)
+    })
+  })
+
+  describe('buildSelection', () => {
+    it('groups relation fields and wraps connections in nodes', () => {
+      expect(buildSelection(['identifier', 'state.name', 'labels.name', 'state.type'], ISSUE_FIELDS)).toBe(
+        'identifier state { name type } labels { nodes { name } }',
+      )
+    })
+  })
+
+  describe('projectNode', () => {
+    it('unwraps connection nodes', () => {
+      const node = {identifier: 'ENG-1', labels: {nodes: [{name: 'bug'}]}, state: {name: 'Todo'}}
+      expect(projectNode(node, ISSUE_FIELDS)).toEqual({
+        identifier: 'ENG-1',
+        labels: [{name: 'bug'}],
+        state: {name: 'Todo'},
+      })
+    })
+  })
+
+  describe('fieldColumns', () => {
+    it('creates one column per path and one per connection', () => {
+      const columns = fieldColumns(['identifier', 'state.name', 'labels.id', 'labels.name'], ISSUE_FIELDS)
+
+      expect(columns.map((column) => column.key)).toEqual(['identifier', 'state.name', 'labels'])
+      expect(columns.map((column) => column.header)).toEqual(['IDENTIFIER', 'STATE.NAME', 'LABELS'])
+      expect(
+        columns[2].format?.(
+          [
+            {id: '1', name: 'bug'},
+            {id: '2', name: 'ui'},
+          ],
+          {},
+        ),
+      ).toBe('1 bug, 2 ui')
+    })
+  })
+})
@@ -0,0 +1,73 @@
+import {describe, it, expect} from 'vitest'
+import {formatDelimited, formatNdjson, getFieldPaths, getNestedValue} from '../formatter.js'
+
+describe('formatter utilities', () => {
+  describe('getNestedValue', () => {
+    it('reads dot-notation paths', () => {
+      expect(getNestedValue({state: {name: 'Done'}}, 'state.name')).toBe('Done')
+    })
+
+    it('returns undefined for missing paths', () => {
+      expect(getNestedValue({state: null}, 'state.name')).toBeUndefined()
+    })
+  })
+
+  describe('getFieldPaths', () => {
+    it('flattens nested objects in first-seen order', () => {
+      const paths = getFieldPaths([
+        {id: '1', state: {name: 'Todo'}, labels: [{name: 'bug'}]},
+        {id: '2', assignee: {email: 'a@b.c'}},
+      ])
+
+      expect(paths).toEqual(['id', 'state.name', 'labels', 'assignee.email'])
+    })
+
+    it('prefers nested paths over null values', () => {
+      expect(getFieldPaths([{assignee: null}, {assignee: {email: 'a@b.c'}}])).toEqual(['assignee.email'])
+    })
+
+    it('keeps dates and nulls as leaf fields', () => {
+      expect(getFieldPaths([{createdAt: new Date(0), assignee: null}])).toEqual(['createdAt', 'assignee'])
+    })
+  })
+
+  describe('formatDelimited', () => {
+    it('formats CSV with header and quoting', () => {
+      const output = formatDelimited(
+        [
+          {id: 'ENG-1', title: 'Fix "login", again', state: {name: 'Todo'}},
+          {id: 'ENG-2', title: 'Multi\nline', state: null},
+        ],
+        'csv',
+      )
+
+      expect(output).toBe(
+        ['id,title,state.name', 'ENG-1,"Fix ""login"", again",Todo', 'ENG-2,"Multi\nline",'].join('\n'),
+      )
+    })
+
+    it('formats TSV with escaped tabs and newlines', () => {
+      const output = formatDelimited([{id: '1', body: 'a\tb\nc'}], 'tsv')
+
+      expect(output).toBe('id\tbody\n1\ta\\tb\\nc')
+    })
+
+    it('serializes dates and arrays', () => {
+      const output = formatDelimited([{createdAt: new Date(0), labels: ['bug', 'ui']}], 'csv', {header: false})
+
+      expect(output).toBe('1970-01-01T00:00:00.000Z,"[""bug"",""ui""]"')
+    })
+
+    it('uses explicit fields', () => {
+      const output = formatDelimited([{id: '1', name: 'x', extra: true}], 'csv', {fields: ['name', 'id']})
+
+      expect(output).toBe('name,id\nx,1')
+    })
+  })
+
+  describe('formatNdjson', () => {
+    it('writes one JSON record per line', () => {
+      expect(formatNdjson([{id: 1}, {id: 2}])).toBe('{"id":1}\n{"id":2}')
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import {describe, it, expect, beforeAll, afterAll} from 'vitest'
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {parseDataFile, parseFrontMatter, readInputFile, readMarkdown} from '../input-file.js'
+import {parseIssueFrontMatter} from '../issue-utils.js'
+
+describe('input-file', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'linear-input-file-test-'))
+    writeFileSync(join(dir, 'body.md'), '# Notes\n\nDetails\n')
+  })
+
+  afterAll(() => {
+    rmSync(dir, {recursive: true, force: true})
+  })
+
+  it('reads markdown from the file flag, or the inline flag without one', () => {
+    expect(readMarkdown('inline', undefined)).toBe('inline')
+    expect(readMarkdown(undefined, join(dir, 'body.md'))).toBe('# Notes\n\nDetails\n')
+    expect(readMarkdown(undefined, undefined)).toBeUndefined()
+  })
+
+  it('reports missing files', () => {
+    expect(() => readInputFile(join(dir, 'missing.md'))).toThrow('File not found')
+  })
+
+  it('parses JSON and YAML', () => {
+    expect(parseDataFile('{"a": 1}', 'spec')).toEqual({a: 1})
+    expect(parseDataFile('a: 1\ndue: 2025-03-01', 'spec')).toEqual({a: 1, due: '2025-03-01'})
+    expect(() => parseDataFile('a: [', 'spec')).toThrow('Invalid spec')
+  })
+
+  describe('parseFrontMatter', () => {
+    it('splits front-matter from the body', () => {
+      expect(parseFrontMatter('---\ntitle: Fix login\npriority: 2\n---\n\nSteps to reproduce\n')).toEqual({
+        data: {title: 'Fix login', priority: 2},
+        body: 'Steps to reproduce\n',
+      })
+    })
+
+    it('returns documents without front-matter unchanged', () => {
+      expect(parseFrontMatter('Just text\n---\nmore')).toEqual({data: {}, body: 'Just text\n---\nmore'})
+      expect(parseFrontMatter('---\n---\nBody')).toEqual({data: {}, body: 'Body'})
+    })
+
+    it('rejects front-matter that is not a mapping', () => {
+      expect(() => parseFrontMatter('---\n- a\n---\nBody')).toThrow('Front-matter must be a YAML mapping')
+    })
+  })
+
+  describe('parseIssueFrontMatter', () => {
+    it('accepts issue fields', () => {
+      expect(
+        parseIssueFrontMatter({
+          title: 'Fix login',
+          team: 'ENG',
+          labels: 'bug, auth',
+          priority: 2,
+          dueDate: '2025-03-01',
+          assignee: null,
+        }),
+      ).toEqual({title: 'Fix login', team: 'ENG', labels: ['bug', 'auth'], priority: 2, dueDate: '2025-03-01'})
+    })
+
+    it('rejects unknown fields and wrong types', () => {
+      expect(() => parseIssueFrontMatter({titel: 'Typo'})).toThrow('Unknown front-matter field "titel"')
+      expect(() => parseIssueFrontMatter({priority: 'high'})).toThrow('"priority" must be an integer')
+      expect(() => parseIssueFrontMatter({labels: [1, 2]})).toThrow('"labels" must be a list of label names')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import {describe, it, expect} from 'vitest'
+import type {LinearClient} from '@linear/sdk'
+import {buildIssueFilter, checkAffectedCount, resolveBulkTargets} from '../issue-filter.js'
+
+/**
+ * Fake client serving two pages of issues for any filter.
+ */
+const createFakeClient = () => {
+  const filters: unknown[] = []
+  const pages = [
+    {nodes: [{id: 'i1', identifier: 'ENG-1'}], pageInfo: {hasNextPage: true, hasPreviousPage: false, endCursor: 'c1'}},
+    {nodes: [{id: 'i2', identifier: 'ENG-2'}], pageInfo: {hasNextPage: false, hasPreviousPage: true, endCursor: 'c2'}},
+  ]
+
+  const client = {
+    viewer: Promise.resolve({id: 'me-id'}),
+    issues: async ({filter, after}: {filter: unknown; after?: string}) => {
+      filters.push(filter)
+      return after ? pages[1] : pages[0]
+    },
+  } as unknown as LinearClient
+
+  return {client, filters}
+}
+
+describe('issue-filter', () => {
+  describe('buildIssueFilter', () => {
+    it('merges shorthands over the JSON filter', async () => {
+      const {client} = createFakeClient()
+
+      const filter = await buildIssueFilter(client, {
+        filter: '{"priority":{"eq":1},"team":{"key":{"eq":"OPS"}}}',
+        team: 'ENG',
+        state: 'In Review',
+        assignee: 'me',
+      })
+
+      expect(filter).toEqual({
+        priority: {eq: 1},
+        team: {key: {eq: 'ENG'}},
+        state: {name: {eq: 'In Review'}},
+        assignee: {id: {eq: 'me-id'}},
+      })
+    })
+
+    it('names the flag holding invalid JSON', async () => {
+      const {client} = createFakeClient()
+
+      await expect(buildIssueFilter(client, {filter: '{nope'}, '--where')).rejects.toMatchObject({
+        code: 'INVALID_INPUT',
+        message: 'Invalid JSON in --where flag',
+      })
+    })
+  })
+
+  describe('resolveBulkTargets', () => {
+    it('selects every matching issue across pages', async () => {
+      const {client, filters} = createFakeClient()
+
+      const targets = await resolveBulkTargets(client, {'where-team': 'ENG', 'where-state': 'In Review'})
+
+      expect(targets).toEqual([
+        {identifier: 'ENG-1', id: 'i1', error: null},
+        {identifier: 'ENG-2', id: 'i2', error: null},
+      ])
+      expect(filters[0]).toEqual({team: {key: {eq: 'ENG'}}, state: {name: {eq: 'In Review'}}})
+    })
+
+    it('requires --ids or a filter', async () => {
+      const {client} = createFakeClient()
+
+      await expect(resolveBulkTargets(client, {})).rejects.toMatchObject({code: 'MISSING_REQUIRED_FIELD'})
+    })
+  })
+
+  describe('checkAffectedCount', () => {
+    it('requires a guard for filter selections', () => {
+      expect(() => checkAffectedCount(12, {}, true)).toThrow('Re-run with --confirm 12')
+      expect(() => checkAffectedCount(12, {}, false)).not.toThrow()
+    })
+
+    it('checks --confirm against the exact count', () => {
+      expect(() => checkAffectedCount(12, {confirm: 12}, true)).not.toThrow()
+      expect(() => checkAffectedCount(13, {confirm: 12}, true)).toThrow(
+        expect.objectContaining({code: 'CONFIRMATION_REQUIRED', details: {matched: 13}}),
+      )
+    })
+
+    it('checks --max as an upper bound', () => {
+      expect(() => checkAffectedCount(5, {max: 10}, true)).not.toThrow()
+      expect(() => checkAffectedCount(11, {max: 10}, true)).toThrow('more than --max 10')
+    })
+  })
+})
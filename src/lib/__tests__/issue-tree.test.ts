@@ -0,0 +1,80 @@
+import {describe, it, expect, vi, afterEach} from 'vitest'
+import type {LinearClient} from '@linear/sdk'
+import {countDescendants, fetchIssueTree, formatIssueTree} from '../issue-tree.js'
+
+const issue = (id: string, parent: string | null, state = 'Todo', type = 'unstarted') => ({
+  id,
+  identifier: `ENG-${id}`,
+  title: `Issue ${id}`,
+  priority: 0,
+  url: `https://linear.app/issue/ENG-${id}`,
+  state: {name: state, type},
+  assignee: null,
+  parent: parent ? {id: parent} : null,
+})
+
+const ISSUES = [
+  issue('1', null, 'In Progress', 'started'),
+  issue('2', '1', 'Done', 'completed'),
+  issue('3', '1'),
+  issue('4', '2'),
+]
+
+const mockClient = () => {
+  const request = vi.fn(async (query: string, variables: Record<string, unknown>) => {
+    if (query.includes('IssueSummary')) {
+      return {issue: ISSUES.find((node) => node.id === variables.id) ?? null}
+    }
+    const parents = (variables.filter as {parent: {id: {in: string[]}}}).parent.id.in
+    return {
+      issues: {
+        nodes: ISSUES.filter((node) => node.parent && parents.includes(node.parent.id)),
+        pageInfo: {hasNextPage: false, hasPreviousPage: false},
+      },
+    }
+  })
+  return {client: {client: {request}} as unknown as LinearClient, request}
+}
+
+describe('issue-tree', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('fetches the hierarchy one level per query', async () => {
+    const {client, request} = mockClient()
+
+    const tree = await fetchIssueTree(client, '1')
+
+    expect(tree.children.map((child) => [child.identifier, child.children.map((c) => c.identifier)])).toEqual([
+      ['ENG-2', ['ENG-4']],
+      ['ENG-3', []],
+    ])
+    expect(tree.parentId).toBeNull()
+    expect(countDescendants(tree)).toEqual({total: 3, closed: 1})
+    // Root, then levels 1, 2 and an empty level 3
+    expect(request).toHaveBeenCalledTimes(4)
+  })
+
+  it('stops at the requested depth', async () => {
+    const {client} = mockClient()
+
+    const tree = await fetchIssueTree(client, '1', 1)
+
+    expect(tree.children.map((child) => child.children.length)).toEqual([0, 0])
+  })
+
+  it('renders an ASCII tree', async () => {
+    vi.stubEnv('NO_COLOR', '1')
+    const {client} = mockClient()
+
+    expect(formatIssueTree(await fetchIssueTree(client, '1'))).toBe(
+      [
+        'ENG-1 Issue 1 [In Progress]',
+        '├── ENG-2 Issue 2 [Done]',
+        '│   └── ENG-4 Issue 4 [Todo]',
+        '└── ENG-3 Issue 3 [Todo]',
+      ].join('\n'),
+    )
+  })
+})
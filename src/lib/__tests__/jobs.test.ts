@@ -0,0 +1,119 @@
+import {describe, it, expect, vi, beforeEach, afterAll} from 'vitest'
+import {appendFileSync, mkdtempSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type * as os from 'node:os'
+
+const home = vi.hoisted(() => ({dir: ''}))
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof os>()
+  return {...actual, homedir: () => home.dir}
+})
+
+home.dir = mkdtempSync(join(tmpdir(), 'linear-jobs-test-'))
+
+const {createJob, getJobsDir, listJobs, readJob, resumeJob, resumeProfileArgs} = await import('../jobs.js')
+const {setProfile} = await import('../config.js')
+
+const TARGETS = [
+  {identifier: 'ENG-1', id: 'i1', error: null},
+  {identifier: 'ENG-2', id: 'i2', error: null},
+  {identifier: 'ENG-404', id: null, error: 'Issue ENG-404 not found'},
+]
+
+describe('jobs', () => {
+  beforeEach(() => {
+    rmSync(getJobsDir(), {recursive: true, force: true})
+  })
+
+  afterAll(() => {
+    rmSync(home.dir, {recursive: true, force: true})
+  })
+
+  it('records per-item status', () => {
+    const journal = createJob('issues:bulk-update', ['--ids', 'ENG-1,ENG-2,ENG-404', '--priority', '1'], TARGETS)
+    journal.record(1, {success: true})
+    journal.record(0, {success: false, error: 'Fetch failed'})
+    journal.end()
+
+    expect(readJob(journal.id)).toMatchObject({
+      command: 'issues:bulk-update',
+      argv: ['--ids', 'ENG-1,ENG-2,ENG-404', '--priority', '1'],
+      status: 'completed_with_errors',
+      total: 3,
+      succeeded: 1,
+      failed: 2,
+      pending: 0,
+      items: [
+        {identifier: 'ENG-1', id: 'i1', status: 'failed', error: 'Fetch failed'},
+        {identifier: 'ENG-2', id: 'i2', status: 'succeeded'},
+        {identifier: 'ENG-404', id: null, status: 'failed', error: 'Issue ENG-404 not found'},
+      ],
+    })
+  })
+
+  it('treats jobs without an end line as incomplete', () => {
+    const journal = createJob('issues:bulk-label', [], TARGETS)
+    journal.record(0, {success: true})
+    // Simulates a crash in the middle of a write
+    appendFileSync(join(getJobsDir(), `${journal.id}.ndjson`), '{"type":"item","index":1,"sta')
+
+    expect(readJob(journal.id)).toMatchObject({status: 'incomplete', succeeded: 1, pending: 1})
+  })
+
+  it('resumes pending and failed items that resolved', () => {
+    const journal = createJob('issues:bulk-update', [], TARGETS)
+    journal.record(0, {success: false, error: 'Fetch failed'})
+
+    const resumed = resumeJob(journal.id)
+    expect(resumed.targets).toEqual([
+      {index: 0, identifier: 'ENG-1', id: 'i1', error: null},
+      {index: 1, identifier: 'ENG-2', id: 'i2', error: null},
+    ])
+
+    resumed.journal.record(0, {success: true})
+    resumed.journal.record(1, {success: true})
+    resumed.journal.end()
+
+    expect(readJob(journal.id)).toMatchObject({status: 'completed_with_errors', succeeded: 2, failed: 1})
+  })
+
+  it('lists jobs without their items', () => {
+    const journal = createJob('issues:bulk-update', ['--ids', 'ENG-1'], TARGETS.slice(0, 1))
+
+    expect(listJobs()).toEqual([expect.objectContaining({id: journal.id, status: 'incomplete', total: 1, pending: 1})])
+    expect(listJobs()[0]).not.toHaveProperty('items')
+  })
+
+  it('skips journals it cannot read when listing', () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const journal = createJob('issues:bulk-update', [], TARGETS)
+    // A crash while the header was written
+    writeFileSync(join(getJobsDir(), '20250101T000000-000000.ndjson'), '{"type":"job","id":"2025')
+
+    expect(listJobs().map((job) => job.id)).toEqual([journal.id])
+    expect(stderr).toHaveBeenCalledWith(
+      'Warning: skipping job 20250101T000000-000000: Job 20250101T000000-000000 has a corrupted journal\n',
+    )
+    stderr.mockRestore()
+  })
+
+  it('reports unknown and invalid job IDs', () => {
+    expect(() => readJob('20250101T000000-000000')).toThrow('Job 20250101T000000-000000 not found')
+    expect(() => readJob('../config')).toThrow('Invalid job ID')
+  })
+
+  it('resumes jobs with the profile they were started with', () => {
+    setProfile('work')
+    const job = readJob(createJob('issues:bulk-update', ['--ids', 'ENG-1'], TARGETS).id)
+    setProfile(undefined)
+
+    expect(job.profile).toBe('work')
+    expect(resumeProfileArgs(job, undefined)).toEqual(['--profile', 'work'])
+    expect(resumeProfileArgs(job, 'work')).toEqual(['--profile', 'work'])
+    expect(resumeProfileArgs({...job, argv: ['--profile=work']}, undefined)).toEqual([])
+    expect(() => resumeProfileArgs(job, 'personal')).toThrow('started with profile "work"')
+    expect(resumeProfileArgs({...job, profile: undefined}, 'personal')).toEqual([])
+  })
+})
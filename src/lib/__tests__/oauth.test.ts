@@ -0,0 +1,190 @@
+import {describe, it, expect, afterEach} from 'vitest'
+import {createHash} from 'node:crypto'
+import {createServer, type IncomingMessage, type Server} from 'node:http'
+import type {AddressInfo} from 'node:net'
+import {
+  authorizeWithPkce,
+  buildAuthorizeUrl,
+  createPkcePair,
+  needsRefresh,
+  parseOAuthSecret,
+  refreshOAuthTokens,
+  serializeOAuthTokens,
+  startCallbackServer,
+} from '../oauth.js'
+
+const readBody = async (req: IncomingMessage): Promise<URLSearchParams> => {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return new URLSearchParams(body)
+}
+
+/**
+ * Local stand-in for Linear's authorize and token endpoints.
+ */
+const startStub = async () => {
+  const tokenRequests: URLSearchParams[] = []
+  let challenge: string | null = null
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+
+    if (url.pathname === '/authorize') {
+      challenge = url.searchParams.get('code_challenge')
+      const redirect = new URL(url.searchParams.get('redirect_uri')!)
+      redirect.searchParams.set('code', 'auth-code')
+      redirect.searchParams.set('state', url.searchParams.get('state')!)
+      res.writeHead(302, {Location: redirect.toString()}).end()
+      return
+    }
+
+    const params = await readBody(req)
+    tokenRequests.push(params)
+
+    if (params.get('grant_type') === 'refresh_token' && params.get('refresh_token') !== 'refresh-1') {
+      res.writeHead(400, {'Content-Type': 'application/json'})
+      res.end(JSON.stringify({error: 'invalid_grant', error_description: 'Refresh token revoked'}))
+      return
+    }
+
+    res.writeHead(200, {'Content-Type': 'application/json'})
+    res.end(
+      JSON.stringify({
+        access_token: params.get('grant_type') === 'refresh_token' ? 'access-2' : 'access-1',
+        refresh_token: params.get('grant_type') === 'refresh_token' ? undefined : 'refresh-1',
+        expires_in: 3600,
+        scope: ['read', 'write'],
+      }),
+    )
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    authorizeUrl: `${base}/authorize`,
+    tokenUrl: `${base}/token`,
+    tokenRequests,
+    getChallenge: () => challenge,
+    close: () => {
+      server.close()
+      server.closeAllConnections()
+    },
+  }
+}
+
+describe('oauth', () => {
+  let cleanup: Array<() => void> = []
+
+  afterEach(() => {
+    for (const close of cleanup) close()
+    cleanup = []
+  })
+
+  it('creates S256 PKCE pairs', () => {
+    const {verifier, challenge} = createPkcePair()
+
+    expect(verifier).toMatch(/^[\w-]{43}$/)
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'))
+  })
+
+  it('builds the authorize URL', () => {
+    const url = new URL(
+      buildAuthorizeUrl({
+        authorizeUrl: 'https://linear.app/oauth/authorize',
+        clientId: 'client',
+        redirectUri: 'http://127.0.0.1:8976/callback',
+        scope: 'read,write',
+        state: 'xyz',
+        challenge: 'abc',
+      }),
+    )
+
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'client',
+      redirect_uri: 'http://127.0.0.1:8976/callback',
+      response_type: 'code',
+      scope: 'read,write',
+      state: 'xyz',
+      code_challenge: 'abc',
+      code_challenge_method: 'S256',
+    })
+  })
+
+  it('round-trips stored tokens and leaves API keys alone', () => {
+    const tokens = {accessToken: 'a', refreshToken: 'r', expiresAt: 1, clientId: 'c', tokenUrl: 'https://t'}
+
+    expect(parseOAuthSecret(serializeOAuthTokens(tokens))).toEqual(tokens)
+    expect(parseOAuthSecret('lin_api_xxx')).toBeUndefined()
+  })
+
+  it('refreshes shortly before expiry', () => {
+    const now = Date.now()
+    const tokens = {accessToken: 'a', clientId: 'c', tokenUrl: 'https://t'}
+
+    expect(needsRefresh({...tokens, expiresAt: now + 30_000}, now)).toBe(true)
+    expect(needsRefresh({...tokens, expiresAt: now + 3_600_000}, now)).toBe(false)
+    expect(needsRefresh(tokens, now)).toBe(false)
+  })
+
+  it('rejects callbacks with a wrong state', async () => {
+    const server = await startCallbackServer(0)
+    cleanup.push(server.close)
+
+    const rejected = expect(server.waitForCode('expected')).rejects.toThrow('OAuth state mismatch')
+    await fetch(`${server.redirectUri}?code=abc&state=forged`)
+
+    await rejected
+  })
+
+  it('runs the authorization-code flow with PKCE', async () => {
+    const stub = await startStub()
+    cleanup.push(stub.close)
+
+    const tokens = await authorizeWithPkce(
+      {clientId: 'client', authorizeUrl: stub.authorizeUrl, tokenUrl: stub.tokenUrl, scope: 'read', port: 0},
+      async (url) => {
+        // Plays the browser: the stub redirects straight back to the callback server
+        await fetch(url)
+      },
+    )
+
+    expect(tokens).toMatchObject({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      scope: 'read,write',
+      clientId: 'client',
+      tokenUrl: stub.tokenUrl,
+    })
+
+    const exchange = stub.tokenRequests[0]
+    expect(exchange.get('grant_type')).toBe('authorization_code')
+    expect(exchange.get('code')).toBe('auth-code')
+    expect(createHash('sha256').update(exchange.get('code_verifier')!).digest('base64url')).toBe(stub.getChallenge())
+  })
+
+  it('refreshes tokens and keeps the refresh token', async () => {
+    const stub = await startStub()
+    cleanup.push(stub.close)
+
+    const tokens = await refreshOAuthTokens({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      clientId: 'client',
+      tokenUrl: stub.tokenUrl,
+    })
+
+    expect(tokens.accessToken).toBe('access-2')
+    expect(tokens.refreshToken).toBe('refresh-1')
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now())
+  })
+
+  it('reports rejected refresh tokens as NOT_AUTHENTICATED', async () => {
+    const stub = await startStub()
+    cleanup.push(stub.close)
+
+    await expect(
+      refreshOAuthTokens({accessToken: 'a', refreshToken: 'revoked', clientId: 'client', tokenUrl: stub.tokenUrl}),
+    ).rejects.toMatchObject({code: 'NOT_AUTHENTICATED', message: 'OAuth token request failed: Refresh token revoked'})
+  })
+})
@@ -0,0 +1,104 @@
+import {describe, it, expect, vi} from 'vitest'
+import {MAX_PAGINATED_ITEMS, paginate, streamPages, type PageRequest} from '../pagination.js'
+
+/**
+ * Fake connection over a fixed list of numbers, using item indexes as cursors.
+ */
+const createFetcher = (total: number) => {
+  const items = Array.from({length: total}, (_, i) => i)
+  const fetchPage = vi.fn(async ({first, after}: PageRequest) => {
+    const start = after === undefined ? 0 : Number(after) + 1
+    const nodes = items.slice(start, start + first)
+    return {
+      nodes,
+      pageInfo: {
+        hasNextPage: start + nodes.length < total,
+        hasPreviousPage: start > 0,
+        startCursor: nodes.length > 0 ? String(start) : undefined,
+        endCursor: nodes.length > 0 ? String(start + nodes.length - 1) : undefined,
+      },
+    }
+  })
+  return fetchPage
+}
+
+const identity = (nodes: number[]) => nodes
+
+describe('pagination utilities', () => {
+  describe('paginate', () => {
+    it('fetches a single page by default', async () => {
+      const fetchPage = createFetcher(25)
+      const {data, pageInfo} = await paginate(fetchPage, {first: 10}, identity)
+
+      expect(data).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+      expect(fetchPage).toHaveBeenCalledTimes(1)
+      expect(pageInfo).toEqual({hasNextPage: true, hasPreviousPage: false, startCursor: '0', endCursor: '9'})
+    })
+
+    it('walks every page with all', async () => {
+      const fetchPage = createFetcher(25)
+      const {data, pageInfo} = await paginate(fetchPage, {first: 10, all: true}, identity)
+
+      expect(data).toHaveLength(25)
+      expect(fetchPage).toHaveBeenCalledTimes(3)
+      expect(pageInfo.hasNextPage).toBe(false)
+      expect(pageInfo.startCursor).toBe('0')
+      expect(pageInfo.endCursor).toBe('24')
+    })
+
+    it('stops exactly at limit with a resumable cursor', async () => {
+      const fetchPage = createFetcher(25)
+      const {data, pageInfo} = await paginate(fetchPage, {first: 10, limit: 15}, identity)
+
+      expect(data).toHaveLength(15)
+      expect(fetchPage).toHaveBeenLastCalledWith({first: 5, after: '9'})
+      expect(pageInfo).toEqual({hasNextPage: true, hasPreviousPage: false, startCursor: '0', endCursor: '14'})
+    })
+
+    it('starts from the after cursor', async () => {
+      const fetchPage = createFetcher(25)
+      const {data} = await paginate(fetchPage, {first: 10, after: '19', all: true}, identity)
+
+      expect(data).toEqual([20, 21, 22, 23, 24])
+    })
+
+    it('applies the page mapper', async () => {
+      const fetchPage = createFetcher(3)
+      const {data} = await paginate(fetchPage, {first: 10}, async (nodes) => nodes.map((n) => `item-${n}`))
+
+      expect(data).toEqual(['item-0', 'item-1', 'item-2'])
+    })
+
+    it('handles empty connections', async () => {
+      const fetchPage = createFetcher(0)
+      const {data, pageInfo} = await paginate(fetchPage, {first: 10, all: true}, identity)
+
+      expect(data).toEqual([])
+      expect(pageInfo.hasNextPage).toBe(false)
+    })
+  })
+
+  describe('streamPages', () => {
+    it('hands each page to the callback', async () => {
+      const fetchPage = createFetcher(25)
+      const pages: number[][] = []
+      await streamPages(fetchPage, {first: 10, all: true}, identity, (items) => pages.push(items))
+
+      expect(pages.map((page) => page.length)).toEqual([10, 10, 5])
+    })
+
+    it('stops at the safety cap and warns on stderr', async () => {
+      const stderrSpy = vi.spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const fetchPage = createFetcher(MAX_PAGINATED_ITEMS + 10)
+      let count = 0
+      const pageInfo = await streamPages(fetchPage, {first: 250, all: true}, identity, (items) => {
+        count += items.length
+      })
+
+      expect(count).toBe(MAX_PAGINATED_ITEMS)
+      expect(pageInfo.hasNextPage).toBe(true)
+      expect(stderrSpy).toHaveBeenCalled()
+      stderrSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import {describe, it, expect, vi} from 'vitest'
+import type {LinearClient} from '@linear/sdk'
+import {executePlan, orderPlan, parsePlan, resolveRefs} from '../plan.js'
+
+const TEAM_ID = '00000000-0000-4000-8000-000000000001'
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`
+
+describe('plan', () => {
+  describe('parsePlan', () => {
+    it('parses YAML plans and keeps dates as strings', () => {
+      const plan = parsePlan(`
+operations:
+  - ref: epic
+    type: issue.create
+    input:
+      title: Epic
+      dueDate: 2025-03-01
+`)
+
+      expect(plan).toEqual([{ref: 'epic', type: 'issue.create', input: {title: 'Epic', dueDate: '2025-03-01'}}])
+    })
+
+    it('parses JSON lists of operations', () => {
+      expect(parsePlan('[{"type":"comment.create","input":{"issueId":"ENG-1","body":"Hi"}}]')).toEqual([
+        {type: 'comment.create', input: {issueId: 'ENG-1', body: 'Hi'}},
+      ])
+    })
+
+    it('rejects malformed plans', () => {
+      expect(() => parsePlan('[]')).toThrow('non-empty list')
+      expect(() => parsePlan('[{"type":"issue.delete","input":{}}]')).toThrow('Operation #1 has an unknown type')
+      expect(() => parsePlan('[{"type":"issue.create"}]')).toThrow('needs an "input" object')
+      expect(() => parsePlan('[{"ref":"a b","type":"issue.create","input":{}}]')).toThrow('invalid ref')
+    })
+  })
+
+  describe('orderPlan', () => {
+    it('runs referenced operations first and keeps file order otherwise', () => {
+      const plan = parsePlan(`
+- {type: comment.create, input: {issueId: $ref:task, body: Started}}
+- {ref: task, type: issue.create, input: {title: Task, parentId: $ref:epic}}
+- {type: comment.create, input: {issueId: ENG-1, body: Unrelated}}
+- {ref: epic, type: issue.create, input: {title: Epic}}
+`)
+
+      expect(orderPlan(plan)).toEqual([2, 3, 1, 0])
+    })
+
+    it('rejects unknown refs, duplicates and cycles', () => {
+      expect(() => orderPlan(parsePlan('[{"type":"issue.create","input":{"parentId":"$ref:x"}}]'))).toThrow(
+        'references unknown $ref:x',
+      )
+      expect(() =>
+        orderPlan(
+          parsePlan('[{"ref":"a","type":"issue.create","input":{}},{"ref":"a","type":"issue.create","input":{}}]'),
+        ),
+      ).toThrow('Duplicate ref "a"')
+      expect(() =>
+        orderPlan(
+          parsePlan(`
+- {ref: a, type: issue.create, input: {parentId: $ref:b}}
+- {ref: b, type: issue.create, input: {parentId: $ref:a}}
+`),
+        ),
+      ).toThrow('Reference cycle between operations: a, b')
+    })
+  })
+
+  it('resolves refs to IDs and fields', () => {
+    const outputs = new Map([['epic', {id: 'i1', identifier: 'ENG-1'}]])
+
+    expect(resolveRefs({parentId: '$ref:epic', notes: ['$ref:epic.identifier', 'plain']}, outputs)).toEqual({
+      parentId: 'i1',
+      notes: ['ENG-1', 'plain'],
+    })
+    expect(() => resolveRefs('$ref:epic.url', outputs)).toThrow('$ref:epic has no url')
+  })
+
+  describe('executePlan', () => {
+    const createClient = (options: {failTitle?: string} = {}) => {
+      let created = 0
+      return {
+        createIssue: vi.fn(async (input: {title: string}) => {
+          if (input.title === options.failTitle) throw new Error('Title rejected')
+          created++
+          return {issue: Promise.resolve({id: uuid(created + 10), identifier: `ENG-${created}`, url: 'https://x'})}
+        }),
+        createComment: vi.fn(async () => ({comment: Promise.resolve({id: 'c1', url: 'https://x#c1'})})),
+      }
+    }
+
+    const PLAN = `
+- {ref: epic, type: issue.create, input: {title: Epic, teamId: ${TEAM_ID}}}
+- {ref: task, type: issue.create, input: {title: Task, teamId: ${TEAM_ID}, parentId: $ref:epic}}
+- {type: comment.create, input: {issueId: $ref:task, body: See $ref:epic}}
+`
+
+    it('passes created IDs to later operations', async () => {
+      const client = createClient()
+
+      const {results} = await executePlan(client as unknown as LinearClient, parsePlan(PLAN), {dryRun: false})
+
+      expect(client.createIssue).toHaveBeenLastCalledWith({title: 'Task', teamId: TEAM_ID, parentId: uuid(11)})
+      expect(client.createComment).toHaveBeenCalledWith({issueId: uuid(12), body: 'See $ref:epic'})
+      expect(results.map((result) => [result.ref, result.success, result.identifier])).toEqual([
+        ['epic', true, 'ENG-1'],
+        ['task', true, 'ENG-2'],
+        [undefined, true, undefined],
+      ])
+    })
+
+    it('skips operations that reference a failed one', async () => {
+      const client = createClient({failTitle: 'Epic'})
+
+      const {results} = await executePlan(client as unknown as LinearClient, parsePlan(PLAN), {dryRun: false})
+
+      expect(results.map((result) => result.error)).toEqual([
+        'Title rejected',
+        'Skipped because $ref:epic failed',
+        'Skipped because $ref:task failed',
+      ])
+      expect(client.createComment).not.toHaveBeenCalled()
+    })
+
+    it('prepares mutations with placeholders in dry runs', async () => {
+      const client = createClient()
+
+      const {prepared, errors} = await executePlan(client as unknown as LinearClient, parsePlan(PLAN), {dryRun: true})
+
+      expect(client.createIssue).not.toHaveBeenCalled()
+      expect(errors).toEqual([])
+      expect(prepared.map((operation) => [operation.mutation, operation.variables])).toEqual([
+        ['issueCreate', {input: {title: 'Epic', teamId: TEAM_ID}}],
+        ['issueCreate', {input: {title: 'Task', teamId: TEAM_ID, parentId: '$ref:epic'}}],
+        ['commentCreate', {input: {issueId: '$ref:task', body: 'See $ref:epic'}}],
+      ])
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import {describe, it, expect, vi} from 'vitest'
+import type {LinearClient} from '@linear/sdk'
+import {
+  crawlRelationGraph,
+  findCriticalPath,
+  findCycles,
+  toDot,
+  toMermaid,
+  type GraphNode,
+  type RelationGraph,
+} from '../relation-graph.js'
+
+const node = (n: number, estimate: number | null = null, type = 'unstarted'): GraphNode => ({
+  id: String(n),
+  identifier: `ENG-${n}`,
+  title: `Issue ${n}`,
+  estimate,
+  url: `https://linear.app/issue/ENG-${n}`,
+  state: {name: type, type},
+  seed: true,
+})
+
+const blocks = (from: number, to: number) => ({
+  id: `${from}-${to}`,
+  type: 'blocks',
+  from: `ENG-${from}`,
+  to: `ENG-${to}`,
+})
+
+describe('relation-graph', () => {
+  it('finds blocking cycles', () => {
+    const graph: RelationGraph = {
+      nodes: [node(1), node(2), node(3), node(4)],
+      edges: [blocks(1, 2), blocks(2, 3), blocks(3, 1), blocks(3, 4)],
+    }
+
+    expect(findCycles(graph)).toEqual([['ENG-1', 'ENG-2', 'ENG-3']])
+    expect(findCycles({...graph, edges: [blocks(1, 2)]})).toEqual([])
+  })
+
+  it('computes the critical path over open issues weighted by estimate', () => {
+    const graph: RelationGraph = {
+      // 1 -> 2 -> 4 (estimate 1+5+1) beats 1 -> 3 -> 4 (1+2+1); 5 is done and ignored
+      nodes: [node(1), node(2, 5), node(3, 2), node(4), node(5, 8, 'completed')],
+      edges: [blocks(1, 2), blocks(1, 3), blocks(2, 4), blocks(3, 4), blocks(5, 1)],
+    }
+
+    expect(findCriticalPath(graph)).toEqual({issues: ['ENG-1', 'ENG-2', 'ENG-4'], estimate: 7})
+  })
+
+  it('ignores edges inside cycles for the critical path', () => {
+    const graph: RelationGraph = {nodes: [node(1), node(2), node(3)], edges: [blocks(1, 2), blocks(2, 1), blocks(2, 3)]}
+
+    expect(findCriticalPath(graph)).toEqual({issues: ['ENG-2', 'ENG-3'], estimate: 2})
+  })
+
+  it('renders DOT and Mermaid', () => {
+    const graph: RelationGraph = {
+      nodes: [node(1), {...node(2), title: 'Say "hi"'}, node(3, null, 'canceled')],
+      edges: [blocks(1, 2), {id: 'r', type: 'related', from: 'ENG-2', to: 'ENG-3'}],
+    }
+    const criticalPath = findCriticalPath(graph)
+
+    const dot = toDot(graph, criticalPath)
+    expect(dot).toContain('"ENG-2" [label="ENG-2\nSay \\"hi\\"", color=red, penwidth=2];')
+    expect(dot).toContain('"ENG-3" [label="ENG-3\nIssue 3", color=gray, fontcolor=gray];')
+    expect(dot).toContain('"ENG-1" -> "ENG-2" [color=red, penwidth=2];')
+    expect(dot).toContain('"ENG-2" -> "ENG-3" [style=dashed, label="related", dir=none];')
+
+    expect(toMermaid(graph, criticalPath).split('\n')).toEqual([
+      'graph LR',
+      '  ENG_1["ENG-1: Issue 1"]',
+      '  ENG_2["ENG-2: Say #quot;hi#quot;"]',
+      '  ENG_3["ENG-3: Issue 3"]',
+      '  ENG_1 --> ENG_2',
+      '  ENG_2 -.- ENG_3',
+      '  classDef critical stroke:#e5484d,stroke-width:2px',
+      '  classDef closed fill:#eee,color:#999',
+      '  class ENG_1,ENG_2 critical',
+      '  class ENG_3 closed',
+    ])
+  })
+
+  it('crawls relations breadth-first up to the requested depth', async () => {
+    const raw = (n: number) => {
+      const {seed: _seed, ...issue} = node(n)
+      return issue
+    }
+    // 1 blocks 2, 2 blocks 3, 3 duplicates 4
+    const ISSUES: Record<string, unknown> = {
+      1: {
+        ...raw(1),
+        relations: {nodes: [{id: 'a', type: 'blocks', relatedIssue: raw(2)}]},
+        inverseRelations: {nodes: []},
+      },
+      2: {
+        ...raw(2),
+        relations: {nodes: [{id: 'b', type: 'blocks', relatedIssue: raw(3)}]},
+        inverseRelations: {nodes: [{id: 'a', type: 'blocks', issue: raw(1)}]},
+      },
+      3: {
+        ...raw(3),
+        relations: {nodes: [{id: 'c', type: 'duplicate', relatedIssue: raw(4)}]},
+        inverseRelations: {nodes: [{id: 'b', type: 'blocks', issue: raw(2)}]},
+      },
+    }
+    const request = vi.fn(async (_query: string, variables: Record<string, unknown>) => {
+      const filter = variables.filter as {id: {eq?: string; in?: string[]}}
+      const ids = filter.id.in ?? [filter.id.eq!]
+      return {issues: {nodes: ids.map((id) => ISSUES[id]), pageInfo: {hasNextPage: false, hasPreviousPage: false}}}
+    })
+    const client = {client: {request}} as unknown as LinearClient
+
+    const graph = await crawlRelationGraph(client, {id: {eq: '1'}}, {depth: 1, types: ['blocks', 'duplicate']})
+
+    expect(graph.nodes.map((n) => [n.identifier, n.seed])).toEqual([
+      ['ENG-1', true],
+      ['ENG-2', false],
+      ['ENG-3', false],
+    ])
+    expect(graph.edges.map((edge) => edge.id)).toEqual(['a', 'b'])
+    // Seed, then the issues one hop away
+    expect(request).toHaveBeenCalledTimes(2)
+
+    const blocksOnly = await crawlRelationGraph(client, {id: {eq: '1'}}, {depth: 2, types: ['blocks']})
+    expect(blocksOnly.nodes.map((n) => n.identifier)).toEqual(['ENG-1', 'ENG-2', 'ENG-3'])
+    expect(blocksOnly.edges.map((edge) => edge.id)).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,94 @@
+import {describe, it, expect} from 'vitest'
+import {CliError} from '../errors.js'
+import {editDistance, matchByName} from '../resolvers.js'
+
+const STATES = [
+  {id: 's1', name: 'Backlog'},
+  {id: 's2', name: 'Todo'},
+  {id: 's3', name: 'In Progress'},
+  {id: 's4', name: 'In Review'},
+  {id: 's5', name: 'Done'},
+]
+
+const stateNames = (state: {name: string}) => [state.name]
+
+const catchError = (fn: () => unknown): CliError => {
+  try {
+    fn()
+  } catch (err) {
+    return err as CliError
+  }
+  throw new Error('Expected an error')
+}
+
+describe('resolvers', () => {
+  describe('editDistance', () => {
+    it('counts insertions, deletions and substitutions', () => {
+      expect(editDistance('kitten', 'sitting')).toBe(3)
+      expect(editDistance('', 'abc')).toBe(3)
+      expect(editDistance('same', 'same')).toBe(0)
+    })
+  })
+
+  describe('matchByName', () => {
+    it('matches exact names case-insensitively', () => {
+      expect(matchByName('state', 'in progress', STATES, stateNames).id).toBe('s3')
+    })
+
+    it('ignores punctuation and whitespace', () => {
+      expect(matchByName('state', 'in-progress', STATES, stateNames).id).toBe('s3')
+    })
+
+    it('matches unique prefixes', () => {
+      expect(matchByName('state', 'back', STATES, stateNames).id).toBe('s1')
+    })
+
+    it('tolerates small typos', () => {
+      expect(matchByName('state', 'In Progres', STATES, stateNames).id).toBe('s3')
+      expect(matchByName('state', 'Donne', STATES, stateNames).id).toBe('s5')
+    })
+
+    it('matches any of the candidate names', () => {
+      const users = [
+        {id: 'u1', email: 'alice@corp.com', name: 'Alice Smith'},
+        {id: 'u2', email: 'bob@corp.com', name: 'Bob Jones'},
+      ]
+      expect(matchByName('user', 'bob@corp.com', users, (user) => [user.email, user.name]).id).toBe('u2')
+      expect(matchByName('user', 'Alice', users, (user) => [user.email, user.name]).id).toBe('u1')
+    })
+
+    it('reports ambiguous matches with candidates', () => {
+      const err = catchError(() => matchByName('state', 'In', STATES, stateNames))
+
+      expect(err).toBeInstanceOf(CliError)
+      expect(err.code).toBe('AMBIGUOUS_MATCH')
+      expect(err.details).toEqual({
+        entity: 'state',
+        value: 'In',
+        candidates: [
+          {id: 's3', names: ['In Progress']},
+          {id: 's4', names: ['In Review']},
+        ],
+      })
+    })
+
+    it('prefers exact matches over prefixes', () => {
+      const labels = [
+        {id: 'l1', name: 'bug'},
+        {id: 'l2', name: 'bugfix'},
+      ]
+      expect(matchByName('label', 'bug', labels, (label) => [label.name]).id).toBe('l1')
+    })
+
+    it('reports missing matches with available names', () => {
+      const err = catchError(() => matchByName('state', 'Shipped', STATES, stateNames))
+
+      expect(err.code).toBe('NOT_FOUND')
+      expect(err.details?.available).toEqual(['Backlog', 'Todo', 'In Progress', 'In Review', 'Done'])
+    })
+
+    it('rejects empty names', () => {
+      expect(catchError(() => matchByName('state', ' - ', STATES, stateNames)).code).toBe('INVALID_INPUT')
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import {describe, it, expect, vi} from 'vitest'
+import {CliError} from '../errors.js'
+import {
+  DEFAULT_RETRY_OPTIONS,
+  classifyError,
+  getBackoffDelay,
+  getRateLimitWaitMs,
+  parseRateLimitHeaders,
+  withRetry,
+} from '../retry.js'
+
+const NOW = 1_700_000_000_000
+
+const apiError = (fields: Record<string, unknown>, headers: Record<string, string> = {}) =>
+  Object.assign(new Error('request failed'), fields, {raw: {response: {headers: new Headers(headers)}}})
+
+const noWait = () => Promise.resolve()
+
+describe('retry', () => {
+  describe('parseRateLimitHeaders', () => {
+    it('reads request and complexity budgets', () => {
+      const info = parseRateLimitHeaders(
+        new Headers({
+          'x-ratelimit-requests-limit': '1500',
+          'x-ratelimit-requests-remaining': '1499',
+          'x-ratelimit-complexity-limit': '250000',
+          'x-ratelimit-complexity-remaining': '249000',
+          'x-ratelimit-complexity-reset': String(NOW + 60_000),
+          'x-complexity': '1000',
+        }),
+        NOW,
+      )
+
+      expect(info).toMatchObject({
+        requestsLimit: 1500,
+        requestsRemaining: 1499,
+        complexityLimit: 250_000,
+        complexityRemaining: 249_000,
+        complexityResetAt: NOW + 60_000,
+        complexity: 1000,
+      })
+      expect(info.retryAfterMs).toBeUndefined()
+    })
+
+    it('parses Retry-After in seconds and as a date', () => {
+      expect(parseRateLimitHeaders(new Headers({'retry-after': '7'}), NOW).retryAfterMs).toBe(7000)
+      const date = new Date(NOW + 5000).toUTCString()
+      expect(parseRateLimitHeaders(new Headers({'retry-after': date}), NOW).retryAfterMs).toBe(5000)
+    })
+  })
+
+  describe('getRateLimitWaitMs', () => {
+    it('prefers Retry-After', () => {
+      expect(getRateLimitWaitMs({retryAfterMs: 3000, requestsRemaining: 0, requestsResetAt: NOW + 9000}, NOW)).toBe(
+        3000,
+      )
+    })
+
+    it('waits for the reset of an exhausted budget', () => {
+      expect(getRateLimitWaitMs({complexityRemaining: 0, complexityResetAt: NOW + 12_000}, NOW)).toBe(12_000)
+      expect(getRateLimitWaitMs({requestsRemaining: 10, requestsResetAt: NOW + 12_000}, NOW)).toBeUndefined()
+    })
+  })
+
+  describe('getBackoffDelay', () => {
+    it('grows exponentially up to the cap', () => {
+      expect(getBackoffDelay(0, DEFAULT_RETRY_OPTIONS, () => 1)).toBe(500)
+      expect(getBackoffDelay(2, DEFAULT_RETRY_OPTIONS, () => 1)).toBe(2000)
+      expect(getBackoffDelay(10, DEFAULT_RETRY_OPTIONS, () => 1)).toBe(8000)
+      expect(getBackoffDelay(2, DEFAULT_RETRY_OPTIONS, () => 0.5)).toBe(1000)
+    })
+  })
+
+  describe('classifyError', () => {
+    it('detects rate limits', () => {
+      expect(classifyError(apiError({type: 'Ratelimited'}))).toBe('rate-limited')
+      expect(classifyError(apiError({status: 429}))).toBe('rate-limited')
+    })
+
+    it('detects transient failures', () => {
+      expect(classifyError(apiError({status: 503}))).toBe('transient')
+      expect(classifyError(apiError({type: 'NetworkError'}))).toBe('transient')
+      expect(classifyError(new TypeError('fetch failed'))).toBe('transient')
+      expect(classifyError(Object.assign(new Error('socket'), {code: 'ECONNRESET'}))).toBe('transient')
+    })
+
+    it('treats everything else as fatal', () => {
+      expect(classifyError(apiError({type: 'InvalidInput', status: 400}))).toBe('fatal')
+      expect(classifyError(new Error('Entity not found'))).toBe('fatal')
+    })
+  })
+
+  describe('withRetry', () => {
+    it('retries transient failures of reads', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(apiError({status: 502}))
+        .mockResolvedValueOnce('ok')
+      const onRetry = vi.fn()
+
+      await expect(withRetry(request, {idempotent: true, wait: noWait, onRetry})).resolves.toBe('ok')
+      expect(request).toHaveBeenCalledTimes(2)
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({attempt: 1, reason: 'transient'}))
+    })
+
+    it('does not retry transient failures of mutations', async () => {
+      const failure = apiError({status: 502})
+      const request = vi.fn().mockRejectedValue(failure)
+
+      await expect(withRetry(request, {idempotent: false, wait: noWait})).rejects.toBe(failure)
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries rate-limited mutations after the requested delay', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(apiError({type: 'Ratelimited', status: 429}, {'retry-after': '2'}))
+        .mockResolvedValueOnce('ok')
+      const wait = vi.fn((_ms: number) => noWait())
+
+      await expect(withRetry(request, {idempotent: false, wait})).resolves.toBe('ok')
+      expect(wait.mock.calls[0][0]).toBeGreaterThanOrEqual(2000)
+    })
+
+    it('gives up with RATE_LIMITED and retryAfter', async () => {
+      const request = vi.fn().mockRejectedValue(apiError({type: 'Ratelimited'}, {'retry-after': '5'}))
+
+      const err = (await withRetry(request, {idempotent: true, wait: noWait, retry: {retries: 2}}).catch(
+        (e: unknown) => e,
+      )) as CliError
+
+      expect(err).toBeInstanceOf(CliError)
+      expect(err.code).toBe('RATE_LIMITED')
+      expect(err.details).toEqual({retryAfter: 5})
+      expect(request).toHaveBeenCalledTimes(3)
+    })
+
+    it('gives up immediately when the wait is too long', async () => {
+      const request = vi.fn().mockRejectedValue(apiError({type: 'Ratelimited'}, {'retry-after': '3600'}))
+
+      const err = (await withRetry(request, {idempotent: true, wait: noWait}).catch((e: unknown) => e)) as CliError
+
+      expect(err.details).toEqual({retryAfter: 3600})
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not retry fatal errors', async () => {
+      const request = vi.fn().mockRejectedValue(apiError({type: 'InvalidInput', status: 400}))
+
+      await expect(withRetry(request, {idempotent: true, wait: noWait})).rejects.toThrow('request failed')
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import {describe, it, expect, vi, afterAll, afterEach} from 'vitest'
+import {mkdtempSync, rmSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type * as os from 'node:os'
+import type {LinearClient} from '@linear/sdk'
+
+const home = vi.hoisted(() => ({dir: ''}))
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof os>()
+  return {...actual, homedir: () => home.dir}
+})
+
+home.dir = mkdtempSync(join(tmpdir(), 'linear-transitions-test-'))
+
+const {applyCacheFlags} = await import('../cache.js')
+const {setDryRun} = await import('../dry-run.js')
+const {parseTransitionTarget, runTransitions} = await import('../transitions.js')
+
+const ENG_ISSUE = '00000000-0000-4000-8000-000000000001'
+const OPS_ISSUE = '00000000-0000-4000-8000-000000000002'
+
+const state = (id: string, name: string, type: string, position: number, team: string) => ({
+  id,
+  name,
+  type,
+  color: '#000',
+  position,
+  team: {id: team},
+})
+
+// ENG reviews before starting work is "In Progress"; OPS calls it "Doing"
+const STATES = [
+  state('eng-todo', 'Todo', 'unstarted', 1, 'eng'),
+  state('eng-review', 'In Review', 'started', 3, 'eng'),
+  state('eng-progress', 'In Progress', 'started', 2, 'eng'),
+  state('ops-doing', 'Doing', 'started', 1, 'ops'),
+]
+
+const ISSUES: Record<string, unknown> = {
+  [ENG_ISSUE]: {id: ENG_ISSUE, identifier: 'ENG-1', team: {id: 'eng'}, state: {id: 'eng-todo', name: 'Todo'}},
+  [OPS_ISSUE]: {id: OPS_ISSUE, identifier: 'OPS-1', team: {id: 'ops'}, state: {id: 'ops-doing', name: 'Doing'}},
+}
+
+const mockClient = () => {
+  const request = vi.fn(async (query: string, variables: Record<string, unknown>) =>
+    query.includes('TransitionIssue')
+      ? {issue: ISSUES[variables.id as string] ?? null}
+      : {workflowStates: {nodes: STATES, pageInfo: {hasNextPage: false, hasPreviousPage: false}}},
+  )
+  const updateIssue = vi.fn().mockResolvedValue({success: true})
+  return {client: {client: {request}, updateIssue} as unknown as LinearClient, updateIssue}
+}
+
+const output = (log: ReturnType<typeof vi.spyOn>) => JSON.parse(String(log.mock.calls.at(-1)?.[0]))
+
+describe('transitions', () => {
+  applyCacheFlags({'no-cache': true})
+
+  afterEach(() => {
+    setDryRun(false)
+    vi.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    rmSync(home.dir, {recursive: true, force: true})
+  })
+
+  it('parses workflow types and state names', () => {
+    expect(parseTransitionTarget('Started')).toEqual({type: 'started'})
+    expect(parseTransitionTarget('In Review')).toEqual({name: 'In Review'})
+  })
+
+  it('resolves the target state in each issue team and skips issues already there', async () => {
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const {client, updateIssue} = mockClient()
+
+    await runTransitions(
+      client,
+      [ENG_ISSUE, OPS_ISSUE],
+      {type: 'started'},
+      {
+        command: 'issues:start',
+        concurrency: 1,
+        stream: false,
+      },
+    )
+
+    expect(updateIssue).toHaveBeenCalledExactlyOnceWith(ENG_ISSUE, {stateId: 'eng-progress'})
+    const {data} = output(log)
+    expect(data.results).toEqual([
+      {identifier: 'ENG-1', id: ENG_ISSUE, success: true, from: 'Todo', to: 'In Progress'},
+      {identifier: 'OPS-1', id: OPS_ISSUE, success: true, from: 'Doing', to: 'Doing', unchanged: true},
+    ])
+    expect(data.undoId).toBeDefined()
+  })
+
+  it('reports per-issue failures and prints the plan on dry runs', async () => {
+    setDryRun(true)
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const {client, updateIssue} = mockClient()
+
+    await runTransitions(
+      client,
+      [ENG_ISSUE, OPS_ISSUE],
+      {name: 'In Review'},
+      {
+        command: 'issues:move',
+        concurrency: 1,
+        stream: false,
+      },
+    )
+
+    expect(updateIssue).not.toHaveBeenCalled()
+    const {data} = output(log)
+    expect(data.operations).toEqual([
+      {
+        mutation: 'issueUpdate',
+        variables: {id: ENG_ISSUE, input: {stateId: 'eng-review'}},
+        target: {entity: 'issue', id: ENG_ISSUE, identifier: 'ENG-1'},
+      },
+    ])
+    expect(data.errors).toEqual([{identifier: OPS_ISSUE, error: 'No state matches "In Review"'}])
+  })
+})
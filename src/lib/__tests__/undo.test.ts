@@ -0,0 +1,126 @@
+import {describe, it, expect, vi, beforeEach, afterAll} from 'vitest'
+import {mkdtempSync, rmSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type * as os from 'node:os'
+import type {LinearClient} from '@linear/sdk'
+
+const home = vi.hoisted(() => ({dir: ''}))
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof os>()
+  return {...actual, homedir: () => home.dir}
+})
+
+home.dir = mkdtempSync(join(tmpdir(), 'linear-undo-test-'))
+
+const {
+  captureIssueState,
+  listUndoOperations,
+  markChangeReverted,
+  markUndone,
+  planRevert,
+  selectUndoOperations,
+  startUndoOperation,
+} = await import('../undo.js')
+const {getConfigDir} = await import('../config.js')
+
+const CHANGE = {
+  issueId: 'i1',
+  identifier: 'ENG-1',
+  before: {priority: 3},
+  after: {priority: 1},
+}
+
+describe('undo', () => {
+  beforeEach(() => {
+    rmSync(join(getConfigDir(), 'undo.ndjson'), {force: true})
+  })
+
+  afterAll(() => {
+    rmSync(home.dir, {recursive: true, force: true})
+  })
+
+  describe('captureIssueState', () => {
+    it('reads only the fields being updated', async () => {
+      const request = vi.fn().mockResolvedValue({
+        issue: {id: 'i1', priority: 3, state: {id: 's1'}, assignee: null},
+      })
+      const client = {client: {request}} as unknown as LinearClient
+
+      const result = await captureIssueState(client, 'i1', {priority: 1, stateId: 's2', assigneeId: 'u1'})
+
+      expect(request.mock.calls[0][0]).toContain('priority state { id } assignee { id }')
+      expect(result).toEqual({before: {priority: 3, stateId: 's1', assigneeId: null}, unrestorable: []})
+    })
+
+    it('reports fields it cannot restore without querying', async () => {
+      const request = vi.fn()
+      const client = {client: {request}} as unknown as LinearClient
+
+      expect(await captureIssueState(client, 'i1', {subscriberIds: ['u1']})).toEqual({
+        before: {},
+        unrestorable: ['subscriberIds'],
+      })
+      expect(request).not.toHaveBeenCalled()
+    })
+  })
+
+  it('groups changes into operations, newest first', () => {
+    const first = startUndoOperation('issues:update')
+    first.record(CHANGE)
+    const second = startUndoOperation('issues:bulk-update')
+    second.record(CHANGE)
+    second.record({...CHANGE, issueId: 'i2', identifier: 'ENG-2'})
+
+    expect(listUndoOperations()).toMatchObject([
+      {id: second.id, command: 'issues:bulk-update', changes: [{identifier: 'ENG-1'}, {identifier: 'ENG-2'}]},
+      {id: first.id, command: 'issues:update', changes: [CHANGE]},
+    ])
+  })
+
+  it('keeps the entities an operation created', () => {
+    const operation = startUndoOperation('issues:merge')
+    const created = {...CHANGE, before: {}, after: {}, created: {entity: 'comment' as const, id: 'c1'}}
+    operation.record(created)
+
+    expect(listUndoOperations()[0].changes).toEqual([created])
+  })
+
+  it('plans reverts per issue, newest first, leaving out reverted changes', () => {
+    const operation = startUndoOperation('apply')
+    operation.record({...CHANGE, before: {priority: 3}, after: {priority: 2}})
+    operation.record({...CHANGE, issueId: 'i2', identifier: 'ENG-2'})
+    operation.record({...CHANGE, before: {priority: 2}, after: {priority: 1}})
+    operation.record({...CHANGE, issueId: 'i3', identifier: 'ENG-3'})
+    markChangeReverted(operation.id, 3)
+
+    const [listed] = listUndoOperations()
+    expect(listed.changes[3].revertedAt).toBeDefined()
+    expect(planRevert(listed).map((group) => group.map(({index}) => index))).toEqual([[2, 0], [1]])
+  })
+
+  it('does not log operations without changes', () => {
+    startUndoOperation('issues:update')
+
+    expect(listUndoOperations()).toEqual([])
+  })
+
+  it('selects the newest operations not undone yet', () => {
+    const ids = ['issues:update', 'issues:add-labels', 'issues:remove-labels'].map((command) => {
+      const operation = startUndoOperation(command)
+      operation.record(CHANGE)
+      return operation.id
+    })
+    markUndone(ids[2])
+
+    expect(selectUndoOperations({}).map((operation) => operation.id)).toEqual([ids[1]])
+    expect(selectUndoOperations({last: 5}).map((operation) => operation.id)).toEqual([ids[1], ids[0]])
+    expect(() => selectUndoOperations({id: ids[2]})).toThrow('already undone')
+  })
+
+  it('reports unknown operations and an empty log', () => {
+    expect(() => selectUndoOperations({})).toThrow('Nothing to undo')
+    expect(() => selectUndoOperations({id: '20250101T000000-000000'})).toThrow('not found')
+  })
+})
@@ -0,0 +1,163 @@
+import {describe, it, expect, vi, beforeAll, afterAll, afterEach} from 'vitest'
+import {mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import type {LinearClient} from '@linear/sdk'
+import {setDryRun} from '../dry-run.js'
+import {findLocalImages, replaceLocalImages, uploadMarkdownImages} from '../upload.js'
+
+describe('upload', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'linear-upload-test-'))
+    mkdirSync(join(dir, 'img'))
+    writeFileSync(join(dir, 'img', 'shot.png'), 'png')
+    writeFileSync(join(dir, 'img', 'my shot.png'), 'png2')
+  })
+
+  afterAll(() => {
+    rmSync(dir, {recursive: true, force: true})
+  })
+
+  afterEach(() => {
+    setDryRun(false)
+    vi.unstubAllGlobals()
+  })
+
+  describe('findLocalImages', () => {
+    it('finds local image paths once, skipping URLs and code', () => {
+      const markdown = [
+        '![Shot](./img/shot.png) and again ![](./img/shot.png "Title")',
+        '![remote](https://example.com/a.png) ![data](data:image/png;base64,AAA)',
+        '![spaces](<img/my shot.png>)',
+        '`![inline](./code.png)`',
+        '```',
+        '![fenced](./fenced.png)',
+        '```',
+      ].join('\n')
+
+      expect(findLocalImages(markdown)).toEqual(['./img/shot.png', 'img/my shot.png'])
+    })
+  })
+
+  it('replaces local paths with uploaded URLs, keeping titles', () => {
+    expect(
+      replaceLocalImages(
+        '![a](./a.png "Title") ![b](<b c.png>) ![c](./c.png)',
+        new Map([
+          ['./a.png', 'https://uploads/a'],
+          ['b c.png', 'https://uploads/b'],
+        ]),
+      ),
+    ).toBe('![a](https://uploads/a "Title") ![b](https://uploads/b) ![c](./c.png)')
+  })
+
+  describe('uploadMarkdownImages', () => {
+    const markdown = '![](./img/shot.png)\n\n![](./img/my%20shot.png)'
+
+    it('reports the uploads without sending them in dry-run mode', async () => {
+      setDryRun(true)
+      const client = {fileUpload: vi.fn()}
+
+      const result = await uploadMarkdownImages(client as unknown as LinearClient, markdown, {
+        enabled: true,
+        file: join(dir, 'notes.md'),
+      })
+
+      expect(result).toEqual({
+        markdown,
+        operations: [
+          {mutation: 'fileUpload', variables: {contentType: 'image/png', filename: 'shot.png', size: 3}},
+          {mutation: 'fileUpload', variables: {contentType: 'image/png', filename: 'my shot.png', size: 4}},
+        ],
+      })
+      expect(client.fileUpload).not.toHaveBeenCalled()
+    })
+
+    it('uploads each image and rewrites the links', async () => {
+      const fetch = vi.fn(async () => ({ok: true}))
+      vi.stubGlobal('fetch', fetch)
+      const client = {
+        fileUpload: vi.fn(async (_type: string, name: string) => ({
+          success: true,
+          uploadFile: {uploadUrl: `https://put/${name}`, assetUrl: `https://assets/${name}`, headers: []},
+        })),
+      }
+
+      const result = await uploadMarkdownImages(client as unknown as LinearClient, markdown, {
+        enabled: true,
+        file: join(dir, 'notes.md'),
+      })
+
+      expect(result.markdown).toBe('![](https://assets/shot.png)\n\n![](https://assets/my shot.png)')
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('leaves markdown alone when disabled', async () => {
+      const client = {} as LinearClient
+
+      expect(await uploadMarkdownImages(client, '![](./nope.png)', {enabled: false})).toEqual({
+        markdown: '![](./nope.png)',
+        operations: [],
+      })
+    })
+
+    it('keeps links to missing images as written and warns on stderr', async () => {
+      const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true)
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => ({ok: true})),
+      )
+      const client = {
+        fileUpload: vi.fn(async (_type: string, name: string) => ({
+          success: true,
+          uploadFile: {uploadUrl: `https://put/${name}`, assetUrl: `https://assets/${name}`, headers: []},
+        })),
+      }
+
+      const result = await uploadMarkdownImages(
+        client as unknown as LinearClient,
+        '![arch](docs/arch.png)\n\n![](./img/shot.png)',
+        {enabled: true, file: join(dir, 'notes.md')},
+      )
+
+      expect(result.markdown).toBe('![arch](docs/arch.png)\n\n![](https://assets/shot.png)')
+      expect(client.fileUpload).toHaveBeenCalledTimes(1)
+      expect(stderr).toHaveBeenCalledWith('Warning: image not found, leaving the link as written: docs/arch.png\n')
+      stderr.mockRestore()
+    })
+
+    it('only uploads image files given as relative paths inside the markdown directory', async () => {
+      const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const docs = join(dir, 'docs')
+      mkdirSync(docs)
+      writeFileSync(join(docs, 'notes.txt'), 'text')
+      symlinkSync(join(dir, 'img', 'shot.png'), join(docs, 'linked.png'))
+      const client = {fileUpload: vi.fn()}
+      const markdown = [
+        `![](${join(dir, 'img', 'shot.png')})`,
+        '![](../img/shot.png)',
+        '![](./notes.txt)',
+        '![](../../.ssh/id_rsa)',
+        '![](./linked.png)',
+      ].join('\n')
+
+      const result = await uploadMarkdownImages(client as unknown as LinearClient, markdown, {
+        enabled: true,
+        file: join(docs, 'notes.md'),
+      })
+
+      expect(result.markdown).toBe(markdown)
+      expect(client.fileUpload).not.toHaveBeenCalled()
+      expect(stderr.mock.calls.map(([text]) => String(text).split(',')[0])).toEqual([
+        'Warning: only relative image paths are uploaded',
+        `Warning: image outside ${docs}`,
+        'Warning: not an image file',
+        'Warning: not an image file',
+        `Warning: image outside ${docs}`,
+      ])
+      stderr.mockRestore()
+    })
+  })
+})
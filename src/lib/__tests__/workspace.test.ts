@@ -0,0 +1,258 @@
+import {describe, it, expect} from 'vitest'
+import {
+  diffWorkspace,
+  parseWorkspaceSpec,
+  toDryRunOperation,
+  toWorkspaceSpec,
+  type WorkspaceState,
+} from '../workspace.js'
+
+const STATE: WorkspaceState = {
+  teams: [{id: 't1', key: 'ENG', name: 'Engineering'}],
+  states: [
+    {id: 's2', name: 'Done', type: 'completed', color: '#5E6AD2', description: null, position: 2, teamId: 't1'},
+    {id: 's1', name: 'Todo', type: 'unstarted', color: '#E2E2E2', description: 'Ready', position: 1, teamId: 't1'},
+  ],
+  labels: [
+    {id: 'l1', name: 'Bug', color: '#EB5757', description: null, isGroup: false, parentId: null, teamId: 't1'},
+    {id: 'l2', name: 'Area', color: '#BBBBBB', description: null, isGroup: true, parentId: null, teamId: 't1'},
+    {id: 'l3', name: 'Frontend', color: '#4EA7FC', description: 'UI', isGroup: false, parentId: 'l2', teamId: 't1'},
+    {id: 'l4', name: 'Legacy', color: '#000000', description: null, isGroup: false, parentId: null, teamId: 't1'},
+    {id: 'l5', name: 'Customer', color: '#F2C94C', description: null, isGroup: false, parentId: null, teamId: null},
+  ],
+  templates: [
+    {
+      id: 'tp1',
+      name: 'Bug report',
+      type: 'issue',
+      description: null,
+      templateData: {title: 'Bug', priority: 2},
+      teamId: 't1',
+    },
+  ],
+  projects: [{id: 'p1', name: 'Checkout', teamId: 't1'}],
+  milestones: [{id: 'm1', name: 'Beta', description: null, targetDate: '2025-03-01', projectId: 'p1'}],
+}
+
+describe('workspace', () => {
+  describe('parseWorkspaceSpec', () => {
+    it('parses YAML specs', () => {
+      const spec = parseWorkspaceSpec(`
+teams:
+  - key: ENG
+    labels:
+      - name: Area
+        labels:
+          - {name: Backend, color: '#00FF00'}
+    projects:
+      - name: Checkout
+        milestones:
+          - {name: GA, targetDate: 2025-06-01}
+`)
+
+      expect(spec).toEqual({
+        version: 1,
+        teams: [
+          {
+            key: 'ENG',
+            labels: [{name: 'Area', labels: [{name: 'Backend', color: '#00FF00'}]}],
+            projects: [{name: 'Checkout', milestones: [{name: 'GA', targetDate: '2025-06-01'}]}],
+          },
+        ],
+      })
+    })
+
+    it('reports the path of invalid entries', () => {
+      expect(() => parseWorkspaceSpec('{"teams":[{"key":"ENG","labels":[{"color":"#fff"}]}]}')).toThrow(
+        'Invalid workspace spec at teams[0].labels[0].name',
+      )
+      expect(() => parseWorkspaceSpec('{"templates":[{"name":"T","type":"issue"}]}')).toThrow(
+        'templates[0].templateData',
+      )
+      expect(() => parseWorkspaceSpec('{"version":2}')).toThrow('only version 1 is supported')
+    })
+  })
+
+  it('exports the live state as a spec', () => {
+    expect(toWorkspaceSpec(STATE)).toEqual({
+      version: 1,
+      labels: [{name: 'Customer', color: '#F2C94C'}],
+      templates: [],
+      teams: [
+        {
+          key: 'ENG',
+          states: [
+            {name: 'Todo', type: 'unstarted', color: '#E2E2E2', description: 'Ready', position: 1},
+            {name: 'Done', type: 'completed', color: '#5E6AD2', position: 2},
+          ],
+          labels: [
+            {name: 'Area', color: '#BBBBBB', labels: [{name: 'Frontend', color: '#4EA7FC', description: 'UI'}]},
+            {name: 'Bug', color: '#EB5757'},
+            {name: 'Legacy', color: '#000000'},
+          ],
+          templates: [{name: 'Bug report', type: 'issue', templateData: {title: 'Bug', priority: 2}}],
+          projects: [{name: 'Checkout', milestones: [{name: 'Beta', targetDate: '2025-03-01'}]}],
+        },
+      ],
+    })
+  })
+
+  it('reports no changes when the spec matches', () => {
+    expect(diffWorkspace(toWorkspaceSpec(STATE), STATE, {prune: true})).toEqual([])
+  })
+
+  describe('diffWorkspace', () => {
+    it('creates, updates and moves labels, creating groups first', () => {
+      const spec = parseWorkspaceSpec(`
+teams:
+  - key: ENG
+    labels:
+      - {name: bug, color: '#eb5757', description: Something is broken}
+      - name: Platform
+        labels:
+          - {name: Frontend}
+          - {name: Infra, color: '#111111'}
+`)
+
+      expect(diffWorkspace(spec, STATE, {prune: false})).toEqual([
+        {
+          action: 'update',
+          kind: 'label',
+          scope: 'ENG',
+          name: 'bug',
+          id: 'l1',
+          fields: {description: {from: null, to: 'Something is broken'}},
+          input: {description: 'Something is broken'},
+        },
+        {
+          action: 'create',
+          kind: 'label',
+          scope: 'ENG',
+          name: 'Platform',
+          input: {name: 'Platform', teamId: 't1', isGroup: true},
+        },
+        {
+          action: 'update',
+          kind: 'label',
+          scope: 'ENG',
+          name: 'Frontend',
+          id: 'l3',
+          fields: {group: {from: 'Area', to: 'Platform'}},
+          input: {},
+          group: 'Platform',
+        },
+        {
+          action: 'create',
+          kind: 'label',
+          scope: 'ENG',
+          name: 'Infra',
+          input: {name: 'Infra', color: '#111111', teamId: 't1'},
+          group: 'Platform',
+        },
+      ])
+    })
+
+    it('deletes only with prune, labels before their groups', () => {
+      const spec = parseWorkspaceSpec('{"teams":[{"key":"ENG","labels":[{"name":"Bug"}]}]}')
+
+      expect(diffWorkspace(spec, STATE, {prune: false})).toEqual([])
+      expect(
+        diffWorkspace(spec, STATE, {prune: true}).map((change) => [change.action, change.name, change.id]),
+      ).toEqual([
+        ['delete', 'Frontend', 'l3'],
+        ['delete', 'Area', 'l2'],
+        ['delete', 'Legacy', 'l4'],
+      ])
+    })
+
+    it('creates, updates and archives workflow states', () => {
+      const spec = parseWorkspaceSpec(`
+teams:
+  - key: ENG
+    states:
+      - {name: todo, type: unstarted, position: 3}
+      - {name: In Review, type: started, color: '#F2C94C', position: 2}
+`)
+
+      const changes = diffWorkspace(spec, STATE, {prune: true})
+      expect(changes.map((change) => [change.action, change.name, change.input])).toEqual([
+        ['update', 'todo', {position: 3}],
+        ['create', 'In Review', {name: 'In Review', type: 'started', color: '#F2C94C', position: 2, teamId: 't1'}],
+        ['delete', 'Done', undefined],
+      ])
+      expect(toDryRunOperation(changes[2])).toEqual({
+        mutation: 'workflowStateArchive',
+        variables: {id: 's2'},
+        target: {entity: 'state', id: 's2', name: 'ENG/Done'},
+      })
+    })
+
+    it('rejects state type changes and new states without a color', () => {
+      const diff = (states: string) =>
+        diffWorkspace(parseWorkspaceSpec(`{"teams":[{"key":"ENG","states":${states}}]}`), STATE, {prune: false})
+
+      expect(() => diff('[{"name":"Todo","type":"started"}]')).toThrow('the type of a state cannot change')
+      expect(() => diff('[{"name":"Doing","type":"started"}]')).toThrow('needs a color to be created')
+      expect(() => diff('[{"name":"Doing","type":"doing"}]')).toThrow('teams[0].states[0].type')
+    })
+
+    it('compares template data regardless of key order', () => {
+      const spec = parseWorkspaceSpec(`
+teams:
+  - key: ENG
+    templates:
+      - {name: Bug report, type: issue, templateData: {priority: 2, title: Bug}}
+      - {name: Spike, type: issue, templateData: {title: Spike}}
+`)
+
+      expect(diffWorkspace(spec, STATE, {prune: false})).toEqual([
+        {
+          action: 'create',
+          kind: 'template',
+          scope: 'ENG',
+          name: 'Spike',
+          input: {name: 'Spike', type: 'issue', templateData: {title: 'Spike'}, teamId: 't1'},
+        },
+      ])
+    })
+
+    it('diffs milestones of existing projects', () => {
+      const spec = parseWorkspaceSpec(`
+teams:
+  - key: ENG
+    projects:
+      - name: checkout
+        milestones:
+          - {name: Beta, targetDate: 2025-04-01}
+          - {name: GA}
+`)
+
+      const changes = diffWorkspace(spec, STATE, {prune: false})
+      expect(changes.map((change) => [change.action, change.scope, change.name, change.input])).toEqual([
+        ['update', 'ENG/Checkout', 'Beta', {targetDate: '2025-04-01'}],
+        ['create', 'ENG/Checkout', 'GA', {name: 'GA', projectId: 'p1'}],
+      ])
+      expect(toDryRunOperation(changes[0])).toEqual({
+        mutation: 'projectMilestoneUpdate',
+        variables: {id: 'm1', input: {targetDate: '2025-04-01'}},
+        target: {entity: 'milestone', id: 'm1', name: 'ENG/Checkout/Beta'},
+      })
+    })
+
+    it('rejects unknown teams, unknown projects and duplicates', () => {
+      expect(() => diffWorkspace(parseWorkspaceSpec('{"teams":[{"key":"OPS"}]}'), STATE, {prune: false})).toThrow(
+        'Team with key "OPS" not found',
+      )
+      expect(() =>
+        diffWorkspace(
+          parseWorkspaceSpec('{"teams":[{"key":"ENG","projects":[{"name":"Nope","milestones":[]}]}]}'),
+          STATE,
+          {prune: false},
+        ),
+      ).toThrow('Project "Nope" not found in team ENG')
+      expect(() =>
+        diffWorkspace(parseWorkspaceSpec('{"labels":[{"name":"A"},{"name":"a"}]}'), STATE, {prune: false}),
+      ).toThrow('Duplicate label "a" in workspace')
+    })
+  })
+})
@@ -0,0 +1,259 @@
+import {readdirSync, writeFileSync} from 'node:fs'
+import {extname, join} from 'node:path'
+import {Flags} from '@oclif/core'
+import type {Attachment, LinearClient, LinearDocument} from '@linear/sdk'
+import {CliError, ErrorCodes} from './errors.js'
+import {getExtension} from './upload.js'
+
+export interface AttachmentData {
+  id: string
+  title: string
+  subtitle: string | null
+  url: string
+  sourceType: string | null
+  metadata: Record<string, unknown>
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const toAttachmentData = (attachment: Attachment): AttachmentData => ({
+  id: attachment.id,
+  title: attachment.title,
+  subtitle: attachment.subtitle ?? null,
+  url: attachment.url,
+  sourceType: attachment.sourceType ?? null,
+  metadata: attachment.metadata as Record<string, unknown>,
+  createdAt: attachment.createdAt,
+  updatedAt: attachment.updatedAt,
+})
+
+/**
+ * Flags shared by attachments add and attachments upload.
+ */
+export const attachmentFlags = {
+  subtitle: Flags.string({
+    description: 'Attachment subtitle',
+  }),
+  metadata: Flags.string({
+    description: 'Metadata as a JSON object with string or number values',
+  }),
+  'icon-url': Flags.string({
+    description: 'Icon URL (jpg or png, 20x20px)',
+  }),
+}
+
+/**
+ * Parse --metadata. Linear accepts only string and number values.
+ * @throws {CliError} INVALID_INPUT when the JSON is malformed or not a flat object
+ */
+export const parseAttachmentMetadata = (json: string): Record<string, string | number> => {
+  let metadata: unknown
+  try {
+    metadata = JSON.parse(json)
+  } catch {
+    throw new CliError(ErrorCodes.INVALID_INPUT, 'Invalid JSON in --metadata flag')
+  }
+
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, '--metadata must be a JSON object')
+  }
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `--metadata value for "${key}" must be a string or number`)
+    }
+  }
+
+  return metadata as Record<string, string | number>
+}
+
+/**
+ * Create an attachment (Linear updates the existing one when an attachment with the same URL exists on the issue).
+ */
+export const createAttachment = async (
+  client: LinearClient,
+  input: LinearDocument.AttachmentCreateInput,
+): Promise<AttachmentData> => {
+  const payload = await client.createAttachment(input)
+  const attachment = await payload.attachment
+
+  if (!payload.success || !attachment) {
+    throw new CliError(ErrorCodes.API_ERROR, 'Failed to create attachment')
+  }
+
+  return toAttachmentData(attachment)
+}
+
+/**
+ * Where an asset was found on an issue.
+ */
+export type AssetSource =
+  | {type: 'attachment'; id: string; title: string}
+  | {type: 'description'}
+  | {type: 'comment'; id: string}
+
+export interface IssueAsset {
+  url: string
+  /** File name suggested by attachment metadata or link text */
+  name?: string
+  sources: AssetSource[]
+}
+
+export interface DownloadedAsset {
+  file: string
+  url: string
+  contentType: string | null
+  size: number
+  sources: AssetSource[]
+}
+
+/** Uploaded files are served from Linear's storage, which needs the API key */
+const AUTHENTICATED_ASSET_HOSTS = new Set(['uploads.linear.app'])
+const PUBLIC_ASSET_HOST = /^linear-uploads\.s3[\w.-]*\.amazonaws\.com$/
+
+const getHostname = (url: string): string | undefined => {
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'https:' ? parsed.hostname : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Check whether a URL points to a file uploaded to Linear.
+ */
+export const isLinearAsset = (url: string): boolean => {
+  const hostname = getHostname(url)
+  return hostname !== undefined && (AUTHENTICATED_ASSET_HOSTS.has(hostname) || PUBLIC_ASSET_HOST.test(hostname))
+}
+
+/**
+ * Check whether downloading an asset needs the Authorization header.
+ * The header is never sent to other hosts.
+ */
+export const needsAuthorization = (url: string): boolean => AUTHENTICATED_ASSET_HOSTS.has(getHostname(url) ?? '')
+
+const URL_PATTERN = /https:\/\/[^\s<>()"'`\]]+/g
+const LINK_PATTERN = /\[([^\]\n]*)\]\(\s*<?(https:\/\/[^\s<>()]+)/g
+const FILE_NAME_PATTERN = /\.[a-z\d]{1,8}$/i
+
+/**
+ * Find the Linear-hosted files of an issue: uploaded attachments and assets linked from
+ * the description and comments. Each URL is listed once, with every place it appears.
+ */
+export const collectIssueAssets = (issue: {
+  description?: string | null
+  comments: Array<{id: string; body: string}>
+  attachments: AttachmentData[]
+}): IssueAsset[] => {
+  const assets = new Map<string, IssueAsset>()
+
+  const add = (url: string, source: AssetSource, name?: string): void => {
+    if (!isLinearAsset(url)) return
+    const asset = assets.get(url) ?? {url, sources: []}
+    if (!asset.sources.some((existing) => JSON.stringify(existing) === JSON.stringify(source))) {
+      asset.sources.push(source)
+    }
+    if (name && FILE_NAME_PATTERN.test(name)) asset.name ??= name
+    assets.set(url, asset)
+  }
+
+  const addMarkdown = (markdown: string, source: AssetSource): void => {
+    for (const [, text, url] of markdown.matchAll(LINK_PATTERN)) add(url, source, text.trim())
+    for (const [url] of markdown.matchAll(URL_PATTERN)) add(url, source)
+  }
+
+  for (const attachment of issue.attachments) {
+    const {fileName} = attachment.metadata
+    add(
+      attachment.url,
+      {type: 'attachment', id: attachment.id, title: attachment.title},
+      typeof fileName === 'string' ? fileName : attachment.title,
+    )
+  }
+  if (issue.description) addMarkdown(issue.description, {type: 'description'})
+  for (const comment of issue.comments) addMarkdown(comment.body, {type: 'comment', id: comment.id})
+
+  return [...assets.values()]
+}
+
+const safeDecode = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+/**
+ * Get the names already taken in a download directory, lower-cased as toAssetFileName expects.
+ */
+export const getTakenFileNames = (dir: string): Set<string> =>
+  new Set(readdirSync(dir).map((name) => name.toLowerCase()))
+
+/**
+ * Claim a file name that is not used yet, adding -2, -3... before the extension as needed.
+ *
+ * @param used - Lower-cased names already taken; the chosen name is added
+ */
+export const claimFileName = (name: string, used: Set<string>): string => {
+  const extension = extname(name)
+  const stem = name.slice(0, name.length - extension.length)
+  let candidate = name
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}-${n}${extension}`
+  }
+
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+/**
+ * Pick a file name for a downloaded asset that is safe on every platform and not yet used.
+ * Assets without a known name are named after the last URL segment, with an extension
+ * from the content type.
+ *
+ * @param used - Lower-cased names already taken in the target directory; the chosen name is added
+ */
+export const toAssetFileName = (asset: IssueAsset, contentType: string | null, used: Set<string>): string => {
+  const segment = new URL(asset.url).pathname.split('/').filter(Boolean).pop() ?? ''
+  let name = asset.name ?? safeDecode(segment)
+  name = name.replaceAll(/[/\\:*?"<>|\u0000-\u001F]/g, '_').replace(/^\.+/, '') || 'file'
+  if (!extname(name) && contentType) name += getExtension(contentType) ?? ''
+
+  return claimFileName(name, used)
+}
+
+/**
+ * Download an asset into a directory, never overwriting an existing file.
+ *
+ * @param authorization - Authorization header for Linear's storage, sent only where needed
+ * @param used - File names taken so far, including those already in the directory (see getTakenFileNames)
+ */
+export const downloadAsset = async (
+  asset: IssueAsset,
+  options: {dir: string; authorization?: string; used: Set<string>},
+): Promise<DownloadedAsset> => {
+  const headers: Record<string, string> = {}
+  if (options.authorization && needsAuthorization(asset.url)) headers.Authorization = options.authorization
+
+  const response = await fetch(asset.url, {headers})
+  if (!response.ok) {
+    throw new CliError(ErrorCodes.API_ERROR, `Download failed: ${response.status} ${response.statusText}`)
+  }
+
+  const content = Buffer.from(await response.arrayBuffer())
+  const contentType = response.headers.get('content-type')
+
+  // A file created since the directory was listed keeps its name; the next free one is used
+  for (;;) {
+    const file = toAssetFileName(asset, contentType, options.used)
+    try {
+      writeFileSync(join(options.dir, file), content, {flag: 'wx'})
+      return {file, url: asset.url, contentType, size: content.length, sources: asset.sources}
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import {Command, Flags, type Interfaces} from '@oclif/core'
+import {setVerbose} from './client.js'
+import {setProfile} from './config.js'
+import {setDryRun} from './dry-run.js'
+
+/**
+ * Base class for all commands.
+ * Declares the global flags and applies them whenever a command parses its input.
+ */
+export abstract class BaseCommand extends Command {
+  static override baseFlags = {
+    profile: Flags.string({
+      description: 'Auth profile to use (or set LINEAR_PROFILE)',
+      helpGroup: 'GLOBAL',
+    }),
+    verbose: Flags.boolean({
+      description: 'Log retries and remaining rate-limit budget to stderr',
+      helpGroup: 'GLOBAL',
+    }),
+    'dry-run': Flags.boolean({
+      description: 'Resolve and validate input, then print the mutations instead of sending them',
+      helpGroup: 'GLOBAL',
+    }),
+  }
+
+  protected override async parse<
+    F extends Record<string, unknown>,
+    B extends Record<string, unknown>,
+    A extends Record<string, unknown>,
+  >(options?: Interfaces.Input<F, B, A>, argv?: string[]): Promise<Interfaces.ParserOutput<F, B, A>> {
+    const result = await super.parse(options, argv)
+    const flags = result.flags as {profile?: string; verbose?: boolean; 'dry-run'?: boolean}
+    setProfile(flags.profile)
+    setVerbose(Boolean(flags.verbose))
+    setDryRun(Boolean(flags['dry-run']))
+    return result
+  }
+}
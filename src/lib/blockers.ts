@@ -0,0 +1,202 @@
+import {Flags} from '@oclif/core'
+import type {LinearClient} from '@linear/sdk'
+import {CliError, ErrorCodes} from './errors.js'
+import {isUUID} from './issue-utils.js'
+import {paginate, type PageConnection, type PageRequest} from './pagination.js'
+import {isClosed} from './relation-graph.js'
+import {resolveCycleId, resolveTeamId, resolveUserId} from './resolvers.js'
+
+/**
+ * Blocked-work analysis for `issues ready` and `issues blocked`. An issue is
+ * blocked by the issues with a "blocks" relation pointing at it (its inverse
+ * relations) and by those its own "blocked" relations point at, normalized the
+ * same way as in relation-graph.ts; completed and canceled blockers no longer block.
+ */
+
+export interface BlockingIssue {
+  id: string
+  identifier: string
+  title: string
+  priority: number
+  url: string
+  state: {name: string; type: string} | null
+  assignee: {id: string; name: string} | null
+}
+
+export interface IssueWithBlockers extends BlockingIssue {
+  /** Every issue blocking this one, open or closed */
+  blockers: BlockingIssue[]
+}
+
+export interface BlockerChain extends BlockingIssue {
+  /** Open blockers, each with its own open blockers */
+  blockers: BlockerChain[]
+}
+
+const BLOCKING_ISSUE_FIELDS = 'id identifier title priority url state { name type } assignee { id name }'
+const BLOCKERS_SELECTION = `${BLOCKING_ISSUE_FIELDS}
+  inverseRelations(first: 50) { nodes { type issue { ${BLOCKING_ISSUE_FIELDS} } } }
+  relations(first: 50) { nodes { type relatedIssue { ${BLOCKING_ISSUE_FIELDS} } } }`
+
+/** Issues per page and IDs per blocker query; nested relations make each issue expensive */
+const BLOCKERS_PAGE_SIZE = 50
+
+interface RawIssueWithRelations extends BlockingIssue {
+  inverseRelations: {nodes: Array<{type: string; issue: BlockingIssue | null}>}
+  relations: {nodes: Array<{type: string; relatedIssue: BlockingIssue | null}>}
+}
+
+/**
+ * Flags narrowing the issues considered by `issues ready` and `issues blocked`.
+ */
+export const blockerFilterFlags = {
+  team: Flags.string({
+    char: 't',
+    description: 'Only issues of this team (key, name or ID)',
+  }),
+  assignee: Flags.string({
+    char: 'a',
+    description: 'Only issues assigned to this user (name, email, ID or "me")',
+  }),
+  cycle: Flags.string({
+    description: 'Only issues in this cycle ("current", "next", "previous", number or name; needs --team)',
+  }),
+}
+
+/**
+ * Build an IssueFilter from the blocker filter flags.
+ * @throws {CliError} MISSING_REQUIRED_FIELD when a cycle name is given without --team
+ */
+export const buildBlockerFilter = async (
+  client: LinearClient,
+  flags: {team?: string; assignee?: string; cycle?: string},
+): Promise<Record<string, unknown>> => {
+  const filter: Record<string, unknown> = {}
+  const teamId = flags.team ? await resolveTeamId(client, flags.team) : undefined
+  if (teamId) filter.team = {id: {eq: teamId}}
+  if (flags.assignee) filter.assignee = {id: {eq: await resolveUserId(client, flags.assignee)}}
+
+  if (flags.cycle) {
+    if (!teamId && !isUUID(flags.cycle)) {
+      throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, '--cycle needs --team to resolve a cycle by name or number')
+    }
+    filter.cycle = {id: {eq: await resolveCycleId(client, flags.cycle, teamId ?? '')}}
+  }
+
+  return filter
+}
+
+const toIssueWithBlockers = ({inverseRelations, relations, ...issue}: RawIssueWithRelations): IssueWithBlockers => {
+  const blockers = new Map<string, BlockingIssue>()
+  for (const relation of inverseRelations.nodes) {
+    if (relation.type === 'blocks' && relation.issue) blockers.set(relation.issue.id, relation.issue)
+  }
+  // "blocked" is the inverse of "blocks": the related issue blocks this one
+  for (const relation of relations.nodes) {
+    if (relation.type === 'blocked' && relation.relatedIssue) {
+      blockers.set(relation.relatedIssue.id, relation.relatedIssue)
+    }
+  }
+  return {...issue, blockers: [...blockers.values()]}
+}
+
+/**
+ * Fetch every issue matching a filter together with the issues blocking it.
+ */
+export const fetchIssuesWithBlockers = async (
+  client: LinearClient,
+  filter: Record<string, unknown>,
+): Promise<IssueWithBlockers[]> => {
+  const query = `query IssuesWithBlockers($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes { ${BLOCKERS_SELECTION} }
+      pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+    }
+  }`
+
+  const fetchPage = async (page: PageRequest): Promise<PageConnection<RawIssueWithRelations>> => {
+    const data = await client.client.request<{issues: PageConnection<RawIssueWithRelations>}, Record<string, unknown>>(
+      query,
+      {...page, filter},
+    )
+    return data.issues
+  }
+
+  const {data} = await paginate(fetchPage, {first: BLOCKERS_PAGE_SIZE, all: true}, (nodes) =>
+    nodes.map((node) => toIssueWithBlockers(node)),
+  )
+  return data
+}
+
+/**
+ * Whether every blocker of an issue is completed or canceled.
+ */
+export const isUnblocked = (issue: IssueWithBlockers): boolean => issue.blockers.every((blocker) => isClosed(blocker))
+
+/**
+ * Follow open blockers upstream from a set of issues, one query per level, and return
+ * each issue's chain of open blockers. Cycles are cut where an issue would repeat.
+ */
+export const fetchBlockerChains = async (
+  client: LinearClient,
+  issues: IssueWithBlockers[],
+): Promise<BlockerChain[]> => {
+  const known = new Map(issues.map((issue) => [issue.id, issue]))
+  let pending = issues
+
+  while (pending.length > 0) {
+    const missing = [
+      ...new Set(
+        pending.flatMap((issue) =>
+          issue.blockers.filter((blocker) => !isClosed(blocker) && !known.has(blocker.id)).map((blocker) => blocker.id),
+        ),
+      ),
+    ]
+
+    pending = []
+    for (let start = 0; start < missing.length; start += BLOCKERS_PAGE_SIZE) {
+      pending.push(
+        ...(await fetchIssuesWithBlockers(client, {id: {in: missing.slice(start, start + BLOCKERS_PAGE_SIZE)}})),
+      )
+    }
+    for (const issue of pending) known.set(issue.id, issue)
+  }
+
+  const chain = (issue: BlockingIssue, path: Set<string>): BlockerChain => {
+    const blockers = known.get(issue.id)?.blockers ?? []
+    const {id, identifier, title, priority, url, state, assignee} = issue
+    return {
+      id,
+      identifier,
+      title,
+      priority,
+      url,
+      state,
+      assignee,
+      blockers: blockers
+        .filter((blocker) => !isClosed(blocker) && !path.has(blocker.id))
+        .map((blocker) => chain(blocker, new Set([...path, blocker.id]))),
+    }
+  }
+
+  return issues.map((issue) => chain(issue, new Set([issue.id])))
+}
+
+/**
+ * Identifiers of every open blocker in a chain, nearest first.
+ */
+export const flattenBlockers = (issue: BlockerChain): string[] => {
+  const seen = new Set<string>()
+  let level = issue.blockers
+  while (level.length > 0) {
+    for (const blocker of level) seen.add(blocker.identifier)
+    level = level.flatMap((blocker) => blocker.blockers).filter((blocker) => !seen.has(blocker.identifier))
+  }
+  return [...seen]
+}
+
+/**
+ * Sort issues most urgent first; issues without a priority (0) go last.
+ */
+export const sortByPriority = <T extends {priority: number}>(issues: T[]): T[] =>
+  [...issues].sort((a, b) => (a.priority || 5) - (b.priority || 5))
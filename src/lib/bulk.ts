@@ -0,0 +1,113 @@
+import {Flags} from '@oclif/core'
+import {print, success} from './output.js'
+
+/**
+ * Helpers for commands that act on many issues: a bounded worker pool and
+ * per-item progress events.
+ */
+
+export const DEFAULT_CONCURRENCY = 5
+
+/**
+ * Flags shared by the bulk commands.
+ */
+export const bulkFlags = {
+  concurrency: Flags.integer({
+    description: 'Number of issues processed in parallel',
+    default: DEFAULT_CONCURRENCY,
+    min: 1,
+  }),
+  stream: Flags.boolean({
+    description: 'Write progress events and the final summary as NDJSON to stdout',
+    default: false,
+  }),
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight.
+ *
+ * @param onResult - Called as each item finishes, in completion order
+ * @returns Results in input order, regardless of completion order
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+      onResult?.(results[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({length: Math.min(Math.max(1, concurrency), items.length)}, worker))
+  return results
+}
+
+export interface BulkItemResult {
+  identifier: string
+  success: boolean
+  error?: string
+}
+
+export interface ProgressEvent {
+  type: 'progress'
+  /** Position of the item in the input */
+  index: number
+  /** Number of items finished so far */
+  completed: number
+  total: number
+  identifier: string
+  success: boolean
+  error?: string
+}
+
+export interface ProgressReporter {
+  /** Report a finished item */
+  item(index: number, result: BulkItemResult): void
+  /** Print the final summary (a single NDJSON line when streaming) */
+  summary(data: Record<string, unknown>): void
+}
+
+/**
+ * Report per-item progress on stderr, or as NDJSON on stdout with --stream.
+ */
+export const createProgressReporter = (total: number, options: {stream: boolean}): ProgressReporter => {
+  let completed = 0
+
+  return {
+    item(index, result) {
+      completed++
+      const event: ProgressEvent = {
+        type: 'progress',
+        index,
+        completed,
+        total,
+        identifier: result.identifier,
+        success: result.success,
+        ...(result.error && {error: result.error}),
+      }
+
+      if (options.stream) {
+        process.stdout.write(JSON.stringify(event) + '\n')
+      } else {
+        const status = result.success ? 'ok' : `failed: ${result.error ?? 'Unknown error'}`
+        process.stderr.write(`[${completed}/${total}] ${result.identifier} ${status}\n`)
+      }
+    },
+
+    summary(data) {
+      if (options.stream) {
+        process.stdout.write(JSON.stringify({type: 'summary', ...success(data)}) + '\n')
+      } else {
+        print(success(data))
+      }
+    },
+  }
+}
@@ -0,0 +1,363 @@
+import {createHash} from 'node:crypto'
+import {join} from 'node:path'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs'
+import {Flags} from '@oclif/core'
+import type {LinearClient} from '@linear/sdk'
+import {getConfigDir, getCredential, getProfileName} from './config.js'
+import {paginate, type PageConnection, type PageRequest} from './pagination.js'
+
+/**
+ * On-disk cache for slow-changing workspace metadata (teams, states, labels, users).
+ * Entries live in ~/.linear-cli-agents/cache/<account>/<namespace>.json, scoped by a
+ * hash of the API key so switching credentials never serves another workspace's data.
+ */
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * Time-to-live per cache namespace, in milliseconds.
+ */
+export const CACHE_TTLS = {
+  teams: 24 * HOUR,
+  states: 24 * HOUR,
+  labels: HOUR,
+  users: 6 * HOUR,
+} as const
+
+export type CacheNamespace = keyof typeof CACHE_TTLS
+
+export const CACHE_NAMESPACES = Object.keys(CACHE_TTLS) as CacheNamespace[]
+
+/**
+ * How commands use the cache.
+ * - default: serve fresh entries, fetch and store on miss or expiry
+ * - refresh: always fetch and overwrite the stored entry
+ * - bypass: always fetch, never read or write the cache
+ */
+export type CacheMode = 'default' | 'refresh' | 'bypass'
+
+let cacheMode: CacheMode = 'default'
+
+/**
+ * Flags for commands that resolve names through the cache.
+ */
+export const cacheFlags = {
+  'no-cache': Flags.boolean({
+    description: 'Bypass the local metadata cache',
+    exclusive: ['refresh'],
+  }),
+  refresh: Flags.boolean({
+    description: 'Refetch cached metadata (teams, states, labels, users) and update the cache',
+  }),
+}
+
+/**
+ * Set the cache mode from parsed --no-cache/--refresh flags.
+ */
+export const applyCacheFlags = (flags: {'no-cache'?: boolean; refresh?: boolean}): void => {
+  cacheMode = flags['no-cache'] ? 'bypass' : flags.refresh ? 'refresh' : 'default'
+}
+
+interface CacheEntry<T> {
+  fetchedAt: number
+  data: T
+}
+
+type CacheFile = Record<string, CacheEntry<unknown>>
+
+/**
+ * Get the cache root directory.
+ */
+export const getCacheDir = (): string => join(getConfigDir(), 'cache')
+
+/**
+ * Directory for the current credentials.
+ */
+const getScopeDir = (): string => {
+  const credential = getCredential()
+  // OAuth tokens rotate on refresh, so their cache is keyed by client and profile instead
+  const identity =
+    credential?.type === 'oauth' ? `oauth:${credential.tokens.clientId}:${getProfileName()}` : credential?.apiKey
+  const scope = identity ? createHash('sha256').update(identity).digest('hex').slice(0, 16) : 'anonymous'
+  return join(getCacheDir(), scope)
+}
+
+const readCacheFile = (path: string): CacheFile => {
+  if (!existsSync(path)) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as CacheFile
+  } catch {
+    // A corrupt cache file is treated as empty and overwritten on next write
+    return {}
+  }
+}
+
+/**
+ * Write a cache file atomically (temp file + rename).
+ * Failures are ignored: the cache is an optimization, never a reason to fail a command.
+ */
+const writeCacheFile = (path: string, content: CacheFile): void => {
+  const tempFile = `${path}.tmp.${process.pid}.${Date.now()}`
+
+  try {
+    mkdirSync(join(path, '..'), {recursive: true, mode: 0o700})
+    writeFileSync(tempFile, JSON.stringify(content), {mode: 0o600})
+    renameSync(tempFile, path)
+  } catch {
+    try {
+      unlinkSync(tempFile)
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+/**
+ * Read-through cache lookup.
+ *
+ * @returns The data and whether it was served from disk
+ */
+const readThrough = async <T>(
+  namespace: CacheNamespace,
+  key: string,
+  fetch: () => Promise<T>,
+  refresh = false,
+): Promise<{data: T; fromCache: boolean}> => {
+  if (cacheMode === 'bypass') {
+    return {data: await fetch(), fromCache: false}
+  }
+
+  const path = join(getScopeDir(), `${namespace}.json`)
+  const entry = readCacheFile(path)[key]
+
+  if (cacheMode === 'default' && !refresh && entry && Date.now() - entry.fetchedAt < CACHE_TTLS[namespace]) {
+    return {data: entry.data as T, fromCache: true}
+  }
+
+  const data = await fetch()
+  // Re-read so concurrent commands writing other keys are not clobbered
+  writeCacheFile(path, {...readCacheFile(path), [key]: {fetchedAt: Date.now(), data}})
+  return {data, fromCache: false}
+}
+
+/**
+ * Get a value from the cache, fetching and storing it on miss or expiry.
+ */
+export const cached = async <T>(namespace: CacheNamespace, key: string, fetch: () => Promise<T>): Promise<T> => {
+  const {data} = await readThrough(namespace, key, fetch)
+  return data
+}
+
+/**
+ * Find an item in a cached list.
+ * A miss on cached data refetches once, since the item may have been created after caching.
+ */
+export const findCached = async <T>(
+  namespace: CacheNamespace,
+  key: string,
+  fetch: () => Promise<T[]>,
+  predicate: (item: T) => boolean,
+): Promise<T | undefined> => {
+  const {data, fromCache} = await readThrough(namespace, key, fetch)
+  const found = data.find(predicate)
+  if (found || !fromCache) {
+    return found
+  }
+
+  const fresh = await readThrough(namespace, key, fetch, true)
+  return fresh.data.find(predicate)
+}
+
+/**
+ * Remove cached entries for the current credentials.
+ *
+ * @param namespace - Only clear this namespace (all namespaces when omitted)
+ * @returns The namespaces that were cleared
+ */
+export const clearCache = (namespace?: CacheNamespace): CacheNamespace[] => {
+  const scopeDir = getScopeDir()
+  const cleared: CacheNamespace[] = []
+
+  for (const name of namespace ? [namespace] : CACHE_NAMESPACES) {
+    const path = join(scopeDir, `${name}.json`)
+    if (existsSync(path)) {
+      rmSync(path, {force: true})
+      cleared.push(name)
+    }
+  }
+
+  return cleared
+}
+
+export interface CacheStatusEntry {
+  namespace: CacheNamespace
+  key: string
+  items: number | null
+  fetchedAt: string
+  expiresAt: string
+  expired: boolean
+}
+
+/**
+ * Describe the cached entries for the current credentials.
+ */
+export const getCacheStatus = (): {directory: string; sizeBytes: number; entries: CacheStatusEntry[]} => {
+  const directory = getScopeDir()
+  const entries: CacheStatusEntry[] = []
+  let sizeBytes = 0
+
+  if (!existsSync(directory)) {
+    return {directory, sizeBytes, entries}
+  }
+
+  for (const file of readdirSync(directory)) {
+    const namespace = file.replace(/\.json$/, '') as CacheNamespace
+    if (!CACHE_NAMESPACES.includes(namespace)) continue
+
+    const path = join(directory, file)
+    sizeBytes += statSync(path).size
+
+    for (const [key, entry] of Object.entries(readCacheFile(path))) {
+      const expiresAt = entry.fetchedAt + CACHE_TTLS[namespace]
+      entries.push({
+        namespace,
+        key,
+        items: Array.isArray(entry.data) ? entry.data.length : null,
+        fetchedAt: new Date(entry.fetchedAt).toISOString(),
+        expiresAt: new Date(expiresAt).toISOString(),
+        expired: Date.now() >= expiresAt,
+      })
+    }
+  }
+
+  return {directory, sizeBytes, entries}
+}
+
+// Cached workspace metadata
+
+export interface CachedTeam {
+  id: string
+  key: string
+  name: string
+}
+
+export interface CachedState {
+  id: string
+  name: string
+  type: string
+  color: string
+  position: number
+  teamId: string
+}
+
+export interface CachedLabel {
+  id: string
+  name: string
+  color: string
+  isGroup: boolean
+  teamId: string | null
+  parentId: string | null
+}
+
+export interface CachedUser {
+  id: string
+  name: string
+  displayName: string
+  email: string
+  active: boolean
+}
+
+/**
+ * Fetch every node of a root connection with a single query per page.
+ * Related IDs are selected inline to avoid the SDK's per-node lazy fetches.
+ */
+export const fetchAllNodes = async <T>(
+  client: LinearClient,
+  connection: string,
+  selection: string,
+  filter?: {type: string; value: unknown},
+): Promise<T[]> => {
+  const variables = filter ? `$filter: ${filter.type}, ` : ''
+  const query = `query FetchAll(${variables}$first: Int, $after: String) {
+    ${connection}(${filter ? 'filter: $filter, ' : ''}first: $first, after: $after) {
+      nodes { ${selection} }
+      pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+    }
+  }`
+
+  const fetchPage = async (page: PageRequest): Promise<PageConnection<T>> => {
+    const data = await client.client.request<Record<string, PageConnection<T>>, Record<string, unknown>>(query, {
+      ...page,
+      filter: filter?.value,
+    })
+    return data[connection]
+  }
+
+  const {data} = await paginate(fetchPage, {first: 250, all: true}, (nodes) => nodes)
+  return data
+}
+
+/**
+ * Get all teams in the workspace.
+ */
+export const getCachedTeams = (client: LinearClient): Promise<CachedTeam[]> => {
+  return cached('teams', 'all', () => fetchAllNodes<CachedTeam>(client, 'teams', 'id key name'))
+}
+
+/**
+ * Find a team by key (case-insensitive).
+ */
+export const findCachedTeamByKey = (client: LinearClient, key: string): Promise<CachedTeam | undefined> => {
+  return findCached(
+    'teams',
+    'all',
+    () => fetchAllNodes<CachedTeam>(client, 'teams', 'id key name'),
+    (team) => team.key.toUpperCase() === key.toUpperCase(),
+  )
+}
+
+/**
+ * Get all workflow states in the workspace.
+ */
+export const getCachedStates = async (client: LinearClient): Promise<CachedState[]> => {
+  return cached('states', 'all', async () => {
+    const nodes = await fetchAllNodes<Omit<CachedState, 'teamId'> & {team: {id: string} | null}>(
+      client,
+      'workflowStates',
+      'id name type color position team { id }',
+    )
+    return nodes.map(({team, ...state}) => ({...state, teamId: team?.id ?? ''}))
+  })
+}
+
+/**
+ * Get all issue labels in the workspace (team and workspace labels).
+ */
+export const getCachedLabels = async (client: LinearClient): Promise<CachedLabel[]> => {
+  return cached('labels', 'all', async () => {
+    const nodes = await fetchAllNodes<
+      Omit<CachedLabel, 'teamId' | 'parentId'> & {team: {id: string} | null; parent: {id: string} | null}
+    >(client, 'issueLabels', 'id name color isGroup team { id } parent { id }')
+    return nodes.map(({team, parent, ...label}) => ({...label, teamId: team?.id ?? null, parentId: parent?.id ?? null}))
+  })
+}
+
+/**
+ * Get all users in the workspace.
+ */
+export const getCachedUsers = (client: LinearClient): Promise<CachedUser[]> => {
+  return cached('users', 'all', () => fetchAllNodes<CachedUser>(client, 'users', 'id name displayName email active'))
+}
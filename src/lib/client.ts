@@ -1,16 +1,167 @@
-import {LinearClient} from '@linear/sdk'
-import {requireApiKey} from './config.js'
+import {createRequire} from 'node:module'
+import {LinearClient, type LinearGraphQLClient} from '@linear/sdk'
+import {requireCredential, saveOAuthTokens} from './config.js'
+import {getMutationField, isDryRun, isMutation} from './dry-run.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {needsRefresh, refreshOAuthTokens, type OAuthTokens} from './oauth.js'
+import {parseRateLimitHeaders, withRetry, type RateLimitInfo} from './retry.js'
+
+let verbose = false
+
+/**
+ * Enable request diagnostics (retries, rate-limit budget) on stderr.
+ */
+export const setVerbose = (enabled: boolean): void => {
+  verbose = enabled
+}
+
+const logVerbose = (message: string): void => {
+  if (verbose) {
+    process.stderr.write(`[linear] ${message}\n`)
+  }
+}
+
+/**
+ * Format the remaining rate-limit budget for --verbose output.
+ */
+export const formatRateLimit = (info: RateLimitInfo): string | undefined => {
+  const parts: string[] = []
+  if (info.complexity !== undefined) {
+    parts.push(`complexity ${info.complexity}`)
+  }
+  if (info.complexityRemaining !== undefined) {
+    parts.push(`complexity budget ${info.complexityRemaining}/${info.complexityLimit ?? '?'}`)
+  }
+  if (info.requestsRemaining !== undefined) {
+    parts.push(`requests ${info.requestsRemaining}/${info.requestsLimit ?? '?'}`)
+  }
+  const resetAt = info.complexityResetAt ?? info.requestsResetAt
+  if (resetAt !== undefined) {
+    parts.push(`resets ${new Date(resetAt).toISOString()}`)
+  }
+  return parts.length > 0 ? parts.join(', ') : undefined
+}
+
+type PrintDocument = (document: unknown) => string
+let printDocument: PrintDocument | undefined
 
 /**
- * Get a Linear client instance authenticated with the configured API key.
+ * Print an SDK document to a query string.
+ * graphql ships with @linear/sdk, so it is resolved from there.
+ */
+const toQueryString = (document: unknown): string => {
+  if (typeof document === 'string') {
+    return document
+  }
+  if (!printDocument) {
+    const sdkRequire = createRequire(createRequire(import.meta.url).resolve('@linear/sdk'))
+    printDocument = (sdkRequire('graphql/language/printer') as {print: PrintDocument}).print
+  }
+  return printDocument(document)
+}
+
+/**
+ * Route every request of a client through the retry wrapper.
+ * Requests are sent with rawRequest so rate-limit headers are visible on success too.
+ *
+ * @param beforeRequest - Runs before each request (e.g., to refresh OAuth tokens)
+ */
+const withRequestHandling = (client: LinearClient, beforeRequest?: () => Promise<void>): LinearClient => {
+  const graphql = client.client
+  const rawRequest = graphql.rawRequest.bind(graphql)
+
+  graphql.request = (async (
+    document: unknown,
+    variables?: Record<string, unknown>,
+    requestHeaders?: RequestInit['headers'],
+  ) => {
+    const query = toQueryString(document)
+    // Commands print their own dry-run plan; this guards against any mutation slipping through
+    if (isDryRun() && isMutation(query)) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `Refusing to send ${getMutationField(query)} in --dry-run mode`)
+    }
+
+    await beforeRequest?.()
+    const response = await withRetry(() => rawRequest(query, variables, requestHeaders), {
+      // Mutations may have been applied before a transient failure, so only reads are retried
+      idempotent: !isMutation(query),
+      onRetry: ({attempt, delayMs, reason}) => logVerbose(`${reason} - retry ${attempt} in ${delayMs}ms`),
+    })
+
+    if (verbose && response.headers) {
+      const budget = formatRateLimit(parseRateLimitHeaders(response.headers))
+      if (budget) logVerbose(budget)
+    }
+
+    return response.data
+  }) as LinearGraphQLClient['request']
+
+  return client
+}
+
+let refreshing: Promise<OAuthTokens> | undefined
+
+/**
+ * Refresh OAuth tokens that are about to expire and store the new ones.
+ * Concurrent callers share a single refresh.
+ */
+const getFreshTokens = async (tokens: OAuthTokens): Promise<OAuthTokens> => {
+  if (!needsRefresh(tokens)) return tokens
+
+  if (!refreshing) {
+    logVerbose('refreshing OAuth access token')
+    refreshing = refreshOAuthTokens(tokens)
+      .then((fresh) => {
+        saveOAuthTokens(fresh)
+        return fresh
+      })
+      .finally(() => {
+        refreshing = undefined
+      })
+  }
+  return refreshing
+}
+
+/**
+ * Get the Authorization header value for raw API requests.
+ * API keys are sent as-is, OAuth access tokens as "Bearer <token>" (refreshed when needed).
+ *
+ * @throws {CliError} When nothing is configured (NOT_AUTHENTICATED)
+ */
+export const getAuthorizationHeader = async (): Promise<string> => {
+  const credential = requireCredential()
+  if (credential.type === 'api-key') {
+    return credential.apiKey
+  }
+  const tokens = await getFreshTokens(credential.tokens)
+  return `Bearer ${tokens.accessToken}`
+}
+
+/**
+ * Get a Linear client instance authenticated with the configured API key or OAuth tokens.
  * Creates a new instance on each call (CLI commands are ephemeral).
+ * Requests are retried on rate limits and transient failures, and expiring OAuth
+ * access tokens are refreshed before a request is sent.
  *
  * @returns A configured LinearClient instance
- * @throws {CliError} When no API key is configured (NOT_AUTHENTICATED)
+ * @throws {CliError} When nothing is configured (NOT_AUTHENTICATED)
  */
 export const getClient = (): LinearClient => {
-  const apiKey = requireApiKey()
-  return new LinearClient({apiKey})
+  const credential = requireCredential()
+  if (credential.type === 'api-key') {
+    return withRequestHandling(new LinearClient({apiKey: credential.apiKey}))
+  }
+
+  let tokens = credential.tokens
+  const client = new LinearClient({accessToken: tokens.accessToken})
+
+  return withRequestHandling(client, async () => {
+    const fresh = await getFreshTokens(tokens)
+    if (fresh !== tokens) {
+      tokens = fresh
+      client.client.setHeader('Authorization', `Bearer ${fresh.accessToken}`)
+    }
+  })
 }
 
 /**
@@ -21,5 +172,15 @@ export const getClient = (): LinearClient => {
  * @returns A configured LinearClient instance
  */
 export const createClient = (apiKey: string): LinearClient => {
-  return new LinearClient({apiKey})
+  return withRequestHandling(new LinearClient({apiKey}))
+}
+
+/**
+ * Create a new Linear client with an OAuth access token.
+ *
+ * @param accessToken - OAuth access token to authenticate with
+ * @returns A configured LinearClient instance
+ */
+export const createOAuthClient = (accessToken: string): LinearClient => {
+  return withRequestHandling(new LinearClient({accessToken}))
 }
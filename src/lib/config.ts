@@ -1,8 +1,15 @@
 import {homedir} from 'node:os'
 import {join} from 'node:path'
 import {existsSync, mkdirSync, readFileSync, writeFileSync, renameSync, unlinkSync} from 'node:fs'
-import type {ConfigFile, ConfigDefaults} from './types.js'
+import type {ConfigFile, ConfigDefaults, ConfigProfile} from './types.js'
 import {CliError, ErrorCodes} from './errors.js'
+import {
+  CONFIG_CREDENTIAL_HELPER,
+  getCredentialStore,
+  type CredentialBackend,
+  type CredentialStore,
+} from './credentials.js'
+import {parseOAuthSecret, serializeOAuthTokens, type OAuthTokens} from './oauth.js'
 
 const CONFIG_DIR = join(homedir(), '.linear-cli-agents')
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
@@ -40,12 +47,20 @@ export const readConfig = (): ConfigFile => {
   }
 }
 
+/**
+ * Keys read from the credential store, per profile. Helpers spawn a process and the
+ * encrypted file derives a key with scrypt, so each profile is read once per process.
+ */
+const storedKeys = new Map<string, string | undefined>()
+
 /**
  * Write the configuration file atomically.
  * Uses a temp file + rename to prevent corruption.
  */
 export const writeConfig = (config: ConfigFile): void => {
   ensureConfigDir()
+  // The credential helper or the stored keys may have changed
+  storedKeys.clear()
 
   const tempFile = join(CONFIG_DIR, `config.json.tmp.${Date.now()}`)
 
@@ -66,18 +81,201 @@ export const writeConfig = (config: ConfigFile): void => {
 }
 
 /**
- * Get the API key from config or environment.
- * Environment variable LINEAR_API_KEY takes precedence.
+ * Name of the profile stored at the top level of the config file.
+ */
+export const DEFAULT_PROFILE = 'default'
+
+let selectedProfile: string | undefined
+
+/**
+ * Select the profile for this process (from the global --profile flag).
+ */
+export const setProfile = (name: string | undefined): void => {
+  if (name !== undefined) validateProfileName(name)
+  selectedProfile = name
+}
+
+/**
+ * Check that a profile name is usable as a config key.
+ * @throws {CliError} When the name contains anything but letters, digits, dashes and underscores.
+ */
+export const validateProfileName = (name: string): void => {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new CliError(
+      ErrorCodes.INVALID_INPUT,
+      `Invalid profile name: "${name}". Use letters, digits, dashes and underscores.`,
+    )
+  }
+}
+
+export type ProfileSource = 'flag' | 'environment' | 'config' | 'default'
+
+/**
+ * Get the active profile and where it was selected.
+ * Precedence: --profile flag, LINEAR_PROFILE, the switched-to profile, then "default".
+ */
+export const getActiveProfile = (): {name: string; source: ProfileSource} => {
+  if (selectedProfile) return {name: selectedProfile, source: 'flag'}
+  if (process.env.LINEAR_PROFILE) return {name: process.env.LINEAR_PROFILE, source: 'environment'}
+  const config = readConfig()
+  if (config.activeProfile) return {name: config.activeProfile, source: 'config'}
+  return {name: DEFAULT_PROFILE, source: 'default'}
+}
+
+/**
+ * Get the active profile name.
+ */
+export const getProfileName = (): string => getActiveProfile().name
+
+const readProfile = (config: ConfigFile, name: string): ConfigProfile => {
+  if (name !== DEFAULT_PROFILE) {
+    return config.profiles?.[name] ?? {}
+  }
+
+  // Migrate legacy defaultTeamId to defaults.teamId
+  const defaults =
+    config.defaultTeamId && !config.defaults?.teamId
+      ? {teamId: config.defaultTeamId, ...config.defaults}
+      : config.defaults
+
+  return {apiKey: config.apiKey, defaults}
+}
+
+/**
+ * Read, modify and write a single profile.
+ */
+const updateProfile = (name: string, update: (profile: ConfigProfile) => void): void => {
+  const config = readConfig()
+
+  if (name === DEFAULT_PROFILE) {
+    update(config)
+  } else {
+    config.profiles = config.profiles ?? {}
+    const profile = config.profiles[name] ?? {}
+    update(profile)
+    config.profiles[name] = profile
+  }
+
+  writeConfig(config)
+}
+
+/**
+ * Check whether a profile exists in the config file.
+ */
+export const profileExists = (name: string): boolean => {
+  return name === DEFAULT_PROFILE || readConfig().profiles?.[name] !== undefined
+}
+
+/**
+ * Get the external credential store configured with credential-helper, if any.
+ */
+const getConfiguredStore = (config: ConfigFile = readConfig()): CredentialStore | undefined => {
+  return getCredentialStore(config.credentialHelper, CONFIG_DIR)
+}
+
+const readStoredKey = (store: CredentialStore, profile: string): string | undefined => {
+  if (!storedKeys.has(profile)) storedKeys.set(profile, store.get(profile))
+  return storedKeys.get(profile)
+}
+
+const hasStoredKey = (store: CredentialStore, profile: string): boolean =>
+  // A helper answers "has" by fetching the key, so fetch it once and keep it
+  store.backend === 'helper' || storedKeys.has(profile)
+    ? readStoredKey(store, profile) !== undefined
+    : store.has(profile)
+
+/**
+ * Get the backend new API keys are saved to.
+ */
+export const getCredentialBackend = (): CredentialBackend => getConfiguredStore()?.backend ?? 'config'
+
+export interface ProfileSummary {
+  name: string
+  active: boolean
+  hasApiKey: boolean
+  /** Backend holding the profile's key */
+  credentialBackend: CredentialBackend | null
+  defaults: ConfigDefaults
+}
+
+/**
+ * List all profiles, marking the active one.
  */
-export const getApiKey = (): string | undefined => {
+export const listProfiles = (): ProfileSummary[] => {
+  const config = readConfig()
+  const store = getConfiguredStore(config)
+  const active = getProfileName()
+  const names = [DEFAULT_PROFILE, ...Object.keys(config.profiles ?? {}).filter((name) => name !== DEFAULT_PROFILE)]
+
+  return names.map((name) => {
+    const profile = readProfile(config, name)
+    const credentialBackend = store && hasStoredKey(store, name) ? store.backend : profile.apiKey ? 'config' : null
+    return {
+      name,
+      active: name === active,
+      hasApiKey: credentialBackend !== null,
+      credentialBackend,
+      defaults: profile.defaults ?? {},
+    }
+  })
+}
+
+/**
+ * Make a profile the active one for future invocations.
+ * @throws {CliError} When the profile does not exist (NOT_FOUND).
+ */
+export const switchProfile = (name: string): void => {
+  validateProfileName(name)
+  if (!profileExists(name)) {
+    throw new CliError(
+      ErrorCodes.NOT_FOUND,
+      `Profile "${name}" not found. Run "linear auth login --profile ${name}".`,
+      {
+        profile: name,
+        available: listProfiles().map((profile) => profile.name),
+      },
+    )
+  }
+
+  const config = readConfig()
+  if (name === DEFAULT_PROFILE) {
+    delete config.activeProfile
+  } else {
+    config.activeProfile = name
+  }
+  writeConfig(config)
+}
+
+export type ApiKeySource = 'environment' | CredentialBackend
+
+/**
+ * Get the API key and the place it was read from.
+ * Environment variable LINEAR_API_KEY takes precedence over the active profile.
+ * Keys left in config.json are still used after switching to another credential backend.
+ */
+export const getApiKeyWithSource = (): {apiKey: string; source: ApiKeySource} | undefined => {
   const envKey = process.env.LINEAR_API_KEY
   if (envKey) {
-    return envKey
+    return {apiKey: envKey, source: 'environment'}
   }
+
   const config = readConfig()
-  return config.apiKey
+  const profile = getProfileName()
+  const store = getConfiguredStore(config)
+  const stored = store && readStoredKey(store, profile)
+  if (store && stored) {
+    return {apiKey: stored, source: store.backend}
+  }
+
+  const apiKey = readProfile(config, profile).apiKey
+  return apiKey ? {apiKey, source: 'config'} : undefined
 }
 
+/**
+ * Get the API key from config or environment.
+ */
+export const getApiKey = (): string | undefined => getApiKeyWithSource()?.apiKey
+
 /**
  * Get the API key or throw if not configured.
  * @throws {CliError} When no API key is configured (NOT_AUTHENTICATED).
@@ -85,52 +283,123 @@ export const getApiKey = (): string | undefined => {
 export const requireApiKey = (): string => {
   const apiKey = getApiKey()
   if (!apiKey) {
-    throw new CliError(
-      ErrorCodes.NOT_AUTHENTICATED,
-      'Not authenticated. Run "linear auth login" or set LINEAR_API_KEY environment variable.',
-    )
+    throw notAuthenticated()
   }
   return apiKey
 }
 
+const notAuthenticated = (): CliError => {
+  const profile = getProfileName()
+  return new CliError(
+    ErrorCodes.NOT_AUTHENTICATED,
+    profile === DEFAULT_PROFILE
+      ? 'Not authenticated. Run "linear auth login" or set LINEAR_API_KEY environment variable.'
+      : `Not authenticated for profile "${profile}". Run "linear auth login --profile ${profile}".`,
+  )
+}
+
+export type Credential =
+  | {type: 'api-key'; apiKey: string; source: ApiKeySource}
+  | {type: 'oauth'; tokens: OAuthTokens; source: ApiKeySource}
+
 /**
- * Save the API key to config with secure permissions.
+ * Get the stored credential: a personal API key or OAuth tokens from "auth login --oauth".
  */
-export const saveApiKey = (apiKey: string): void => {
-  const config = readConfig()
-  config.apiKey = apiKey
-  writeConfig(config)
+export const getCredential = (): Credential | undefined => {
+  const stored = getApiKeyWithSource()
+  if (!stored) return undefined
+
+  const tokens = parseOAuthSecret(stored.apiKey)
+  return tokens
+    ? {type: 'oauth', tokens, source: stored.source}
+    : {type: 'api-key', apiKey: stored.apiKey, source: stored.source}
 }
 
 /**
- * Remove the API key from config.
+ * Get the stored credential or throw if not configured.
+ * @throws {CliError} When nothing is configured (NOT_AUTHENTICATED).
  */
-export const removeApiKey = (): void => {
-  const config = readConfig()
-  delete config.apiKey
-  writeConfig(config)
+export const requireCredential = (): Credential => {
+  const credential = getCredential()
+  if (!credential) {
+    throw notAuthenticated()
+  }
+  return credential
 }
 
 /**
- * Get the config file path (for display purposes).
+ * Save OAuth tokens of the active profile; they are stored like an API key.
+ *
+ * @returns The backend that now holds the tokens
  */
-export const getConfigPath = (): string => CONFIG_FILE
+export const saveOAuthTokens = (tokens: OAuthTokens): CredentialBackend => saveApiKey(serializeOAuthTokens(tokens))
 
 /**
- * Get defaults from config, with migration from legacy defaultTeamId.
+ * Save the API key of the active profile to the configured credential backend.
+ * A plaintext copy in config.json is removed when another backend holds the key.
+ *
+ * @returns The backend that now holds the key
  */
-export const getDefaults = (): ConfigDefaults => {
-  const config = readConfig()
+export const saveApiKey = (apiKey: string): CredentialBackend => {
+  const name = getProfileName()
+  const store = getConfiguredStore()
+  store?.store(name, apiKey)
 
-  // Migrate legacy defaultTeamId to defaults.teamId
-  if (config.defaultTeamId && !config.defaults?.teamId) {
-    return {
-      teamId: config.defaultTeamId,
-      ...config.defaults,
+  updateProfile(name, (profile) => {
+    if (store) {
+      delete profile.apiKey
+    } else {
+      profile.apiKey = apiKey
     }
+  })
+  if (store) storedKeys.set(name, apiKey)
+
+  return store?.backend ?? 'config'
+}
+
+/**
+ * Remove the API key of the active profile from config.json and the configured backend.
+ *
+ * @returns The backends the key was removed from
+ */
+export const removeApiKey = (): CredentialBackend[] => {
+  const name = getProfileName()
+  const store = getConfiguredStore()
+  const removed: CredentialBackend[] = []
+
+  if (store && hasStoredKey(store, name)) {
+    store.erase(name)
+    storedKeys.delete(name)
+    removed.push(store.backend)
+  }
+
+  if (profileExists(name)) {
+    updateProfile(name, (profile) => {
+      if (profile.apiKey) {
+        delete profile.apiKey
+        removed.push('config')
+      }
+    })
   }
 
-  return config.defaults ?? {}
+  return removed
+}
+
+/**
+ * Get the CLI data directory (config, cache and other local state).
+ */
+export const getConfigDir = (): string => CONFIG_DIR
+
+/**
+ * Get the config file path (for display purposes).
+ */
+export const getConfigPath = (): string => CONFIG_FILE
+
+/**
+ * Get defaults of the active profile, with migration from legacy defaultTeamId.
+ */
+export const getDefaults = (): ConfigDefaults => {
+  return readProfile(readConfig(), getProfileName()).defaults ?? {}
 }
 
 /**
@@ -152,27 +421,26 @@ export const getDefaultTeamKey = (): string | undefined => {
 }
 
 /**
- * Set a default configuration value.
+ * Set a default configuration value on the active profile.
  */
 export const setDefault = (key: keyof ConfigDefaults, value: string | undefined): void => {
-  const config = readConfig()
-
-  if (!config.defaults) {
-    config.defaults = {}
-  }
-
-  if (value === undefined) {
-    delete config.defaults[key]
-  } else {
-    config.defaults[key] = value
-  }
+  updateProfile(getProfileName(), (profile) => {
+    if (!profile.defaults) {
+      profile.defaults = {}
+    }
 
-  // Clean up legacy field if we're setting teamId
-  if (key === 'teamId' && config.defaultTeamId) {
-    delete config.defaultTeamId
-  }
+    if (value === undefined) {
+      delete profile.defaults[key]
+    } else {
+      profile.defaults[key] = value
+    }
 
-  writeConfig(config)
+    // Clean up legacy field if we're setting teamId (only present on the default profile)
+    const legacy = profile as ConfigFile
+    if (key === 'teamId' && legacy.defaultTeamId) {
+      delete legacy.defaultTeamId
+    }
+  })
 }
 
 /**
@@ -185,14 +453,19 @@ export const removeDefault = (key: keyof ConfigDefaults): void => {
 /**
  * Valid configuration keys that can be set.
  */
-export const CONFIG_KEYS = ['default-team-id', 'default-team-key'] as const
+export const CONFIG_KEYS = ['default-team-id', 'default-team-key', 'credential-helper'] as const
 export type ConfigKey = (typeof CONFIG_KEYS)[number]
 
+/**
+ * Keys stored per profile in the defaults block.
+ */
+type DefaultsConfigKey = Exclude<ConfigKey, 'credential-helper'>
+
 /**
  * Map config key to internal defaults key.
  */
-export const configKeyToDefaultsKey = (key: ConfigKey): keyof ConfigDefaults => {
-  const mapping: Record<ConfigKey, keyof ConfigDefaults> = {
+export const configKeyToDefaultsKey = (key: DefaultsConfigKey): keyof ConfigDefaults => {
+  const mapping: Record<DefaultsConfigKey, keyof ConfigDefaults> = {
     'default-team-id': 'teamId',
     'default-team-key': 'teamKey',
   }
@@ -205,3 +478,30 @@ export const configKeyToDefaultsKey = (key: ConfigKey): keyof ConfigDefaults =>
 export const isValidConfigKey = (key: string): key is ConfigKey => {
   return CONFIG_KEYS.includes(key as ConfigKey)
 }
+
+/**
+ * Get a config value. Defaults are read from the active profile; credential-helper is global.
+ */
+export const getConfigValue = (key: ConfigKey): string | undefined => {
+  if (key === 'credential-helper') {
+    return readConfig().credentialHelper
+  }
+  return getDefaults()[configKeyToDefaultsKey(key)]
+}
+
+/**
+ * Set a config value. Setting credential-helper to "config" stores keys in config.json again.
+ */
+export const setConfigValue = (key: ConfigKey, value: string): void => {
+  if (key === 'credential-helper') {
+    const config = readConfig()
+    if (value === CONFIG_CREDENTIAL_HELPER) {
+      delete config.credentialHelper
+    } else {
+      config.credentialHelper = value
+    }
+    writeConfig(config)
+    return
+  }
+  setDefault(configKeyToDefaultsKey(key), value)
+}
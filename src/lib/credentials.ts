@@ -0,0 +1,220 @@
+import {spawnSync} from 'node:child_process'
+import {createCipheriv, createDecipheriv, randomBytes, scryptSync} from 'node:crypto'
+import {existsSync, mkdirSync, readFileSync, renameSync, writeFileSync} from 'node:fs'
+import {dirname, join} from 'node:path'
+import {CliError, ErrorCodes} from './errors.js'
+
+/**
+ * Pluggable storage for API keys.
+ *
+ * The `credential-helper` setting picks the backend:
+ * - unset or "config": plaintext in config.json (handled by config.ts)
+ * - "encrypted-file": AES-256-GCM file encrypted with LINEAR_CREDENTIALS_PASSPHRASE
+ * - anything else: an external command speaking the git-credential protocol
+ */
+
+export type CredentialBackend = 'config' | 'encrypted-file' | 'helper'
+
+export interface CredentialStore {
+  backend: CredentialBackend
+  get(profile: string): string | undefined
+  /** Check for a stored key without decrypting it */
+  has(profile: string): boolean
+  store(profile: string, apiKey: string): void
+  erase(profile: string): void
+}
+
+export const CONFIG_CREDENTIAL_HELPER = 'config'
+export const ENCRYPTED_FILE_CREDENTIAL_HELPER = 'encrypted-file'
+export const PASSPHRASE_ENV = 'LINEAR_CREDENTIALS_PASSPHRASE'
+
+const CREDENTIAL_HOST = 'api.linear.app'
+const HELPER_TIMEOUT_MS = 30_000
+
+/**
+ * Serialize git-credential attributes (key=value lines ending with a blank line).
+ */
+export const formatCredentialAttributes = (attributes: Record<string, string>): string => {
+  return (
+    Object.entries(attributes)
+      .map(([key, value]) => `${key}=${value}`)
+      .join('\n') + '\n\n'
+  )
+}
+
+/**
+ * Parse git-credential output into attributes.
+ */
+export const parseCredentialAttributes = (output: string): Record<string, string> => {
+  const attributes: Record<string, string> = {}
+  for (const line of output.split(/\r?\n/)) {
+    if (!line) break
+    const separator = line.indexOf('=')
+    if (separator > 0) {
+      attributes[line.slice(0, separator)] = line.slice(separator + 1)
+    }
+  }
+  return attributes
+}
+
+/**
+ * External helper invoked as `<command> get|store|erase`, git-credential style.
+ * The profile is passed as the username so one helper can hold several keys.
+ */
+const createHelperStore = (command: string): CredentialStore => {
+  const run = (action: 'get' | 'store' | 'erase', attributes: Record<string, string>): string => {
+    const result = spawnSync(`${command} ${action}`, {
+      shell: true,
+      input: formatCredentialAttributes(attributes),
+      encoding: 'utf-8',
+      timeout: HELPER_TIMEOUT_MS,
+    })
+
+    if (result.error || result.status !== 0) {
+      throw new CliError(
+        ErrorCodes.CONFIG_ERROR,
+        `Credential helper "${command} ${action}" failed: ${result.error?.message ?? (result.stderr.trim() || `exit code ${result.status}`)}`,
+        {helper: command, action},
+      )
+    }
+
+    return result.stdout
+  }
+
+  const query = (profile: string) => ({protocol: 'https', host: CREDENTIAL_HOST, username: profile})
+
+  const get = (profile: string) => parseCredentialAttributes(run('get', query(profile))).password || undefined
+
+  return {
+    backend: 'helper',
+    get,
+    has: (profile) => get(profile) !== undefined,
+    store: (profile, apiKey) => {
+      run('store', {...query(profile), password: apiKey})
+    },
+    erase: (profile) => {
+      run('erase', query(profile))
+    },
+  }
+}
+
+interface EncryptedEntry {
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+interface EncryptedFile {
+  version: 1
+  profiles: Record<string, EncryptedEntry>
+}
+
+const requirePassphrase = (): string => {
+  const passphrase = process.env[PASSPHRASE_ENV]
+  if (!passphrase) {
+    throw new CliError(
+      ErrorCodes.CONFIG_ERROR,
+      `The encrypted-file credential store needs a passphrase. Set ${PASSPHRASE_ENV}.`,
+    )
+  }
+  return passphrase
+}
+
+const deriveKey = (passphrase: string, salt: Buffer): Buffer => scryptSync(passphrase, salt, 32)
+
+/**
+ * Encrypt a secret with AES-256-GCM and a scrypt-derived key.
+ */
+export const encryptSecret = (secret: string, passphrase: string): EncryptedEntry => {
+  const salt = randomBytes(16)
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv)
+  const data = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()])
+
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret.
+ * @throws {CliError} When the passphrase is wrong or the entry was tampered with.
+ */
+export const decryptSecret = (entry: EncryptedEntry, passphrase: string): string => {
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(passphrase, Buffer.from(entry.salt, 'base64')),
+      Buffer.from(entry.iv, 'base64'),
+    )
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf-8')
+  } catch {
+    throw new CliError(ErrorCodes.CONFIG_ERROR, `Failed to decrypt stored credentials. Check ${PASSPHRASE_ENV}.`)
+  }
+}
+
+/**
+ * Encrypted credentials file, one entry per profile.
+ */
+const createEncryptedFileStore = (path: string): CredentialStore => {
+  const read = (): EncryptedFile => {
+    if (!existsSync(path)) {
+      return {version: 1, profiles: {}}
+    }
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as EncryptedFile
+    } catch {
+      throw new CliError(ErrorCodes.CONFIG_ERROR, `Failed to parse credentials file at ${path}.`, {path})
+    }
+  }
+
+  const write = (file: EncryptedFile): void => {
+    mkdirSync(dirname(path), {recursive: true, mode: 0o700})
+    const tempFile = `${path}.tmp.${Date.now()}`
+    writeFileSync(tempFile, JSON.stringify(file, null, 2), {mode: 0o600})
+    renameSync(tempFile, path)
+  }
+
+  return {
+    backend: 'encrypted-file',
+    get: (profile) => {
+      const entry = read().profiles[profile]
+      return entry ? decryptSecret(entry, requirePassphrase()) : undefined
+    },
+    has: (profile) => read().profiles[profile] !== undefined,
+    store: (profile, apiKey) => {
+      const file = read()
+      file.profiles[profile] = encryptSecret(apiKey, requirePassphrase())
+      write(file)
+    },
+    erase: (profile) => {
+      const file = read()
+      if (file.profiles[profile]) {
+        delete file.profiles[profile]
+        write(file)
+      }
+    },
+  }
+}
+
+/**
+ * Get the external credential store for a credential-helper setting.
+ * Returns undefined when keys live in config.json.
+ *
+ * @param helper - The credential-helper setting
+ * @param configDir - Directory holding the encrypted credentials file
+ */
+export const getCredentialStore = (helper: string | undefined, configDir: string): CredentialStore | undefined => {
+  if (!helper || helper === CONFIG_CREDENTIAL_HELPER) {
+    return undefined
+  }
+  if (helper === ENCRYPTED_FILE_CREDENTIAL_HELPER) {
+    return createEncryptedFileStore(join(configDir, 'credentials.enc'))
+  }
+  return createHelperStore(helper)
+}
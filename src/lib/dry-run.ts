@@ -0,0 +1,83 @@
+import {Kind, parse, type OperationDefinitionNode} from 'graphql'
+import {success, print} from './output.js'
+
+/**
+ * Global --dry-run support.
+ * Mutating commands resolve IDs and validate input as usual, then print the
+ * mutations they would send instead of sending them. As a safety net, the client
+ * refuses to send any mutation while dry-run is enabled.
+ */
+
+export interface DryRunTarget {
+  entity: string
+  id?: string
+  identifier?: string
+  name?: string
+}
+
+export interface DryRunOperation {
+  /** GraphQL mutation field, e.g. issueUpdate */
+  mutation: string
+  /** Variables the mutation would be sent with */
+  variables: Record<string, unknown>
+  /** Entity the mutation changes (absent for creates) */
+  target?: DryRunTarget
+  /** Full GraphQL document, for raw queries */
+  document?: string
+}
+
+let enabled = false
+
+/**
+ * Enable or disable dry-run mode for this process (from the global --dry-run flag).
+ */
+export const setDryRun = (value: boolean): void => {
+  enabled = value
+}
+
+export const isDryRun = (): boolean => enabled
+
+const findMutations = (document: string): OperationDefinitionNode[] =>
+  parse(document).definitions.filter(
+    (definition): definition is OperationDefinitionNode =>
+      definition.kind === Kind.OPERATION_DEFINITION && definition.operation === 'mutation',
+  )
+
+/**
+ * Check whether a GraphQL document contains a mutation, in any of its operations.
+ * A document that does not parse counts as a mutation, so dry runs never send it.
+ */
+export const isMutation = (document: string): boolean => {
+  if (!document.includes('mutation')) return false
+  try {
+    return findMutations(document).length > 0
+  } catch {
+    return true
+  }
+}
+
+/**
+ * Get the first field selected by the first mutation of a document (e.g. issueUpdate).
+ */
+export const getMutationField = (document: string): string => {
+  try {
+    const selection = findMutations(document)[0]?.selectionSet.selections[0]
+    return selection?.kind === Kind.FIELD ? selection.name.value : 'mutation'
+  } catch {
+    return 'mutation'
+  }
+}
+
+export interface DryRunError {
+  identifier: string
+  error: string
+}
+
+/**
+ * Print the operations a command would perform.
+ *
+ * @param errors - Items that failed validation and would be skipped (bulk commands)
+ */
+export const printDryRun = (operations: DryRunOperation[], errors: DryRunError[] = []): void => {
+  print(success({dryRun: true, operations, ...(errors.length > 0 && {errors})}))
+}
@@ -0,0 +1,218 @@
+import type {LinearClient} from '@linear/sdk'
+import {paginate, type PageConnection, type PageRequest} from './pagination.js'
+
+/**
+ * Duplicate detection for `issues find-duplicates` and the comment summary
+ * written by `issues merge`. Candidates come from Linear's full-text search
+ * and are ranked locally by how many words their title and description share
+ * with the issue being checked.
+ */
+
+export interface DuplicateCandidate {
+  id: string
+  identifier: string
+  title: string
+  url: string
+  state: {name: string; type: string} | null
+  /** Similarity from 0 (nothing in common) to 1 (same words) */
+  score: number
+  titleScore: number
+  descriptionScore: number | null
+}
+
+interface SearchResult {
+  id: string
+  identifier: string
+  title: string
+  description: string | null
+  url: string
+  state: {name: string; type: string} | null
+}
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by can do does for from has have how i if in into is it its not of on or ' +
+    'should so that the their then there this to was we were what when where which while will with you'
+  ).split(' '),
+)
+
+/** Weight of the title in the combined score when both issues have a description */
+const TITLE_WEIGHT = 0.7
+
+/**
+ * Split text into lowercase words, dropping stop words, markdown and single characters.
+ * A trailing "s" is removed so "crashes" and "crash" match.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replaceAll(/```[\s\S]*?```|https?:\/\/\S+/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+
+const termFrequencies = (words: string[]): Map<string, number> => {
+  const counts = new Map<string, number>()
+  for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1)
+  return counts
+}
+
+/**
+ * Cosine similarity of the word counts of two texts, from 0 to 1.
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const left = termFrequencies(tokenize(a))
+  const right = termFrequencies(tokenize(b))
+  if (left.size === 0 || right.size === 0) return 0
+
+  let dot = 0
+  for (const [word, count] of left) dot += count * (right.get(word) ?? 0)
+  const norm = (counts: Map<string, number>): number =>
+    Math.sqrt([...counts.values()].reduce((sum, n) => sum + n * n, 0))
+  return dot / (norm(left) * norm(right))
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Score how likely `candidate` duplicates `issue`. Titles carry most of the weight;
+ * descriptions only count when both issues have one.
+ */
+export const scoreDuplicate = (
+  issue: {title: string; description?: string | null},
+  candidate: {title: string; description?: string | null},
+): {score: number; titleScore: number; descriptionScore: number | null} => {
+  const titleScore = textSimilarity(issue.title, candidate.title)
+  if (!issue.description?.trim() || !candidate.description?.trim()) {
+    return {score: round(titleScore), titleScore: round(titleScore), descriptionScore: null}
+  }
+
+  const descriptionScore = textSimilarity(issue.description, candidate.description)
+  return {
+    score: round(TITLE_WEIGHT * titleScore + (1 - TITLE_WEIGHT) * descriptionScore),
+    titleScore: round(titleScore),
+    descriptionScore: round(descriptionScore),
+  }
+}
+
+const searchIssues = async (
+  client: LinearClient,
+  term: string,
+  filter: Record<string, unknown> | undefined,
+): Promise<SearchResult[]> => {
+  const data = await client.client.request<{searchIssues: {nodes: SearchResult[]}}, Record<string, unknown>>(
+    `query FindDuplicates($term: String!, $filter: IssueFilter, $first: Int) {
+      searchIssues(term: $term, filter: $filter, first: $first) {
+        nodes { id identifier title description url state { name type } }
+      }
+    }`,
+    {term, filter, first: 50},
+  )
+  return data.searchIssues.nodes
+}
+
+/**
+ * Search for issues resembling a title (and description) and rank them by similarity.
+ * Searches for the whole title and for its keywords, since full-text search may
+ * require every word of a longer title to match.
+ *
+ * @param options.excludeId - Issue to leave out of the results (the one being checked)
+ * @param options.minScore - Drop candidates scoring below this
+ */
+export const findDuplicateCandidates = async (
+  client: LinearClient,
+  issue: {title: string; description?: string | null},
+  options: {excludeId?: string; filter?: Record<string, unknown>; minScore: number; limit: number},
+): Promise<DuplicateCandidate[]> => {
+  // Unstemmed, so full-text search sees the words as written
+  const keywords = issue.title
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word.toLowerCase()))
+    .join(' ')
+  const terms = [...new Set([issue.title.trim(), keywords])].filter(Boolean)
+
+  const results = new Map<string, SearchResult>()
+  for (const term of terms) {
+    for (const result of await searchIssues(client, term, options.filter)) results.set(result.id, result)
+  }
+
+  return [...results.values()]
+    .filter((result) => result.id !== options.excludeId)
+    .map(({description, ...result}) => ({...result, ...scoreDuplicate(issue, {title: result.title, description})}))
+    .filter((candidate) => candidate.score >= options.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit)
+}
+
+export interface MergedComment {
+  body: string
+  createdAt: string
+  user: {name: string} | null
+}
+
+/**
+ * Fetch every comment of an issue, oldest first.
+ */
+export const fetchIssueComments = async (client: LinearClient, issueId: string): Promise<MergedComment[]> => {
+  const query = `query MergeComments($id: String!, $first: Int, $after: String) {
+    issue(id: $id) {
+      comments(first: $first, after: $after) {
+        nodes { body createdAt user { name } }
+        pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+      }
+    }
+  }`
+
+  const fetchPage = async (page: PageRequest): Promise<PageConnection<MergedComment>> => {
+    const data = await client.client.request<
+      {issue: {comments: PageConnection<MergedComment>} | null},
+      Record<string, unknown>
+    >(query, {...page, id: issueId})
+    return data.issue?.comments ?? {nodes: [], pageInfo: {hasNextPage: false, hasPreviousPage: false}}
+  }
+
+  const {data} = await paginate(fetchPage, {first: 250, all: true}, (nodes) => nodes)
+  return data.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Pick the duplicate's labels to add to the canonical issue: those it lacks that can be
+ * applied in its team (workspace labels or labels of that team).
+ *
+ * @returns Label IDs to add, and those skipped because they belong to another team
+ */
+export const selectMergedLabels = (
+  labels: Array<{id: string; team: {id: string} | null}>,
+  canonical: {teamId: string; labelIds: string[]},
+): {added: string[]; skipped: string[]} => {
+  const missing = labels.filter((label) => !canonical.labelIds.includes(label.id))
+  const applies = (label: {team: {id: string} | null}): boolean => !label.team || label.team.id === canonical.teamId
+  return {
+    added: missing.filter(applies).map((label) => label.id),
+    skipped: missing.filter((label) => !applies(label)).map((label) => label.id),
+  }
+}
+
+/**
+ * Build the comment posted on the canonical issue when a duplicate is merged into it:
+ * a header linking the duplicate, then each comment quoted with its author and date.
+ */
+export const formatMergedComments = (
+  duplicate: {identifier: string; title: string; url: string},
+  comments: MergedComment[],
+): string => {
+  const header = `Merged duplicate [${duplicate.identifier}](${duplicate.url}): ${duplicate.title}`
+  if (comments.length === 0) return header
+
+  const quoted = comments.map((comment) => {
+    const author = comment.user?.name ?? 'Unknown'
+    const date = comment.createdAt.slice(0, 10)
+    const body = comment.body
+      .split('\n')
+      .map((line) => (line ? `> ${line}` : '>'))
+      .join('\n')
+    return `> **${author}** (${date}):\n${body}`
+  })
+
+  return [header, `${comments.length} comment${comments.length === 1 ? '' : 's'}:`, ...quoted].join('\n\n')
+}
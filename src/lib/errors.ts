@@ -15,6 +15,8 @@ export const ErrorCodes = {
   // Validation errors
   INVALID_INPUT: 'INVALID_INPUT',
   MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
+  AMBIGUOUS_MATCH: 'AMBIGUOUS_MATCH',
+  CONFIRMATION_REQUIRED: 'CONFIRMATION_REQUIRED',
 
   // API errors
   API_ERROR: 'API_ERROR',
@@ -83,6 +85,13 @@ export const handleError = (err: unknown): void => {
     return
   }
 
+  // The SDK wraps errors thrown by the request layer (e.g., RATE_LIMITED) in a LinearError
+  const cause = err instanceof Error ? (err as Error & {raw?: unknown}).raw : undefined
+  if (cause instanceof CliError) {
+    cause.print()
+    return
+  }
+
   if (err instanceof Error) {
     const matched = ERROR_PATTERNS.find((pattern) => pattern.test(err.message))
     if (matched) {
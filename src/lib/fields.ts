@@ -0,0 +1,325 @@
+import type {LinearClient} from '@linear/sdk'
+import {CliError, ErrorCodes} from './errors.js'
+import {getNestedValue, type ColumnDef} from './formatter.js'
+import {createListPrinter, printItem} from './output.js'
+import {streamPages, type PageConnection, type PageRequest, type PaginationOptions} from './pagination.js'
+import type {OutputFormat} from './types.js'
+
+/**
+ * Field projection for --fields.
+ * Requested dot paths (e.g., identifier,state.name) are validated against a
+ * per-entity schema and turned into a GraphQL selection, so only the asked-for
+ * fields are fetched and returned.
+ */
+
+/**
+ * A relation (or connection) that can be selected with dot paths.
+ */
+interface RelationSchema {
+  /** Selectable scalar fields on the related entity */
+  fields: readonly string[]
+  /** Fields selected when the relation is requested without a sub-field */
+  defaults: readonly string[]
+  /** Whether the relation is a connection (selected through nodes { ... }) */
+  connection?: boolean
+}
+
+export interface FieldSchema {
+  scalars: readonly string[]
+  relations: Record<string, RelationSchema>
+}
+
+export const ISSUE_FIELDS: FieldSchema = {
+  scalars: [
+    'id',
+    'identifier',
+    'number',
+    'title',
+    'description',
+    'priority',
+    'priorityLabel',
+    'estimate',
+    'dueDate',
+    'branchName',
+    'url',
+    'createdAt',
+    'updatedAt',
+    'startedAt',
+    'completedAt',
+    'canceledAt',
+    'archivedAt',
+  ],
+  relations: {
+    state: {fields: ['id', 'name', 'type', 'color'], defaults: ['id', 'name']},
+    assignee: {fields: ['id', 'name', 'displayName', 'email'], defaults: ['id', 'name']},
+    creator: {fields: ['id', 'name', 'displayName', 'email'], defaults: ['id', 'name']},
+    team: {fields: ['id', 'key', 'name'], defaults: ['id', 'key']},
+    project: {fields: ['id', 'name', 'url', 'state'], defaults: ['id', 'name']},
+    cycle: {fields: ['id', 'number', 'name', 'startsAt', 'endsAt'], defaults: ['id', 'number']},
+    parent: {fields: ['id', 'identifier', 'title'], defaults: ['id', 'identifier']},
+    projectMilestone: {fields: ['id', 'name', 'targetDate'], defaults: ['id', 'name']},
+    labels: {fields: ['id', 'name', 'color'], defaults: ['id', 'name'], connection: true},
+  },
+}
+
+export const PROJECT_FIELDS: FieldSchema = {
+  scalars: [
+    'id',
+    'name',
+    'description',
+    'content',
+    'state',
+    'progress',
+    'startDate',
+    'targetDate',
+    'url',
+    'createdAt',
+    'updatedAt',
+    'completedAt',
+    'canceledAt',
+  ],
+  relations: {
+    lead: {fields: ['id', 'name', 'displayName', 'email'], defaults: ['id', 'name']},
+    creator: {fields: ['id', 'name', 'displayName', 'email'], defaults: ['id', 'name']},
+    teams: {fields: ['id', 'key', 'name'], defaults: ['id', 'key'], connection: true},
+    projectMilestones: {fields: ['id', 'name', 'targetDate'], defaults: ['id', 'name'], connection: true},
+  },
+}
+
+/**
+ * Parse and validate a --fields value against an entity schema.
+ * Bare relations (e.g., "state") expand to their default sub-fields.
+ *
+ * @returns Unique dot paths in the requested order
+ * @throws {CliError} When a field is unknown (INVALID_INPUT)
+ */
+export const parseFields = (input: string, schema: FieldSchema): string[] => {
+  const requested = input
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean)
+
+  if (requested.length === 0) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, 'No fields provided in --fields')
+  }
+
+  const paths: string[] = []
+  for (const field of requested) {
+    const [head, sub, ...rest] = field.split('.')
+    const relation = schema.relations[head]
+
+    if (rest.length === 0 && sub === undefined && schema.scalars.includes(head)) {
+      paths.push(head)
+    } else if (relation && sub === undefined) {
+      paths.push(...relation.defaults.map((name) => `${head}.${name}`))
+    } else if (relation && rest.length === 0 && relation.fields.includes(sub)) {
+      paths.push(field)
+    } else {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `Unknown field: ${field}`, {
+        availableFields: getAvailableFields(schema),
+      })
+    }
+  }
+
+  return [...new Set(paths)]
+}
+
+/**
+ * List every selectable dot path for an entity (used in error details).
+ */
+export const getAvailableFields = (schema: FieldSchema): string[] => {
+  return [
+    ...schema.scalars,
+    ...Object.entries(schema.relations).flatMap(([name, relation]) =>
+      relation.fields.map((field) => `${name}.${field}`),
+    ),
+  ]
+}
+
+/**
+ * Build a GraphQL selection set from validated dot paths.
+ */
+export const buildSelection = (paths: string[], schema: FieldSchema): string => {
+  const scalars: string[] = []
+  const relations = new Map<string, string[]>()
+
+  for (const path of paths) {
+    const [head, sub] = path.split('.')
+    if (sub === undefined) {
+      scalars.push(head)
+    } else {
+      relations.set(head, [...(relations.get(head) ?? []), sub])
+    }
+  }
+
+  const parts = [...scalars]
+  for (const [name, fields] of relations) {
+    const inner = fields.join(' ')
+    parts.push(schema.relations[name].connection ? `${name} { nodes { ${inner} } }` : `${name} { ${inner} }`)
+  }
+
+  return parts.join(' ')
+}
+
+/**
+ * Unwrap connection fields ({nodes: [...]}) into plain arrays.
+ */
+export const projectNode = (node: Record<string, unknown>, schema: FieldSchema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(node)) {
+    const relation = schema.relations[key]
+    if (relation?.connection && value && typeof value === 'object' && 'nodes' in value) {
+      result[key] = (value as {nodes: unknown[]}).nodes
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * Render a projected value for table/plain output.
+ * Arrays of related entities are joined by their requested field.
+ */
+const formatFieldValue = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (item && typeof item === 'object' ? Object.values(item).join(' ') : String(item)))
+      .join(', ')
+  }
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
+
+/**
+ * Build table columns for projected fields.
+ * Connection sub-fields share a single column (e.g., labels.name -> LABELS).
+ */
+export const fieldColumns = (paths: string[], schema: FieldSchema): ColumnDef<Record<string, unknown>>[] => {
+  const columns: ColumnDef<Record<string, unknown>>[] = []
+  const seen = new Set<string>()
+
+  for (const path of paths) {
+    const [head] = path.split('.')
+    const key = schema.relations[head]?.connection ? head : path
+    if (seen.has(key)) continue
+    seen.add(key)
+    columns.push({
+      key,
+      header: key.toUpperCase(),
+      format: (value) => formatFieldValue(value),
+    })
+  }
+
+  return columns
+}
+
+const PAGE_INFO_SELECTION = 'pageInfo { hasNextPage hasPreviousPage startCursor endCursor }'
+
+/**
+ * Fetch one page of a root connection with a projected selection.
+ * Suitable as the fetchPage callback of streamPages/paginate.
+ */
+export const fetchProjectedPage = async (
+  client: LinearClient,
+  options: {
+    /** Root connection field (e.g., issues) */
+    connection: string
+    /** GraphQL filter input type (e.g., IssueFilter) */
+    filterType: string
+    filter?: unknown
+    paths: string[]
+    schema: FieldSchema
+  },
+  page: PageRequest,
+): Promise<PageConnection<Record<string, unknown>>> => {
+  const selection = buildSelection(options.paths, options.schema)
+  const query = `query ProjectedList($filter: ${options.filterType}, $first: Int, $after: String) {
+    ${options.connection}(filter: $filter, first: $first, after: $after) { nodes { ${selection} } ${PAGE_INFO_SELECTION} }
+  }`
+
+  const data = await client.client.request<
+    Record<string, PageConnection<Record<string, unknown>>>,
+    Record<string, unknown>
+  >(query, {filter: options.filter, first: page.first, after: page.after})
+
+  const result = data[options.connection]
+  return {
+    nodes: result.nodes.map((node) => projectNode(node, options.schema)),
+    pageInfo: result.pageInfo,
+  }
+}
+
+/**
+ * Fetch a single entity by ID with a projected selection.
+ *
+ * @returns The projected record, or null when not found
+ */
+export const fetchProjectedItem = async (
+  client: LinearClient,
+  options: {
+    /** Root field for a single entity (e.g., issue) */
+    entity: string
+    id: string
+    paths: string[]
+    schema: FieldSchema
+  },
+): Promise<Record<string, unknown> | null> => {
+  const selection = buildSelection(options.paths, options.schema)
+  const query = `query ProjectedItem($id: String!) { ${options.entity}(id: $id) { ${selection} } }`
+
+  const data = await client.client.request<Record<string, Record<string, unknown> | null>, Record<string, unknown>>(
+    query,
+    {id: options.id},
+  )
+
+  const node = data[options.entity]
+  return node ? projectNode(node, options.schema) : null
+}
+
+/**
+ * Stream a projected list through the shared list printer.
+ * Table columns and CSV headers follow the requested field order.
+ */
+export const printProjectedList = async (
+  client: LinearClient,
+  format: OutputFormat,
+  pagination: PaginationOptions,
+  options: {
+    connection: string
+    filterType: string
+    filter?: unknown
+    fields: string
+    schema: FieldSchema
+  },
+): Promise<void> => {
+  const paths = parseFields(options.fields, options.schema)
+  const columns = fieldColumns(paths, options.schema)
+  const printer = createListPrinter<Record<string, unknown>>(format, {
+    columns,
+    primaryKey: columns[0].key,
+    secondaryKey: columns[1]?.key,
+    fields: columns.map((column) => String(column.key)),
+  })
+
+  const pageInfo = await streamPages(
+    (page) => fetchProjectedPage(client, {...options, paths}, page),
+    pagination,
+    (nodes) => nodes,
+    printer.write,
+  )
+
+  printer.end(pageInfo)
+}
+
+/**
+ * Print a projected record; plain output is the first requested field.
+ */
+export const printProjectedItem = (data: Record<string, unknown>, format: OutputFormat, paths: string[]): void => {
+  if (format === 'plain') {
+    console.log(formatFieldValue(getNestedValue(data, paths[0])))
+    return
+  }
+  printItem(data, format)
+}
@@ -1,6 +1,6 @@
 import Table from 'cli-table3'
 import pc from 'picocolors'
-import type {OutputFormat} from './types.js'
+import type {DelimitedFormat, OutputFormat} from './types.js'
 
 /**
  * Check if colors should be disabled.
@@ -102,9 +102,10 @@ export const formatPlain = <T extends Record<string, unknown>>(
 
   return data
     .map((item) => {
-      const primary = String(item[primaryKey] ?? '')
-      if (secondaryKey && item[secondaryKey]) {
-        return `${primary}\t${String(item[secondaryKey])}`
+      const primary = String(getNestedValue(item, String(primaryKey)) ?? '')
+      const secondary = secondaryKey ? getNestedValue(item, String(secondaryKey)) : undefined
+      if (secondary) {
+        return `${primary}\t${String(secondary)}`
       }
       return primary
     })
@@ -158,7 +159,7 @@ export const formatKeyValue = (data: Record<string, unknown>): string => {
 /**
  * Get nested value from object using dot notation.
  */
-const getNestedValue = (obj: Record<string, unknown>, path: string): unknown => {
+export const getNestedValue = (obj: Record<string, unknown>, path: string): unknown => {
   return path.split('.').reduce((acc: unknown, part) => {
     if (acc && typeof acc === 'object') {
       return (acc as Record<string, unknown>)[part]
@@ -167,6 +168,101 @@ const getNestedValue = (obj: Record<string, unknown>, path: string): unknown =>
   }, obj)
 }
 
+/**
+ * Check if a value is a plain object that should be flattened into dot paths.
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * Collect the dot-notation field paths of a list of records.
+ * Nested objects are flattened (e.g., state.name); arrays are kept as a single field.
+ * Paths are returned in first-seen order across all records.
+ */
+export const getFieldPaths = (data: Record<string, unknown>[]): string[] => {
+  const paths = new Set<string>()
+
+  const walk = (obj: Record<string, unknown>, prefix: string): void => {
+    for (const [key, value] of Object.entries(obj)) {
+      const path = prefix ? `${prefix}.${key}` : key
+      if (isPlainObject(value) && Object.keys(value).length > 0) {
+        walk(value, path)
+      } else {
+        paths.add(path)
+      }
+    }
+  }
+
+  for (const record of data) {
+    walk(record, '')
+  }
+
+  // Drop leaves that are objects in other records (e.g., assignee: null vs assignee.email)
+  const all = [...paths]
+  return all.filter((path) => !all.some((other) => other.startsWith(`${path}.`)))
+}
+
+/**
+ * Serialize a single cell value for delimited output.
+ */
+const formatCell = (value: unknown, format: DelimitedFormat): string => {
+  let text: string
+  if (value === null || value === undefined) {
+    text = ''
+  } else if (value instanceof Date) {
+    text = value.toISOString()
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value)
+  } else {
+    text = String(value)
+  }
+
+  if (format === 'tsv') {
+    return text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r')
+  }
+
+  // RFC 4180: quote fields containing delimiters, quotes or line breaks
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Format data as CSV or TSV rows.
+ * Columns default to the flattened field paths of the data.
+ */
+export const formatDelimited = (
+  data: Record<string, unknown>[],
+  format: DelimitedFormat,
+  options: {
+    fields?: string[]
+    header?: boolean
+  } = {},
+): string => {
+  const fields = options.fields ?? getFieldPaths(data)
+  const separator = format === 'csv' ? ',' : '\t'
+  const lines: string[] = []
+
+  if (options.header ?? true) {
+    lines.push(fields.map((field) => formatCell(field, format)).join(separator))
+  }
+
+  for (const row of data) {
+    lines.push(fields.map((field) => formatCell(getNestedValue(row, field), format)).join(separator))
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Format data as newline-delimited JSON (one record per line).
+ */
+export const formatNdjson = (data: unknown[]): string => {
+  return data.map((item) => JSON.stringify(item)).join('\n')
+}
+
 /**
  * Priority label formatter with colors.
  */
@@ -224,6 +320,14 @@ export const formatOutput = <T extends Record<string, unknown>>(
     return JSON.stringify(Array.isArray(data) ? data : data, null, 2)
   }
 
+  if (format === 'ndjson') {
+    return formatNdjson(Array.isArray(data) ? data : [data])
+  }
+
+  if (format === 'csv' || format === 'tsv') {
+    return formatDelimited(Array.isArray(data) ? data : [data], format)
+  }
+
   if (format === 'plain') {
     if (Array.isArray(data)) {
       return formatPlain(data, options.primaryKey, options.secondaryKey)
@@ -0,0 +1,69 @@
+import {existsSync, readFileSync} from 'node:fs'
+import {Flags} from '@oclif/core'
+import {CORE_SCHEMA, load} from 'js-yaml'
+import {CliError, ErrorCodes} from './errors.js'
+
+/**
+ * Read a text file given on the command line, or stdin for "-".
+ * @throws {CliError} NOT_FOUND when the file does not exist
+ */
+export const readInputFile = (path: string): string => {
+  if (path === '-') return readFileSync(0, 'utf-8')
+
+  if (!existsSync(path)) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `File not found: ${path}`)
+  }
+  return readFileSync(path, 'utf-8')
+}
+
+/**
+ * Parse JSON or YAML text (JSON is a subset of YAML).
+ * The core schema keeps dates like 2025-03-01 as strings.
+ *
+ * @param kind - What the text holds, for error messages (e.g. "plan")
+ * @throws {CliError} INVALID_INPUT on syntax errors
+ */
+export const parseDataFile = (text: string, kind: string): unknown => {
+  try {
+    return load(text, {schema: CORE_SCHEMA})
+  } catch (err) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, `Invalid ${kind}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Flag that reads a markdown field from a file, e.g. --body-file next to --body.
+ *
+ * @param field - Name of the inline flag it replaces
+ * @param what - What the file holds, for the help text (e.g. "comment body")
+ */
+export const markdownFileFlag = (field: string, what: string) =>
+  Flags.string({
+    description: `Read the ${what} from a markdown file (- for stdin)`,
+    exclusive: [field],
+  })
+
+/**
+ * Get a markdown field from its inline flag, or from the file given to its file flag.
+ */
+export const readMarkdown = (inline: string | undefined, file: string | undefined): string | undefined =>
+  file === undefined ? inline : readInputFile(file)
+
+/**
+ * Split YAML front-matter (between --- lines at the top) from a markdown document.
+ * Documents without front-matter are returned unchanged with empty data.
+ *
+ * @throws {CliError} INVALID_INPUT when the front-matter is not a YAML mapping
+ */
+export const parseFrontMatter = (text: string): {data: Record<string, unknown>; body: string} => {
+  const match = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/.exec(text)
+  if (!match) return {data: {}, body: text}
+
+  const data = parseDataFile(match[1] ?? '', 'front-matter') ?? {}
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, 'Front-matter must be a YAML mapping (key: value lines)')
+  }
+
+  // Blank lines between the front-matter and the body are dropped
+  return {data: data as Record<string, unknown>, body: text.slice(match[0].length).replace(/^(?:[ \t]*\r?\n)+/, '')}
+}
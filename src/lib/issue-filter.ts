@@ -0,0 +1,230 @@
+import {Flags} from '@oclif/core'
+import type {LinearClient, LinearDocument} from '@linear/sdk'
+import {DEFAULT_CONCURRENCY, mapWithConcurrency} from './bulk.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {resolveIssueId} from './issue-utils.js'
+import {MAX_PAGINATED_ITEMS, paginate} from './pagination.js'
+
+type IssueFilter = LinearDocument.IssueFilter
+
+/**
+ * Filter shorthands shared by issues list and the bulk commands.
+ */
+export interface IssueFilterOptions {
+  /** IssueFilter JSON */
+  filter?: string
+  /** Team key (e.g., ENG) */
+  team?: string
+  /** Exact state name */
+  state?: string
+  /** User ID or "me" */
+  assignee?: string
+}
+
+/**
+ * Build an IssueFilter from a JSON filter plus the --team/--state/--assignee shorthands.
+ * Shorthands override the matching keys of the JSON filter.
+ *
+ * @param flagName - Flag holding the JSON, used in error messages
+ */
+export const buildIssueFilter = async (
+  client: LinearClient,
+  options: IssueFilterOptions,
+  flagName = '--filter',
+): Promise<IssueFilter> => {
+  let filter: IssueFilter = {}
+
+  if (options.filter) {
+    try {
+      filter = JSON.parse(options.filter) as IssueFilter
+    } catch {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `Invalid JSON in ${flagName} flag`)
+    }
+  }
+
+  if (options.team) {
+    filter.team = {key: {eq: options.team}}
+  }
+
+  if (options.assignee) {
+    if (options.assignee === 'me') {
+      const viewer = await client.viewer
+      filter.assignee = {id: {eq: viewer.id}}
+    } else {
+      filter.assignee = {id: {eq: options.assignee}}
+    }
+  }
+
+  if (options.state) {
+    filter.state = {name: {eq: options.state}}
+  }
+
+  return filter
+}
+
+/**
+ * Flags for selecting the issues a bulk command acts on, as an alternative to --ids.
+ * The shorthands are prefixed because the bulk commands use --state/--assignee for new values.
+ */
+export const issueSelectionFlags = {
+  where: Flags.string({
+    description: 'Act on every issue matching this IssueFilter JSON',
+    helpGroup: 'SELECTION',
+  }),
+  'where-team': Flags.string({
+    description: 'Act on issues of this team key (e.g., ENG)',
+    helpGroup: 'SELECTION',
+  }),
+  'where-state': Flags.string({
+    description: 'Act on issues in this state (e.g., "In Review")',
+    helpGroup: 'SELECTION',
+  }),
+  'where-assignee': Flags.string({
+    description: 'Act on issues assigned to this user ID or "me"',
+    helpGroup: 'SELECTION',
+  }),
+  confirm: Flags.integer({
+    description: 'Exact number of issues the filter must match',
+    helpGroup: 'SELECTION',
+    min: 0,
+  }),
+  max: Flags.integer({
+    description: 'Maximum number of issues the filter may match',
+    helpGroup: 'SELECTION',
+    min: 1,
+  }),
+}
+
+/** Issue flags that select issues by filter */
+export const ISSUE_SELECTION_FILTER_FLAGS = ['where', 'where-team', 'where-state', 'where-assignee']
+
+export interface IssueSelectionFlags {
+  where?: string
+  'where-team'?: string
+  'where-state'?: string
+  'where-assignee'?: string
+  confirm?: number
+  max?: number
+}
+
+/**
+ * Check whether any of the --where flags were given.
+ */
+export const hasIssueSelection = (flags: IssueSelectionFlags): boolean => {
+  return Boolean(flags.where || flags['where-team'] || flags['where-state'] || flags['where-assignee'])
+}
+
+export interface SelectedIssue {
+  id: string
+  identifier: string
+}
+
+/**
+ * Fetch every issue matching the --where flags.
+ * @throws {CliError} INVALID_INPUT when the filter matches more issues than can be fetched
+ */
+export const selectIssues = async (client: LinearClient, flags: IssueSelectionFlags): Promise<SelectedIssue[]> => {
+  const filter = await buildIssueFilter(
+    client,
+    {
+      filter: flags.where,
+      team: flags['where-team'],
+      state: flags['where-state'],
+      assignee: flags['where-assignee'],
+    },
+    '--where',
+  )
+
+  const {data} = await paginate(
+    (page) => client.issues({filter, ...page}),
+    {first: 250, limit: MAX_PAGINATED_ITEMS + 1},
+    (nodes) => nodes.map((issue) => ({id: issue.id, identifier: issue.identifier})),
+  )
+
+  if (data.length > MAX_PAGINATED_ITEMS) {
+    throw new CliError(
+      ErrorCodes.INVALID_INPUT,
+      `Filter matches more than ${MAX_PAGINATED_ITEMS} issues. Narrow it down with --where.`,
+    )
+  }
+
+  return data
+}
+
+export interface BulkTarget {
+  identifier: string
+  id: string | null
+  error: string | null
+}
+
+/**
+ * Resolve the issues a bulk command acts on, from --ids or the --where flags.
+ * Identifiers that fail to resolve are returned with an error instead of throwing.
+ */
+export const resolveBulkTargets = async (
+  client: LinearClient,
+  flags: IssueSelectionFlags & {ids?: string; concurrency?: number},
+): Promise<BulkTarget[]> => {
+  if (hasIssueSelection(flags)) {
+    const issues = await selectIssues(client, flags)
+    return issues.map(({id, identifier}) => ({identifier, id, error: null}))
+  }
+
+  if (flags.ids === undefined) {
+    throw new CliError(
+      ErrorCodes.MISSING_REQUIRED_FIELD,
+      'Select issues with --ids or --where (or --where-team, --where-state, --where-assignee)',
+    )
+  }
+
+  const identifiers = flags.ids
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  if (identifiers.length === 0) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, 'No issue IDs provided')
+  }
+
+  return mapWithConcurrency(identifiers, flags.concurrency ?? DEFAULT_CONCURRENCY, async (identifier) => {
+    try {
+      const id = await resolveIssueId(client, identifier)
+      return {identifier, id, error: null}
+    } catch (err) {
+      return {identifier, id: null, error: err instanceof Error ? err.message : 'Unknown error'}
+    }
+  })
+}
+
+/**
+ * Guard a bulk change against filters that match more issues than expected.
+ * A filter selection requires --confirm (exact count) or --max (upper bound).
+ *
+ * @param required - Whether one of the guards must be given (filter selections)
+ * @throws {CliError} CONFIRMATION_REQUIRED with the matched count
+ */
+export const checkAffectedCount = (count: number, guard: {confirm?: number; max?: number}, required: boolean): void => {
+  if (guard.confirm !== undefined && guard.confirm !== count) {
+    throw new CliError(
+      ErrorCodes.CONFIRMATION_REQUIRED,
+      `Expected ${guard.confirm} issues but the selection matches ${count}. Nothing was changed.`,
+      {matched: count},
+    )
+  }
+
+  if (guard.max !== undefined && count > guard.max) {
+    throw new CliError(
+      ErrorCodes.CONFIRMATION_REQUIRED,
+      `Selection matches ${count} issues, more than --max ${guard.max}. Nothing was changed.`,
+      {matched: count},
+    )
+  }
+
+  if (required && guard.confirm === undefined && guard.max === undefined) {
+    throw new CliError(
+      ErrorCodes.CONFIRMATION_REQUIRED,
+      `Filter matches ${count} issues. Re-run with --confirm ${count} (or --max N) to apply the change.`,
+      {matched: count},
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import type {LinearClient} from '@linear/sdk'
+import {fetchAllNodes} from './cache.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {colors} from './formatter.js'
+
+/**
+ * Sub-issue hierarchies. Children are fetched one level at a time with a
+ * parent filter, so a whole tree takes one paginated query per level.
+ */
+
+export interface IssueSummary {
+  id: string
+  identifier: string
+  title: string
+  priority: number
+  url: string
+  state: {name: string; type: string} | null
+  assignee: {id: string; name: string} | null
+  parentId: string | null
+}
+
+export interface IssueTreeNode extends IssueSummary {
+  children: IssueTreeNode[]
+}
+
+const ISSUE_SUMMARY_SELECTION =
+  'id identifier title priority url state { name type } assignee { id name } parent { id }'
+
+/** Parent IDs per query, to keep the filter small */
+const PARENT_BATCH_SIZE = 50
+
+interface RawIssueSummary extends Omit<IssueSummary, 'parentId'> {
+  parent: {id: string} | null
+}
+
+const toIssueSummary = ({parent, ...issue}: RawIssueSummary): IssueSummary => ({...issue, parentId: parent?.id ?? null})
+
+/**
+ * Fetch an issue with the fields shown in hierarchy views.
+ * @throws {CliError} NOT_FOUND when the issue does not exist
+ */
+export const fetchIssueSummary = async (client: LinearClient, issueId: string): Promise<IssueSummary> => {
+  const data = await client.client.request<{issue: RawIssueSummary | null}, Record<string, unknown>>(
+    `query IssueSummary($id: String!) { issue(id: $id) { ${ISSUE_SUMMARY_SELECTION} } }`,
+    {id: issueId},
+  )
+  if (!data.issue) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${issueId} not found`)
+  }
+  return toIssueSummary(data.issue)
+}
+
+/**
+ * Fetch the direct children of one or more issues, in creation order.
+ */
+export const fetchChildIssues = async (client: LinearClient, parentIds: string[]): Promise<IssueSummary[]> => {
+  const children: IssueSummary[] = []
+  for (let start = 0; start < parentIds.length; start += PARENT_BATCH_SIZE) {
+    const nodes = await fetchAllNodes<RawIssueSummary>(client, 'issues', ISSUE_SUMMARY_SELECTION, {
+      type: 'IssueFilter',
+      value: {parent: {id: {in: parentIds.slice(start, start + PARENT_BATCH_SIZE)}}},
+    })
+    children.push(...nodes.map((node) => toIssueSummary(node)))
+  }
+  return children
+}
+
+/**
+ * Fetch an issue and its sub-issues, nested.
+ *
+ * @param depth - Levels of sub-issues to include (default: all)
+ */
+export const fetchIssueTree = async (
+  client: LinearClient,
+  issueId: string,
+  depth = Number.POSITIVE_INFINITY,
+): Promise<IssueTreeNode> => {
+  const root: IssueTreeNode = {...(await fetchIssueSummary(client, issueId)), children: []}
+  const nodes = new Map([[root.id, root]])
+  let level = [root]
+
+  for (let current = 0; current < depth && level.length > 0; current++) {
+    const children = await fetchChildIssues(
+      client,
+      level.map((node) => node.id),
+    )
+    level = []
+    for (const child of children) {
+      const parent = child.parentId ? nodes.get(child.parentId) : undefined
+      if (!parent || nodes.has(child.id)) continue
+
+      const node = {...child, children: []}
+      parent.children.push(node)
+      nodes.set(node.id, node)
+      level.push(node)
+    }
+  }
+
+  return root
+}
+
+/**
+ * Count the sub-issues below a node, and how many of them are completed or canceled.
+ */
+export const countDescendants = (node: IssueTreeNode): {total: number; closed: number} =>
+  node.children.reduce(
+    (counts, child) => {
+      const below = countDescendants(child)
+      const closed = child.state?.type === 'completed' || child.state?.type === 'canceled'
+      return {total: counts.total + 1 + below.total, closed: counts.closed + (closed ? 1 : 0) + below.closed}
+    },
+    {total: 0, closed: 0},
+  )
+
+/**
+ * Render a tree as indented ASCII lines, e.g. for --format table:
+ *
+ *   ENG-1 Epic [In Progress]
+ *   ├── ENG-2 Task [Done]
+ *   └── ENG-3 Task [Todo]
+ */
+export const formatIssueTree = (root: IssueTreeNode): string => {
+  const label = (node: IssueTreeNode): string =>
+    `${colors.cyan(node.identifier)} ${node.title}${node.state ? ` ${colors.dim(`[${node.state.name}]`)}` : ''}`
+
+  const lines = [label(root)]
+  const walk = (node: IssueTreeNode, prefix: string): void => {
+    for (const [index, child] of node.children.entries()) {
+      const last = index === node.children.length - 1
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${label(child)}`)
+      walk(child, `${prefix}${last ? '    ' : '│   '}`)
+    }
+  }
+  walk(root, '')
+
+  return lines.join('\n')
+}
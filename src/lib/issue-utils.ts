@@ -1,5 +1,6 @@
 import type {LinearClient} from '@linear/sdk'
 import {CliError, ErrorCodes} from './errors.js'
+import {findCachedTeamByKey} from './cache.js'
 
 /**
  * Parse an issue identifier (e.g., ENG-123) into team key and number.
@@ -41,18 +42,13 @@ export const resolveIssueId = async (client: LinearClient, idOrIdentifier: strin
     )
   }
 
-  // Find the team by key
-  const teams = await client.teams({
-    filter: {key: {eq: parsed.teamKey}},
-    first: 1,
-  })
+  // Find the team by key (served from the local cache when fresh)
+  const team = await findCachedTeamByKey(client, parsed.teamKey)
 
-  if (teams.nodes.length === 0) {
+  if (!team) {
     throw new CliError(ErrorCodes.NOT_FOUND, `Team with key "${parsed.teamKey}" not found`)
   }
 
-  const team = teams.nodes[0]
-
   // Find the issue by team and number
   const issues = await client.issues({
     filter: {
@@ -68,3 +64,63 @@ export const resolveIssueId = async (client: LinearClient, idOrIdentifier: strin
 
   return issues.nodes[0].id
 }
+
+/**
+ * Issue fields accepted in the front-matter of an issue description file.
+ */
+export interface IssueFrontMatter {
+  title?: string
+  team?: string
+  state?: string
+  assignee?: string
+  labels?: string[]
+  project?: string
+  cycle?: string
+  priority?: number
+  estimate?: number
+  dueDate?: string
+}
+
+const FRONT_MATTER_STRINGS = ['title', 'team', 'state', 'assignee', 'project', 'cycle', 'dueDate'] as const
+const FRONT_MATTER_INTEGERS = ['priority', 'estimate'] as const
+
+/**
+ * Validate the front-matter of an issue description file.
+ * Labels may be a list or a comma-separated string.
+ *
+ * @throws {CliError} INVALID_INPUT for unknown fields and values of the wrong type
+ */
+export const parseIssueFrontMatter = (data: Record<string, unknown>): IssueFrontMatter => {
+  const supported: string[] = [...FRONT_MATTER_STRINGS, ...FRONT_MATTER_INTEGERS, 'labels']
+  const result: IssueFrontMatter = {}
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!supported.includes(key)) {
+      throw new CliError(
+        ErrorCodes.INVALID_INPUT,
+        `Unknown front-matter field "${key}". Supported fields: ${supported.join(', ')}`,
+      )
+    }
+    if (value === null || value === undefined) continue
+
+    if ((FRONT_MATTER_STRINGS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new CliError(ErrorCodes.INVALID_INPUT, `Front-matter field "${key}" must be a string`)
+      }
+      result[key as (typeof FRONT_MATTER_STRINGS)[number]] = String(value)
+    } else if ((FRONT_MATTER_INTEGERS as readonly string[]).includes(key)) {
+      if (!Number.isInteger(value)) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, `Front-matter field "${key}" must be an integer`)
+      }
+      result[key as (typeof FRONT_MATTER_INTEGERS)[number]] = value as number
+    } else {
+      const labels = typeof value === 'string' ? value.split(',') : value
+      if (!Array.isArray(labels) || !labels.every((label) => typeof label === 'string')) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, 'Front-matter field "labels" must be a list of label names')
+      }
+      result.labels = labels.map((label) => label.trim()).filter(Boolean)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,308 @@
+import {randomBytes} from 'node:crypto'
+import {appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync} from 'node:fs'
+import {join} from 'node:path'
+import {Flags} from '@oclif/core'
+import type {LinearClient} from '@linear/sdk'
+import {isDryRun} from './dry-run.js'
+import {getConfigDir, getProfileName} from './config.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {checkAffectedCount, hasIssueSelection, resolveBulkTargets, type IssueSelectionFlags} from './issue-filter.js'
+
+/**
+ * Journals for bulk commands.
+ * Each job is an append-only NDJSON file: a header with the command, the auth
+ * profile and its issues, then one line per finished issue, then an end line. A crash leaves
+ * the file without an end line, and `linear jobs resume` re-runs the command
+ * for every issue that has not succeeded yet.
+ */
+
+export type JobItemStatus = 'pending' | 'succeeded' | 'failed'
+export type JobStatus = 'incomplete' | 'completed' | 'completed_with_errors'
+
+export interface JobItem {
+  identifier: string
+  /** Issue ID, or null when the identifier could not be resolved */
+  id: string | null
+  status: JobItemStatus
+  error?: string
+}
+
+export interface JobState {
+  id: string
+  /** oclif command ID, e.g. issues:bulk-update */
+  command: string
+  /** Arguments the command was started with */
+  argv: string[]
+  /** Auth profile the job was started with (missing in journals of older versions) */
+  profile?: string
+  createdAt: string
+  updatedAt: string
+  status: JobStatus
+  total: number
+  succeeded: number
+  failed: number
+  pending: number
+  items: JobItem[]
+}
+
+export type JobSummary = Omit<JobState, 'argv' | 'items'>
+
+/**
+ * Target of a bulk command, with its position in the job.
+ */
+export interface JobTarget {
+  index: number
+  identifier: string
+  id: string | null
+  error: string | null
+}
+
+type JournalLine =
+  | {type: 'job'; id: string; command: string; argv: string[]; profile?: string; createdAt: string; items: JobItem[]}
+  | {type: 'item'; index: number; status: JobItemStatus; error?: string; at: string}
+  | {type: 'end'; at: string}
+
+/**
+ * Hidden flag `linear jobs resume` uses to continue a job.
+ */
+export const jobFlags = {
+  job: Flags.string({
+    description: 'Continue the bulk job with this ID (see "linear jobs resume")',
+    hidden: true,
+  }),
+}
+
+/**
+ * Get the directory holding job journals.
+ */
+export const getJobsDir = (): string => join(getConfigDir(), 'jobs')
+
+const getJobFile = (id: string): string => {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, `Invalid job ID: ${id}`)
+  }
+  return join(getJobsDir(), `${id}.ndjson`)
+}
+
+/**
+ * Create a sortable local ID (e.g., 20250301T101500-a1b2c3).
+ */
+export const createTimestampId = (): string => {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)
+  return `${timestamp}-${randomBytes(3).toString('hex')}`
+}
+
+const appendLine = (id: string, line: JournalLine): void => {
+  appendFileSync(getJobFile(id), JSON.stringify(line) + '\n', {mode: 0o600})
+}
+
+/**
+ * Journal handle used by a running bulk command.
+ */
+export interface Journal {
+  id: string
+  /** Record a finished item by its position in the job */
+  record(index: number, result: {success: boolean; error?: string}): void
+  /** Mark the job as finished */
+  end(): void
+}
+
+const openJournal = (id: string): Journal => ({
+  id,
+  record(index, result) {
+    appendLine(id, {
+      type: 'item',
+      index,
+      status: result.success ? 'succeeded' : 'failed',
+      ...(result.error && {error: result.error}),
+      at: new Date().toISOString(),
+    })
+  },
+  end() {
+    appendLine(id, {type: 'end', at: new Date().toISOString()})
+  },
+})
+
+/**
+ * Start a journal for a bulk command.
+ * Identifiers that failed to resolve are recorded as failed right away.
+ */
+export const createJob = (
+  command: string,
+  argv: string[],
+  targets: Array<{identifier: string; id: string | null; error: string | null}>,
+): Journal => {
+  mkdirSync(getJobsDir(), {recursive: true, mode: 0o700})
+
+  const id = createTimestampId()
+  writeFileSync(
+    getJobFile(id),
+    JSON.stringify({
+      type: 'job',
+      id,
+      command,
+      argv,
+      profile: getProfileName(),
+      createdAt: new Date().toISOString(),
+      items: targets.map(({identifier, id: issueId, error}) => ({
+        identifier,
+        id: issueId,
+        status: error || !issueId ? 'failed' : 'pending',
+        ...(error && {error}),
+      })),
+    } satisfies JournalLine) + '\n',
+    {mode: 0o600},
+  )
+
+  return openJournal(id)
+}
+
+/**
+ * Read a job and replay its journal into the current item states.
+ * @throws {CliError} NOT_FOUND when the job does not exist
+ */
+export const readJob = (id: string): JobState => {
+  const file = getJobFile(id)
+  if (!existsSync(file)) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `Job ${id} not found`)
+  }
+
+  const lines: JournalLine[] = []
+  for (const text of readFileSync(file, 'utf-8').split('\n')) {
+    if (!text.trim()) continue
+    try {
+      lines.push(JSON.parse(text) as JournalLine)
+    } catch {
+      // A line cut off by a crash is ignored; its item stays pending
+    }
+  }
+
+  const header = lines[0]
+  if (header?.type !== 'job') {
+    throw new CliError(ErrorCodes.CONFIG_ERROR, `Job ${id} has a corrupted journal`)
+  }
+
+  const items = header.items.map((item) => ({...item}))
+  let updatedAt = header.createdAt
+  let ended = false
+
+  for (const line of lines.slice(1)) {
+    if (line.type === 'item' && items[line.index]) {
+      const {identifier, id: issueId} = items[line.index]
+      items[line.index] = {identifier, id: issueId, status: line.status, ...(line.error && {error: line.error})}
+      // Items recorded after an end line come from a resume
+      ended = false
+      updatedAt = line.at
+    } else if (line.type === 'end') {
+      ended = true
+      updatedAt = line.at
+    }
+  }
+
+  const count = (status: JobItemStatus) => items.filter((item) => item.status === status).length
+  const failed = count('failed')
+
+  return {
+    id: header.id,
+    command: header.command,
+    argv: header.argv,
+    ...(header.profile && {profile: header.profile}),
+    createdAt: header.createdAt,
+    updatedAt,
+    status: !ended ? 'incomplete' : failed > 0 ? 'completed_with_errors' : 'completed',
+    total: items.length,
+    succeeded: count('succeeded'),
+    failed,
+    pending: count('pending'),
+    items,
+  }
+}
+
+/**
+ * List all jobs, newest first.
+ * Journals that cannot be read (e.g. a header cut off by a crash) are skipped with a warning on stderr.
+ */
+export const listJobs = (): JobSummary[] => {
+  const dir = getJobsDir()
+  if (!existsSync(dir)) return []
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.ndjson'))
+    .flatMap((file) => {
+      const id = file.slice(0, -'.ndjson'.length)
+      try {
+        const {argv: _argv, items: _items, ...summary} = readJob(id)
+        return [summary]
+      } catch (err) {
+        process.stderr.write(
+          `Warning: skipping job ${id}: ${err instanceof Error ? err.message : 'unreadable journal'}\n`,
+        )
+        return []
+      }
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Reopen a job for `linear jobs resume`.
+ * Pending and failed items are retried; identifiers that never resolved are not.
+ *
+ * @returns The journal and the targets still to process
+ */
+export const resumeJob = (id: string): {journal: Journal; targets: JobTarget[]} => {
+  const job = readJob(id)
+
+  const targets = job.items.flatMap((item, index) =>
+    item.status !== 'succeeded' && item.id ? [{index, identifier: item.identifier, id: item.id, error: null}] : [],
+  )
+
+  return {journal: openJournal(job.id), targets}
+}
+
+/**
+ * Arguments that pin a resumed job to the profile it was started with, so it runs
+ * against the same workspace whichever profile is active now.
+ *
+ * @param requested - Profile given with --profile to `linear jobs resume`
+ * @throws {CliError} INVALID_INPUT when --profile names another profile
+ */
+export const resumeProfileArgs = (job: JobState, requested: string | undefined): string[] => {
+  if (!job.profile) return []
+
+  if (requested && requested !== job.profile) {
+    throw new CliError(
+      ErrorCodes.INVALID_INPUT,
+      `Job ${job.id} was started with profile "${job.profile}", not "${requested}". Resume it without --profile.`,
+    )
+  }
+
+  const pinned = job.argv.some((arg) => arg === '--profile' || arg.startsWith('--profile='))
+  return pinned ? [] : ['--profile', job.profile]
+}
+
+/**
+ * Select the issues for a bulk command and open its journal.
+ * With --job the targets come from the journal instead, so a resumed job acts
+ * on the same issues even when a --where filter would now match different ones.
+ * Dry runs are not journaled.
+ */
+export const startBulkJob = async (
+  client: LinearClient,
+  command: {id: string; argv: string[]},
+  flags: IssueSelectionFlags & {ids?: string; concurrency?: number; job?: string},
+): Promise<{targets: JobTarget[]; journal?: Journal}> => {
+  if (flags.job) {
+    const {journal, targets} = resumeJob(flags.job)
+    return {targets, journal: isDryRun() ? undefined : journal}
+  }
+
+  const resolved = await resolveBulkTargets(client, flags)
+  checkAffectedCount(resolved.length, flags, hasIssueSelection(flags) && !isDryRun())
+
+  const targets = resolved.map((target, index) => ({...target, index}))
+  if (isDryRun()) return {targets}
+
+  const journal = createJob(command.id, command.argv, targets)
+  process.stderr.write(`Started job ${journal.id} (resume with "linear jobs resume ${journal.id}")\n`)
+  return {targets, journal}
+}
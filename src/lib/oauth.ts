@@ -0,0 +1,296 @@
+import {createHash, randomBytes} from 'node:crypto'
+import {createServer} from 'node:http'
+import type {AddressInfo} from 'node:net'
+import {CliError, ErrorCodes} from './errors.js'
+
+/**
+ * OAuth2 authorization-code login with PKCE for a registered Linear OAuth app.
+ * Tokens are stored through the same credential backends as API keys.
+ */
+
+export const DEFAULT_AUTHORIZE_URL = 'https://linear.app/oauth/authorize'
+export const DEFAULT_TOKEN_URL = 'https://api.linear.app/oauth/token'
+export const DEFAULT_OAUTH_SCOPE = 'read,write'
+export const DEFAULT_CALLBACK_PORT = 8976
+export const CLIENT_SECRET_ENV = 'LINEAR_OAUTH_CLIENT_SECRET'
+
+const OAUTH_SECRET_PREFIX = 'oauth:'
+const CALLBACK_PATH = '/callback'
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000
+/** Refresh tokens this long before they expire */
+const REFRESH_MARGIN_MS = 60 * 1000
+
+export interface OAuthTokens {
+  accessToken: string
+  refreshToken?: string
+  /** Expiry time in epoch milliseconds */
+  expiresAt?: number
+  scope?: string
+  /** Client and endpoint used to refresh the tokens */
+  clientId: string
+  tokenUrl: string
+}
+
+/**
+ * Serialize tokens into a secret for the credential backends.
+ */
+export const serializeOAuthTokens = (tokens: OAuthTokens): string => OAUTH_SECRET_PREFIX + JSON.stringify(tokens)
+
+/**
+ * Parse a stored secret back into tokens; returns undefined for plain API keys.
+ */
+export const parseOAuthSecret = (secret: string): OAuthTokens | undefined => {
+  if (!secret.startsWith(OAUTH_SECRET_PREFIX)) return undefined
+  try {
+    return JSON.parse(secret.slice(OAUTH_SECRET_PREFIX.length)) as OAuthTokens
+  } catch {
+    throw new CliError(ErrorCodes.CONFIG_ERROR, 'Stored OAuth tokens are corrupted. Run "linear auth login --oauth".')
+  }
+}
+
+/**
+ * Check whether tokens expire within the refresh margin.
+ */
+export const needsRefresh = (tokens: OAuthTokens, now = Date.now()): boolean => {
+  return tokens.expiresAt !== undefined && tokens.expiresAt - REFRESH_MARGIN_MS <= now
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge.
+ */
+export const createPkcePair = (): {verifier: string; challenge: string} => {
+  const verifier = randomBytes(32).toString('base64url')
+  const challenge = createHash('sha256').update(verifier).digest('base64url')
+  return {verifier, challenge}
+}
+
+/**
+ * Build the URL the user opens to authorize the app.
+ */
+export const buildAuthorizeUrl = (options: {
+  authorizeUrl: string
+  clientId: string
+  redirectUri: string
+  scope: string
+  state: string
+  challenge: string
+}): string => {
+  const url = new URL(options.authorizeUrl)
+  url.searchParams.set('client_id', options.clientId)
+  url.searchParams.set('redirect_uri', options.redirectUri)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('scope', options.scope)
+  url.searchParams.set('state', options.state)
+  url.searchParams.set('code_challenge', options.challenge)
+  url.searchParams.set('code_challenge_method', 'S256')
+  return url.toString()
+}
+
+export interface CallbackServer {
+  redirectUri: string
+  /** Resolve with the authorization code once the browser is redirected back */
+  waitForCode(state: string, timeoutMs?: number): Promise<string>
+  close(): void
+}
+
+/**
+ * Listen on the loopback interface for the OAuth redirect.
+ *
+ * @param port - Port registered in the OAuth app's redirect URI (0 picks a free port)
+ */
+export const startCallbackServer = async (port: number): Promise<CallbackServer> => {
+  let onCallback: ((params: URLSearchParams) => void) | undefined
+  let timer: NodeJS.Timeout | undefined
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end()
+      return
+    }
+
+    const failed = url.searchParams.has('error')
+    res.writeHead(failed ? 400 : 200, {'Content-Type': 'text/plain; charset=utf-8'})
+    res.end(failed ? 'Authorization failed. Return to the terminal.' : 'Authorized. You can close this window.')
+    onCallback?.(url.searchParams)
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (err) =>
+      reject(
+        new CliError(
+          ErrorCodes.CONFIG_ERROR,
+          `Cannot listen on 127.0.0.1:${port} for the OAuth callback: ${err.message}`,
+        ),
+      ),
+    )
+    server.listen(port, '127.0.0.1', resolve)
+  })
+
+  const {port: actualPort} = server.address() as AddressInfo
+
+  return {
+    redirectUri: `http://127.0.0.1:${actualPort}${CALLBACK_PATH}`,
+    waitForCode: (state, timeoutMs = CALLBACK_TIMEOUT_MS) =>
+      new Promise<string>((resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new CliError(ErrorCodes.NOT_AUTHENTICATED, 'Timed out waiting for OAuth authorization')),
+          timeoutMs,
+        )
+
+        onCallback = (params) => {
+          clearTimeout(timer)
+          const error = params.get('error')
+          const code = params.get('code')
+
+          if (error) {
+            reject(
+              new CliError(ErrorCodes.NOT_AUTHENTICATED, `OAuth authorization failed: ${error}`, {
+                error,
+                description: params.get('error_description'),
+              }),
+            )
+          } else if (params.get('state') !== state) {
+            reject(new CliError(ErrorCodes.NOT_AUTHENTICATED, 'OAuth state mismatch. Please retry the login.'))
+          } else if (!code) {
+            reject(new CliError(ErrorCodes.NOT_AUTHENTICATED, 'OAuth callback did not include an authorization code'))
+          } else {
+            resolve(code)
+          }
+        }
+      }),
+    close: () => {
+      clearTimeout(timer)
+      server.close()
+      server.closeAllConnections()
+    },
+  }
+}
+
+interface TokenResponse {
+  access_token?: string
+  refresh_token?: string
+  expires_in?: number
+  scope?: string | string[]
+  error?: string
+  error_description?: string
+}
+
+/**
+ * POST a form to the token endpoint and convert the response into tokens.
+ */
+const requestTokens = async (
+  tokenUrl: string,
+  clientId: string,
+  params: Record<string, string>,
+  previous?: OAuthTokens,
+): Promise<OAuthTokens> => {
+  const body = new URLSearchParams({...params, client_id: clientId})
+  const clientSecret = process.env[CLIENT_SECRET_ENV]
+  if (clientSecret) body.set('client_secret', clientSecret)
+
+  const response = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json'},
+    body,
+  })
+
+  let result: TokenResponse
+  try {
+    result = (await response.json()) as TokenResponse
+  } catch {
+    result = {}
+  }
+
+  if (!response.ok || !result.access_token) {
+    throw new CliError(
+      params.grant_type === 'refresh_token' ? ErrorCodes.NOT_AUTHENTICATED : ErrorCodes.API_ERROR,
+      `OAuth token request failed: ${result.error_description ?? result.error ?? `${response.status} ${response.statusText}`}`,
+      {status: response.status, error: result.error, tokenUrl},
+    )
+  }
+
+  return {
+    accessToken: result.access_token,
+    refreshToken: result.refresh_token ?? previous?.refreshToken,
+    expiresAt: result.expires_in ? Date.now() + result.expires_in * 1000 : undefined,
+    scope: Array.isArray(result.scope) ? result.scope.join(',') : (result.scope ?? previous?.scope),
+    clientId,
+    tokenUrl,
+  }
+}
+
+/**
+ * Exchange an authorization code (with its PKCE verifier) for tokens.
+ */
+export const exchangeCode = (options: {
+  tokenUrl: string
+  clientId: string
+  code: string
+  redirectUri: string
+  verifier: string
+}): Promise<OAuthTokens> => {
+  return requestTokens(options.tokenUrl, options.clientId, {
+    grant_type: 'authorization_code',
+    code: options.code,
+    redirect_uri: options.redirectUri,
+    code_verifier: options.verifier,
+  })
+}
+
+/**
+ * Get new tokens with the refresh token.
+ * @throws {CliError} NOT_AUTHENTICATED when there is no refresh token or it was rejected
+ */
+export const refreshOAuthTokens = async (tokens: OAuthTokens): Promise<OAuthTokens> => {
+  if (!tokens.refreshToken) {
+    throw new CliError(ErrorCodes.NOT_AUTHENTICATED, 'OAuth access token expired. Run "linear auth login --oauth".')
+  }
+
+  return requestTokens(
+    tokens.tokenUrl,
+    tokens.clientId,
+    {grant_type: 'refresh_token', refresh_token: tokens.refreshToken},
+    tokens,
+  )
+}
+
+/**
+ * Run the browser-based authorization-code flow with PKCE.
+ *
+ * @param onAuthorizeUrl - Called with the URL the user has to open
+ */
+export const authorizeWithPkce = async (
+  options: {clientId: string; authorizeUrl: string; tokenUrl: string; scope: string; port: number},
+  onAuthorizeUrl: (url: string) => Promise<void>,
+): Promise<OAuthTokens> => {
+  const {verifier, challenge} = createPkcePair()
+  const state = randomBytes(16).toString('base64url')
+  const server = await startCallbackServer(options.port)
+
+  try {
+    const code = server.waitForCode(state)
+    // The callback may fail while the URL is still being opened; the error surfaces at `await code`
+    code.catch(() => {})
+    await onAuthorizeUrl(
+      buildAuthorizeUrl({
+        authorizeUrl: options.authorizeUrl,
+        clientId: options.clientId,
+        redirectUri: server.redirectUri,
+        scope: options.scope,
+        state,
+        challenge,
+      }),
+    )
+
+    return await exchangeCode({
+      tokenUrl: options.tokenUrl,
+      clientId: options.clientId,
+      code: await code,
+      redirectUri: server.redirectUri,
+      verifier,
+    })
+  } finally {
+    server.close()
+  }
+}
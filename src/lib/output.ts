@@ -1,5 +1,13 @@
 import type {CommandResponse, CommandListResponse, PageInfo, ErrorResponse, OutputFormat} from './types.js'
-import {formatOutput, formatTable, formatKeyValue, colors, type ColumnDef} from './formatter.js'
+import {
+  formatOutput,
+  formatDelimited,
+  formatTable,
+  formatKeyValue,
+  getFieldPaths,
+  colors,
+  type ColumnDef,
+} from './formatter.js'
 
 /**
  * Output utilities for consistent JSON formatting.
@@ -17,6 +25,19 @@ export const successList = <T>(data: T[], pageInfo?: PageInfo): CommandListRespo
   ...(pageInfo && {pageInfo}),
 })
 
+/**
+ * Output formats accepted by list and get commands.
+ */
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'plain', 'ndjson', 'csv', 'tsv']
+
+/**
+ * Check if a format is a line-oriented export format (ndjson, csv, tsv).
+ * These print the raw data record instead of the table/plain summaries.
+ */
+export const isExportFormat = (format: OutputFormat): format is 'ndjson' | 'csv' | 'tsv' => {
+  return format === 'ndjson' || format === 'csv' || format === 'tsv'
+}
+
 export const error = (code: string, message: string, details?: Record<string, unknown>): ErrorResponse => ({
   success: false,
   error: {
@@ -50,6 +71,8 @@ export const printList = <T extends object>(
     columns?: ColumnDef<T>[]
     primaryKey?: keyof T
     secondaryKey?: keyof T
+    /** CSV/TSV columns (dot paths); defaults to the flattened fields of the data */
+    fields?: string[]
     pageInfo?: PageInfo
   } = {},
 ): void => {
@@ -71,7 +94,12 @@ export const printList = <T extends object>(
     return
   }
 
-  if (format === 'plain') {
+  if (format === 'plain' || isExportFormat(format)) {
+    if (isExportFormat(format) && data.length === 0) return
+    if ((format === 'csv' || format === 'tsv') && options.fields) {
+      console.log(formatDelimited(data as unknown as Record<string, unknown>[], format, {fields: options.fields}))
+      return
+    }
     console.log(
       formatOutput(format, data as unknown as Record<string, unknown>[], {
         primaryKey: options.primaryKey as keyof Record<string, unknown>,
@@ -84,6 +112,57 @@ export const printList = <T extends object>(
   print(successList(data, options.pageInfo))
 }
 
+/**
+ * Incremental list printer for paginated commands.
+ * Line-oriented formats (plain, ndjson, csv, tsv) are written page by page
+ * as they arrive; json and table need the complete result and are buffered
+ * until end(). CSV/TSV columns come from options.fields, or are fixed by
+ * the first non-empty page.
+ */
+export const createListPrinter = <T extends object>(
+  format: OutputFormat,
+  options: {
+    columns?: ColumnDef<T>[]
+    primaryKey?: keyof T
+    secondaryKey?: keyof T
+    fields?: string[]
+  } = {},
+) => {
+  const buffer: T[] = []
+  const streaming = format === 'plain' || isExportFormat(format)
+  let fields = options.fields
+  let header = true
+
+  return {
+    write: (items: T[]): void => {
+      if (!streaming) {
+        buffer.push(...items)
+        return
+      }
+      if (items.length === 0) return
+
+      const rows = items as unknown as Record<string, unknown>[]
+      if (format === 'csv' || format === 'tsv') {
+        fields ??= getFieldPaths(rows)
+        console.log(formatDelimited(rows, format, {fields, header}))
+        header = false
+        return
+      }
+
+      console.log(
+        formatOutput(format, rows, {
+          primaryKey: options.primaryKey as keyof Record<string, unknown>,
+          secondaryKey: options.secondaryKey as keyof Record<string, unknown>,
+        }),
+      )
+    },
+    end: (pageInfo?: PageInfo): void => {
+      if (streaming) return
+      printList(buffer, format, {...options, pageInfo})
+    },
+  }
+}
+
 /**
  * Print a single item in the specified format.
  */
@@ -109,5 +188,10 @@ export const printItem = <T extends Record<string, unknown>>(
     return
   }
 
+  if (isExportFormat(format)) {
+    console.log(formatOutput(format, data))
+    return
+  }
+
   print(success(data))
 }
@@ -0,0 +1,130 @@
+import {Flags} from '@oclif/core'
+import type {PageInfo} from './types.js'
+import {CliError, ErrorCodes} from './errors.js'
+
+/**
+ * Maximum number of items fetched by --all before pagination stops.
+ * Protects against accidentally walking a huge workspace in one call.
+ */
+export const MAX_PAGINATED_ITEMS = 10_000
+
+/**
+ * Pagination variables passed to a connection query.
+ */
+export interface PageRequest {
+  first: number
+  after?: string
+}
+
+/**
+ * Minimal shape of a Relay-style connection returned by the Linear SDK.
+ */
+export interface PageConnection<TNode> {
+  nodes: TNode[]
+  pageInfo: PageInfo
+}
+
+/**
+ * Pagination options, usually taken straight from command flags.
+ */
+export interface PaginationOptions {
+  first: number
+  after?: string
+  all?: boolean
+  limit?: number
+}
+
+/**
+ * Flags shared by every list command to walk cursors automatically.
+ * Commands keep their own --first/--after flags (page size and start cursor).
+ */
+export const paginationFlags = {
+  all: Flags.boolean({
+    description: `Fetch all pages (stops after ${MAX_PAGINATED_ITEMS} items)`,
+    default: false,
+  }),
+  limit: Flags.integer({
+    description: 'Maximum number of items to fetch across pages',
+    min: 1,
+  }),
+}
+
+/**
+ * Resolve the maximum number of items to fetch.
+ * Without --all or --limit only a single page is fetched.
+ */
+const resolveMaxItems = (options: PaginationOptions): number => {
+  if (options.limit !== undefined) {
+    if (options.limit < 1) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, '--limit must be a positive integer')
+    }
+    return options.limit
+  }
+  if (options.all) {
+    return MAX_PAGINATED_ITEMS
+  }
+  return options.first
+}
+
+/**
+ * Walk a connection page by page, handing each mapped page to onPage.
+ * Page sizes shrink near the end so the returned endCursor always points
+ * at the last item delivered and can be used to resume with --after.
+ *
+ * @returns Combined page info (first page's start cursor, last page's end cursor)
+ */
+export const streamPages = async <TNode, TItem>(
+  fetchPage: (page: PageRequest) => Promise<PageConnection<TNode>>,
+  options: PaginationOptions,
+  mapPage: (nodes: TNode[]) => TItem[] | Promise<TItem[]>,
+  onPage: (items: TItem[]) => void,
+): Promise<PageInfo> => {
+  const maxItems = resolveMaxItems(options)
+  let after = options.after
+  let fetched = 0
+  let startPageInfo: PageInfo | undefined
+  let lastPageInfo: PageInfo | undefined
+
+  while (fetched < maxItems) {
+    const connection = await fetchPage({first: Math.min(options.first, maxItems - fetched), after})
+    startPageInfo ??= connection.pageInfo
+    lastPageInfo = connection.pageInfo
+
+    fetched += connection.nodes.length
+    onPage(await mapPage(connection.nodes))
+
+    if (!connection.pageInfo.hasNextPage || !connection.pageInfo.endCursor || connection.nodes.length === 0) {
+      break
+    }
+    after = connection.pageInfo.endCursor
+  }
+
+  if (options.all && options.limit === undefined && fetched >= maxItems && lastPageInfo?.hasNextPage) {
+    process.stderr.write(
+      `Stopped after ${fetched} items (safety cap). Use --after ${lastPageInfo.endCursor} or --limit to fetch more.\n`,
+    )
+  }
+
+  return {
+    hasNextPage: lastPageInfo?.hasNextPage ?? false,
+    hasPreviousPage: startPageInfo?.hasPreviousPage ?? false,
+    startCursor: startPageInfo?.startCursor,
+    endCursor: lastPageInfo?.endCursor,
+  }
+}
+
+/**
+ * Walk a connection and collect every mapped item in memory.
+ * Use when the whole result is needed at once (e.g. for sorting).
+ */
+export const paginate = async <TNode, TItem>(
+  fetchPage: (page: PageRequest) => Promise<PageConnection<TNode>>,
+  options: PaginationOptions,
+  mapPage: (nodes: TNode[]) => TItem[] | Promise<TItem[]>,
+): Promise<{data: TItem[]; pageInfo: PageInfo}> => {
+  const data: TItem[] = []
+  const pageInfo = await streamPages(fetchPage, options, mapPage, (items) => {
+    data.push(...items)
+  })
+  return {data, pageInfo}
+}
@@ -0,0 +1,407 @@
+import type {LinearClient, LinearDocument} from '@linear/sdk'
+import {getDefaultTeamId} from './config.js'
+import {CliError, ErrorCodes} from './errors.js'
+import type {DryRunError, DryRunOperation} from './dry-run.js'
+import {parseDataFile} from './input-file.js'
+import {resolveIssueId} from './issue-utils.js'
+import {hasTeamScopedReferences, resolveIssueReferences, resolveIssueTeamId, resolveTeamId} from './resolvers.js'
+import {captureIssueState, type UndoRecorder} from './undo.js'
+
+/**
+ * Plans for `linear apply`: a list of operations in one JSON or YAML file.
+ * An operation with a `ref` can be referenced by later ones as `$ref:<name>`
+ * (its ID) or `$ref:<name>.<field>` (e.g. identifier, url). Operations run in
+ * file order, except that an operation always runs after the ones it references.
+ */
+
+export const PLAN_OPERATION_TYPES = ['issue.create', 'issue.update', 'comment.create', 'relation.create'] as const
+export type PlanOperationType = (typeof PLAN_OPERATION_TYPES)[number]
+
+const RELATION_TYPES = ['blocks', 'duplicate', 'related']
+
+export interface PlanOperation {
+  /** Name later operations use to reference the result */
+  ref?: string
+  type: PlanOperationType
+  input: Record<string, unknown>
+}
+
+export interface PlanResult {
+  /** Position of the operation in the plan */
+  index: number
+  ref?: string
+  type: PlanOperationType
+  success: boolean
+  id?: string
+  identifier?: string
+  url?: string
+  error?: string
+}
+
+type PlanOutput = Pick<PlanResult, 'id' | 'identifier' | 'url'>
+
+const REF_PATTERN = /^\$ref:([\w-]+)(?:\.(\w+))?$/
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Get a short label for an operation in progress output and errors.
+ */
+export const getOperationLabel = (operation: PlanOperation, index: number): string =>
+  operation.ref ?? `#${index + 1} ${operation.type}`
+
+/**
+ * Parse a plan: a list of operations, or an object with an `operations` list.
+ * @throws {CliError} INVALID_INPUT when the plan is malformed
+ */
+export const parsePlan = (text: string): PlanOperation[] => {
+  const document = parseDataFile(text, 'plan')
+  const operations = Array.isArray(document) ? document : isRecord(document) ? document.operations : undefined
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new CliError(
+      ErrorCodes.INVALID_INPUT,
+      'A plan must be a non-empty list of operations, or an object with an "operations" list',
+    )
+  }
+
+  return operations.map((operation: unknown, index) => {
+    const position = `Operation #${index + 1}`
+    if (!isRecord(operation)) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `${position} must be an object`)
+    }
+    if (!PLAN_OPERATION_TYPES.includes(operation.type as PlanOperationType)) {
+      throw new CliError(
+        ErrorCodes.INVALID_INPUT,
+        `${position} has an unknown type "${String(operation.type)}". Valid types: ${PLAN_OPERATION_TYPES.join(', ')}`,
+      )
+    }
+    if (!isRecord(operation.input)) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `${position} needs an "input" object`)
+    }
+    if (operation.ref !== undefined && (typeof operation.ref !== 'string' || !/^[\w-]+$/.test(operation.ref))) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `${position} has an invalid ref (use letters, digits, _ and -)`)
+    }
+
+    return {
+      ...(operation.ref !== undefined && {ref: operation.ref as string}),
+      type: operation.type as PlanOperationType,
+      input: operation.input,
+    }
+  })
+}
+
+/**
+ * Collect the names of all $ref placeholders in a value.
+ */
+export const collectRefs = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    const match = REF_PATTERN.exec(value)
+    return match ? [match[1]] : []
+  }
+  if (Array.isArray(value)) return value.flatMap(collectRefs)
+  if (isRecord(value)) return Object.values(value).flatMap(collectRefs)
+  return []
+}
+
+/**
+ * Order operations so that each one runs after the operations it references,
+ * keeping file order otherwise.
+ *
+ * @returns Operation indexes in execution order
+ * @throws {CliError} INVALID_INPUT for duplicate or unknown refs and reference cycles
+ */
+export const orderPlan = (operations: PlanOperation[]): number[] => {
+  const refs = new Map<string, number>()
+  for (const [index, operation] of operations.entries()) {
+    if (!operation.ref) continue
+    if (refs.has(operation.ref)) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `Duplicate ref "${operation.ref}"`)
+    }
+    refs.set(operation.ref, index)
+  }
+
+  const dependencies = operations.map((operation, index) =>
+    collectRefs(operation.input).map((name) => {
+      const dependency = refs.get(name)
+      if (dependency === undefined) {
+        throw new CliError(
+          ErrorCodes.INVALID_INPUT,
+          `${getOperationLabel(operation, index)} references unknown $ref:${name}`,
+        )
+      }
+      return dependency
+    }),
+  )
+
+  const order: number[] = []
+  const done = new Set<number>()
+  while (order.length < operations.length) {
+    const next = operations.findIndex(
+      (_operation, index) => !done.has(index) && dependencies[index].every((dependency) => done.has(dependency)),
+    )
+    if (next === -1) {
+      const blocked = operations.flatMap((operation, index) =>
+        done.has(index) ? [] : [getOperationLabel(operation, index)],
+      )
+      throw new CliError(ErrorCodes.INVALID_INPUT, `Reference cycle between operations: ${blocked.join(', ')}`)
+    }
+    order.push(next)
+    done.add(next)
+  }
+
+  return order
+}
+
+/**
+ * Replace $ref placeholders with the results of earlier operations.
+ */
+export const resolveRefs = (value: unknown, outputs: Map<string, PlanOutput>): unknown => {
+  if (typeof value === 'string') {
+    const match = REF_PATTERN.exec(value)
+    if (!match) return value
+
+    const [, name, field = 'id'] = match
+    const resolved = outputs.get(name)?.[field as keyof PlanOutput]
+    if (resolved === undefined) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `$ref:${name} has no ${field}`)
+    }
+    return resolved
+  }
+  if (Array.isArray(value)) return value.map((item) => resolveRefs(item, outputs))
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveRefs(item, outputs)]))
+  }
+  return value
+}
+
+interface PlanContext {
+  client: LinearClient
+  /** Team of each issue created by the plan, keyed by ID (or placeholder in dry runs) */
+  issueTeams: Map<string, string>
+}
+
+const requireString = (input: Record<string, unknown>, field: string): string => {
+  const value = input[field]
+  if (typeof value !== 'string' || !value) {
+    throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, `"${field}" is required`)
+  }
+  return value
+}
+
+// Placeholders are left in place by dry runs, where nothing was created
+const resolveIssue = (context: PlanContext, value: string): Promise<string> | string =>
+  REF_PATTERN.test(value) ? value : resolveIssueId(context.client, value)
+
+/**
+ * Split name references (team, state, assignee, labels, project, cycle) off an issue input.
+ */
+const splitIssueReferences = (input: Record<string, unknown>) => {
+  const {team, state, assignee, labels, project, cycle, ...rest} = input
+  const asString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+  return {
+    team: asString(team),
+    refs: {
+      state: asString(state),
+      assignee: asString(assignee),
+      labels: Array.isArray(labels) ? labels.map(String) : asString(labels)?.split(','),
+      project: asString(project),
+      cycle: asString(cycle),
+    },
+    rest,
+  }
+}
+
+/**
+ * Resolve names and identifiers in an operation input into the mutation it sends.
+ */
+const prepareOperation = async (
+  context: PlanContext,
+  type: PlanOperationType,
+  input: Record<string, unknown>,
+): Promise<DryRunOperation> => {
+  const {client} = context
+
+  switch (type) {
+    case 'issue.create': {
+      const {team, refs, rest} = splitIssueReferences(input)
+      requireString(rest, 'title')
+
+      const teamId = team
+        ? await resolveTeamId(client, team)
+        : ((rest.teamId as string | undefined) ?? getDefaultTeamId())
+      if (!teamId) {
+        throw new CliError(
+          ErrorCodes.MISSING_REQUIRED_FIELD,
+          '"team" or "teamId" is required (or configure a default team)',
+        )
+      }
+
+      if (typeof rest.parentId === 'string') rest.parentId = await resolveIssue(context, rest.parentId)
+      const issueInput = {...rest, teamId, ...(await resolveIssueReferences(client, refs, teamId))}
+      return {mutation: 'issueCreate', variables: {input: issueInput}}
+    }
+
+    case 'issue.update': {
+      const {id, ...fields} = input
+      const {team, refs, rest} = splitIssueReferences(fields)
+      const issueId = await resolveIssue(context, requireString(input, 'id'))
+
+      const teamId = team
+        ? await resolveTeamId(client, team)
+        : hasTeamScopedReferences(refs)
+          ? ((rest.teamId as string | undefined) ??
+            context.issueTeams.get(issueId) ??
+            (await resolveIssueTeamId(client, issueId)))
+          : undefined
+
+      if (typeof rest.parentId === 'string') rest.parentId = await resolveIssue(context, rest.parentId)
+      const issueInput = {
+        ...rest,
+        ...(team && {teamId}),
+        ...(await resolveIssueReferences(client, refs, teamId)),
+      }
+      return {
+        mutation: 'issueUpdate',
+        variables: {id: issueId, input: issueInput},
+        target: {entity: 'issue', id: issueId, identifier: String(id)},
+      }
+    }
+
+    case 'comment.create': {
+      const issueId = await resolveIssue(context, requireString(input, 'issueId'))
+      return {mutation: 'commentCreate', variables: {input: {...input, issueId, body: requireString(input, 'body')}}}
+    }
+
+    case 'relation.create': {
+      const relationType = requireString(input, 'type')
+      if (!RELATION_TYPES.includes(relationType)) {
+        throw new CliError(
+          ErrorCodes.INVALID_INPUT,
+          `Invalid relation type "${relationType}". Valid types: ${RELATION_TYPES.join(', ')}`,
+        )
+      }
+
+      const [issueId, relatedIssueId] = await Promise.all([
+        resolveIssue(context, requireString(input, 'issueId')),
+        resolveIssue(context, requireString(input, 'relatedIssueId')),
+      ])
+      return {mutation: 'issueRelationCreate', variables: {input: {issueId, relatedIssueId, type: relationType}}}
+    }
+  }
+}
+
+/**
+ * Send a prepared mutation and return what later operations can reference.
+ */
+const sendOperation = async (
+  context: PlanContext,
+  operation: DryRunOperation,
+  undo?: UndoRecorder,
+): Promise<PlanOutput> => {
+  const {client} = context
+  const variables = operation.variables as {id: string; input: Record<string, unknown>}
+
+  switch (operation.mutation) {
+    case 'issueCreate': {
+      const input = variables.input as LinearDocument.IssueCreateInput
+      const issue = await (await client.createIssue(input)).issue
+      if (!issue) throw new CliError(ErrorCodes.API_ERROR, 'Failed to create issue')
+
+      context.issueTeams.set(issue.id, input.teamId)
+      return {id: issue.id, identifier: issue.identifier, url: issue.url}
+    }
+
+    case 'issueUpdate': {
+      const {before, unrestorable} = await captureIssueState(client, variables.id, variables.input)
+      const issue = await (await client.updateIssue(variables.id, variables.input)).issue
+      if (!issue) throw new CliError(ErrorCodes.API_ERROR, 'Failed to update issue')
+
+      undo?.record({
+        issueId: issue.id,
+        identifier: issue.identifier,
+        before,
+        after: variables.input,
+        ...(unrestorable.length > 0 && {unrestorable}),
+      })
+      return {id: issue.id, identifier: issue.identifier, url: issue.url}
+    }
+
+    case 'commentCreate': {
+      const comment = await (await client.createComment(variables.input as LinearDocument.CommentCreateInput)).comment
+      if (!comment) throw new CliError(ErrorCodes.API_ERROR, 'Failed to create comment')
+      return {id: comment.id, url: comment.url}
+    }
+
+    default: {
+      const relation = await (
+        await client.createIssueRelation(variables.input as LinearDocument.IssueRelationCreateInput)
+      ).issueRelation
+      if (!relation) throw new CliError(ErrorCodes.API_ERROR, 'Failed to create relation')
+      return {id: relation.id}
+    }
+  }
+}
+
+/**
+ * Run a plan operation by operation in dependency order.
+ * A failed operation does not stop the plan, but operations referencing it are skipped.
+ * In dry runs nothing is sent: placeholders stay in place and the prepared mutations are returned.
+ *
+ * @param options.onResult - Called as each operation finishes
+ * @returns Results in plan order, plus the prepared mutations and preparation errors of a dry run
+ */
+export const executePlan = async (
+  client: LinearClient,
+  operations: PlanOperation[],
+  options: {dryRun: boolean; undo?: UndoRecorder; onResult?: (result: PlanResult) => void},
+): Promise<{results: PlanResult[]; prepared: DryRunOperation[]; errors: DryRunError[]}> => {
+  const context: PlanContext = {client, issueTeams: new Map()}
+  const outputs = new Map<string, PlanOutput>()
+  const failedRefs = new Set<string>()
+  const results = new Array<PlanResult>(operations.length)
+  const prepared: DryRunOperation[] = []
+  const errors: DryRunError[] = []
+
+  for (const index of orderPlan(operations)) {
+    const operation = operations[index]
+    const base = {index, ...(operation.ref && {ref: operation.ref}), type: operation.type}
+    const failedRef = collectRefs(operation.input).find((name) => failedRefs.has(name))
+
+    let result: PlanResult
+    if (failedRef) {
+      result = {...base, success: false, error: `Skipped because $ref:${failedRef} failed`}
+    } else {
+      try {
+        const input = options.dryRun
+          ? operation.input
+          : (resolveRefs(operation.input, outputs) as Record<string, unknown>)
+        const mutation = await prepareOperation(context, operation.type, input)
+
+        if (options.dryRun) {
+          prepared.push(mutation)
+          if (operation.ref && operation.type === 'issue.create') {
+            context.issueTeams.set(`$ref:${operation.ref}`, (mutation.variables.input as {teamId: string}).teamId)
+          }
+          result = {...base, success: true}
+        } else {
+          const output = await sendOperation(context, mutation, options.undo)
+          if (operation.ref) outputs.set(operation.ref, output)
+          result = {...base, success: true, ...output}
+        }
+      } catch (err) {
+        result = {...base, success: false, error: err instanceof Error ? err.message : 'Unknown error'}
+      }
+    }
+
+    if (!result.success) {
+      if (operation.ref) failedRefs.add(operation.ref)
+      if (options.dryRun) errors.push({identifier: getOperationLabel(operation, index), error: result.error!})
+    }
+
+    results[index] = result
+    options.onResult?.(result)
+  }
+
+  return {results, prepared, errors}
+}
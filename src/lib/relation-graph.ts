@@ -0,0 +1,308 @@
+import type {LinearClient} from '@linear/sdk'
+import {paginate, type PageConnection, type PageRequest} from './pagination.js'
+
+/**
+ * Issue relation graphs for `relations graph`: a breadth-first crawl of
+ * relations from a set of seed issues, cycle detection and the critical
+ * path through the open blocking chain.
+ */
+
+export const GRAPH_RELATION_TYPES = ['blocks', 'duplicate', 'related'] as const
+export type GraphRelationType = (typeof GRAPH_RELATION_TYPES)[number]
+
+export interface GraphNode {
+  id: string
+  identifier: string
+  title: string
+  estimate: number | null
+  url: string
+  state: {name: string; type: string} | null
+  /** Whether the issue was selected by --project/--team/--root rather than reached through a relation */
+  seed: boolean
+}
+
+export interface GraphEdge {
+  id: string
+  type: string
+  /** Identifier of the issue that blocks, duplicates or relates to `to` */
+  from: string
+  to: string
+}
+
+export interface RelationGraph {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+export interface CriticalPath {
+  /** Identifiers from the first blocker to the last blocked issue */
+  issues: string[]
+  /** Sum of estimates along the path (unestimated issues count as 1) */
+  estimate: number
+}
+
+type RawIssue = Omit<GraphNode, 'seed'>
+
+interface RawGraphIssue extends RawIssue {
+  relations: {nodes: Array<{id: string; type: string; relatedIssue: RawIssue | null}>}
+  inverseRelations: {nodes: Array<{id: string; type: string; issue: RawIssue | null}>}
+}
+
+const NODE_FIELDS = 'id identifier title estimate url state { name type }'
+const GRAPH_SELECTION = `${NODE_FIELDS}
+  relations(first: 50) { nodes { id type relatedIssue { ${NODE_FIELDS} } } }
+  inverseRelations(first: 50) { nodes { id type issue { ${NODE_FIELDS} } } }`
+
+/** Issues per page and IDs per expansion query; nested relations make each issue expensive */
+const GRAPH_PAGE_SIZE = 50
+
+const normalizeType = (type: string): string => (type === 'blocked' ? 'blocks' : type)
+
+const CLOSED_STATE_TYPES = new Set(['completed', 'canceled'])
+
+export const isClosed = (node: {state: {type: string} | null}): boolean =>
+  CLOSED_STATE_TYPES.has(node.state?.type ?? '')
+
+const fetchGraphIssues = async (client: LinearClient, filter: Record<string, unknown>): Promise<RawGraphIssue[]> => {
+  const query = `query RelationGraph($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes { ${GRAPH_SELECTION} }
+      pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+    }
+  }`
+
+  const fetchPage = async (page: PageRequest): Promise<PageConnection<RawGraphIssue>> => {
+    const data = await client.client.request<{issues: PageConnection<RawGraphIssue>}, Record<string, unknown>>(query, {
+      ...page,
+      filter,
+    })
+    return data.issues
+  }
+
+  const {data} = await paginate(fetchPage, {first: GRAPH_PAGE_SIZE, all: true}, (nodes) => nodes)
+  return data
+}
+
+/**
+ * Crawl relations outward from the issues matching a filter.
+ *
+ * @param depth - Relation hops to follow beyond the seed issues; issues one hop further
+ *   are included without their own relations
+ * @param types - Relation types to follow and include
+ */
+export const crawlRelationGraph = async (
+  client: LinearClient,
+  seedFilter: Record<string, unknown>,
+  options: {depth: number; types: readonly string[]},
+): Promise<RelationGraph> => {
+  const nodes = new Map<string, GraphNode>()
+  const distances = new Map<string, number>()
+  const edges = new Map<string, GraphEdge>()
+  const types = new Set(options.types)
+
+  const addNode = (issue: RawIssue, distance: number): void => {
+    if (nodes.has(issue.id)) return
+    nodes.set(issue.id, {...issue, seed: distance === 0})
+    distances.set(issue.id, distance)
+  }
+
+  // "blocked" is stored as the inverse of "blocks"; keep edges pointing from blocker to blocked
+  const addEdge = (id: string, type: string, from: string, to: string): void => {
+    if (!types.has(normalizeType(type))) return
+    edges.set(id, type === 'blocked' ? {id, type: 'blocks', from: to, to: from} : {id, type, from, to})
+  }
+
+  let frontier = await fetchGraphIssues(client, seedFilter)
+  for (const issue of frontier) addNode(issue, 0)
+
+  const expanded = new Set<string>()
+  while (frontier.length > 0) {
+    const next: string[] = []
+    const discover = (issue: RawIssue, from: string): void => {
+      const distance = distances.get(from)! + 1
+      const known = nodes.has(issue.id)
+      addNode(issue, distance)
+      if (!known && distance <= options.depth) next.push(issue.id)
+    }
+
+    for (const issue of frontier) {
+      expanded.add(issue.id)
+      for (const relation of issue.relations.nodes) {
+        if (!relation.relatedIssue) continue
+        addEdge(relation.id, relation.type, issue.identifier, relation.relatedIssue.identifier)
+        if (types.has(normalizeType(relation.type))) discover(relation.relatedIssue, issue.id)
+      }
+      for (const relation of issue.inverseRelations.nodes) {
+        if (!relation.issue) continue
+        addEdge(relation.id, relation.type, relation.issue.identifier, issue.identifier)
+        if (types.has(normalizeType(relation.type))) discover(relation.issue, issue.id)
+      }
+    }
+
+    const pending = next.filter((id) => !expanded.has(id))
+    frontier = []
+    for (let start = 0; start < pending.length; start += GRAPH_PAGE_SIZE) {
+      frontier.push(...(await fetchGraphIssues(client, {id: {in: pending.slice(start, start + GRAPH_PAGE_SIZE)}})))
+    }
+  }
+
+  return {nodes: [...nodes.values()], edges: [...edges.values()]}
+}
+
+const blockingEdges = (graph: RelationGraph): GraphEdge[] => graph.edges.filter((edge) => edge.type === 'blocks')
+
+/**
+ * Find blocking cycles: groups of issues that (transitively) block each other.
+ * Uses Tarjan's strongly connected components; each cycle lists its issue identifiers.
+ */
+export const findCycles = (graph: RelationGraph): string[][] => {
+  const successors = new Map<string, string[]>()
+  for (const edge of blockingEdges(graph)) {
+    successors.set(edge.from, [...(successors.get(edge.from) ?? []), edge.to])
+  }
+
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+
+  const visit = (node: string): void => {
+    index.set(node, index.size)
+    lowLink.set(node, index.get(node)!)
+    stack.push(node)
+    onStack.add(node)
+
+    for (const next of successors.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next)
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!))
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!))
+      }
+    }
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.unshift(member)
+      } while (member !== node)
+
+      if (component.length > 1 || successors.get(node)?.includes(node)) cycles.push(component)
+    }
+  }
+
+  for (const node of graph.nodes) {
+    if (!index.has(node.identifier)) visit(node.identifier)
+  }
+
+  return cycles
+}
+
+/**
+ * Find the heaviest chain of open issues connected by "blocks" relations, weighting each
+ * issue by its estimate (1 when unestimated). Closed issues no longer block anything and are
+ * skipped, as are relations inside a cycle, which has no meaningful order.
+ */
+export const findCriticalPath = (graph: RelationGraph, cycles: string[][] = findCycles(graph)): CriticalPath => {
+  const open = new Map(graph.nodes.filter((node) => !isClosed(node)).map((node) => [node.identifier, node]))
+  const cycleOf = new Map(cycles.flatMap((cycle, i) => cycle.map((identifier) => [identifier, i] as const)))
+
+  const successors = new Map<string, string[]>()
+  const inDegree = new Map([...open.keys()].map((identifier) => [identifier, 0]))
+  for (const {from, to} of blockingEdges(graph)) {
+    if (!open.has(from) || !open.has(to)) continue
+    if (cycleOf.has(from) && cycleOf.get(from) === cycleOf.get(to)) continue
+    successors.set(from, [...(successors.get(from) ?? []), to])
+    inDegree.set(to, inDegree.get(to)! + 1)
+  }
+
+  // Longest path in topological order (Kahn's algorithm)
+  const weight = (identifier: string): number => open.get(identifier)!.estimate ?? 1
+  const best = new Map<string, {total: number; previous?: string}>()
+  const queue = [...inDegree].filter(([, degree]) => degree === 0).map(([identifier]) => identifier)
+  for (const identifier of queue) best.set(identifier, {total: weight(identifier)})
+
+  while (queue.length > 0) {
+    const identifier = queue.shift()!
+    const {total} = best.get(identifier)!
+    for (const next of successors.get(identifier) ?? []) {
+      const candidate = total + weight(next)
+      if (candidate > (best.get(next)?.total ?? -1)) best.set(next, {total: candidate, previous: identifier})
+      inDegree.set(next, inDegree.get(next)! - 1)
+      if (inDegree.get(next) === 0) queue.push(next)
+    }
+  }
+
+  let end: string | undefined
+  for (const [identifier, {total}] of best) {
+    if (end === undefined || total > best.get(end)!.total) end = identifier
+  }
+  if (end === undefined) return {issues: [], estimate: 0}
+
+  const issues: string[] = []
+  for (let current: string | undefined = end; current; current = best.get(current)!.previous) {
+    issues.unshift(current)
+  }
+  return {issues, estimate: best.get(end)!.total}
+}
+
+const dotString = (value: string): string => `"${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`
+
+/**
+ * Render a graph in Graphviz DOT. Blocking relations are solid arrows, the critical
+ * path is red, closed issues are grey and related/duplicate relations are dashed.
+ */
+export const toDot = (graph: RelationGraph, criticalPath: CriticalPath): string => {
+  const critical = new Set(criticalPath.issues)
+  const criticalEdges = new Set(criticalPath.issues.slice(1).map((to, i) => `${criticalPath.issues[i]}>${to}`))
+
+  const lines = ['digraph relations {', '  rankdir=LR;', '  node [shape=box, style=rounded];']
+  for (const node of graph.nodes) {
+    const attributes = [`label=${dotString(`${node.identifier}\n${node.title}`)}`]
+    if (isClosed(node)) attributes.push('color=gray', 'fontcolor=gray')
+    else if (critical.has(node.identifier)) attributes.push('color=red', 'penwidth=2')
+    lines.push(`  ${dotString(node.identifier)} [${attributes.join(', ')}];`)
+  }
+  for (const edge of graph.edges) {
+    const attributes =
+      edge.type === 'blocks'
+        ? criticalEdges.has(`${edge.from}>${edge.to}`)
+          ? ['color=red', 'penwidth=2']
+          : []
+        : ['style=dashed', `label=${dotString(edge.type)}`, ...(edge.type === 'related' ? ['dir=none'] : [])]
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`,
+    )
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+const mermaidId = (identifier: string): string => identifier.replaceAll(/\W/g, '_')
+
+/**
+ * Render a graph as a Mermaid flowchart, with the same conventions as toDot.
+ */
+export const toMermaid = (graph: RelationGraph, criticalPath: CriticalPath): string => {
+  const lines = ['graph LR']
+  for (const node of graph.nodes) {
+    const label = `${node.identifier}: ${node.title}`.replaceAll('"', '#quot;')
+    lines.push(`  ${mermaidId(node.identifier)}["${label}"]`)
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.type === 'blocks' ? '-->' : edge.type === 'related' ? '-.-' : `-. ${edge.type} .->`
+    lines.push(`  ${mermaidId(edge.from)} ${arrow} ${mermaidId(edge.to)}`)
+  }
+
+  const closed = graph.nodes.filter((node) => isClosed(node)).map((node) => mermaidId(node.identifier))
+  lines.push('  classDef critical stroke:#e5484d,stroke-width:2px', '  classDef closed fill:#eee,color:#999')
+  if (criticalPath.issues.length > 0) {
+    lines.push(`  class ${criticalPath.issues.map((identifier) => mermaidId(identifier)).join(',')} critical`)
+  }
+  if (closed.length > 0) lines.push(`  class ${closed.join(',')} closed`)
+  return lines.join('\n')
+}
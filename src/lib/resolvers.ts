@@ -0,0 +1,333 @@
+import type {LinearClient} from '@linear/sdk'
+import {CliError, ErrorCodes} from './errors.js'
+import {
+  fetchAllNodes,
+  findCachedTeamByKey,
+  getCachedLabels,
+  getCachedStates,
+  getCachedTeams,
+  getCachedUsers,
+  type CachedState,
+} from './cache.js'
+import {isUUID, parseIdentifier} from './issue-utils.js'
+
+/**
+ * Name-based resolution for flags like --team ENG, --state "In Progress",
+ * --assignee alice@corp.com, --label bug and --cycle current.
+ * UUIDs are passed through unchanged; names are matched exactly first, then
+ * loosely (case, punctuation, prefix) and finally with a small edit distance.
+ */
+
+/**
+ * Lowercase and strip everything except letters and digits ("In-Progress" -> "inprogress").
+ */
+const compact = (value: string): string => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+
+/**
+ * Levenshtein edit distance between two strings.
+ */
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({length: b.length + 1}, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Pick the single item whose names match a value.
+ *
+ * Matching tiers, first non-empty tier wins:
+ * exact (case-insensitive), loose (ignoring punctuation), prefix, substring,
+ * then edit distance up to a quarter of the value's length.
+ *
+ * @throws {CliError} NOT_FOUND when nothing matches, AMBIGUOUS_MATCH with candidates when several do
+ */
+export const matchByName = <T extends {id: string}>(
+  entity: string,
+  value: string,
+  items: T[],
+  names: (item: T) => Array<string | null | undefined>,
+): T => {
+  const wanted = value.trim().toLowerCase()
+  const wantedCompact = compact(value)
+
+  if (!wantedCompact) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, `Empty ${entity} name`)
+  }
+
+  const itemNames = items.map((item) => ({
+    item,
+    names: names(item).filter((name): name is string => Boolean(name)),
+  }))
+
+  const tiers: Array<(name: string) => boolean> = [
+    (name) => name.toLowerCase() === wanted,
+    (name) => compact(name) === wantedCompact,
+    (name) => compact(name).startsWith(wantedCompact),
+    (name) => compact(name).includes(wantedCompact),
+  ]
+
+  for (const test of tiers) {
+    const matches = itemNames.filter((entry) => entry.names.some(test)).map((entry) => entry.item)
+    if (matches.length > 0) {
+      return pickOne(entity, value, matches, names)
+    }
+  }
+
+  // Typos: closest names within the allowed edit distance
+  const maxDistance = Math.max(1, Math.floor(wantedCompact.length / 4))
+  const scored = itemNames
+    .map((entry) => ({
+      item: entry.item,
+      distance: Math.min(...entry.names.map((name) => editDistance(compact(name), wantedCompact))),
+    }))
+    .filter((entry) => entry.distance <= maxDistance)
+
+  if (scored.length > 0) {
+    const best = Math.min(...scored.map((entry) => entry.distance))
+    return pickOne(
+      entity,
+      value,
+      scored.filter((entry) => entry.distance === best).map((entry) => entry.item),
+      names,
+    )
+  }
+
+  throw new CliError(ErrorCodes.NOT_FOUND, `No ${entity} matches "${value}"`, {
+    entity,
+    value,
+    available: itemNames.slice(0, 50).map((entry) => entry.names[0]),
+  })
+}
+
+const pickOne = <T extends {id: string}>(
+  entity: string,
+  value: string,
+  matches: T[],
+  names: (item: T) => Array<string | null | undefined>,
+): T => {
+  if (matches.length === 1) {
+    return matches[0]
+  }
+
+  throw new CliError(ErrorCodes.AMBIGUOUS_MATCH, `"${value}" matches ${matches.length} ${entity}s`, {
+    entity,
+    value,
+    candidates: matches.map((item) => ({id: item.id, names: names(item).filter(Boolean)})),
+  })
+}
+
+/**
+ * Resolve a team key, name or ID to a team ID.
+ */
+export const resolveTeamId = async (client: LinearClient, value: string): Promise<string> => {
+  if (isUUID(value)) return value
+
+  // Keys are the common case and resolve without fuzzy matching
+  const byKey = await findCachedTeamByKey(client, value)
+  if (byKey) return byKey.id
+
+  const teams = await getCachedTeams(client)
+  return matchByName('team', value, teams, (team) => [team.key, team.name]).id
+}
+
+/**
+ * Resolve a workflow state name (e.g., "In Progress") within a team.
+ */
+export const resolveStateId = async (client: LinearClient, value: string, teamId: string): Promise<string> => {
+  if (isUUID(value)) return value
+
+  const states = (await getCachedStates(client)).filter((state) => state.teamId === teamId)
+  return matchByName('state', value, states, (state) => [state.name]).id
+}
+
+/**
+ * Find a team's workflow states of one type (e.g., "started", "canceled"), in board order.
+ * @throws {CliError} NOT_FOUND when the team has no state of that type
+ */
+export const findStatesByType = async (client: LinearClient, teamId: string, type: string): Promise<CachedState[]> => {
+  const states = (await getCachedStates(client))
+    .filter((state) => state.teamId === teamId && state.type === type)
+    .sort((a, b) => a.position - b.position)
+
+  if (states.length === 0) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `The team has no workflow state of type "${type}"`, {
+      entity: 'state',
+      value: type,
+    })
+  }
+  return states
+}
+
+/**
+ * Resolve a user by email, name or display name. "me" resolves to the authenticated user.
+ */
+export const resolveUserId = async (client: LinearClient, value: string): Promise<string> => {
+  if (isUUID(value)) return value
+
+  if (value.toLowerCase() === 'me') {
+    const viewer = await client.viewer
+    return viewer.id
+  }
+
+  const users = (await getCachedUsers(client)).filter((user) => user.active)
+  return matchByName('user', value, users, (user) => [user.email, user.name, user.displayName]).id
+}
+
+/**
+ * Resolve label names (comma-separated values allowed) to label IDs.
+ * Only workspace labels and labels of the given team are considered; label groups cannot be applied.
+ */
+export const resolveLabelIds = async (client: LinearClient, values: string[], teamId?: string): Promise<string[]> => {
+  const names = values
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean)
+
+  if (names.every(isUUID)) return names
+
+  const labels = (await getCachedLabels(client)).filter(
+    (label) => !label.isGroup && (!teamId || label.teamId === null || label.teamId === teamId),
+  )
+
+  return names.map((name) => (isUUID(name) ? name : matchByName('label', name, labels, (label) => [label.name]).id))
+}
+
+/**
+ * Resolve a project name to a project ID (limited to the team's projects when given).
+ */
+export const resolveProjectId = async (client: LinearClient, value: string, teamId?: string): Promise<string> => {
+  if (isUUID(value)) return value
+
+  const projects = await fetchAllNodes<{id: string; name: string}>(
+    client,
+    'projects',
+    'id name',
+    teamId ? {type: 'ProjectFilter', value: {accessibleTeams: {id: {eq: teamId}}}} : undefined,
+  )
+  return matchByName('project', value, projects, (project) => [project.name]).id
+}
+
+const RELATIVE_CYCLES: Record<string, string> = {
+  current: 'isActive',
+  active: 'isActive',
+  next: 'isNext',
+  previous: 'isPrevious',
+}
+
+/**
+ * Resolve a cycle within a team: "current", "next", "previous", a cycle number or a cycle name.
+ */
+export const resolveCycleId = async (client: LinearClient, value: string, teamId: string): Promise<string> => {
+  if (isUUID(value)) return value
+
+  const relative = RELATIVE_CYCLES[value.trim().toLowerCase()]
+  const filter: Record<string, unknown> = {team: {id: {eq: teamId}}}
+  if (relative) {
+    filter[relative] = {eq: true}
+  } else if (/^\d+$/.test(value.trim())) {
+    filter.number = {eq: Number(value)}
+  }
+
+  const cycles = await fetchAllNodes<{id: string; number: number; name: string | null}>(
+    client,
+    'cycles',
+    'id number name',
+    {type: 'CycleFilter', value: filter},
+  )
+
+  if (relative || filter.number) {
+    if (cycles.length === 0) {
+      throw new CliError(ErrorCodes.NOT_FOUND, `No ${value.trim().toLowerCase()} cycle found for the team`, {
+        entity: 'cycle',
+        value,
+      })
+    }
+    return cycles[0].id
+  }
+
+  return matchByName('cycle', value, cycles, (cycle) => [cycle.name, `Cycle ${cycle.number}`]).id
+}
+
+/**
+ * Resolve the team of an issue (identifier or UUID).
+ */
+export const resolveIssueTeamId = async (client: LinearClient, idOrIdentifier: string): Promise<string> => {
+  const parsed = parseIdentifier(idOrIdentifier)
+  if (parsed) {
+    const team = await findCachedTeamByKey(client, parsed.teamKey)
+    if (team) return team.id
+  }
+
+  const issue = await client.issue(idOrIdentifier)
+  const team = await issue.team
+  if (!team) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `Team for issue ${idOrIdentifier} not found`)
+  }
+  return team.id
+}
+
+/**
+ * Human-readable references accepted by issue commands.
+ */
+export interface IssueReferences {
+  state?: string
+  assignee?: string
+  labels?: string[]
+  project?: string
+  cycle?: string
+}
+
+export interface ResolvedIssueReferences {
+  stateId?: string
+  assigneeId?: string | null
+  labelIds?: string[]
+  projectId?: string
+  cycleId?: string
+}
+
+/**
+ * Check whether any reference needs the issue's team to resolve.
+ */
+export const hasTeamScopedReferences = (refs: IssueReferences): boolean => {
+  return Boolean(refs.state || refs.cycle || refs.project || refs.labels?.length)
+}
+
+/**
+ * Resolve human-readable references into issue input IDs.
+ * An empty assignee unassigns.
+ *
+ * @param teamId - Team the issue belongs to (required for --state and --cycle)
+ */
+export const resolveIssueReferences = async (
+  client: LinearClient,
+  refs: IssueReferences,
+  teamId?: string,
+): Promise<ResolvedIssueReferences> => {
+  if ((refs.state || refs.cycle) && !teamId) {
+    throw new CliError(
+      ErrorCodes.MISSING_REQUIRED_FIELD,
+      'A team is required to resolve --state and --cycle. Use --team or configure a default team.',
+    )
+  }
+
+  const resolved: ResolvedIssueReferences = {}
+
+  if (refs.state) resolved.stateId = await resolveStateId(client, refs.state, teamId!)
+  if (refs.assignee !== undefined) {
+    resolved.assigneeId = refs.assignee ? await resolveUserId(client, refs.assignee) : null
+  }
+  if (refs.labels?.length) resolved.labelIds = await resolveLabelIds(client, refs.labels, teamId)
+  if (refs.project) resolved.projectId = await resolveProjectId(client, refs.project, teamId)
+  if (refs.cycle) resolved.cycleId = await resolveCycleId(client, refs.cycle, teamId!)
+
+  return resolved
+}
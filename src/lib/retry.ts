@@ -0,0 +1,208 @@
+import {CliError, ErrorCodes} from './errors.js'
+
+/**
+ * Retry and rate-limit handling for Linear API requests.
+ * Rate-limited requests are retried after the time the API asks for; transient
+ * failures (5xx, network errors) are retried with jittered exponential backoff,
+ * but only for reads, since a mutation may have been applied before the failure.
+ */
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number
+  /** Base delay for exponential backoff */
+  baseDelayMs: number
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number
+  /** Longest rate-limit wait before giving up with RATE_LIMITED */
+  maxRateLimitWaitMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRateLimitWaitMs: 60_000,
+}
+
+/**
+ * Rate-limit state reported by Linear response headers.
+ * Reset times are epoch milliseconds.
+ */
+export interface RateLimitInfo {
+  requestsLimit?: number
+  requestsRemaining?: number
+  requestsResetAt?: number
+  complexityLimit?: number
+  complexityRemaining?: number
+  complexityResetAt?: number
+  /** Complexity cost of the request itself */
+  complexity?: number
+  /** Retry-After header, in milliseconds */
+  retryAfterMs?: number
+}
+
+interface HeadersLike {
+  get(name: string): string | null
+}
+
+const readNumber = (headers: HeadersLike, name: string): number | undefined => {
+  const value = headers.get(name)
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+const parseRetryAfter = (value: string | null, now: number): number | undefined => {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Read Linear's X-RateLimit-* and X-Complexity headers.
+ */
+export const parseRateLimitHeaders = (headers: HeadersLike, now = Date.now()): RateLimitInfo => {
+  return {
+    requestsLimit: readNumber(headers, 'x-ratelimit-requests-limit'),
+    requestsRemaining: readNumber(headers, 'x-ratelimit-requests-remaining'),
+    requestsResetAt: readNumber(headers, 'x-ratelimit-requests-reset'),
+    complexityLimit: readNumber(headers, 'x-ratelimit-complexity-limit'),
+    complexityRemaining: readNumber(headers, 'x-ratelimit-complexity-remaining'),
+    complexityResetAt: readNumber(headers, 'x-ratelimit-complexity-reset'),
+    complexity: readNumber(headers, 'x-complexity'),
+    retryAfterMs: parseRetryAfter(headers.get('retry-after'), now),
+  }
+}
+
+/**
+ * How long the API asks us to wait, if it says so.
+ * Retry-After wins; otherwise the reset time of an exhausted budget.
+ */
+export const getRateLimitWaitMs = (info: RateLimitInfo, now = Date.now()): number | undefined => {
+  if (info.retryAfterMs !== undefined) return info.retryAfterMs
+
+  const resets = [
+    info.requestsRemaining === 0 ? info.requestsResetAt : undefined,
+    info.complexityRemaining === 0 ? info.complexityResetAt : undefined,
+  ].filter((reset): reset is number => reset !== undefined)
+
+  return resets.length > 0 ? Math.max(0, Math.max(...resets) - now) : undefined
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt, capped.
+ */
+export const getBackoffDelay = (attempt: number, options: RetryOptions, random = Math.random): number => {
+  return Math.round(random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt))
+}
+
+const TRANSIENT_LINEAR_TYPES = new Set(['NetworkError', 'InternalError', 'LockTimeout'])
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+interface ApiErrorLike {
+  type?: string
+  status?: number
+  code?: string
+  cause?: {code?: string}
+  raw?: {response?: {headers?: HeadersLike}}
+}
+
+export type ErrorKind = 'rate-limited' | 'transient' | 'fatal'
+
+/**
+ * Classify a failed request for retry purposes.
+ */
+export const classifyError = (err: unknown): ErrorKind => {
+  if (!err || typeof err !== 'object') return 'fatal'
+  const error = err as ApiErrorLike
+
+  if (error.type === 'Ratelimited' || error.status === 429) return 'rate-limited'
+  if (error.type && TRANSIENT_LINEAR_TYPES.has(error.type)) return 'transient'
+  if (error.status !== undefined && error.status >= 500) return 'transient'
+
+  const code = error.code ?? error.cause?.code
+  if (code && TRANSIENT_NETWORK_CODES.has(code)) return 'transient'
+  // Node's fetch rejects with a bare TypeError when the connection fails
+  if (err instanceof TypeError && /fetch failed/i.test(err.message)) return 'transient'
+
+  return 'fatal'
+}
+
+/**
+ * Get rate-limit headers attached to a failed request, if any.
+ */
+export const getErrorRateLimit = (err: unknown, now = Date.now()): RateLimitInfo => {
+  const headers = (err as ApiErrorLike | undefined)?.raw?.response?.headers
+  return headers && typeof headers.get === 'function' ? parseRateLimitHeaders(headers, now) : {}
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Run a request with retries.
+ *
+ * @param request - The request to run
+ * @param options.idempotent - Whether transient failures may be retried (reads only)
+ * @param options.onRetry - Called before waiting for a retry
+ * @throws {CliError} RATE_LIMITED with a retryAfter detail (seconds) when rate limiting persists
+ */
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  options: {
+    idempotent: boolean
+    retry?: Partial<RetryOptions>
+    onRetry?: (info: {attempt: number; delayMs: number; reason: ErrorKind; error: unknown}) => void
+    wait?: (ms: number) => Promise<void>
+  },
+): Promise<T> => {
+  const retry = {...DEFAULT_RETRY_OPTIONS, ...options.retry}
+  const wait = options.wait ?? sleep
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request()
+    } catch (err) {
+      const kind = classifyError(err)
+
+      if (kind === 'rate-limited') {
+        // A rate-limited request was rejected before running, so any operation may be retried
+        const requested = getRateLimitWaitMs(getErrorRateLimit(err))
+        const delayMs = Math.max(requested ?? 0, getBackoffDelay(attempt, retry))
+
+        if (attempt >= retry.retries || delayMs > retry.maxRateLimitWaitMs) {
+          const retryAfter = Math.ceil((requested ?? delayMs) / 1000)
+          throw new CliError(ErrorCodes.RATE_LIMITED, `Rate limit exceeded. Retry after ${retryAfter}s.`, {
+            retryAfter,
+          })
+        }
+
+        options.onRetry?.({attempt: attempt + 1, delayMs, reason: kind, error: err})
+        await wait(delayMs)
+        continue
+      }
+
+      if (kind === 'transient' && options.idempotent && attempt < retry.retries) {
+        const delayMs = getBackoffDelay(attempt, retry)
+        options.onRetry?.({attempt: attempt + 1, delayMs, reason: kind, error: err})
+        await wait(delayMs)
+        continue
+      }
+
+      throw err
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import {Args} from '@oclif/core'
+import {BaseCommand} from './base-command.js'
+import {getClient} from './client.js'
+import {handleError} from './errors.js'
+import {applyCacheFlags, cacheFlags} from './cache.js'
+import {bulkFlags} from './bulk.js'
+import {runTransitions} from './transitions.js'
+
+/**
+ * Variadic issue ID argument of the transition commands; they set strict = false to accept any number.
+ */
+export const transitionArgs = {
+  ids: Args.string({
+    description: 'Issue IDs or identifiers (e.g., ENG-1 ENG-2)',
+    required: true,
+  }),
+}
+
+/**
+ * Base class for `issues start|done|cancel|backlog|triage`, which move issues to the
+ * first state of one workflow type in each issue team. Subclasses declare the type.
+ */
+export abstract class TransitionCommand extends BaseCommand {
+  static override strict = false
+
+  static override args = transitionArgs
+
+  static override flags = {
+    ...bulkFlags,
+    ...cacheFlags,
+  }
+
+  /** Workflow type the issues move to, e.g. started */
+  protected abstract readonly type: string
+
+  public async run(): Promise<void> {
+    try {
+      const {argv, flags} = await this.parse(this.constructor as typeof TransitionCommand)
+      applyCacheFlags(flags)
+      const client = getClient()
+
+      await runTransitions(
+        client,
+        argv as string[],
+        {type: this.type},
+        {
+          command: this.id ?? `issues:${this.type}`,
+          concurrency: flags.concurrency,
+          stream: flags.stream,
+        },
+      )
+    } catch (err) {
+      handleError(err)
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import type {LinearClient} from '@linear/sdk'
+import {createProgressReporter, mapWithConcurrency} from './bulk.js'
+import {getCachedStates, type CachedState} from './cache.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {isDryRun, printDryRun, type DryRunOperation} from './dry-run.js'
+import {resolveIssueId} from './issue-utils.js'
+import {findStatesByType, matchByName} from './resolvers.js'
+import {startUndoOperation} from './undo.js'
+
+/**
+ * State transitions for `issues start|done|cancel|backlog|triage` and `issues move`.
+ * The target state is resolved separately in each issue's own team, so one call
+ * can move issues of teams with different workflows.
+ */
+
+/** WorkflowState types, in board order */
+export const WORKFLOW_STATE_TYPES = ['triage', 'backlog', 'unstarted', 'started', 'completed', 'canceled']
+
+/** A state type (first state of that type in the team) or a state name */
+export type TransitionTarget = {type: string} | {name: string}
+
+export interface TransitionResult {
+  identifier: string
+  id: string
+  success: boolean
+  error?: string
+  /** State names before and after the move */
+  from?: string
+  to?: string
+  /** True when the issue was already in the target state */
+  unchanged?: boolean
+}
+
+interface TransitionIssue {
+  id: string
+  identifier: string
+  team: {id: string}
+  state: {id: string; name: string} | null
+}
+
+/**
+ * Parse a --to value: a workflow type such as "started", otherwise a state name.
+ */
+export const parseTransitionTarget = (value: string): TransitionTarget => {
+  const type = value.trim().toLowerCase()
+  return WORKFLOW_STATE_TYPES.includes(type) ? {type} : {name: value}
+}
+
+/**
+ * Resolve the state a team's issues move to. A type picks the team's first state of
+ * that type in board order (e.g., "started" -> "In Progress" rather than "In Review").
+ *
+ * @throws {CliError} NOT_FOUND when the team has no matching state
+ */
+export const resolveTransitionState = async (
+  client: LinearClient,
+  teamId: string,
+  target: TransitionTarget,
+): Promise<CachedState> => {
+  if ('type' in target) {
+    return (await findStatesByType(client, teamId, target.type))[0]
+  }
+
+  const states = (await getCachedStates(client)).filter((state) => state.teamId === teamId)
+  return matchByName('state', target.name, states, (state) => [state.name])
+}
+
+const fetchTransitionIssue = async (client: LinearClient, id: string): Promise<TransitionIssue> => {
+  const data = await client.client.request<{issue: TransitionIssue | null}, Record<string, unknown>>(
+    'query TransitionIssue($id: String!) { issue(id: $id) { id identifier team { id } state { id name } } }',
+    {id},
+  )
+  if (!data.issue) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${id} not found`)
+  }
+  return data.issue
+}
+
+/**
+ * Move issues to a target state, resolved once per team, and print a bulk-style summary
+ * (or the planned mutations with --dry-run). Issues already in the target state are left alone.
+ */
+export const runTransitions = async (
+  client: LinearClient,
+  identifiers: string[],
+  target: TransitionTarget,
+  options: {command: string; concurrency: number; stream: boolean},
+): Promise<void> => {
+  if (identifiers.length === 0) {
+    throw new CliError(ErrorCodes.MISSING_REQUIRED_FIELD, 'No issue IDs provided')
+  }
+
+  const statesByTeam = new Map<string, Promise<CachedState>>()
+  const operations: DryRunOperation[] = []
+  const undo = startUndoOperation(options.command)
+  const progress = createProgressReporter(identifiers.length, {stream: options.stream})
+
+  const results = await mapWithConcurrency(
+    identifiers,
+    options.concurrency,
+    async (identifier, index): Promise<TransitionResult> => {
+      let id = ''
+      try {
+        id = await resolveIssueId(client, identifier)
+        const issue = await fetchTransitionIssue(client, id)
+
+        if (!statesByTeam.has(issue.team.id)) {
+          statesByTeam.set(issue.team.id, resolveTransitionState(client, issue.team.id, target))
+        }
+        const state = await statesByTeam.get(issue.team.id)!
+        const moved = {identifier: issue.identifier, id, success: true, from: issue.state?.name, to: state.name}
+
+        if (issue.state?.id === state.id) {
+          return {...moved, unchanged: true}
+        }
+
+        if (isDryRun()) {
+          operations[index] = {
+            mutation: 'issueUpdate',
+            variables: {id, input: {stateId: state.id}},
+            target: {entity: 'issue', id, identifier: issue.identifier},
+          }
+          return moved
+        }
+
+        const payload = await client.updateIssue(id, {stateId: state.id})
+        if (!payload.success) {
+          return {identifier: issue.identifier, id, success: false, error: 'Failed to update issue'}
+        }
+
+        undo.record({
+          issueId: id,
+          identifier: issue.identifier,
+          before: {stateId: issue.state?.id ?? null},
+          after: {stateId: state.id},
+        })
+        return moved
+      } catch (err) {
+        return {identifier, id, success: false, error: err instanceof Error ? err.message : 'Unknown error'}
+      }
+    },
+    isDryRun() ? undefined : (result, index) => progress.item(index, result),
+  )
+
+  const failed = results.filter((result) => !result.success)
+
+  if (isDryRun()) {
+    printDryRun(
+      operations.filter(Boolean),
+      failed.map(({identifier, error}) => ({identifier, error: error ?? 'Unknown error'})),
+    )
+    return
+  }
+
+  const moved = results.filter((result) => result.success && !result.unchanged)
+  progress.summary({
+    undoId: moved.length > 0 ? undo.id : undefined,
+    totalRequested: identifiers.length,
+    successCount: results.length - failed.length,
+    failedCount: failed.length,
+    results,
+  })
+}
@@ -8,8 +8,15 @@
  * - json: Machine-readable JSON (default, for LLMs/scripts)
  * - table: Human-readable colored table
  * - plain: Minimal output (IDs/identifiers only)
+ * - ndjson: One JSON record per line (for jq -c and streaming)
+ * - csv/tsv: Delimited rows with a header, nested fields flattened to dot paths
  */
-export type OutputFormat = 'json' | 'table' | 'plain'
+export type OutputFormat = 'json' | 'table' | 'plain' | 'ndjson' | 'csv' | 'tsv'
+
+/**
+ * Delimited output formats.
+ */
+export type DelimitedFormat = 'csv' | 'tsv'
 
 export interface PageInfo {
   hasNextPage: boolean
@@ -46,9 +53,23 @@ export interface ConfigDefaults {
   teamKey?: string
 }
 
+export interface ConfigProfile {
+  apiKey?: string
+  defaults?: ConfigDefaults
+}
+
+/**
+ * The top-level apiKey and defaults belong to the "default" profile.
+ * Other profiles live under `profiles`.
+ */
 export interface ConfigFile {
   apiKey?: string
   defaults?: ConfigDefaults
   /** @deprecated Use defaults.teamId instead */
   defaultTeamId?: string
+  profiles?: Record<string, ConfigProfile>
+  /** Profile used when neither --profile nor LINEAR_PROFILE is set */
+  activeProfile?: string
+  /** Where API keys are stored: "config", "encrypted-file" or a git-credential style command */
+  credentialHelper?: string
 }
@@ -0,0 +1,236 @@
+import {appendFileSync, existsSync, mkdirSync, readFileSync} from 'node:fs'
+import {join} from 'node:path'
+import type {LinearClient} from '@linear/sdk'
+import {getConfigDir} from './config.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {createTimestampId} from './jobs.js'
+
+/**
+ * Local undo log for issue updates.
+ * Commands capture the current value of every field they are about to change
+ * and append it to an NDJSON log; `linear undo` writes those values back.
+ * Relations and comments a command creates are logged too, and undo deletes them.
+ */
+
+/**
+ * Issue update fields that can be restored, with the selection that reads
+ * their current value.
+ */
+const RESTORABLE_FIELDS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  priority: 'priority',
+  estimate: 'estimate',
+  dueDate: 'dueDate',
+  labelIds: 'labelIds',
+  stateId: 'state { id }',
+  assigneeId: 'assignee { id }',
+  projectId: 'project { id }',
+  cycleId: 'cycle { id }',
+  parentId: 'parent { id }',
+  projectMilestoneId: 'projectMilestone { id }',
+  teamId: 'team { id }',
+}
+
+/** Entity a command created; undo deletes it */
+export interface UndoCreatedEntity {
+  entity: 'issueRelation' | 'comment'
+  id: string
+}
+
+export interface UndoChange {
+  issueId: string
+  identifier: string
+  /** Set when the command created an entity instead of updating the issue (before and after are empty) */
+  created?: UndoCreatedEntity
+  /** Field values before the update, in IssueUpdateInput shape */
+  before: Record<string, unknown>
+  /** Fields the update set */
+  after: Record<string, unknown>
+  /** Updated fields whose previous value cannot be restored */
+  unrestorable?: string[]
+  /** When `linear undo` reverted this change (set when listing, never recorded with the change) */
+  revertedAt?: string
+}
+
+export interface UndoOperation {
+  id: string
+  /** oclif command ID, e.g. issues:update */
+  command: string
+  createdAt: string
+  undoneAt?: string
+  changes: UndoChange[]
+}
+
+type UndoLine =
+  | {type: 'operation'; id: string; command: string; createdAt: string}
+  | ({type: 'change'; operationId: string} & UndoChange)
+  | {type: 'reverted'; operationId: string; index: number; at: string}
+  | {type: 'undone'; operationId: string; at: string}
+
+const getUndoFile = (): string => join(getConfigDir(), 'undo.ndjson')
+
+const appendLine = (line: UndoLine): void => {
+  mkdirSync(getConfigDir(), {recursive: true, mode: 0o700})
+  appendFileSync(getUndoFile(), JSON.stringify(line) + '\n', {mode: 0o600})
+}
+
+/**
+ * Read the current values of the fields an update is about to change.
+ *
+ * @returns Values in IssueUpdateInput shape, plus the fields that cannot be restored
+ */
+export const captureIssueState = async (
+  client: LinearClient,
+  issueId: string,
+  input: Record<string, unknown>,
+): Promise<{before: Record<string, unknown>; unrestorable: string[]}> => {
+  const fields = Object.keys(input).filter((field) => field in RESTORABLE_FIELDS)
+  const unrestorable = Object.keys(input).filter((field) => !(field in RESTORABLE_FIELDS))
+  if (fields.length === 0) return {before: {}, unrestorable}
+
+  const query = `query UndoState($id: String!) { issue(id: $id) { id ${fields.map((field) => RESTORABLE_FIELDS[field]).join(' ')} } }`
+  const data = await client.client.request<{issue: Record<string, unknown> | null}, Record<string, unknown>>(query, {
+    id: issueId,
+  })
+
+  if (!data.issue) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `Issue ${issueId} not found`)
+  }
+
+  const issue = data.issue
+  const before = Object.fromEntries(
+    fields.map((field) => {
+      // Relations are selected as objects ({id}), or null when unset
+      const value = field.endsWith('Id') ? (issue[field.slice(0, -2)] as {id: string} | null)?.id : issue[field]
+      return [field, value ?? null]
+    }),
+  )
+
+  return {before, unrestorable}
+}
+
+/**
+ * Undo recorder for one command run.
+ */
+export interface UndoRecorder {
+  id: string
+  /** Append a change; the operation header is written with the first change */
+  record(change: UndoChange): void
+}
+
+/**
+ * Start recording the changes of one command run as a single undo operation.
+ */
+export const startUndoOperation = (command: string): UndoRecorder => {
+  const id = createTimestampId()
+  let started = false
+
+  return {
+    id,
+    record(change) {
+      if (!started) {
+        appendLine({type: 'operation', id, command, createdAt: new Date().toISOString()})
+        started = true
+      }
+      appendLine({type: 'change', operationId: id, ...change})
+    },
+  }
+}
+
+/**
+ * Mark one change of an operation as reverted, so a retry of a partly undone
+ * operation does not revert it again.
+ *
+ * @param index - Position of the change in the operation
+ */
+export const markChangeReverted = (operationId: string, index: number): void => {
+  appendLine({type: 'reverted', operationId, index, at: new Date().toISOString()})
+}
+
+/**
+ * Mark an operation as undone so --last skips it.
+ */
+export const markUndone = (operationId: string): void => {
+  appendLine({type: 'undone', operationId, at: new Date().toISOString()})
+}
+
+/**
+ * Read all recorded operations, newest first.
+ */
+export const listUndoOperations = (): UndoOperation[] => {
+  const file = getUndoFile()
+  if (!existsSync(file)) return []
+
+  const operations = new Map<string, UndoOperation>()
+  for (const text of readFileSync(file, 'utf-8').split('\n')) {
+    if (!text.trim()) continue
+
+    let line: UndoLine
+    try {
+      line = JSON.parse(text) as UndoLine
+    } catch {
+      // A line cut off by a crash is skipped
+      continue
+    }
+
+    if (line.type === 'operation') {
+      operations.set(line.id, {id: line.id, command: line.command, createdAt: line.createdAt, changes: []})
+    } else if (line.type === 'change') {
+      const {type: _type, operationId, ...change} = line
+      operations.get(operationId)?.changes.push(change)
+    } else if (line.type === 'reverted') {
+      const change = operations.get(line.operationId)?.changes[line.index]
+      if (change) change.revertedAt = line.at
+    } else if (line.type === 'undone') {
+      const operation = operations.get(line.operationId)
+      if (operation) operation.undoneAt = line.at
+    }
+  }
+
+  return [...operations.values()].reverse()
+}
+
+/**
+ * Group the changes of an operation that are not reverted yet by issue, newest first
+ * within each issue: an operation can change one issue several times, and those
+ * changes only unwind correctly one after another.
+ */
+export const planRevert = (operation: UndoOperation): Array<Array<{index: number; change: UndoChange}>> => {
+  const groups = new Map<string, Array<{index: number; change: UndoChange}>>()
+  for (const [index, change] of operation.changes.entries()) {
+    if (change.revertedAt) continue
+    const group = groups.get(change.issueId) ?? []
+    group.unshift({index, change})
+    groups.set(change.issueId, group)
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Pick the operations to undo: one by ID, or the newest N not undone yet.
+ * @throws {CliError} NOT_FOUND for unknown IDs, INVALID_INPUT for operations already undone
+ */
+export const selectUndoOperations = (selection: {id?: string; last?: number}): UndoOperation[] => {
+  const operations = listUndoOperations()
+
+  if (selection.id) {
+    const operation = operations.find((candidate) => candidate.id === selection.id)
+    if (!operation) {
+      throw new CliError(ErrorCodes.NOT_FOUND, `Undo operation ${selection.id} not found`)
+    }
+    if (operation.undoneAt) {
+      throw new CliError(
+        ErrorCodes.INVALID_INPUT,
+        `Operation ${selection.id} was already undone at ${operation.undoneAt}`,
+      )
+    }
+    return [operation]
+  }
+
+  const pending = operations.filter((operation) => !operation.undoneAt).slice(0, selection.last ?? 1)
+  if (pending.length === 0) {
+    throw new CliError(ErrorCodes.NOT_FOUND, 'Nothing to undo')
+  }
+  return pending
+}
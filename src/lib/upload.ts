@@ -0,0 +1,274 @@
+import {existsSync, readFileSync, realpathSync, statSync} from 'node:fs'
+import {basename, dirname, extname, isAbsolute, relative, resolve, sep} from 'node:path'
+import {Flags} from '@oclif/core'
+import type {LinearClient} from '@linear/sdk'
+import {CliError, ErrorCodes} from './errors.js'
+import {isDryRun, type DryRunOperation} from './dry-run.js'
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.zip': 'application/zip',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+}
+
+export const getMimeType = (filePath: string): string => {
+  const ext = extname(filePath).toLowerCase()
+  return MIME_TYPES[ext] ?? 'application/octet-stream'
+}
+
+/**
+ * Get the usual file extension for a content type (e.g. ".png"), ignoring parameters like charset.
+ */
+export const getExtension = (contentType: string): string | undefined => {
+  const type = contentType.split(';')[0].trim().toLowerCase()
+  return Object.keys(MIME_TYPES).find((ext) => MIME_TYPES[ext] === type)
+}
+
+export interface UploadFileInfo {
+  path: string
+  fileName: string
+  contentType: string
+  size: number
+}
+
+export interface UploadedFile extends UploadFileInfo {
+  assetUrl: string
+}
+
+/**
+ * Check a file can be uploaded and get its name, content type and size.
+ * @throws {CliError} NOT_FOUND when the file does not exist, INVALID_INPUT when it is not a file
+ */
+export const getUploadFileInfo = (filePath: string, contentType?: string): UploadFileInfo => {
+  if (!existsSync(filePath)) {
+    throw new CliError(ErrorCodes.NOT_FOUND, `File not found: ${filePath}`)
+  }
+
+  const stats = statSync(filePath)
+  if (!stats.isFile()) {
+    throw new CliError(ErrorCodes.INVALID_INPUT, `Not a file: ${filePath}`)
+  }
+
+  return {
+    path: filePath,
+    fileName: basename(filePath),
+    contentType: contentType ?? getMimeType(filePath),
+    size: stats.size,
+  }
+}
+
+/**
+ * The fileUpload mutation an upload would send, for --dry-run.
+ */
+export const toUploadOperation = (file: UploadFileInfo): DryRunOperation => ({
+  mutation: 'fileUpload',
+  variables: {contentType: file.contentType, filename: file.fileName, size: file.size},
+})
+
+/**
+ * Upload a file to Linear's storage: request a signed URL with fileUpload, then PUT the content.
+ */
+export const uploadFile = async (client: LinearClient, file: UploadFileInfo): Promise<UploadedFile> => {
+  const uploadPayload = await client.fileUpload(file.contentType, file.fileName, file.size)
+
+  if (!uploadPayload.success || !uploadPayload.uploadFile) {
+    throw new CliError(ErrorCodes.API_ERROR, 'Failed to request upload URL')
+  }
+
+  const {uploadUrl, assetUrl} = uploadPayload.uploadFile
+
+  const headers: Record<string, string> = {
+    'Content-Type': file.contentType,
+    'Cache-Control': 'public, max-age=31536000',
+  }
+  for (const {key, value} of uploadPayload.uploadFile.headers) {
+    headers[key] = value
+  }
+
+  const response = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers,
+    body: readFileSync(file.path),
+  })
+
+  if (!response.ok) {
+    throw new CliError(ErrorCodes.API_ERROR, `Upload failed: ${response.status} ${response.statusText}`)
+  }
+
+  return {...file, assetUrl}
+}
+
+/**
+ * Markdown images, with code spans matched first so images inside them are left alone.
+ * Groups: 1 = code span backticks, 2 = image prefix `![alt](`, 3 = destination, 4 = optional title.
+ */
+const IMAGE_PATTERN = /(`+)[\s\S]*?\1|(!\[[^\]]*\]\(\s*)(<[^>\n]+>|[^\s)]+)(\s+(?:"[^"]*"|'[^']*'))?\s*\)/g
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/
+
+const isLocalPath = (destination: string): boolean =>
+  !/^[a-z][a-z\d+.-]*:/i.test(destination) && !destination.startsWith('//') && !destination.startsWith('#')
+
+/**
+ * Rewrite the destination of every markdown image outside code blocks and code spans.
+ * @param replace - Returns the new destination, or undefined to keep the image as is
+ */
+const rewriteImages = (markdown: string, replace: (destination: string) => string | undefined): string => {
+  let fence: string | undefined
+
+  return markdown
+    .split('\n')
+    .map((line) => {
+      const marker = FENCE_PATTERN.exec(line)?.[1]
+      if (fence) {
+        if (marker?.startsWith(fence)) fence = undefined
+        return line
+      }
+      if (marker) {
+        fence = marker
+        return line
+      }
+
+      return line.replaceAll(
+        IMAGE_PATTERN,
+        (match, code: string | undefined, prefix: string, destination: string, title = '') => {
+          if (code) return match
+          const path = destination.startsWith('<') ? destination.slice(1, -1) : destination
+          const url = isLocalPath(path) ? replace(path) : undefined
+          return url === undefined ? match : `${prefix}${url}${title})`
+        },
+      )
+    })
+    .join('\n')
+}
+
+/**
+ * Find the local image paths referenced in markdown (e.g. `![](./shot.png)`), without duplicates.
+ */
+export const findLocalImages = (markdown: string): string[] => {
+  const paths = new Set<string>()
+  rewriteImages(markdown, (path) => {
+    paths.add(path)
+    return undefined
+  })
+  return [...paths]
+}
+
+/**
+ * Replace local image paths in markdown with the URLs they were uploaded to.
+ */
+export const replaceLocalImages = (markdown: string, urls: Map<string, string>): string =>
+  rewriteImages(markdown, (path) => urls.get(path))
+
+/** Extensions of the files markdown images are uploaded from */
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'])
+
+const isInside = (dir: string, path: string): boolean => {
+  const rel = relative(dir, path)
+  return rel !== '' && !isAbsolute(rel) && rel.split(sep)[0] !== '..'
+}
+
+/**
+ * Find an image on disk. Only image files given as relative paths inside the base directory
+ * qualify, so markdown pasted from elsewhere cannot upload other local files
+ * (e.g. ![](/etc/passwd) or ![](../../.ssh/id_rsa)).
+ *
+ * @returns The resolved path, or why the link is left as written
+ */
+const resolveImagePath = (path: string, baseDir: string): {path: string} | {skipped: string} => {
+  // Paths with spaces are often written URL-encoded (./my%20shot.png)
+  let decoded = path
+  try {
+    decoded = decodeURIComponent(path)
+  } catch {
+    // Not valid percent-encoding; only the path as written is tried
+  }
+
+  for (const candidate of new Set([path, decoded])) {
+    if (isAbsolute(candidate)) return {skipped: 'only relative image paths are uploaded'}
+    if (!IMAGE_EXTENSIONS.has(extname(candidate).toLowerCase())) return {skipped: 'not an image file'}
+
+    const resolved = resolve(baseDir, candidate)
+    if (!isInside(baseDir, resolved)) return {skipped: `image outside ${baseDir}`}
+    if (!existsSync(resolved)) continue
+
+    // Symlinks must not lead out of the directory either
+    if (!isInside(realpathSync(baseDir), realpathSync(resolved))) {
+      return {skipped: `image outside ${baseDir}`}
+    }
+    return {path: resolved}
+  }
+
+  return {skipped: 'image not found'}
+}
+
+export const uploadImagesFlag = Flags.boolean({
+  description: 'Upload local images referenced in the markdown (![](./shot.png)) and link the uploaded files',
+  default: true,
+  allowNo: true,
+})
+
+export interface MarkdownImageOptions {
+  /** Value of the --upload-images flag */
+  enabled: boolean
+  /** Markdown file the text was read from; relative paths resolve against its directory */
+  file?: string
+}
+
+/**
+ * Upload the local images referenced in markdown and rewrite their links to the uploaded files.
+ * All images are checked before the first upload; missing ones, and anything but image files
+ * inside the markdown directory, are left unchanged with a warning on stderr. In dry-run mode nothing is uploaded: the markdown is returned unchanged
+ * along with the fileUpload operations that would run.
+ */
+export const uploadMarkdownImages = async <T extends string | null | undefined>(
+  client: LinearClient,
+  markdown: T,
+  options: MarkdownImageOptions,
+): Promise<{markdown: T; operations: DryRunOperation[]}> => {
+  if (!markdown || !options.enabled) return {markdown, operations: []}
+
+  const paths = findLocalImages(markdown)
+  if (paths.length === 0) return {markdown, operations: []}
+
+  const baseDir = options.file && options.file !== '-' ? dirname(options.file) : process.cwd()
+  const files = new Map<string, UploadFileInfo>()
+  for (const path of paths) {
+    const resolved = resolveImagePath(path, baseDir)
+    if ('path' in resolved) {
+      files.set(path, getUploadFileInfo(resolved.path))
+    } else {
+      // Links that were never meant to be local files (e.g. repo-relative docs) are kept as written
+      process.stderr.write(`Warning: ${resolved.skipped}, leaving the link as written: ${path}\n`)
+    }
+  }
+  const operations = [...files.values()].map((file) => toUploadOperation(file))
+
+  if (isDryRun()) return {markdown, operations}
+
+  const urls = new Map<string, string>()
+  for (const [path, file] of files) {
+    urls.set(path, (await uploadFile(client, file)).assetUrl)
+  }
+
+  return {markdown: replaceLocalImages(markdown, urls) as T, operations}
+}
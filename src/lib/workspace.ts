@@ -0,0 +1,892 @@
+import {Flags} from '@oclif/core'
+import type {LinearClient, LinearDocument} from '@linear/sdk'
+import {cacheFlags, fetchAllNodes, getCachedTeams, type CachedTeam} from './cache.js'
+import type {DryRunOperation} from './dry-run.js'
+import {CliError, ErrorCodes} from './errors.js'
+import {parseDataFile} from './input-file.js'
+
+/**
+ * Declarative workspace configuration for `linear workspace export/plan/apply`.
+ * A spec lists labels (with label groups), templates and project milestones for
+ * the workspace and for each team, and the workflow states of each team. A plan compares the spec with the live
+ * workspace; only the sections present in the spec are managed, and entities
+ * missing from the spec are deleted only with --prune.
+ */
+
+export interface LabelSpec {
+  name: string
+  color?: string
+  description?: string
+  /** Labels in this group; present only on label groups */
+  labels?: LabelSpec[]
+}
+
+export interface TemplateSpec {
+  name: string
+  /** Template type, e.g. issue or project */
+  type: string
+  description?: string
+  templateData: Record<string, unknown>
+}
+
+export interface StateSpec {
+  name: string
+  /** Workflow type, e.g. started; fixed once the state exists */
+  type: string
+  /** Required to create the state */
+  color?: string
+  description?: string
+  /** Board order within the team */
+  position?: number
+}
+
+export interface MilestoneSpec {
+  name: string
+  description?: string
+  targetDate?: string
+}
+
+export interface ProjectSpec {
+  /** Name of an existing project of the team */
+  name: string
+  milestones: MilestoneSpec[]
+}
+
+export interface TeamSpec {
+  key: string
+  states?: StateSpec[]
+  labels?: LabelSpec[]
+  templates?: TemplateSpec[]
+  projects?: ProjectSpec[]
+}
+
+export interface WorkspaceSpec {
+  version: 1
+  /** Workspace labels, not tied to a team */
+  labels?: LabelSpec[]
+  /** Workspace templates, not tied to a team */
+  templates?: TemplateSpec[]
+  teams?: TeamSpec[]
+}
+
+interface LiveLabel {
+  id: string
+  name: string
+  color: string
+  description: string | null
+  isGroup: boolean
+  parentId: string | null
+  teamId: string | null
+}
+
+interface LiveState {
+  id: string
+  name: string
+  type: string
+  color: string
+  description: string | null
+  position: number
+  teamId: string
+}
+
+interface LiveTemplate {
+  id: string
+  name: string
+  type: string
+  description: string | null
+  templateData: unknown
+  teamId: string | null
+}
+
+interface LiveMilestone {
+  id: string
+  name: string
+  description: string | null
+  targetDate: string | null
+  projectId: string
+}
+
+/**
+ * Live state of the parts of the workspace a spec manages.
+ */
+export interface WorkspaceState {
+  teams: CachedTeam[]
+  states: LiveState[]
+  labels: LiveLabel[]
+  templates: LiveTemplate[]
+  /** One entry per team a project belongs to */
+  projects: Array<{id: string; name: string; teamId: string}>
+  milestones: LiveMilestone[]
+}
+
+export type WorkspaceChangeKind = 'state' | 'label' | 'template' | 'milestone'
+
+export interface WorkspaceChange {
+  action: 'create' | 'update' | 'delete'
+  kind: WorkspaceChangeKind
+  /** "workspace", a team key, or TEAM/Project for milestones */
+  scope: string
+  name: string
+  /** ID of the existing entity (updates and deletes) */
+  id?: string
+  /** Changed fields, with the live and the desired value */
+  fields?: Record<string, {from: unknown; to: unknown}>
+  /** Input of the create or update mutation */
+  input?: Record<string, unknown>
+  /** Label group created by the same apply that the label goes into */
+  group?: string
+}
+
+const WORKSPACE_SCOPE = 'workspace'
+
+/**
+ * Flags shared by workspace plan and apply.
+ */
+export const workspaceSpecFlags = {
+  file: Flags.string({
+    char: 'f',
+    description: 'Workspace spec (.json, .yaml or .yml), or - to read from stdin',
+    required: true,
+  }),
+  prune: Flags.boolean({
+    description: 'Delete labels, templates and milestones, and archive workflow states, that are missing from the spec',
+    default: false,
+  }),
+  ...cacheFlags,
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const lower = (value: string): string => value.toLowerCase()
+
+/**
+ * Serialize JSON with sorted keys, so equal objects compare equal.
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (isRecord(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+const invalid = (path: string, message: string): CliError =>
+  new CliError(ErrorCodes.INVALID_INPUT, `Invalid workspace spec at ${path}: ${message}`)
+
+const expectList = (value: unknown, path: string): Record<string, unknown>[] | undefined => {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || !value.every(isRecord)) throw invalid(path, 'expected a list of objects')
+  return value
+}
+
+const expectString = (item: Record<string, unknown>, field: string, path: string, required = false) => {
+  const value = item[field]
+  if (value === undefined && !required) return undefined
+  if (typeof value !== 'string' || (required && !value)) throw invalid(`${path}.${field}`, 'expected a string')
+  return value
+}
+
+const parseLabels = (value: unknown, path: string, nested = false): LabelSpec[] | undefined =>
+  expectList(value, path)?.map((label, index) => {
+    const labelPath = `${path}[${index}]`
+    if (nested && label.labels !== undefined) throw invalid(labelPath, 'label groups cannot be nested')
+    return {
+      name: expectString(label, 'name', labelPath, true)!,
+      ...(label.color !== undefined && {color: expectString(label, 'color', labelPath)}),
+      ...(label.description !== undefined && {description: expectString(label, 'description', labelPath)}),
+      ...(label.labels !== undefined && {labels: parseLabels(label.labels, `${labelPath}.labels`, true)}),
+    }
+  })
+
+const STATE_TYPES = ['triage', 'backlog', 'unstarted', 'started', 'completed', 'canceled']
+
+const parseStates = (value: unknown, path: string): StateSpec[] | undefined =>
+  expectList(value, path)?.map((state, index) => {
+    const statePath = `${path}[${index}]`
+    const type = expectString(state, 'type', statePath, true)!
+    if (!STATE_TYPES.includes(type)) {
+      throw invalid(`${statePath}.type`, `expected one of ${STATE_TYPES.join(', ')}`)
+    }
+    if (state.position !== undefined && typeof state.position !== 'number') {
+      throw invalid(`${statePath}.position`, 'expected a number')
+    }
+    return {
+      name: expectString(state, 'name', statePath, true)!,
+      type,
+      ...(state.color !== undefined && {color: expectString(state, 'color', statePath)}),
+      ...(state.description !== undefined && {description: expectString(state, 'description', statePath)}),
+      ...(state.position !== undefined && {position: state.position as number}),
+    }
+  })
+
+const parseTemplates = (value: unknown, path: string): TemplateSpec[] | undefined =>
+  expectList(value, path)?.map((template, index) => {
+    const templatePath = `${path}[${index}]`
+    if (!isRecord(template.templateData)) throw invalid(`${templatePath}.templateData`, 'expected an object')
+    return {
+      name: expectString(template, 'name', templatePath, true)!,
+      type: expectString(template, 'type', templatePath, true)!,
+      ...(template.description !== undefined && {description: expectString(template, 'description', templatePath)}),
+      templateData: template.templateData,
+    }
+  })
+
+/**
+ * Parse a JSON or YAML workspace spec.
+ * @throws {CliError} INVALID_INPUT when the spec is malformed
+ */
+export const parseWorkspaceSpec = (text: string): WorkspaceSpec => {
+  const document = parseDataFile(text, 'workspace spec')
+  if (!isRecord(document)) throw invalid('root', 'expected an object')
+  if (document.version !== undefined && document.version !== 1) throw invalid('version', 'only version 1 is supported')
+
+  const spec: WorkspaceSpec = {version: 1}
+  if (document.labels !== undefined) spec.labels = parseLabels(document.labels, 'labels')
+  if (document.templates !== undefined) spec.templates = parseTemplates(document.templates, 'templates')
+
+  const teams = expectList(document.teams, 'teams')
+  if (teams) {
+    spec.teams = teams.map((team, index) => {
+      const path = `teams[${index}]`
+      const projects = expectList(team.projects, `${path}.projects`)
+      return {
+        key: expectString(team, 'key', path, true)!,
+        ...(team.states !== undefined && {states: parseStates(team.states, `${path}.states`)}),
+        ...(team.labels !== undefined && {labels: parseLabels(team.labels, `${path}.labels`)}),
+        ...(team.templates !== undefined && {templates: parseTemplates(team.templates, `${path}.templates`)}),
+        ...(projects && {
+          projects: projects.map((project, projectIndex) => {
+            const projectPath = `${path}.projects[${projectIndex}]`
+            return {
+              name: expectString(project, 'name', projectPath, true)!,
+              milestones: (expectList(project.milestones, `${projectPath}.milestones`) ?? []).map(
+                (milestone, milestoneIndex) => {
+                  const milestonePath = `${projectPath}.milestones[${milestoneIndex}]`
+                  return {
+                    name: expectString(milestone, 'name', milestonePath, true)!,
+                    ...(milestone.description !== undefined && {
+                      description: expectString(milestone, 'description', milestonePath),
+                    }),
+                    ...(milestone.targetDate !== undefined && {
+                      targetDate: expectString(milestone, 'targetDate', milestonePath),
+                    }),
+                  }
+                },
+              ),
+            }
+          }),
+        }),
+      }
+    })
+  }
+
+  return spec
+}
+
+/**
+ * Fetch the live workflow states, labels, templates and milestones of the workspace.
+ *
+ * @param teamKeys - Teams to include (default: all teams)
+ * @throws {CliError} NOT_FOUND for unknown team keys
+ */
+export const fetchWorkspaceState = async (client: LinearClient, teamKeys?: string[]): Promise<WorkspaceState> => {
+  const allTeams = await getCachedTeams(client)
+  const teams = teamKeys
+    ? teamKeys.map((key) => {
+        const team = allTeams.find((candidate) => lower(candidate.key) === lower(key))
+        if (!team) throw new CliError(ErrorCodes.NOT_FOUND, `Team with key "${key}" not found`)
+        return team
+      })
+    : [...allTeams].sort((a, b) => a.key.localeCompare(b.key))
+  const teamIds = new Set(teams.map((team) => team.id))
+  const inScope = (teamId: string | null) => teamId === null || teamIds.has(teamId)
+
+  const stateNodes = await fetchAllNodes<Omit<LiveState, 'teamId'> & {team: {id: string}}>(
+    client,
+    'workflowStates',
+    'id name type color description position team { id }',
+  )
+  const states = stateNodes
+    .map(({team, ...state}) => ({...state, teamId: team.id}))
+    .filter((state) => teamIds.has(state.teamId))
+
+  const labelNodes = await fetchAllNodes<
+    Omit<LiveLabel, 'teamId' | 'parentId'> & {team: {id: string} | null; parent: {id: string} | null}
+  >(client, 'issueLabels', 'id name color description isGroup team { id } parent { id }')
+  const labels = labelNodes
+    .map(({team, parent, ...label}) => ({...label, teamId: team?.id ?? null, parentId: parent?.id ?? null}))
+    .filter((label) => inScope(label.teamId))
+
+  const {templates: templateNodes} = await client.client.request<
+    {templates: Array<Omit<LiveTemplate, 'teamId'> & {team: {id: string} | null}>},
+    Record<string, unknown>
+  >('query WorkspaceTemplates { templates { id name type description templateData team { id } } }', {})
+  const templates = templateNodes
+    .map(({team, ...template}) => ({
+      ...template,
+      // templateData is returned as a JSON string
+      templateData:
+        typeof template.templateData === 'string'
+          ? (JSON.parse(template.templateData) as unknown)
+          : template.templateData,
+      teamId: team?.id ?? null,
+    }))
+    .filter((template) => inScope(template.teamId))
+
+  const projects = []
+  for (const team of teams) {
+    const nodes = await fetchAllNodes<{id: string; name: string}>(client, 'projects', 'id name', {
+      type: 'ProjectFilter',
+      value: {accessibleTeams: {some: {id: {eq: team.id}}}},
+    })
+    projects.push(...nodes.map((project) => ({...project, teamId: team.id})))
+  }
+
+  const projectIds = new Set(projects.map((project) => project.id))
+  const milestoneNodes =
+    projects.length > 0
+      ? await fetchAllNodes<Omit<LiveMilestone, 'projectId'> & {project: {id: string}}>(
+          client,
+          'projectMilestones',
+          'id name description targetDate project { id }',
+        )
+      : []
+  const milestones = milestoneNodes
+    .map(({project, ...milestone}) => ({...milestone, projectId: project.id}))
+    .filter((milestone) => projectIds.has(milestone.projectId))
+
+  return {teams, states, labels, templates, projects, milestones}
+}
+
+const byName = <T extends {name: string}>(a: T, b: T) => a.name.localeCompare(b.name)
+
+const toLabelSpecs = (labels: LiveLabel[], teamId: string | null): LabelSpec[] => {
+  const scoped = labels.filter((label) => label.teamId === teamId)
+  const toSpec = (label: LiveLabel): LabelSpec => ({
+    name: label.name,
+    color: label.color,
+    ...(label.description && {description: label.description}),
+  })
+
+  return scoped
+    .filter((label) => !label.parentId)
+    .sort(byName)
+    .map((label) =>
+      label.isGroup
+        ? {
+            ...toSpec(label),
+            labels: scoped
+              .filter((child) => child.parentId === label.id)
+              .sort(byName)
+              .map(toSpec),
+          }
+        : toSpec(label),
+    )
+}
+
+const toStateSpecs = (states: LiveState[], teamId: string): StateSpec[] =>
+  states
+    .filter((state) => state.teamId === teamId)
+    .sort((a, b) => a.position - b.position)
+    .map((state) => ({
+      name: state.name,
+      type: state.type,
+      color: state.color,
+      ...(state.description && {description: state.description}),
+      position: state.position,
+    }))
+
+const toTemplateSpecs = (templates: LiveTemplate[], teamId: string | null): TemplateSpec[] =>
+  templates
+    .filter((template) => template.teamId === teamId)
+    .sort(byName)
+    .map((template) => ({
+      name: template.name,
+      type: template.type,
+      ...(template.description && {description: template.description}),
+      templateData: template.templateData as Record<string, unknown>,
+    }))
+
+/**
+ * Convert the live state into a spec, e.g. for `linear workspace export`.
+ * Projects are listed once, under the first team they belong to, and only when they have milestones.
+ */
+export const toWorkspaceSpec = (state: WorkspaceState): WorkspaceSpec => {
+  const listed = new Set<string>()
+
+  return {
+    version: 1,
+    labels: toLabelSpecs(state.labels, null),
+    templates: toTemplateSpecs(state.templates, null),
+    teams: state.teams.map((team) => ({
+      key: team.key,
+      states: toStateSpecs(state.states, team.id),
+      labels: toLabelSpecs(state.labels, team.id),
+      templates: toTemplateSpecs(state.templates, team.id),
+      projects: state.projects
+        .filter((project) => project.teamId === team.id && !listed.has(project.id))
+        .sort(byName)
+        .flatMap((project) => {
+          const milestones = state.milestones
+            .filter((milestone) => milestone.projectId === project.id)
+            .sort(byName)
+            .map((milestone) => ({
+              name: milestone.name,
+              ...(milestone.description && {description: milestone.description}),
+              ...(milestone.targetDate && {targetDate: milestone.targetDate}),
+            }))
+          if (milestones.length === 0) return []
+
+          listed.add(project.id)
+          return [{name: project.name, milestones}]
+        }),
+    })),
+  }
+}
+
+/**
+ * Compare optional spec fields with live values; fields the spec omits are not managed.
+ */
+const diffFields = (
+  live: object,
+  desired: Record<string, unknown>,
+  equals: (field: string, a: unknown, b: unknown) => boolean = (_field, a, b) => a === b,
+): Record<string, {from: unknown; to: unknown}> => {
+  const fields: Record<string, {from: unknown; to: unknown}> = {}
+  for (const [field, to] of Object.entries(desired)) {
+    if (to === undefined) continue
+    const from = (live as Record<string, unknown>)[field] ?? null
+    if (!equals(field, from, to)) fields[field] = {from, to}
+  }
+  return fields
+}
+
+const inputOf = (fields: Record<string, {from: unknown; to: unknown}>) =>
+  Object.fromEntries(Object.entries(fields).map(([field, {to}]) => [field, to]))
+
+const checkUnique = (names: string[], what: string, scope: string): void => {
+  const seen = new Set<string>()
+  for (const name of names) {
+    if (seen.has(lower(name))) {
+      throw new CliError(ErrorCodes.INVALID_INPUT, `Duplicate ${what} "${name}" in ${scope}`)
+    }
+    seen.add(lower(name))
+  }
+}
+
+const diffLabels = (
+  scope: string,
+  teamId: string | null,
+  desired: LabelSpec[],
+  state: WorkspaceState,
+  prune: boolean,
+): WorkspaceChange[] => {
+  const live = state.labels.filter((label) => label.teamId === teamId)
+  const liveByName = new Map(live.map((label) => [lower(label.name), label]))
+  const liveById = new Map(live.map((label) => [label.id, label]))
+  const entries = desired.flatMap((label) => [
+    {label, group: undefined as LabelSpec | undefined},
+    ...(label.labels ?? []).map((child) => ({label: child, group: label})),
+  ])
+  checkUnique(
+    entries.map((entry) => entry.label.name),
+    'label',
+    scope,
+  )
+
+  const changes: WorkspaceChange[] = []
+  for (const {label, group} of entries) {
+    const existing = liveByName.get(lower(label.name))
+    const liveGroup = group && liveByName.get(lower(group.name))
+    const parent = group && !liveGroup ? {group: group.name} : {}
+
+    if (!existing) {
+      changes.push({
+        action: 'create',
+        kind: 'label',
+        scope,
+        name: label.name,
+        input: {
+          name: label.name,
+          ...(label.color && {color: label.color}),
+          ...(label.description !== undefined && {description: label.description}),
+          ...(teamId && {teamId}),
+          ...(label.labels && {isGroup: true}),
+          ...(liveGroup && {parentId: liveGroup.id}),
+        },
+        ...parent,
+      })
+      continue
+    }
+
+    const fields = diffFields(existing, {color: label.color, description: label.description}, (field, a, b) =>
+      field === 'color' ? lower(String(a)) === lower(String(b)) : (a ?? '') === b,
+    )
+    const liveParent = existing.parentId ? (liveById.get(existing.parentId)?.name ?? null) : null
+    const desiredParent = group?.name ?? null
+    if (lower(liveParent ?? '') !== lower(desiredParent ?? '')) {
+      fields.group = {from: liveParent, to: desiredParent}
+    }
+
+    if (Object.keys(fields).length > 0) {
+      const {group: _group, ...updated} = fields
+      changes.push({
+        action: 'update',
+        kind: 'label',
+        scope,
+        name: label.name,
+        id: existing.id,
+        fields,
+        input: {
+          ...inputOf(updated),
+          ...(fields.group && !parent.group && {parentId: liveGroup?.id ?? null}),
+        },
+        ...parent,
+      })
+    }
+  }
+
+  if (prune) {
+    const names = new Set(entries.map((entry) => lower(entry.label.name)))
+    const removed = live.filter((label) => !names.has(lower(label.name)))
+    // Labels are deleted before the groups that contain them
+    for (const label of [...removed.filter((label) => label.parentId), ...removed.filter((label) => !label.parentId)]) {
+      changes.push({action: 'delete', kind: 'label', scope, name: label.name, id: label.id})
+    }
+  }
+
+  return changes
+}
+
+const diffStates = (
+  team: CachedTeam,
+  desired: StateSpec[],
+  state: WorkspaceState,
+  prune: boolean,
+): WorkspaceChange[] => {
+  const live = state.states.filter((candidate) => candidate.teamId === team.id)
+  const liveByName = new Map(live.map((candidate) => [lower(candidate.name), candidate]))
+  checkUnique(
+    desired.map((candidate) => candidate.name),
+    'state',
+    team.key,
+  )
+
+  const changes: WorkspaceChange[] = []
+  for (const spec of desired) {
+    const existing = liveByName.get(lower(spec.name))
+    if (!existing) {
+      if (!spec.color) {
+        throw new CliError(ErrorCodes.INVALID_INPUT, `State "${spec.name}" in ${team.key} needs a color to be created`)
+      }
+      changes.push({
+        action: 'create',
+        kind: 'state',
+        scope: team.key,
+        name: spec.name,
+        input: {...spec, teamId: team.id},
+      })
+      continue
+    }
+
+    if (existing.type !== spec.type) {
+      throw new CliError(
+        ErrorCodes.INVALID_INPUT,
+        `State "${spec.name}" in ${team.key} is ${existing.type}, not ${spec.type}; the type of a state cannot change`,
+      )
+    }
+
+    const fields = diffFields(
+      existing,
+      {color: spec.color, description: spec.description, position: spec.position},
+      (field, a, b) =>
+        field === 'color' ? lower(String(a)) === lower(String(b)) : field === 'position' ? a === b : (a ?? '') === b,
+    )
+    if (Object.keys(fields).length > 0) {
+      changes.push({
+        action: 'update',
+        kind: 'state',
+        scope: team.key,
+        name: spec.name,
+        id: existing.id,
+        fields,
+        input: inputOf(fields),
+      })
+    }
+  }
+
+  if (prune) {
+    const names = new Set(desired.map((candidate) => lower(candidate.name)))
+    for (const removed of live.filter((candidate) => !names.has(lower(candidate.name)))) {
+      changes.push({action: 'delete', kind: 'state', scope: team.key, name: removed.name, id: removed.id})
+    }
+  }
+
+  return changes
+}
+
+const diffTemplates = (
+  scope: string,
+  teamId: string | null,
+  desired: TemplateSpec[],
+  state: WorkspaceState,
+  prune: boolean,
+): WorkspaceChange[] => {
+  const live = state.templates.filter((template) => template.teamId === teamId)
+  const liveByName = new Map(live.map((template) => [lower(template.name), template]))
+  checkUnique(
+    desired.map((template) => template.name),
+    'template',
+    scope,
+  )
+
+  const changes: WorkspaceChange[] = []
+  for (const template of desired) {
+    const existing = liveByName.get(lower(template.name))
+    if (!existing) {
+      changes.push({
+        action: 'create',
+        kind: 'template',
+        scope,
+        name: template.name,
+        input: {...template, ...(teamId && {teamId})},
+      })
+      continue
+    }
+
+    const fields = diffFields(
+      existing,
+      {description: template.description, templateData: template.templateData},
+      (field, a, b) => (field === 'templateData' ? stableStringify(a) === stableStringify(b) : (a ?? '') === b),
+    )
+    if (Object.keys(fields).length > 0) {
+      changes.push({
+        action: 'update',
+        kind: 'template',
+        scope,
+        name: template.name,
+        id: existing.id,
+        fields,
+        input: inputOf(fields),
+      })
+    }
+  }
+
+  if (prune) {
+    const names = new Set(desired.map((template) => lower(template.name)))
+    for (const template of live.filter((candidate) => !names.has(lower(candidate.name)))) {
+      changes.push({action: 'delete', kind: 'template', scope, name: template.name, id: template.id})
+    }
+  }
+
+  return changes
+}
+
+const diffMilestones = (
+  team: CachedTeam,
+  desired: ProjectSpec[],
+  state: WorkspaceState,
+  prune: boolean,
+): WorkspaceChange[] => {
+  checkUnique(
+    desired.map((project) => project.name),
+    'project',
+    team.key,
+  )
+
+  return desired.flatMap((projectSpec) => {
+    const project = state.projects.find(
+      (candidate) => candidate.teamId === team.id && lower(candidate.name) === lower(projectSpec.name),
+    )
+    if (!project) {
+      throw new CliError(ErrorCodes.NOT_FOUND, `Project "${projectSpec.name}" not found in team ${team.key}`)
+    }
+
+    const scope = `${team.key}/${project.name}`
+    const live = state.milestones.filter((milestone) => milestone.projectId === project.id)
+    const liveByName = new Map(live.map((milestone) => [lower(milestone.name), milestone]))
+    checkUnique(
+      projectSpec.milestones.map((milestone) => milestone.name),
+      'milestone',
+      scope,
+    )
+
+    const changes: WorkspaceChange[] = []
+    for (const milestone of projectSpec.milestones) {
+      const existing = liveByName.get(lower(milestone.name))
+      if (!existing) {
+        changes.push({
+          action: 'create',
+          kind: 'milestone',
+          scope,
+          name: milestone.name,
+          input: {...milestone, projectId: project.id},
+        })
+        continue
+      }
+
+      const fields = diffFields(
+        existing,
+        {description: milestone.description, targetDate: milestone.targetDate},
+        (_field, a, b) => (a ?? '') === b,
+      )
+      if (Object.keys(fields).length > 0) {
+        changes.push({
+          action: 'update',
+          kind: 'milestone',
+          scope,
+          name: milestone.name,
+          id: existing.id,
+          fields,
+          input: inputOf(fields),
+        })
+      }
+    }
+
+    if (prune) {
+      const names = new Set(projectSpec.milestones.map((milestone) => lower(milestone.name)))
+      for (const milestone of live.filter((candidate) => !names.has(lower(candidate.name)))) {
+        changes.push({action: 'delete', kind: 'milestone', scope, name: milestone.name, id: milestone.id})
+      }
+    }
+
+    return changes
+  })
+}
+
+/**
+ * Compute the changes that make the workspace match a spec, in the order they must be applied.
+ *
+ * @param options.prune - Delete labels, templates and milestones, and archive states, missing from the spec
+ */
+export const diffWorkspace = (
+  spec: WorkspaceSpec,
+  state: WorkspaceState,
+  options: {prune: boolean},
+): WorkspaceChange[] => {
+  const changes: WorkspaceChange[] = []
+  if (spec.labels) changes.push(...diffLabels(WORKSPACE_SCOPE, null, spec.labels, state, options.prune))
+  if (spec.templates) changes.push(...diffTemplates(WORKSPACE_SCOPE, null, spec.templates, state, options.prune))
+
+  for (const teamSpec of spec.teams ?? []) {
+    const team = state.teams.find((candidate) => lower(candidate.key) === lower(teamSpec.key))
+    if (!team) throw new CliError(ErrorCodes.NOT_FOUND, `Team with key "${teamSpec.key}" not found`)
+
+    if (teamSpec.states) changes.push(...diffStates(team, teamSpec.states, state, options.prune))
+    if (teamSpec.labels) changes.push(...diffLabels(team.key, team.id, teamSpec.labels, state, options.prune))
+    if (teamSpec.templates) {
+      changes.push(...diffTemplates(team.key, team.id, teamSpec.templates, state, options.prune))
+    }
+    if (teamSpec.projects) changes.push(...diffMilestones(team, teamSpec.projects, state, options.prune))
+  }
+
+  return changes
+}
+
+/**
+ * Count changes by action.
+ */
+export const summarizeChanges = (changes: WorkspaceChange[]): Record<WorkspaceChange['action'], number> => ({
+  create: changes.filter((change) => change.action === 'create').length,
+  update: changes.filter((change) => change.action === 'update').length,
+  delete: changes.filter((change) => change.action === 'delete').length,
+})
+
+/**
+ * Short label for a change in progress output, e.g. "create label ENG/Bug".
+ */
+export const getChangeLabel = (change: WorkspaceChange): string =>
+  `${change.action} ${change.kind} ${change.scope}/${change.name}`
+
+const MUTATION_PREFIXES: Record<WorkspaceChangeKind, string> = {
+  state: 'workflowState',
+  label: 'issueLabel',
+  template: 'template',
+  milestone: 'projectMilestone',
+}
+
+/**
+ * Describe the mutation a change sends, for --dry-run.
+ */
+export const toDryRunOperation = (change: WorkspaceChange): DryRunOperation => {
+  // Workflow states cannot be deleted, only archived
+  const verb = change.kind === 'state' && change.action === 'delete' ? 'archive' : change.action
+  const action = verb[0].toUpperCase() + verb.slice(1)
+  return {
+    mutation: `${MUTATION_PREFIXES[change.kind]}${action}`,
+    variables: {
+      ...(change.id && {id: change.id}),
+      ...(change.input && {input: change.input}),
+      ...(change.group && {group: change.group}),
+    },
+    ...(change.id && {target: {entity: change.kind, id: change.id, name: `${change.scope}/${change.name}`}}),
+  }
+}
+
+/**
+ * Apply one change.
+ *
+ * @param createdGroups - IDs of label groups created by earlier changes, keyed by scope/name
+ * @returns ID of the created, updated or deleted entity
+ */
+export const applyWorkspaceChange = async (
+  client: LinearClient,
+  change: WorkspaceChange,
+  createdGroups: Map<string, string>,
+): Promise<string> => {
+  const input = {...change.input}
+  if (change.group) {
+    const parentId = createdGroups.get(`${change.scope}/${change.group}`)
+    if (!parentId) throw new CliError(ErrorCodes.API_ERROR, `Label group "${change.group}" was not created`)
+    input.parentId = parentId
+  }
+
+  if (change.action === 'delete') {
+    const id = change.id!
+    const payload =
+      change.kind === 'state'
+        ? await client.archiveWorkflowState(id)
+        : change.kind === 'label'
+          ? await client.deleteIssueLabel(id)
+          : change.kind === 'template'
+            ? await client.deleteTemplate(id)
+            : await client.deleteProjectMilestone(id)
+    if (!payload.success) throw new CliError(ErrorCodes.API_ERROR, `Failed to delete ${change.kind}`)
+    return id
+  }
+
+  let id: string | undefined
+  if (change.kind === 'state') {
+    const payload =
+      change.action === 'create'
+        ? await client.createWorkflowState(input as LinearDocument.WorkflowStateCreateInput)
+        : await client.updateWorkflowState(change.id!, input as LinearDocument.WorkflowStateUpdateInput)
+    id = payload.success ? (await payload.workflowState)?.id : undefined
+  } else if (change.kind === 'label') {
+    const payload =
+      change.action === 'create'
+        ? await client.createIssueLabel(input as LinearDocument.IssueLabelCreateInput)
+        : await client.updateIssueLabel(change.id!, input as LinearDocument.IssueLabelUpdateInput)
+    id = payload.success ? (await payload.issueLabel)?.id : undefined
+    if (id && change.action === 'create' && input.isGroup) createdGroups.set(`${change.scope}/${change.name}`, id)
+  } else if (change.kind === 'template') {
+    const payload =
+      change.action === 'create'
+        ? await client.createTemplate(input as LinearDocument.TemplateCreateInput)
+        : await client.updateTemplate(change.id!, input as LinearDocument.TemplateUpdateInput)
+    id = payload.success ? (await payload.template)?.id : undefined
+  } else {
+    const payload =
+      change.action === 'create'
+        ? await client.createProjectMilestone(input as LinearDocument.ProjectMilestoneCreateInput)
+        : await client.updateProjectMilestone(change.id!, input as LinearDocument.ProjectMilestoneUpdateInput)
+    id = payload.success ? (await payload.projectMilestone)?.id : undefined
+  }
+
+  if (!id) throw new CliError(ErrorCodes.API_ERROR, `Failed to ${change.action} ${change.kind}`)
+  return id
+}